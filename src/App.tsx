@@ -5,6 +5,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, useLocation } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { LocaleProvider } from "@/contexts/LocaleContext";
 import { UpgradeModalProvider } from "@/contexts/UpgradeModalContext";
 import { AuthGuard } from "@/components/AuthGuard";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
@@ -57,43 +58,45 @@ const App = () => {
 
   return (
     <ErrorBoundary>
-      <QueryClientProvider client={queryClient}>
-        <AuthProvider>
-          <UpgradeModalProvider>
-            <TooltipProvider>
-            <Toaster />
-            <Sonner />
-            <DebugToggle />
-            <EmergencyDebugActivator />
-            <BrowserRouter>
-              <RouteLogger />
-              <Routes>
-                <Route
-                  path="/"
-                  element={
-                    <AuthGuard>
-                      <Index />
-                    </AuthGuard>
-                  }
-                />
-                <Route path="/auth" element={<Auth />} />
-                <Route path="/login" element={<Login />} />
-                <Route path="/register" element={<Register />} />
-                <Route path="/reset-password" element={<ResetPassword />} />
-                <Route 
-                  path="/profile" 
-                  element={
-                    <AuthGuard>
-                      <Profile />
-                    </AuthGuard>
-                  } 
-                />
-              </Routes>
-            </BrowserRouter>
-            </TooltipProvider>
-          </UpgradeModalProvider>
-        </AuthProvider>
-      </QueryClientProvider>
+      <LocaleProvider>
+        <QueryClientProvider client={queryClient}>
+          <AuthProvider>
+            <UpgradeModalProvider>
+              <TooltipProvider>
+              <Toaster />
+              <Sonner />
+              <DebugToggle />
+              <EmergencyDebugActivator />
+              <BrowserRouter>
+                <RouteLogger />
+                <Routes>
+                  <Route
+                    path="/"
+                    element={
+                      <AuthGuard>
+                        <Index />
+                      </AuthGuard>
+                    }
+                  />
+                  <Route path="/auth" element={<Auth />} />
+                  <Route path="/login" element={<Login />} />
+                  <Route path="/register" element={<Register />} />
+                  <Route path="/reset-password" element={<ResetPassword />} />
+                  <Route 
+                    path="/profile" 
+                    element={
+                      <AuthGuard>
+                        <Profile />
+                      </AuthGuard>
+                    } 
+                  />
+                </Routes>
+              </BrowserRouter>
+              </TooltipProvider>
+            </UpgradeModalProvider>
+          </AuthProvider>
+        </QueryClientProvider>
+      </LocaleProvider>
     </ErrorBoundary>
   );
 };
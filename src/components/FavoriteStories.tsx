@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo } from "react";
 import { motion } from "framer-motion";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Button } from "@/components/ui/button";
@@ -8,12 +8,43 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useUpgradeModal } from "@/contexts/UpgradeModalContext";
 import { useFavoriteStories } from "@/hooks/useFavoriteStories";
 import { useToastNotifications } from "@/hooks/useToastNotifications";
+import { useLocale } from "@/hooks/useLocale";
+import { useStorySeries } from "@/hooks/useStorySeries";
+import { SeriesBookshelf } from "@/components/series/SeriesBookshelf";
+import { StoryReader } from "@/components/book/StoryReader";
+import { StoryQuiz } from "@/components/quiz/StoryQuiz";
+import { StoryExportMenu } from "@/components/export/StoryExportMenu";
+import { StorySeries } from "@/types/story";
+import { FavoriteStory } from "@/services/favoriteStories";
+import { ExportStory } from "@/utils/storyExport";
+import { getHighlightForms } from "@/utils/sightWordHighlighting";
 
-export const FavoriteStories = () => {
+const toExportStory = (story: FavoriteStory): ExportStory => ({
+  title: story.title,
+  content: story.content,
+  readingLevel: story.reading_level,
+  theme: story.theme,
+  language: story.language,
+});
+
+interface FavoriteStoriesProps {
+  onContinueSeries?: (series: StorySeries) => void;
+}
+
+export const FavoriteStories = ({ onContinueSeries }: FavoriteStoriesProps) => {
   const { isSubscribed, isCheckingSubscription, refreshSubscription } = useAuth();
-  const { stories: favorites, isLoading, deleteStory } = useFavoriteStories();
+  const { stories: savedStories, isLoading, deleteStory, saveLastPage } = useFavoriteStories();
+  const { series, isLoading: isSeriesLoading } = useStorySeries();
+  // Chapters are shown with their series rather than as separate favorites
+  const favorites = savedStories.filter((story) => !story.series_id);
   const { showUpgradeModal } = useUpgradeModal();
   const notifications = useToastNotifications();
+  const { t } = useLocale();
+  // The sight words each story was written with can be printed in bold
+  const collectionForms = useMemo(
+    () => new Set(savedStories.filter((story) => !story.series_id).flatMap((story) => Array.from(getHighlightForms(story.sight_words)))),
+    [savedStories]
+  );
 
   const handleDelete = async (id: string, title: string) => {
     try {
@@ -25,7 +56,7 @@ export const FavoriteStories = () => {
     }
   };
 
-  if (isCheckingSubscription || isLoading) {
+  if (isCheckingSubscription || isLoading || isSeriesLoading) {
     return (
       <div className="flex justify-center items-center py-12">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
@@ -58,7 +89,7 @@ export const FavoriteStories = () => {
     );
   }
 
-  if (favorites.length === 0) {
+  if (favorites.length === 0 && series.length === 0) {
     return (
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -85,8 +116,21 @@ export const FavoriteStories = () => {
           Your Favorite Stories
         </h2>
         <p className="text-gray-600 mt-2">{favorites.length} saved stories</p>
+        {favorites.length > 1 && (
+          <StoryExportMenu
+            title="My Favorite Stories"
+            stories={favorites.map(toExportStory)}
+            description={`${favorites.length} stories`}
+            language={favorites[0].language}
+            sightWordForms={collectionForms}
+            label={t("export.collection")}
+            className="clay-button mt-4"
+          />
+        )}
       </div>
 
+      <SeriesBookshelf series={series} onContinueSeries={onContinueSeries} />
+
       <Accordion type="single" collapsible className="space-y-4">
         {favorites.map((story) => (
           <AccordionItem
@@ -116,14 +160,33 @@ export const FavoriteStories = () => {
               </div>
             </AccordionTrigger>
             <AccordionContent className="px-6 pb-6">
-              <div className="prose prose-lg max-w-none mb-4">
-                {story.content.split("\n").map((paragraph, index) => (
-                  <p key={index} className="mb-4 text-gray-700 leading-relaxed">
-                    {paragraph}
-                  </p>
-                ))}
+              <div className="mb-4">
+                <StoryReader
+                  paragraphs={story.content.split("\n")}
+                  readingLevel={story.reading_level}
+                  language={story.language}
+                  illustrations={story.illustrations}
+                  bilingual={story.bilingual}
+                  initialPage={story.last_page}
+                  onPageChange={(page) => saveLastPage({ id: story.id, page })}
+                />
+                {story.questions && story.questions.length > 0 && (
+                  <StoryQuiz
+                    questions={story.questions}
+                    title={story.title}
+                    language={story.language}
+                    favoriteStoryId={story.id}
+                  />
+                )}
               </div>
-              <div className="flex justify-end">
+              <div className="flex flex-wrap justify-end gap-2">
+                <StoryExportMenu
+                  title={story.title}
+                  stories={[toExportStory(story)]}
+                  language={story.language}
+                  sightWordForms={getHighlightForms(story.sight_words)}
+                  className="h-9 px-3"
+                />
                 <Button
                   variant="outline"
                   size="sm"
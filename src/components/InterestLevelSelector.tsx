@@ -6,6 +6,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { useLocale } from "@/hooks/useLocale";
 
 interface InterestLevelSelectorProps {
   interestLevel: string;
@@ -16,17 +17,19 @@ export const InterestLevelSelector = ({
   interestLevel,
   onInterestLevelChange,
 }: InterestLevelSelectorProps) => {
+  const { t } = useLocale();
+
   return (
     <div className="space-y-2">
-      <label className="text-sm font-medium text-gray-700">Interest Level</label>
+      <label className="text-sm font-medium text-gray-700">{t("storyForm.interestLevel")}</label>
       <Select value={interestLevel} onValueChange={onInterestLevelChange}>
         <SelectTrigger className="w-full">
-          <SelectValue placeholder="Select interest level" />
+          <SelectValue placeholder={t("storyForm.interestLevelPlaceholder")} />
         </SelectTrigger>
         <SelectContent>
-          <SelectItem value="elementary">Elementary (ages 5-8)</SelectItem>
-          <SelectItem value="middle-grade">Middle Grade (ages 9-12)</SelectItem>
-          <SelectItem value="young-adult">Young Adult (ages 13+)</SelectItem>
+          <SelectItem value="elementary">{t("interestLevel.elementary")}</SelectItem>
+          <SelectItem value="middle-grade">{t("interestLevel.middleGrade")}</SelectItem>
+          <SelectItem value="young-adult">{t("interestLevel.youngAdult")}</SelectItem>
         </SelectContent>
       </Select>
     </div>
@@ -5,6 +5,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { STORY_LANGUAGES } from "@/utils/languages";
+import { useLocale } from "@/hooks/useLocale";
 
 interface LanguageSelectorProps {
   language: string;
@@ -15,29 +17,21 @@ export const LanguageSelector = ({
   language,
   onLanguageChange,
 }: LanguageSelectorProps) => {
+  const { t } = useLocale();
+
   return (
     <div className="space-y-2">
-      <label className="text-sm font-medium text-gray-700">Language</label>
+      <label className="text-sm font-medium text-gray-700">{t("storyForm.language")}</label>
       <Select value={language} onValueChange={onLanguageChange}>
         <SelectTrigger className="w-full">
-          <SelectValue placeholder="Select language" />
+          <SelectValue placeholder={t("storyForm.languagePlaceholder")} />
         </SelectTrigger>
         <SelectContent>
-          <SelectItem value="english">English</SelectItem>
-          <SelectItem value="spanish">Spanish (Español)</SelectItem>
-          <SelectItem value="french">French (Français)</SelectItem>
-          <SelectItem value="german">German (Deutsch)</SelectItem>
-          <SelectItem value="italian">Italian (Italiano)</SelectItem>
-          <SelectItem value="portuguese">Portuguese (Português)</SelectItem>
-          <SelectItem value="dutch">Dutch (Nederlands)</SelectItem>
-          <SelectItem value="russian">Russian (Русский)</SelectItem>
-          <SelectItem value="chinese">Chinese (中文)</SelectItem>
-          <SelectItem value="japanese">Japanese (日本語)</SelectItem>
-          <SelectItem value="korean">Korean (한국어)</SelectItem>
-          <SelectItem value="arabic">Arabic (العربية)</SelectItem>
-          <SelectItem value="hindi">Hindi (हिंदी)</SelectItem>
-          <SelectItem value="polish">Polish (Polski)</SelectItem>
-          <SelectItem value="swedish">Swedish (Svenska)</SelectItem>
+          {STORY_LANGUAGES.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
         </SelectContent>
       </Select>
     </div>
@@ -8,6 +8,7 @@ import { Crown, Sparkles, BookOpen, Save, Loader2, CheckCircle2, XCircle } from
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
+import { useLocale } from "@/hooks/useLocale";
 
 declare global {
   namespace JSX {
@@ -30,6 +31,7 @@ interface PremiumUpgradeModalProps {
 export const PremiumUpgradeModal = ({ open, onOpenChange, onSuccess }: PremiumUpgradeModalProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { t } = useLocale();
   const [promoCode, setPromoCode] = useState("");
   const [isValidating, setIsValidating] = useState(false);
   const [validationStatus, setValidationStatus] = useState<"idle" | "success" | "error">("idle");
@@ -72,8 +74,8 @@ export const PremiumUpgradeModal = ({ open, onOpenChange, onSuccess }: PremiumUp
   const handleApplyCode = async () => {
     if (!promoCode.trim()) {
       toast({
-        title: "Error",
-        description: "Please enter a promo code",
+        title: t("upgrade.errorTitle"),
+        description: t("upgrade.promoRequired"),
         variant: "destructive",
       });
       return;
@@ -98,14 +100,14 @@ export const PremiumUpgradeModal = ({ open, onOpenChange, onSuccess }: PremiumUp
           onSuccess();
         }
       } else {
-        throw new Error(data?.error || "Failed to apply code");
+        throw new Error(data?.error || t("upgrade.applyFailed"));
       }
     } catch (error: any) {
       console.error('Promo code validation error:', error);
       setValidationStatus("error");
       toast({
-        title: "Invalid Code",
-        description: error.message || "This promo code is invalid or has expired",
+        title: t("upgrade.invalidCodeTitle"),
+        description: error.message || t("upgrade.invalidCodeDetail"),
         variant: "destructive",
       });
     } finally {
@@ -113,16 +115,20 @@ export const PremiumUpgradeModal = ({ open, onOpenChange, onSuccess }: PremiumUp
     }
   };
 
+  // Split around the placeholders so their values can be set in bold
+  const [promoAppliedBefore, promoAppliedAfter] = t("upgrade.promoApplied").split("{code}");
+  const [promoPromptBefore, promoPromptAfter] = t("upgrade.promoPrompt").split("{offer}");
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[600px] max-h-[85vh]">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 text-2xl">
             <Crown className="h-6 w-6 text-amber-500" />
-            Upgrade to Unlimited
+            {t("upgrade.title")}
           </DialogTitle>
           <DialogDescription>
-            Unlock unlimited access to all features
+            {t("upgrade.description")}
           </DialogDescription>
         </DialogHeader>
 
@@ -132,32 +138,32 @@ export const PremiumUpgradeModal = ({ open, onOpenChange, onSuccess }: PremiumUp
             <div className="flex items-start gap-3 p-3 rounded-lg bg-gradient-to-r from-amber-50 to-yellow-50 border border-amber-200">
               <Sparkles className="h-5 w-5 text-amber-600 mt-0.5 flex-shrink-0" />
               <div>
-                <h4 className="font-semibold text-amber-900">Unlimited Story Generation</h4>
-                <p className="text-sm text-amber-700">Create as many stories as you want, anytime</p>
+                <h4 className="font-semibold text-amber-900">{t("upgrade.unlimitedStories")}</h4>
+                <p className="text-sm text-amber-700">{t("upgrade.unlimitedStoriesDetail")}</p>
               </div>
             </div>
 
             <div className="flex items-start gap-3 p-3 rounded-lg bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-200">
               <BookOpen className="h-5 w-5 text-blue-600 mt-0.5 flex-shrink-0" />
               <div>
-                <h4 className="font-semibold text-blue-900">Unlimited Sight Words</h4>
-                <p className="text-sm text-blue-700">Add as many sight words as you need</p>
+                <h4 className="font-semibold text-blue-900">{t("upgrade.unlimitedWords")}</h4>
+                <p className="text-sm text-blue-700">{t("upgrade.unlimitedWordsDetail")}</p>
               </div>
             </div>
 
             <div className="flex items-start gap-3 p-3 rounded-lg bg-gradient-to-r from-purple-50 to-pink-50 border border-purple-200">
               <Save className="h-5 w-5 text-purple-600 mt-0.5 flex-shrink-0" />
               <div>
-                <h4 className="font-semibold text-purple-900">Saving Stories</h4>
-                <p className="text-sm text-purple-700">Keep your best stories and access them anytime</p>
+                <h4 className="font-semibold text-purple-900">{t("upgrade.savingStories")}</h4>
+                <p className="text-sm text-purple-700">{t("upgrade.savingStoriesDetail")}</p>
               </div>
             </div>
 
             <div className="flex items-start gap-3 p-3 rounded-lg bg-gradient-to-r from-green-50 to-emerald-50 border border-green-200">
               <Sparkles className="h-5 w-5 text-green-600 mt-0.5 flex-shrink-0" />
               <div>
-                <h4 className="font-semibold text-green-900">Early Access to New Features</h4>
-                <p className="text-sm text-green-700">Be the first to try new features as they're released</p>
+                <h4 className="font-semibold text-green-900">{t("upgrade.earlyAccess")}</h4>
+                <p className="text-sm text-green-700">{t("upgrade.earlyAccessDetail")}</p>
               </div>
             </div>
           </div>
@@ -166,16 +172,16 @@ export const PremiumUpgradeModal = ({ open, onOpenChange, onSuccess }: PremiumUp
 
           {/* Section 2: Promo Code Input */}
           <div className="space-y-3 mb-6">
-            <h3 className="font-semibold text-lg">Have a Promo Code?</h3>
+            <h3 className="font-semibold text-lg">{t("upgrade.promoHeading")}</h3>
             
             <div className="p-4 rounded-lg bg-gradient-to-r from-green-50 to-emerald-50 border border-green-200">
               {existingPromoCode ? (
                 <p className="text-sm text-green-800">
-                  You've already applied the promo code <strong>{existingPromoCode}</strong>. Your special pricing is available below!
+                  {promoAppliedBefore}<strong>{existingPromoCode}</strong>{promoAppliedAfter}
                 </p>
               ) : (
                 <p className="text-sm text-green-800">
-                  Enter your promo code to unlock <strong>special pricing</strong> on unlimited access!
+                  {promoPromptBefore}<strong>{t("upgrade.specialPricing")}</strong>{promoPromptAfter}
                 </p>
               )}
             </div>
@@ -188,7 +194,7 @@ export const PremiumUpgradeModal = ({ open, onOpenChange, onSuccess }: PremiumUp
             ) : (
               <div className="space-y-2">
                 <Input
-                  placeholder="Enter promo code"
+                  placeholder={t("upgrade.promoPlaceholder")}
                   value={promoCode}
                   onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
                   disabled={isValidating || validationStatus === "success" || !!existingPromoCode}
@@ -206,8 +212,8 @@ export const PremiumUpgradeModal = ({ open, onOpenChange, onSuccess }: PremiumUp
                     <CheckCircle2 className="h-4 w-4" />
                     <span>
                       {existingPromoCode 
-                        ? "Your promo code is active. Enjoy your special pricing below!"
-                        : "Code applied! You will receive a free week before being charged."
+                        ? t("upgrade.promoActive")
+                        : t("upgrade.promoAccepted")
                       }
                     </span>
                   </div>
@@ -216,7 +222,7 @@ export const PremiumUpgradeModal = ({ open, onOpenChange, onSuccess }: PremiumUp
               {validationStatus === "error" && (
                 <div className="flex items-center gap-2 text-red-600 text-sm">
                   <XCircle className="h-4 w-4" />
-                  <span>Invalid or expired code</span>
+                  <span>{t("upgrade.promoInvalid")}</span>
                 </div>
               )}
 
@@ -229,12 +235,12 @@ export const PremiumUpgradeModal = ({ open, onOpenChange, onSuccess }: PremiumUp
                   {isValidating ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Validating...
+                      {t("upgrade.validating")}
                     </>
                   ) : (
                     <>
                       <Sparkles className="mr-2 h-4 w-4" />
-                      Apply Code
+                      {t("upgrade.applyCode")}
                     </>
                   )}
                 </Button>
@@ -248,13 +254,13 @@ export const PremiumUpgradeModal = ({ open, onOpenChange, onSuccess }: PremiumUp
           {/* Section 3: Dynamic Pricing Table */}
           <div className="space-y-3">
             <h3 className="font-semibold text-lg">
-              {showCodePricingTable ? "Special Offer" : "Subscribe to Unlimited"}
+              {showCodePricingTable ? t("upgrade.specialOffer") : t("upgrade.subscribe")}
             </h3>
             
             {showCodePricingTable ? (
               <>
                 <p className="text-sm text-muted-foreground">
-                  You get a free week!
+                  {t("upgrade.freeWeek")}
                 </p>
                 <div style={{ minHeight: '400px', pointerEvents: 'auto' }}>
                   <stripe-pricing-table 
@@ -268,7 +274,7 @@ export const PremiumUpgradeModal = ({ open, onOpenChange, onSuccess }: PremiumUp
             ) : (
               <>
                 <p className="text-sm text-muted-foreground">
-                  Choose your plan below. Have a promo code? Enter it above for special pricing!
+                  {t("upgrade.choosePlan")}
                 </p>
                 <div style={{ minHeight: '400px', pointerEvents: 'auto' }}>
                   <stripe-pricing-table 
@@ -0,0 +1,68 @@
+import { CheckCircle2, AlertCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { ReadabilityReport } from "@/types/story";
+import { getReadingLevelLabel } from "@/utils/readingLevelGuidelines";
+
+interface ReadabilitySummaryProps {
+  readability: ReadabilityReport;
+  readingLevel?: string;
+}
+
+export const ReadabilitySummary = ({ readability, readingLevel }: ReadabilitySummaryProps) => {
+  const levelLabel = readingLevel ? getReadingLevelLabel(readingLevel) : "the selected level";
+  const [minWords, maxWords] = readability.targetWordRange;
+  const [minSentence, maxSentence] = readability.targetSentenceLength;
+  const countsCharacters = readability.unit === "characters";
+
+  return (
+    <div className="mb-6 p-4 rounded-lg bg-gray-50 border border-gray-200 text-sm text-gray-700">
+      <div className="flex items-center gap-2 mb-3 font-semibold">
+        {readability.withinBand ? (
+          <>
+            <CheckCircle2 className="w-4 h-4 text-green-600" />
+            Checked for {levelLabel}
+          </>
+        ) : (
+          <>
+            <AlertCircle className="w-4 h-4 text-amber-600" />
+            Slightly outside the {levelLabel} range
+          </>
+        )}
+        {readability.adjustment === "trimmed" && (
+          <Badge variant="outline" className="font-normal">Shortened to fit</Badge>
+        )}
+        {readability.adjustment === "regenerated" && (
+          <Badge variant="outline" className="font-normal">Rewritten to fit</Badge>
+        )}
+      </div>
+      <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <div>
+          <dt className="text-xs text-gray-500">{countsCharacters ? "Characters" : "Words"}</dt>
+          <dd className="font-medium">
+            {countsCharacters ? readability.characterCount : readability.wordCount}
+            <span className="text-xs text-gray-500"> (target {minWords}-{maxWords})</span>
+          </dd>
+        </div>
+        <div>
+          <dt className="text-xs text-gray-500">{countsCharacters ? "Characters" : "Words"} per sentence</dt>
+          <dd className="font-medium">
+            {readability.averageSentenceLength}
+            <span className="text-xs text-gray-500"> (target {minSentence}-{maxSentence})</span>
+          </dd>
+        </div>
+        {readability.fleschKincaidGrade !== null && (
+          <div>
+            <dt className="text-xs text-gray-500">Flesch-Kincaid grade</dt>
+            <dd className="font-medium">{readability.fleschKincaidGrade}</dd>
+          </div>
+        )}
+        {readability.daleChallScore !== null && (
+          <div>
+            <dt className="text-xs text-gray-500">Dale-Chall score</dt>
+            <dd className="font-medium">{readability.daleChallScore}</dd>
+          </div>
+        )}
+      </dl>
+    </div>
+  );
+};
@@ -5,6 +5,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { useLocale } from "@/hooks/useLocale";
 
 interface ReadingLevelSelectorProps {
   readingLevel: string;
@@ -15,21 +16,23 @@ export const ReadingLevelSelector = ({
   readingLevel,
   onReadingLevelChange,
 }: ReadingLevelSelectorProps) => {
+  const { t } = useLocale();
+
   return (
     <div className="space-y-2">
-      <label className="text-sm font-medium text-gray-700">Reading Level</label>
+      <label className="text-sm font-medium text-gray-700">{t("storyForm.readingLevel")}</label>
       <Select value={readingLevel} onValueChange={onReadingLevelChange}>
         <SelectTrigger className="w-full">
-          <SelectValue placeholder="Select grade level" />
+          <SelectValue placeholder={t("storyForm.readingLevelPlaceholder")} />
         </SelectTrigger>
         <SelectContent>
-          <SelectItem value="k">Kindergarten</SelectItem>
-          <SelectItem value="1">1st Grade</SelectItem>
-          <SelectItem value="2">2nd Grade</SelectItem>
-          <SelectItem value="3">3rd Grade</SelectItem>
-          <SelectItem value="4">4th Grade</SelectItem>
-          <SelectItem value="5">5th Grade</SelectItem>
-          <SelectItem value="teen">Teen</SelectItem>
+          <SelectItem value="k">{t("readingLevel.k")}</SelectItem>
+          <SelectItem value="1">{t("readingLevel.1")}</SelectItem>
+          <SelectItem value="2">{t("readingLevel.2")}</SelectItem>
+          <SelectItem value="3">{t("readingLevel.3")}</SelectItem>
+          <SelectItem value="4">{t("readingLevel.4")}</SelectItem>
+          <SelectItem value="5">{t("readingLevel.5")}</SelectItem>
+          <SelectItem value="teen">{t("readingLevel.teen")}</SelectItem>
         </SelectContent>
       </Select>
     </div>
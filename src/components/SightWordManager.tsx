@@ -1,20 +1,60 @@
 import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, Library, Upload } from "lucide-react";
 import { useToastNotifications } from "@/hooks/useToastNotifications";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
-import { SightWord } from "@/types/sightWords";
+import { useUpgradeModal } from "@/contexts/UpgradeModalContext";
+import { useChildProfiles } from "@/hooks/useChildProfiles";
+import { SightWordLists } from "@/hooks/useSightWordLists";
+import { SightWord, SightWordList } from "@/types/sightWords";
+import { nextMastery } from "@/utils/sightWordMastery";
+import { ImportedWord, downloadFile, wordsToCsv, wordsToJson } from "@/utils/sightWordImport";
 import { WordGrid } from "./sight-words/WordGrid";
+import { WordListSelector } from "./sight-words/WordListSelector";
+import { WordLibraryDialog } from "./sight-words/WordLibraryDialog";
+import { WordImportDialog } from "./sight-words/WordImportDialog";
 import { AddWordForm } from "./sight-words/AddWordForm";
 import { BulkActions } from "./sight-words/BulkActions";
 import { UpgradePrompt } from "./sight-words/UpgradePrompt";
 
 interface SightWordManagerProps {
-  words: SightWord[];
-  setWords: (words: SightWord[]) => void;
-  isExternalLoading?: boolean;
+  wordLists: SightWordLists;
 }
 
-export const SightWordManager = ({ words, setWords, isExternalLoading = false }: SightWordManagerProps) => {
+export const SightWordManager = ({ wordLists }: SightWordManagerProps) => {
+  const {
+    lists,
+    selectedList,
+    selectList,
+    words,
+    isLoading,
+    createList,
+    updateList,
+    deleteList,
+    addWords,
+    updateWords,
+    deleteWords,
+  } = wordLists;
+  const { profiles } = useChildProfiles();
+  const { showUpgradeModal } = useUpgradeModal();
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Set when the server turns words away because of the free limit
+  const [hitWordLimit, setHitWordLimit] = useState(false);
+
+  // Suggest library bands from the list's reader, or else the level last used for a story
+  const listProfile = profiles.find(profile => profile.id === selectedList?.child_profile_id);
+  const readerLevel = listProfile?.reading_level ?? localStorage.getItem('storyForm_readingLevel');
+  // Offer the word libraries for the language stories are written in
+  const storyLanguage = localStorage.getItem('storyForm_language');
   const [isSubscribed, setIsSubscribed] = useState(false);
   const [isCheckingOut, setIsCheckingOut] = useState(false);
   const { user } = useAuth();
@@ -22,6 +62,10 @@ export const SightWordManager = ({ words, setWords, isExternalLoading = false }:
 
   const activeCount = words.filter(word => word.active).length;
   const totalCount = words.length;
+  // The server enforces the limit; this only keeps the upgrade prompt in view
+  const atWordLimit = !isSubscribed && (hitWordLimit || words.length >= 3);
+  // Ignore selected words that have since been deleted or belong to another list
+  const selection = selectedIds.filter(id => words.some(word => word.id === id));
 
   useEffect(() => {
     const checkSubscription = async () => {
@@ -46,8 +90,6 @@ export const SightWordManager = ({ words, setWords, isExternalLoading = false }:
     }
   }, [user]);
 
-  // Words are now loaded by parent component, so we don't need to load them here
-
   const handleCheckout = async () => {
     try {
       setIsCheckingOut(true);
@@ -67,29 +109,33 @@ export const SightWordManager = ({ words, setWords, isExternalLoading = false }:
     }
   };
 
-  const saveWords = async (updatedWords: SightWord[]) => {
-    if (!user) return;
+  const handleWordsError = (err: unknown) => {
+    console.error('Error saving sight words:', err);
+    notifications.wordsSaveFailed();
+  };
 
+  // The server skips duplicates and applies the free word limit
+  const handleAddWords = async (newWords: Array<string | ImportedWord>) => {
     try {
-      // Convert SightWord objects to JSONB format
-      const wordsObjects = updatedWords.map(word => ({
-        word: word.word,
-        active: word.active
-      }));
-
-      const { error } = await supabase
-        .from('sight_words')
-        .upsert({
-          user_id: user.id,
-          words_objects: wordsObjects
-        }, {
-          onConflict: 'user_id'
-        });
-
-      if (error) throw error;
+      const { added, duplicates, limitReached } = await addWords(newWords);
+      if (added.length === 1) {
+        notifications.wordAdded();
+      } else if (added.length > 1) {
+        notifications.wordsImported(added.length);
+      } else if (duplicates.length > 0 && !limitReached) {
+        notifications.wordDuplicate();
+      }
+      if (limitReached) {
+        setHitWordLimit(true);
+        notifications.wordLimitReached();
+      }
     } catch (err) {
-      console.error('Error saving sight words:', err);
-      notifications.wordsSaveFailed();
+      if (err instanceof Error && err.message === 'WORD_LIMIT_REACHED') {
+        setHitWordLimit(true);
+        notifications.wordLimitReached();
+        return;
+      }
+      handleWordsError(err);
     }
   };
 
@@ -99,48 +145,114 @@ export const SightWordManager = ({ words, setWords, isExternalLoading = false }:
       return;
     }
 
-    if (!isSubscribed && words.length >= 3) {
-      notifications.wordLimitReached();
-      return;
+    await handleAddWords([newWord]);
+  };
+
+  const handleToggleWord = async (word: SightWord) => {
+    try {
+      await updateWords({ ids: [word.id], changes: { active: !word.active } });
+      notifications.wordToggled(!word.active);
+    } catch (err) {
+      handleWordsError(err);
     }
-    
-    const updatedWords = [...words, { word: newWord, active: true }];
-    setWords(updatedWords);
-    await saveWords(updatedWords);
-    notifications.wordAdded();
   };
 
-  const handleToggleWord = async (index: number) => {
-    const updatedWords = words.map((word, i) => 
-      i === index ? { ...word, active: !word.active } : word
+  const handleCycleMastery = async (word: SightWord) => {
+    try {
+      await updateWords({ ids: [word.id], changes: { mastery: nextMastery(word.mastery) } });
+    } catch (err) {
+      handleWordsError(err);
+    }
+  };
+
+  const handleDeleteWord = async (word: SightWord) => {
+    try {
+      await deleteWords([word.id]);
+      notifications.wordDeleted();
+    } catch (err) {
+      handleWordsError(err);
+    }
+  };
+
+  const handleSetAllActive = async (active: boolean) => {
+    try {
+      await updateWords({ ids: words.map(word => word.id), changes: { active } });
+      if (active) {
+        notifications.allWordsActivated();
+      } else {
+        notifications.allWordsDeactivated();
+      }
+    } catch (err) {
+      handleWordsError(err);
+    }
+  };
+
+  const handleSelectWord = (word: SightWord, selected: boolean) => {
+    setSelectedIds(previous =>
+      selected ? [...previous, word.id] : previous.filter(id => id !== word.id)
     );
-    setWords(updatedWords);
-    await saveWords(updatedWords);
-    notifications.wordToggled(updatedWords[index].active);
   };
 
-  const handleDeleteWord = async (indexToDelete: number) => {
-    const updatedWords = words.filter((_, index) => index !== indexToDelete);
-    setWords(updatedWords);
-    await saveWords(updatedWords);
-    notifications.wordDeleted();
+  const handleSetSelectedActive = async (active: boolean) => {
+    try {
+      await updateWords({ ids: selection, changes: { active } });
+      notifications.selectedWordsUpdated(selection.length, active);
+      setSelectedIds([]);
+    } catch (err) {
+      handleWordsError(err);
+    }
+  };
+
+  const handleDeleteSelected = async () => {
+    try {
+      await deleteWords(selection);
+      notifications.selectedWordsDeleted(selection.length);
+      setSelectedIds([]);
+    } catch (err) {
+      handleWordsError(err);
+    }
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const baseName = (selectedList?.name ?? 'sight-words').replace(/[^\w-]+/g, '-').toLowerCase();
+    if (format === 'csv') {
+      downloadFile(wordsToCsv(words), `${baseName}.csv`, 'text/csv');
+    } else {
+      downloadFile(wordsToJson(selectedList?.name ?? '', words), `${baseName}.json`, 'application/json');
+    }
   };
 
-  const handleSelectAll = async () => {
-    const updatedWords = words.map(word => ({ ...word, active: true }));
-    setWords(updatedWords);
-    await saveWords(updatedWords);
-    notifications.allWordsActivated();
+  const handleCreateList = async (list: { name: string; child_profile_id: string | null }) => {
+    try {
+      await createList(list);
+      notifications.wordListSaved(list.name);
+    } catch (err) {
+      console.error('Error creating word list:', err);
+      notifications.wordListSaveFailed();
+    }
   };
 
-  const handleDeselectAll = async () => {
-    const updatedWords = words.map(word => ({ ...word, active: false }));
-    setWords(updatedWords);
-    await saveWords(updatedWords);
-    notifications.allWordsDeactivated();
+  const handleUpdateList = async (list: { id: string; name: string; child_profile_id: string | null }) => {
+    try {
+      await updateList(list);
+      notifications.wordListSaved(list.name);
+    } catch (err) {
+      console.error('Error updating word list:', err);
+      notifications.wordListSaveFailed();
+    }
   };
 
-  if (isExternalLoading) {
+  const handleDeleteList = async (list: SightWordList) => {
+    try {
+      await deleteList(list.id);
+      notifications.wordListDeleted(list.name);
+    } catch (err) {
+      console.error('Error deleting word list:', err);
+      notifications.wordListDeleteFailed();
+    }
+  };
+
+  if (isLoading) {
     return <div className="flex justify-center items-center p-8">Loading sight words...</div>;
   }
 
@@ -151,10 +263,22 @@ export const SightWordManager = ({ words, setWords, isExternalLoading = false }:
           Manage Sight Words
         </h2>
         <p className="text-gray-600 text-center sm:text-left mobile-text">
-          Add words and toggle which ones to focus on in your stories.
+          Add words and toggle which ones to focus on in your stories. Stories favor the words your reader hasn't mastered yet.
         </p>
+
+        <WordListSelector
+          lists={lists}
+          selectedList={selectedList}
+          profiles={profiles}
+          canCreateLists={isSubscribed}
+          onSelectList={selectList}
+          onCreateList={handleCreateList}
+          onUpdateList={handleUpdateList}
+          onDeleteList={handleDeleteList}
+          onUpgrade={() => showUpgradeModal(handleCheckout)}
+        />
         
-        {!isSubscribed && words.length >= 3 && (
+        {atWordLimit && (
           <UpgradePrompt 
             onUpgrade={handleCheckout}
             isProcessing={isCheckingOut}
@@ -163,22 +287,73 @@ export const SightWordManager = ({ words, setWords, isExternalLoading = false }:
         
         <AddWordForm 
           onAddWord={handleAddWord}
-          disabled={!isSubscribed && words.length >= 3}
+          disabled={atWordLimit}
         />
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => setIsLibraryOpen(true)}>
+            <Library className="w-4 h-4 mr-2" />
+            Browse Dolch &amp; Fry Words
+          </Button>
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={totalCount === 0}>
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuItem onClick={() => handleExport('csv')}>CSV (spreadsheets)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('json')}>JSON</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
       </div>
 
+      {isImportOpen && (
+        <WordImportDialog
+          open
+          onOpenChange={setIsImportOpen}
+          listWords={words}
+          onImport={handleAddWords}
+        />
+      )}
+
+      {isLibraryOpen && (
+        <WordLibraryDialog
+          open
+          onOpenChange={setIsLibraryOpen}
+          listWords={words}
+          readingLevel={readerLevel}
+          language={storyLanguage}
+          onAddWords={handleAddWords}
+        />
+      )}
+
       {totalCount > 0 && (
         <>
           <BulkActions
             activeCount={activeCount}
             totalCount={totalCount}
-            onSelectAll={handleSelectAll}
-            onDeselectAll={handleDeselectAll}
+            selectedCount={selection.length}
+            onSelectAll={() => handleSetAllActive(true)}
+            onDeselectAll={() => handleSetAllActive(false)}
+            onSelectionChange={(selectAll) => setSelectedIds(selectAll ? words.map(word => word.id) : [])}
+            onActivateSelected={() => handleSetSelectedActive(true)}
+            onDeactivateSelected={() => handleSetSelectedActive(false)}
+            onDeleteSelected={handleDeleteSelected}
           />
           
           <WordGrid
             words={words}
+            selectedIds={selection}
+            onSelectWord={handleSelectWord}
             onToggleWord={handleToggleWord}
+            onCycleMastery={handleCycleMastery}
             onDeleteWord={handleDeleteWord}
           />
         </>
@@ -1,27 +1,112 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
-import { Bookmark, BookmarkCheck, Flag, Crown } from "lucide-react";
+import { Bookmark, BookmarkCheck, Flag, Crown, Mic, PenLine, Square } from "lucide-react";
 import { useToastNotifications } from "@/hooks/useToastNotifications";
+import { useLocale } from "@/hooks/useLocale";
 import { ReportDialog } from "./LazyModals";
 import { useAuth } from "@/contexts/AuthContext";
 import { useUpgradeModal } from "@/contexts/UpgradeModalContext";
 import { useFavoriteStories } from "@/hooks/useFavoriteStories";
+import { SightWordLists } from "@/hooks/useSightWordLists";
+import {
+  BilingualText,
+  ComprehensionQuestion,
+  ReadabilityReport,
+  RevisionAction,
+  SightWordCoverage,
+  StoryCharacter,
+  StoryIllustrations,
+  StoryResponse,
+} from "@/types/story";
+import { getHighlightForms } from "@/utils/sightWordHighlighting";
+import { isRightToLeft } from "@/utils/languages";
+import { ReadabilitySummary } from "./ReadabilitySummary";
+import { CoverageSummary } from "./sight-words/CoverageSummary";
+import { StoryRevisionBar } from "./StoryRevisionBar";
+import { StoryReader } from "./book/StoryReader";
+import { WordHelpDialog } from "./word-help/WordHelpDialog";
+import { ReadingCheckDialog } from "./fluency/ReadingCheckDialog";
+import { StoryQuiz } from "./quiz/StoryQuiz";
+import { StoryExportMenu } from "./export/StoryExportMenu";
 
 interface StoryDisplayProps {
   title: string;
   content: string;
   readingLevel?: string;
   theme?: string;
+  language?: string;
+  summary?: string;
+  characters?: StoryCharacter[];
+  readability?: ReadabilityReport;
+  sightWords?: SightWordCoverage;
+  isStreaming?: boolean;
+  streamStatus?: string | null;
+  onCancel?: () => void;
+  length?: string;
+  /** History id; revisions are only offered for stories in the history */
+  storyId?: string;
+  versionIndex?: number;
+  versionCount?: number;
+  onSelectVersion?: (index: number) => void;
+  onRevise?: (action: RevisionAction) => void;
+  series?: StoryResponse["series"];
+  onContinueSeries?: () => void;
+  /** Lets the reader add tapped words to their sight word list */
+  wordLists?: SightWordLists;
+  questions?: ComprehensionQuestion[];
+  /** Picture book pages, when the story was illustrated */
+  illustrations?: StoryIllustrations;
+  /** Sentence-by-sentence translation, for bilingual stories */
+  bilingual?: BilingualText;
+  /** The reader the story was written for; quiz results are kept for them */
+  childProfileId?: string;
 }
 
-export const StoryDisplay = ({ title, content, readingLevel, theme }: StoryDisplayProps) => {
+export const StoryDisplay = ({
+  title,
+  content,
+  readingLevel,
+  theme,
+  language,
+  summary,
+  characters = [],
+  readability,
+  sightWords,
+  isStreaming = false,
+  streamStatus,
+  onCancel,
+  length,
+  storyId,
+  versionIndex = 0,
+  versionCount = 1,
+  onSelectVersion,
+  onRevise,
+  series,
+  onContinueSeries,
+  wordLists,
+  questions = [],
+  illustrations,
+  bilingual,
+  childProfileId,
+}: StoryDisplayProps) => {
   const [isSaved, setIsSaved] = useState(false);
   const [showReportDialog, setShowReportDialog] = useState(false);
+  const [showReadingCheck, setShowReadingCheck] = useState(false);
+  const [highlightSightWords, setHighlightSightWords] = useState(true);
+  const [tappedWord, setTappedWord] = useState<{ word: string; sentence: string } | null>(null);
   const { isSubscribed, isCheckingSubscription, refreshSubscription } = useAuth();
   const { saveStory, isSaving } = useFavoriteStories();
   const { showUpgradeModal } = useUpgradeModal();
   const notifications = useToastNotifications();
+  const { t } = useLocale();
+  const paragraphs = content.split("\n");
+  const textDir = isRightToLeft(language) ? "rtl" : undefined;
+  const highlightForms = useMemo(
+    () => (highlightSightWords && !isStreaming ? getHighlightForms(sightWords) : new Set<string>()),
+    [highlightSightWords, isStreaming, sightWords]
+  );
+  const sightWordForms = useMemo(() => getHighlightForms(sightWords), [sightWords]);
 
   const handleSaveToFavorites = async () => {
     if (!readingLevel || !theme) {
@@ -35,6 +120,11 @@ export const StoryDisplay = ({ title, content, readingLevel, theme }: StoryDispl
         content,
         reading_level: readingLevel,
         theme,
+        language,
+        sight_words: sightWords,
+        questions: questions.length > 0 ? questions : undefined,
+        illustrations,
+        bilingual,
       });
       setIsSaved(true);
       notifications.storySaved();
@@ -61,62 +151,204 @@ export const StoryDisplay = ({ title, content, readingLevel, theme }: StoryDispl
       <div className="text-center mb-8">
         <div className="mb-4">
           <div className="text-center mb-4">
-            <h2 className="text-4xl font-bold bg-gradient-to-r from-purple-600 via-pink-600 to-blue-600 bg-clip-text text-transparent mb-2">
-              {title}
+            {series && (
+              <p className="text-sm font-semibold uppercase tracking-wide text-purple-600 mb-1">
+                {t("story.chapter", { series: series.title, number: series.chapterNumber })}
+              </p>
+            )}
+            <h2 dir={textDir} className="text-4xl font-bold bg-gradient-to-r from-purple-600 via-pink-600 to-blue-600 bg-clip-text text-transparent mb-2">
+              {title || (isStreaming ? t("story.onceUponATime") : "")}
             </h2>
             <div className="w-24 h-1 bg-gradient-to-r from-purple-400 to-pink-400 rounded-full mx-auto"></div>
+            {summary && !isStreaming && (
+              <p dir={textDir} className="mt-4 text-gray-600 italic">{summary}</p>
+            )}
           </div>
-          <div className="flex flex-col sm:flex-row gap-3 justify-center items-center">
-            {isCheckingSubscription ? (
-              <div className="h-10 w-40 bg-gray-200 animate-pulse rounded-md" />
-            ) : isSubscribed ? (
+          {isStreaming ? (
+            <div className="flex flex-col sm:flex-row gap-3 justify-center items-center">
+              <span className="text-sm text-gray-500 animate-pulse">{streamStatus || t("story.writing")}</span>
+              {onCancel && (
+                <Button
+                  onClick={onCancel}
+                  variant="outline"
+                  className="clay-button w-full sm:w-auto"
+                >
+                  <Square className="w-4 h-4 mr-2" />
+                  {t("story.stop")}
+                </Button>
+              )}
+            </div>
+          ) : (
+            <div className="flex flex-col sm:flex-row gap-3 justify-center items-center">
+              {isCheckingSubscription ? (
+                <div className="h-10 w-40 bg-gray-200 animate-pulse rounded-md" />
+              ) : isSubscribed ? (
+                <Button
+                  onClick={handleSaveToFavorites}
+                  disabled={isSaving || isSaved}
+                  variant="outline"
+                  className="clay-button w-full sm:w-auto"
+                >
+                  {isSaved ? (
+                    <>
+                      <BookmarkCheck className="w-4 h-4 mr-2 text-green-600" />
+                      {t("story.saved")}
+                    </>
+                  ) : (
+                    <>
+                      <Bookmark className="w-4 h-4 mr-2" />
+                      {isSaving ? t("story.saving") : t("story.saveToFavorites")}
+                    </>
+                  )}
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => showUpgradeModal(refreshSubscription)}
+                  variant="outline"
+                  className="clay-button w-full sm:w-auto bg-gradient-to-r from-amber-500 to-yellow-500 hover:from-amber-600 hover:to-yellow-600 text-white border-0"
+                >
+                  <Crown className="w-4 h-4 mr-2" />
+                  {t("story.upgrade")}
+                </Button>
+              )}
+              
+              {isSubscribed && onContinueSeries && storyId && (
+                <Button
+                  onClick={onContinueSeries}
+                  variant="outline"
+                  className="clay-button w-full sm:w-auto"
+                >
+                  <PenLine className="w-4 h-4 mr-2" />
+                  {series ? t("story.writeChapter", { number: series.chapterNumber + 1 }) : t("story.continueSeries")}
+                </Button>
+              )}
+
               <Button
-                onClick={handleSaveToFavorites}
-                disabled={isSaving || isSaved}
+                onClick={() => setShowReadingCheck(true)}
                 variant="outline"
                 className="clay-button w-full sm:w-auto"
               >
-                {isSaved ? (
-                  <>
-                    <BookmarkCheck className="w-4 h-4 mr-2 text-green-600" />
-                    Saved!
-                  </>
-                ) : (
-                  <>
-                    <Bookmark className="w-4 h-4 mr-2" />
-                    {isSaving ? "Saving..." : "Save to Favorites"}
-                  </>
-                )}
+                <Mic className="w-4 h-4 mr-2" />
+                {t("story.readingCheck")}
               </Button>
-            ) : (
+
+              <StoryExportMenu
+                title={title}
+                stories={[
+                  {
+                    title,
+                    content,
+                    readingLevel,
+                    theme,
+                    language,
+                    subtitle: series ? t("story.chapter", { series: series.title, number: series.chapterNumber }) : undefined,
+                  },
+                ]}
+                language={language}
+                sightWordForms={sightWordForms}
+                className="clay-button w-full sm:w-auto"
+              />
+
               <Button
-                onClick={() => showUpgradeModal(refreshSubscription)}
+                onClick={() => setShowReportDialog(true)}
                 variant="outline"
-                className="clay-button w-full sm:w-auto bg-gradient-to-r from-amber-500 to-yellow-500 hover:from-amber-600 hover:to-yellow-600 text-white border-0"
+                className="clay-button w-full sm:w-auto border-red-200 hover:border-red-300 hover:bg-red-50 text-red-600"
               >
-                <Crown className="w-4 h-4 mr-2" />
-                Upgrade to Unlimited
+                <Flag className="w-4 h-4 mr-2" />
+                {t("story.report")}
               </Button>
-            )}
-            
-            <Button
-              onClick={() => setShowReportDialog(true)}
-              variant="outline"
-              className="clay-button w-full sm:w-auto border-red-200 hover:border-red-300 hover:bg-red-50 text-red-600"
-            >
-              <Flag className="w-4 h-4 mr-2" />
-              Report Content
-            </Button>
-          </div>
+            </div>
+          )}
         </div>
       </div>
-      <div className="prose prose-lg max-w-none">
-        {content.split("\n").map((paragraph, index) => (
-          <p key={index} className="mb-4 text-gray-700 leading-relaxed text-lg font-medium">
-            {paragraph}
-          </p>
-        ))}
-      </div>
+      {onRevise && onSelectVersion && !isStreaming && (
+        <StoryRevisionBar
+          versionIndex={versionIndex}
+          versionCount={versionCount}
+          onSelectVersion={onSelectVersion}
+          onRevise={onRevise}
+          canRevise={!!storyId}
+          length={length}
+        />
+      )}
+      {readability && !isStreaming && (
+        <ReadabilitySummary readability={readability} readingLevel={readingLevel} />
+      )}
+      {sightWords && sightWords.occurrences.length > 0 && !isStreaming && (
+        <CoverageSummary
+          coverage={sightWords}
+          highlightEnabled={highlightSightWords}
+          onHighlightChange={setHighlightSightWords}
+        />
+      )}
+      {isStreaming ? (
+        <div dir={textDir} className="prose prose-lg max-w-none">
+          {paragraphs.map((paragraph, index) => (
+            <p key={index} className="mb-4 text-gray-700 leading-relaxed text-lg font-medium">
+              {paragraph}
+              {index === paragraphs.length - 1 && (
+                <span className="inline-block w-2 h-5 ml-1 align-middle bg-purple-400 animate-pulse" />
+              )}
+            </p>
+          ))}
+        </div>
+      ) : (
+        <StoryReader
+          illustrations={illustrations}
+          bilingual={bilingual}
+          paragraphs={paragraphs}
+          readingLevel={readingLevel}
+          language={language}
+          highlightForms={highlightForms}
+          paragraphClassName="mb-4 text-gray-700 leading-relaxed text-lg font-medium"
+          onWordTap={(word, sentence) => setTappedWord({ word, sentence })}
+        />
+      )}
+
+      {characters.length > 0 && !isStreaming && (
+        <div className="mt-6 pt-6 border-t border-purple-100">
+          <h3 className="text-lg font-semibold text-gray-800 mb-3">{t("story.characters")}</h3>
+          <ul className="space-y-2">
+            {characters.map((character) => (
+              <li key={character.name} className="text-gray-700">
+                <span className="font-semibold text-purple-700">{character.name}</span>
+                {character.description && <> &ndash; {character.description}</>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {questions.length > 0 && !isStreaming && (
+        <StoryQuiz
+          key={storyId ?? title}
+          questions={questions}
+          title={title}
+          language={language}
+          storyId={storyId}
+          childProfileId={childProfileId}
+        />
+      )}
+
+      <WordHelpDialog
+        word={tappedWord?.word ?? null}
+        sentence={tappedWord?.sentence}
+        language={language}
+        readingLevel={readingLevel}
+        wordLists={wordLists}
+        onClose={() => setTappedWord(null)}
+      />
+
+      {showReadingCheck && (
+        <ReadingCheckDialog
+          open={showReadingCheck}
+          onOpenChange={setShowReadingCheck}
+          title={title}
+          content={content}
+          language={language}
+          storyId={storyId}
+        />
+      )}
 
       <ReportDialog
         open={showReportDialog}
@@ -8,16 +8,25 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToastNotifications } from "@/hooks/useToastNotifications";
+import { useLocale } from "@/hooks/useLocale";
 import { ReadingLevelSelector } from "./ReadingLevelSelector";
 import { InterestLevelSelector } from "./InterestLevelSelector";
 import { ThemeSelector } from "./ThemeSelector";
 import { LanguageSelector } from "./LanguageSelector";
+import { TranslationLanguageSelector } from "./TranslationLanguageSelector";
 import { ThemeLessonSelector } from "./ThemeLessonSelector";
 import { StorySettings } from "./StorySettings";
+import { ChildProfileSelector } from "./child-profiles/ChildProfileSelector";
 import { useLocalStorageBatch } from "@/hooks/useLocalStorageBatch";
+import { useChildProfiles } from "@/hooks/useChildProfiles";
+import { useAuth } from "@/contexts/AuthContext";
+import { ChildProfile } from "@/types/childProfile";
+import { interestLevelForAge } from "@/utils/childProfiles";
+import { hasRhymingVerse } from "@/utils/languages";
 
 interface StoryFormProps {
   onSubmit: (data: StoryFormData) => void;
+  isGenerating?: boolean;
 }
 
 export interface StoryFormData {
@@ -25,24 +34,38 @@ export interface StoryFormData {
   interestLevel: string;
   theme: string;
   language: string;
+  /** Pair every sentence with a translation in this language */
+  secondaryLanguage?: string;
   length: string;
   themeLesson?: string;
   hasThemeLesson: boolean;
-  isDrSeussStyle: boolean;
+  /** Rhyming verse in the language's own style, where the language offers it */
+  isRhymingVerse: boolean;
   useSightWords: boolean;
+  includeQuestions: boolean;
+  /** Illustrate the story as a picture book (Unlimited only) */
+  includeIllustrations: boolean;
+  childProfileId?: string;
 }
 
-export const StoryForm = ({ onSubmit }: StoryFormProps) => {
+export const StoryForm = ({ onSubmit, isGenerating = false }: StoryFormProps) => {
   const [readingLevel, setReadingLevel] = useState("");
   const [interestLevel, setInterestLevel] = useState("");
   const [theme, setTheme] = useState("");
   const [language, setLanguage] = useState("english");
+  const [secondaryLanguage, setSecondaryLanguage] = useState("");
   const [themeLesson, setThemeLesson] = useState("");
   const [hasThemeLesson, setHasThemeLesson] = useState(false);
   const [length, setLength] = useState("");
-  const [isDrSeussStyle, setIsDrSeussStyle] = useState(false);
+  const [isRhymingVerse, setIsRhymingVerse] = useState(false);
   const [useSightWords, setUseSightWords] = useState(true);
+  const [includeQuestions, setIncludeQuestions] = useState(true);
+  const [includeIllustrations, setIncludeIllustrations] = useState(false);
+  const [childProfileId, setChildProfileId] = useState("");
+  const { profiles, isFetched: profilesFetched } = useChildProfiles();
+  const { isSubscribed } = useAuth();
   const notifications = useToastNotifications();
+  const { t } = useLocale();
   
   // Use batched localStorage for better performance
   const { setItem: setLocalStorage } = useLocalStorageBatch();
@@ -53,23 +76,40 @@ export const StoryForm = ({ onSubmit }: StoryFormProps) => {
     const savedInterestLevel = localStorage.getItem('storyForm_interestLevel');
     const savedTheme = localStorage.getItem('storyForm_theme');
     const savedLanguage = localStorage.getItem('storyForm_language');
+    const savedSecondaryLanguage = localStorage.getItem('storyForm_secondaryLanguage');
     const savedThemeLesson = localStorage.getItem('storyForm_themeLesson');
     const savedHasThemeLesson = localStorage.getItem('storyForm_hasThemeLesson');
     const savedLength = localStorage.getItem('storyForm_length');
-    const savedIsDrSeussStyle = localStorage.getItem('storyForm_isDrSeussStyle');
+    // Saved as the English-only Dr. Seuss style before it became rhyming verse
+    const savedIsRhymingVerse = localStorage.getItem('storyForm_isRhymingVerse') ?? localStorage.getItem('storyForm_isDrSeussStyle');
     const savedUseSightWords = localStorage.getItem('storyForm_useSightWords');
+    const savedIncludeQuestions = localStorage.getItem('storyForm_includeQuestions');
+    const savedIncludeIllustrations = localStorage.getItem('storyForm_includeIllustrations');
+    const savedChildProfileId = localStorage.getItem('storyForm_childProfileId');
 
     if (savedReadingLevel) setReadingLevel(savedReadingLevel);
     if (savedInterestLevel) setInterestLevel(savedInterestLevel);
     if (savedTheme) setTheme(savedTheme);
     if (savedLanguage) setLanguage(savedLanguage);
+    if (savedSecondaryLanguage) setSecondaryLanguage(savedSecondaryLanguage);
     if (savedThemeLesson) setThemeLesson(savedThemeLesson);
     if (savedHasThemeLesson) setHasThemeLesson(savedHasThemeLesson === 'true');
     if (savedLength) setLength(savedLength);
-    if (savedIsDrSeussStyle) setIsDrSeussStyle(savedIsDrSeussStyle === 'true');
+    if (savedIsRhymingVerse) setIsRhymingVerse(savedIsRhymingVerse === 'true');
     if (savedUseSightWords) setUseSightWords(savedUseSightWords === 'true');
+    if (savedIncludeQuestions) setIncludeQuestions(savedIncludeQuestions === 'true');
+    if (savedIncludeIllustrations) setIncludeIllustrations(savedIncludeIllustrations === 'true');
+    if (savedChildProfileId) setChildProfileId(savedChildProfileId);
   }, []);
 
+  // Forget a saved reader whose profile has since been removed
+  useEffect(() => {
+    if (profilesFetched && childProfileId && !profiles.some((profile) => profile.id === childProfileId)) {
+      setChildProfileId("");
+      setLocalStorage('storyForm_childProfileId', '');
+    }
+  }, [profiles, profilesFetched, childProfileId, setLocalStorage]);
+
   // Save values to localStorage when they change (batched for performance)
   const handleReadingLevelChange = (value: string) => {
     setReadingLevel(value);
@@ -90,13 +130,23 @@ export const StoryForm = ({ onSubmit }: StoryFormProps) => {
     setLanguage(value);
     setLocalStorage('storyForm_language', value);
     
-    // Reset Dr. Seuss style if changing away from English
-    if (value !== 'english' && isDrSeussStyle) {
-      setIsDrSeussStyle(false);
-      setLocalStorage('storyForm_isDrSeussStyle', 'false');
+    // A story can't be translated into its own language
+    if (value === secondaryLanguage) {
+      handleSecondaryLanguageChange('');
+    }
+
+    // Reset rhyming verse if the new language doesn't offer it
+    if (!hasRhymingVerse(value) && isRhymingVerse) {
+      setIsRhymingVerse(false);
+      setLocalStorage('storyForm_isRhymingVerse', 'false');
     }
   };
 
+  const handleSecondaryLanguageChange = (value: string) => {
+    setSecondaryLanguage(value);
+    setLocalStorage('storyForm_secondaryLanguage', value);
+  };
+
   const handleThemeLessonChange = (value: string) => {
     setThemeLesson(value);
     setLocalStorage('storyForm_themeLesson', value);
@@ -112,9 +162,9 @@ export const StoryForm = ({ onSubmit }: StoryFormProps) => {
     setLocalStorage('storyForm_length', value);
   };
 
-  const handleDrSeussStyleChange = (value: boolean) => {
-    setIsDrSeussStyle(value);
-    setLocalStorage('storyForm_isDrSeussStyle', value.toString());
+  const handleRhymingVerseChange = (value: boolean) => {
+    setIsRhymingVerse(value);
+    setLocalStorage('storyForm_isRhymingVerse', value.toString());
   };
 
   const handleUseSightWordsChange = (value: boolean) => {
@@ -122,6 +172,26 @@ export const StoryForm = ({ onSubmit }: StoryFormProps) => {
     setLocalStorage('storyForm_useSightWords', value.toString());
   };
 
+  const handleIncludeQuestionsChange = (value: boolean) => {
+    setIncludeQuestions(value);
+    setLocalStorage('storyForm_includeQuestions', value.toString());
+  };
+
+  const handleIncludeIllustrationsChange = (value: boolean) => {
+    setIncludeIllustrations(value);
+    setLocalStorage('storyForm_includeIllustrations', value.toString());
+  };
+
+  // Choosing a reader pre-fills the levels from their profile; both can still be changed
+  const handleChildProfileChange = (profile: ChildProfile | null) => {
+    setChildProfileId(profile?.id ?? "");
+    setLocalStorage('storyForm_childProfileId', profile?.id ?? '');
+    if (!profile) return;
+
+    if (profile.reading_level) handleReadingLevelChange(profile.reading_level);
+    if (profile.age) handleInterestLevelChange(interestLevelForAge(profile.age));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!readingLevel || !interestLevel || !theme || !language || !length) {
@@ -137,11 +207,15 @@ export const StoryForm = ({ onSubmit }: StoryFormProps) => {
       interestLevel,
       theme,
       language,
+      secondaryLanguage: secondaryLanguage && secondaryLanguage !== language ? secondaryLanguage : undefined,
       length,
       themeLesson: hasThemeLesson ? themeLesson : undefined,
       hasThemeLesson,
-      isDrSeussStyle,
+      isRhymingVerse,
       useSightWords,
+      includeQuestions,
+      includeIllustrations: includeIllustrations && isSubscribed,
+      childProfileId: childProfileId || undefined,
     });
   };
 
@@ -150,6 +224,12 @@ export const StoryForm = ({ onSubmit }: StoryFormProps) => {
       onSubmit={handleSubmit}
       className="space-y-6 w-full max-w-md mx-auto animate-fade-in"
     >
+      <ChildProfileSelector
+        profiles={profiles}
+        childProfileId={childProfileId}
+        onChildProfileChange={handleChildProfileChange}
+      />
+
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
         <ReadingLevelSelector
           readingLevel={readingLevel}
@@ -174,6 +254,12 @@ export const StoryForm = ({ onSubmit }: StoryFormProps) => {
         />
       </div>
 
+      <TranslationLanguageSelector
+        language={language}
+        secondaryLanguage={secondaryLanguage}
+        onSecondaryLanguageChange={handleSecondaryLanguageChange}
+      />
+
       <ThemeLessonSelector
         enabled={hasThemeLesson}
         themeLesson={themeLesson}
@@ -182,32 +268,38 @@ export const StoryForm = ({ onSubmit }: StoryFormProps) => {
       />
 
       <StorySettings
-        isDrSeussStyle={isDrSeussStyle}
+        isRhymingVerse={isRhymingVerse}
         useSightWords={useSightWords}
+        includeQuestions={includeQuestions}
+        includeIllustrations={includeIllustrations}
+        canIllustrate={isSubscribed}
         language={language}
-        onDrSeussStyleChange={handleDrSeussStyleChange}
+        onRhymingVerseChange={handleRhymingVerseChange}
         onUseSightWordsChange={handleUseSightWordsChange}
+        onIncludeQuestionsChange={handleIncludeQuestionsChange}
+        onIncludeIllustrationsChange={handleIncludeIllustrationsChange}
       />
 
       <div className="space-y-2">
-        <label className="text-sm font-medium text-gray-700">Story Length</label>
+        <label className="text-sm font-medium text-gray-700">{t("storyForm.length")}</label>
         <Select value={length} onValueChange={handleLengthChange}>
           <SelectTrigger className="w-full clay-input">
-            <SelectValue placeholder="Select story length" />
+            <SelectValue placeholder={t("storyForm.lengthPlaceholder")} />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="short">Short</SelectItem>
-            <SelectItem value="medium">Medium</SelectItem>
-            <SelectItem value="long">Long</SelectItem>
+            <SelectItem value="short">{t("storyForm.lengthShort")}</SelectItem>
+            <SelectItem value="medium">{t("storyForm.lengthMedium")}</SelectItem>
+            <SelectItem value="long">{t("storyForm.lengthLong")}</SelectItem>
           </SelectContent>
         </Select>
       </div>
 
       <Button
         type="submit"
+        disabled={isGenerating}
         className="w-full clay-button bg-gradient-to-r from-purple-500 to-pink-500 text-white font-semibold hover:from-purple-600 hover:to-pink-600 min-h-[48px] text-base"
       >
-        Generate Story
+        {isGenerating ? t("storyForm.generating") : t("storyForm.generate")}
       </Button>
     </form>
   );
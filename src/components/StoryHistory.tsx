@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Bookmark, BookmarkCheck, BookOpen, Calendar, Crown, Globe, Layers, Palette, Search } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useUpgradeModal } from "@/contexts/UpgradeModalContext";
+import { useFavoriteStories } from "@/hooks/useFavoriteStories";
+import { StoryHistoryFilters, useStoryHistory } from "@/hooks/useStoryHistory";
+import { useToastNotifications } from "@/hooks/useToastNotifications";
+import { GeneratedStory } from "@/types/story";
+import { getReadingLevelLabel } from "@/utils/readingLevelGuidelines";
+import { REVISION_LABELS } from "@/utils/storyRevisions";
+
+const ALL = "all";
+const SEARCH_DEBOUNCE_MS = 300;
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+interface FilterSelectProps {
+  label: string;
+  value: string | null;
+  options: string[];
+  formatOption: (value: string) => string;
+  onChange: (value: string | null) => void;
+}
+
+const FilterSelect = ({ label, value, options, formatOption, onChange }: FilterSelectProps) => (
+  <Select value={value ?? ALL} onValueChange={(next) => onChange(next === ALL ? null : next)}>
+    <SelectTrigger className="w-full" aria-label={label}>
+      <SelectValue placeholder={label} />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value={ALL}>{`All ${label.toLowerCase()}s`}</SelectItem>
+      {options.map((option) => (
+        <SelectItem key={option} value={option}>
+          {formatOption(option)}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export const StoryHistory = () => {
+  const [searchInput, setSearchInput] = useState("");
+  const [filters, setFilters] = useState<StoryHistoryFilters>({
+    search: "",
+    readingLevel: null,
+    theme: null,
+    language: null,
+  });
+  const { stories, facets, isLoading, isFetching, pageSize } = useStoryHistory(filters);
+  const { isSubscribed, refreshSubscription } = useAuth();
+  const { stories: favorites, saveStory, isSaving } = useFavoriteStories();
+  const { showUpgradeModal } = useUpgradeModal();
+  const notifications = useToastNotifications();
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters((previous) => ({ ...previous, search: searchInput }));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const isFavorite = (story: GeneratedStory) =>
+    favorites.some((favorite) => favorite.title === story.title && favorite.content === story.content);
+
+  const handleSaveToFavorites = (story: GeneratedStory) => {
+    if (!isSubscribed) {
+      showUpgradeModal(refreshSubscription);
+      return;
+    }
+
+    if (isFavorite(story)) {
+      notifications.storyAlreadySaved();
+      return;
+    }
+
+    saveStory(
+      {
+        title: story.title,
+        content: story.content,
+        reading_level: story.reading_level,
+        theme: story.theme,
+        language: story.language,
+        questions: story.questions ?? undefined,
+        illustrations: story.illustrations ?? undefined,
+        bilingual: story.bilingual ?? undefined,
+      },
+      {
+        onSuccess: () => notifications.storySaved(),
+        onError: () => notifications.storySaveFailed(),
+      }
+    );
+  };
+
+  const hasFilters = !!(filters.search || filters.readingLevel || filters.theme || filters.language);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  if (stories.length === 0 && !hasFilters) {
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="text-center py-12"
+      >
+        <div className="text-6xl mb-4">🕰️</div>
+        <h3 className="text-xl font-semibold text-gray-700 mb-2">No Stories Yet</h3>
+        <p className="text-gray-500">
+          Every story you create is kept here, so you can find it again later.
+        </p>
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-4"
+    >
+      <div className="text-center mb-6">
+        <h2 className="text-2xl font-bold bg-gradient-to-r from-purple-600 via-pink-600 to-blue-600 bg-clip-text text-transparent">
+          Story History
+        </h2>
+        <p className="text-gray-600 mt-2">
+          {stories.length >= pageSize ? `Showing your ${pageSize} most recent stories` : `${stories.length} stories`}
+        </p>
+      </div>
+
+      <div className="clay-card p-4 space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <Input
+            value={searchInput}
+            onChange={(event) => setSearchInput(event.target.value)}
+            placeholder="Search titles and story text..."
+            className="pl-9"
+            aria-label="Search stories"
+          />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <FilterSelect
+            label="Reading level"
+            value={filters.readingLevel}
+            options={facets.readingLevels}
+            formatOption={getReadingLevelLabel}
+            onChange={(readingLevel) => setFilters((previous) => ({ ...previous, readingLevel }))}
+          />
+          <FilterSelect
+            label="Genre"
+            value={filters.theme}
+            options={facets.themes}
+            formatOption={capitalize}
+            onChange={(theme) => setFilters((previous) => ({ ...previous, theme }))}
+          />
+          <FilterSelect
+            label="Language"
+            value={filters.language}
+            options={facets.languages}
+            formatOption={capitalize}
+            onChange={(language) => setFilters((previous) => ({ ...previous, language }))}
+          />
+        </div>
+      </div>
+
+      {stories.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">
+          {isFetching ? "Searching..." : "No stories match these filters."}
+        </p>
+      ) : (
+        <Accordion type="single" collapsible className="space-y-4">
+          {stories.map((story) => {
+            const saved = isFavorite(story);
+            return (
+              <AccordionItem
+                key={story.id}
+                value={story.id}
+                className="clay-card border-none"
+              >
+                <AccordionTrigger className="hover:no-underline p-6 pb-4">
+                  <div className="flex flex-col items-start text-left w-full">
+                    <h3 className="text-lg font-semibold text-gray-800 mb-2">
+                      {story.title}
+                    </h3>
+                    <div className="flex flex-wrap gap-2 text-sm text-gray-600">
+                      <div className="flex items-center gap-1">
+                        <BookOpen className="w-4 h-4" />
+                        {getReadingLevelLabel(story.reading_level)}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Palette className="w-4 h-4" />
+                        {capitalize(story.theme)}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Globe className="w-4 h-4" />
+                        {capitalize(story.language)}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Calendar className="w-4 h-4" />
+                        {new Date(story.created_at).toLocaleDateString()}
+                      </div>
+                      {story.version > 1 && (
+                        <div className="flex items-center gap-1">
+                          <Layers className="w-4 h-4" />
+                          Version {story.version}
+                          {story.revision_action && ` · ${REVISION_LABELS[story.revision_action]}`}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent className="px-6 pb-6">
+                  {story.summary && (
+                    <p className="mb-4 text-gray-600 italic">{story.summary}</p>
+                  )}
+                  <div className="prose prose-lg max-w-none mb-4">
+                    {story.content.split("\n").map((paragraph, index) => (
+                      <p key={index} className="mb-4 text-gray-700 leading-relaxed">
+                        {paragraph}
+                      </p>
+                    ))}
+                  </div>
+                  <div className="flex justify-end">
+                    {isSubscribed ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleSaveToFavorites(story)}
+                        disabled={isSaving || saved}
+                      >
+                        {saved ? (
+                          <>
+                            <BookmarkCheck className="w-4 h-4 mr-2 text-green-600" />
+                            In Favorites
+                          </>
+                        ) : (
+                          <>
+                            <Bookmark className="w-4 h-4 mr-2" />
+                            Save to Favorites
+                          </>
+                        )}
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => showUpgradeModal(refreshSubscription)}
+                        className="bg-gradient-to-r from-amber-500 to-yellow-500 hover:from-amber-600 hover:to-yellow-600 text-white border-0"
+                      >
+                        <Crown className="w-4 h-4 mr-2" />
+                        Upgrade to Save
+                      </Button>
+                    )}
+                  </div>
+                </AccordionContent>
+              </AccordionItem>
+            );
+          })}
+        </Accordion>
+      )}
+    </motion.div>
+  );
+};
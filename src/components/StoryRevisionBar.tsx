@@ -0,0 +1,82 @@
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, Feather, MessageCircle, RefreshCw, Scissors, Sparkles } from "lucide-react";
+import { RevisionAction } from "@/types/story";
+import { REVISION_LABELS, canReviseStory } from "@/utils/storyRevisions";
+
+const REVISION_ICONS: Record<RevisionAction, typeof RefreshCw> = {
+  regenerate: RefreshCw,
+  shorter: Scissors,
+  simpler: Feather,
+  "more-dialogue": MessageCircle,
+  "new-ending": Sparkles,
+};
+
+const REVISION_ORDER: RevisionAction[] = ["regenerate", "shorter", "simpler", "more-dialogue", "new-ending"];
+
+interface StoryRevisionBarProps {
+  /** Zero-based index of the version on screen */
+  versionIndex: number;
+  versionCount: number;
+  onSelectVersion: (index: number) => void;
+  onRevise: (action: RevisionAction) => void;
+  /** Revisions need the story to be in the user's history */
+  canRevise: boolean;
+  length?: string;
+}
+
+export const StoryRevisionBar = ({
+  versionIndex,
+  versionCount,
+  onSelectVersion,
+  onRevise,
+  canRevise,
+  length,
+}: StoryRevisionBarProps) => {
+  return (
+    <div className="mb-6 space-y-3">
+      {versionCount > 1 && (
+        <div className="flex items-center justify-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onSelectVersion(versionIndex - 1)}
+            disabled={versionIndex === 0}
+            aria-label="Previous version"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-gray-600">
+            Version {versionIndex + 1} of {versionCount}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onSelectVersion(versionIndex + 1)}
+            disabled={versionIndex === versionCount - 1}
+            aria-label="Next version"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+      <div className="flex flex-wrap justify-center gap-2">
+        {REVISION_ORDER.map((action) => {
+          const Icon = REVISION_ICONS[action];
+          return (
+            <Button
+              key={action}
+              variant="outline"
+              size="sm"
+              onClick={() => onRevise(action)}
+              disabled={!canRevise || !canReviseStory(action, length)}
+              className="clay-button"
+            >
+              <Icon className="w-4 h-4 mr-2" />
+              {REVISION_LABELS[action]}
+            </Button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
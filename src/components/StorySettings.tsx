@@ -1,34 +1,49 @@
 import { Switch } from "@/components/ui/switch";
+import { Crown } from "lucide-react";
+import { getLanguageLabel, hasRhymingVerse } from "@/utils/languages";
+import { useLocale } from "@/hooks/useLocale";
 
 interface StorySettingsProps {
-  isDrSeussStyle: boolean;
+  isRhymingVerse: boolean;
   useSightWords: boolean;
+  includeQuestions: boolean;
+  includeIllustrations: boolean;
+  /** Pictures are an Unlimited feature */
+  canIllustrate: boolean;
   language: string;
-  onDrSeussStyleChange: (checked: boolean) => void;
+  onRhymingVerseChange: (checked: boolean) => void;
   onUseSightWordsChange: (checked: boolean) => void;
+  onIncludeQuestionsChange: (checked: boolean) => void;
+  onIncludeIllustrationsChange: (checked: boolean) => void;
 }
 
 export const StorySettings = ({
-  isDrSeussStyle,
+  isRhymingVerse,
   useSightWords,
+  includeQuestions,
+  includeIllustrations,
+  canIllustrate,
   language,
-  onDrSeussStyleChange,
+  onRhymingVerseChange,
   onUseSightWordsChange,
+  onIncludeQuestionsChange,
+  onIncludeIllustrationsChange,
 }: StorySettingsProps) => {
-  const isDrSeussAvailable = language === 'english';
+  const { t } = useLocale();
+  const isRhymingVerseAvailable = hasRhymingVerse(language);
   return (
     <div className="space-y-4">
-      <div className="flex justify-center gap-8">
-        {isDrSeussAvailable && (
+      <div className="flex flex-wrap justify-center gap-x-8 gap-y-4">
+        {isRhymingVerseAvailable && (
           <div className="space-y-2">
             <label className="text-sm font-medium text-gray-700">
-              Dr. Seuss Writing Style
+              {t("storySettings.rhymingVerse")}
             </label>
             <div className="flex items-center">
               <Switch
-                checked={isDrSeussStyle}
-                onCheckedChange={onDrSeussStyleChange}
-                aria-label="Toggle Dr. Seuss writing style"
+                checked={isRhymingVerse}
+                onCheckedChange={onRhymingVerseChange}
+                aria-label={t("storySettings.rhymingVerseToggle")}
               />
             </div>
           </div>
@@ -36,21 +51,63 @@ export const StorySettings = ({
 
         <div className="space-y-2">
           <label className="text-sm font-medium text-gray-700">
-            Use Sight Words
+            {t("storySettings.useSightWords")}
           </label>
           <div className="flex items-center">
             <Switch
               checked={useSightWords}
               onCheckedChange={onUseSightWordsChange}
-              aria-label="Toggle use of sight words"
+              aria-label={t("storySettings.useSightWordsToggle")}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">
+            {t("storySettings.quizQuestions")}
+          </label>
+          <div className="flex items-center">
+            <Switch
+              checked={includeQuestions}
+              onCheckedChange={onIncludeQuestionsChange}
+              aria-label={t("storySettings.quizQuestionsToggle")}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-1 text-sm font-medium text-gray-700">
+            {t("storySettings.pictureBook")}
+            {!canIllustrate && <Crown className="w-3.5 h-3.5 text-amber-500" aria-label={t("storySettings.unlimitedFeature")} />}
+          </label>
+          <div className="flex items-center">
+            <Switch
+              checked={includeIllustrations && canIllustrate}
+              onCheckedChange={onIncludeIllustrationsChange}
+              disabled={!canIllustrate}
+              aria-label={t("storySettings.pictureBookToggle")}
             />
           </div>
         </div>
       </div>
       
-      {!isDrSeussAvailable && (
+      {canIllustrate && includeIllustrations && (
+        <p className="text-xs text-gray-500 text-center">
+          {t("storySettings.pictureBookQuota")}
+        </p>
+      )}
+
+      {isRhymingVerseAvailable && isRhymingVerse && (
+        <p className="text-xs text-gray-500 text-center">
+          {language === 'english'
+            ? t("storySettings.rhymingVerseEnglish")
+            : t("storySettings.rhymingVerseOther")}
+        </p>
+      )}
+
+      {!isRhymingVerseAvailable && (
         <p className="text-xs text-gray-500 text-center">
-          Dr. Seuss writing style is only available for English stories
+          {t("storySettings.rhymingVerseUnavailable", { language: getLanguageLabel(language) })}
         </p>
       )}
     </div>
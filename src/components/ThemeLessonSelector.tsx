@@ -1,5 +1,6 @@
 import { Switch } from "@/components/ui/switch";
 import { Input } from "@/components/ui/input";
+import { useLocale } from "@/hooks/useLocale";
 
 interface ThemeLessonSelectorProps {
   enabled: boolean;
@@ -14,17 +15,19 @@ export const ThemeLessonSelector = ({
   onEnabledChange,
   onThemeLessonChange,
 }: ThemeLessonSelectorProps) => {
+  const { t } = useLocale();
+
   return (
     <div className="space-y-3">
       <div className="space-y-2">
         <label className="text-sm font-medium text-gray-700">
-          Add Theme/Lesson
+          {t("storyForm.addThemeLesson")}
         </label>
         <div className="flex items-center">
           <Switch
             checked={enabled}
             onCheckedChange={onEnabledChange}
-            aria-label="Toggle theme/lesson"
+            aria-label={t("storyForm.themeLessonToggle")}
           />
         </div>
       </div>
@@ -32,11 +35,11 @@ export const ThemeLessonSelector = ({
       {enabled && (
         <div className="space-y-2">
           <label className="text-sm font-medium text-gray-600">
-            Theme or Lesson Focus
+            {t("storyForm.themeLessonFocus")}
           </label>
           <Input
             type="text"
-            placeholder="Enter a theme, lesson, or topic (e.g., 'sharing with friends', 'overcoming fears', 'learning about colors')"
+            placeholder={t("storyForm.themeLessonPlaceholder")}
             value={themeLesson}
             onChange={(e) => onThemeLessonChange(e.target.value)}
             className="w-full"
@@ -6,6 +6,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { useLocale } from "@/hooks/useLocale";
 
 interface ThemeSelectorProps {
   theme: string;
@@ -16,28 +17,30 @@ export const ThemeSelector = ({
   theme,
   onThemeChange,
 }: ThemeSelectorProps) => {
+  const { t } = useLocale();
+
   return (
     <div className="space-y-2">
-      <label className="text-sm font-medium text-gray-700">Genre</label>
+      <label className="text-sm font-medium text-gray-700">{t("storyForm.genre")}</label>
       <Select value={theme} onValueChange={onThemeChange}>
         <SelectTrigger className="w-full">
-          <SelectValue placeholder="Select a genre" />
+          <SelectValue placeholder={t("storyForm.genrePlaceholder")} />
         </SelectTrigger>
         <SelectContent>
-          <SelectItem value="adventure">Adventure</SelectItem>
-          <SelectItem value="bedtime">Bedtime</SelectItem>
-          <SelectItem value="comedy">Comedy</SelectItem>
-          <SelectItem value="educational">Educational</SelectItem>
-          <SelectItem value="fairytale">Fairy Tale</SelectItem>
-          <SelectItem value="family">Family</SelectItem>
-          <SelectItem value="fantasy">Fantasy Adventure</SelectItem>
-          <SelectItem value="friendship">Friendship</SelectItem>
-          <SelectItem value="holiday">Holiday</SelectItem>
-          <SelectItem value="mystery">Mystery</SelectItem>
-          <SelectItem value="nature">Nature & Animals</SelectItem>
-          <SelectItem value="school">School</SelectItem>
-          <SelectItem value="science">Science Fiction</SelectItem>
-          <SelectItem value="superhero">Superhero</SelectItem>
+          <SelectItem value="adventure">{t("theme.adventure")}</SelectItem>
+          <SelectItem value="bedtime">{t("theme.bedtime")}</SelectItem>
+          <SelectItem value="comedy">{t("theme.comedy")}</SelectItem>
+          <SelectItem value="educational">{t("theme.educational")}</SelectItem>
+          <SelectItem value="fairytale">{t("theme.fairytale")}</SelectItem>
+          <SelectItem value="family">{t("theme.family")}</SelectItem>
+          <SelectItem value="fantasy">{t("theme.fantasy")}</SelectItem>
+          <SelectItem value="friendship">{t("theme.friendship")}</SelectItem>
+          <SelectItem value="holiday">{t("theme.holiday")}</SelectItem>
+          <SelectItem value="mystery">{t("theme.mystery")}</SelectItem>
+          <SelectItem value="nature">{t("theme.nature")}</SelectItem>
+          <SelectItem value="school">{t("theme.school")}</SelectItem>
+          <SelectItem value="science">{t("theme.science")}</SelectItem>
+          <SelectItem value="superhero">{t("theme.superhero")}</SelectItem>
         </SelectContent>
       </Select>
     </div>
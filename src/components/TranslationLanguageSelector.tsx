@@ -0,0 +1,55 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { STORY_LANGUAGES } from "@/utils/languages";
+import { useLocale } from "@/hooks/useLocale";
+
+// Select can't hold an empty value, so "no translation" has its own
+const NO_TRANSLATION = "none";
+
+interface TranslationLanguageSelectorProps {
+  /** The story's own language, which can't also be the translation */
+  language: string;
+  /** Empty for a story in one language */
+  secondaryLanguage: string;
+  onSecondaryLanguageChange: (value: string) => void;
+}
+
+export const TranslationLanguageSelector = ({
+  language,
+  secondaryLanguage,
+  onSecondaryLanguageChange,
+}: TranslationLanguageSelectorProps) => {
+  const { t } = useLocale();
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-gray-700">{t("storyForm.translation")}</label>
+      <Select
+        value={secondaryLanguage || NO_TRANSLATION}
+        onValueChange={(value) => onSecondaryLanguageChange(value === NO_TRANSLATION ? "" : value)}
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder={t("storyForm.translationPlaceholder")} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_TRANSLATION}>{t("storyForm.translationNone")}</SelectItem>
+          {STORY_LANGUAGES.filter((option) => option.value !== language).map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {secondaryLanguage && (
+        <p className="text-xs text-gray-500">
+          {t("storyForm.translationHint")}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -1,17 +1,25 @@
-import { User, Menu, LogOut } from "lucide-react";
+import { User, Menu, LogOut, Languages } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
+import { useLocale } from "@/hooks/useLocale";
+import { LOCALES, Locale } from "@/i18n/translate";
 import { useNavigate } from "react-router-dom";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
 
 export const UserMenu = () => {
   const { logout } = useAuth();
+  const { locale, setLocale, t } = useLocale();
   const navigate = useNavigate();
 
   const handleLogout = async () => {
@@ -25,21 +33,36 @@ export const UserMenu = () => {
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
-        <Button variant="ghost" size="icon" className="text-black hover:bg-black/10">
+        <Button variant="ghost" size="icon" className="text-black hover:bg-black/10" aria-label={t("menu.open")}>
           <Menu className="h-5 w-5" />
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end" className="w-48">
         <DropdownMenuItem onClick={handleProfileClick}>
           <User className="mr-2 h-4 w-4" />
-          Profile
+          {t("menu.profile")}
         </DropdownMenuItem>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            <Languages className="mr-2 h-4 w-4" />
+            {t("menu.language")}
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            <DropdownMenuRadioGroup value={locale} onValueChange={(value) => setLocale(value as Locale)}>
+              {LOCALES.map((option) => (
+                <DropdownMenuRadioItem key={option.value} value={option.value} lang={option.value}>
+                  {option.label}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
         <DropdownMenuSeparator />
         <DropdownMenuItem onClick={handleLogout}>
           <LogOut className="mr-2 h-4 w-4" />
-          Logout
+          {t("menu.logout")}
         </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,162 @@
+import { Fragment, useMemo, useState } from "react";
+import { Columns2, Eye, EyeOff, Rows3, Languages } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useReadAloud } from "@/hooks/useReadAloud";
+import { useIllustrationUrls } from "@/hooks/useIllustrationUrls";
+import { BilingualText, StoryIllustrations } from "@/types/story";
+import { speechLanguageTag } from "@/utils/readAloud";
+import { getLanguageLabel, isRightToLeft } from "@/utils/languages";
+import { ReadAloudControls } from "@/components/read-aloud/ReadAloudControls";
+import { ReadAloudParagraphs } from "@/components/read-aloud/ReadAloudParagraphs";
+import { IllustrationFigure } from "@/components/illustrations/IllustrationFigure";
+
+const VIEW_KEY = "bilingual_view";
+
+type BilingualView = "interleaved" | "side-by-side" | "reveal";
+
+const PRIMARY_CLASS = "mb-1 text-gray-700 leading-relaxed text-lg font-medium";
+
+interface BilingualStoryProps {
+  bilingual: BilingualText;
+  /** The story's own language, the one being read and practiced */
+  language?: string;
+  /** Sight words, highlighted in the story language only */
+  highlightForms?: Set<string>;
+  onWordTap?: (word: string, sentence: string) => void;
+  illustrations?: StoryIllustrations | null;
+}
+
+/**
+ * A story in two languages, sentence by sentence: each translation under its
+ * sentence, the two languages in columns, or translations hidden until a
+ * sentence's translation is tapped open. Reading aloud, word help and sight
+ * word highlighting stay with the story language.
+ */
+export const BilingualStory = ({ bilingual, language, highlightForms, onWordTap, illustrations }: BilingualStoryProps) => {
+  const [view, setView] = useState<BilingualView>(() => (localStorage.getItem(VIEW_KEY) as BilingualView) || "interleaved");
+  const [revealed, setRevealed] = useState<Set<number>>(new Set());
+  const { urls, isLoading } = useIllustrationUrls(illustrations);
+  const pairs = useMemo(() => bilingual.paragraphs.flat(), [bilingual]);
+  const sentences = useMemo(() => pairs.map((pair) => pair.primary), [pairs]);
+  const player = useReadAloud(sentences, language);
+  const secondaryTag = speechLanguageTag(bilingual.secondaryLanguage);
+  // Set either way so a translation inside an Arabic story still reads left to right
+  const secondaryDir = isRightToLeft(bilingual.secondaryLanguage) ? "rtl" : "ltr";
+
+  const handleViewChange = (value: string) => {
+    if (!value) return;
+    setView(value as BilingualView);
+    localStorage.setItem(VIEW_KEY, value);
+  };
+
+  const toggleRevealed = (index: number) => {
+    setRevealed((previous) => {
+      const next = new Set(previous);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const renderPicture = (paragraphIndex: number) => {
+    const pages = illustrations?.pages ?? [];
+    const pageIndex = pages.findIndex((page) => page.start === paragraphIndex);
+    const page = pages[pageIndex];
+    if (!page?.imagePath) return null;
+    return <IllustrationFigure url={urls[page.imagePath]} isLoading={isLoading} pageNumber={pageIndex + 1} />;
+  };
+
+  const renderTranslation = (text: string, className: string) => (
+    <p lang={secondaryTag} dir={secondaryDir} className={className}>
+      {text}
+    </p>
+  );
+
+  // Where each paragraph's sentences start in `pairs`
+  const paragraphStarts = bilingual.paragraphs.map((_, index) =>
+    bilingual.paragraphs.slice(0, index).reduce((sum, paragraph) => sum + paragraph.length, 0)
+  );
+
+  return (
+    <div>
+      {player.isSupported && <ReadAloudControls player={player} />}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <p lang={secondaryTag} dir={secondaryDir} className="text-sm text-purple-700 italic">
+          <Languages className="inline w-4 h-4 mr-1 align-text-bottom" aria-hidden="true" />
+          {getLanguageLabel(bilingual.secondaryLanguage)}: {bilingual.title}
+        </p>
+        <ToggleGroup type="single" size="sm" value={view} onValueChange={handleViewChange} aria-label="Translation view" className="flex-wrap">
+          <ToggleGroupItem value="interleaved" aria-label="Translation under each sentence">
+            <Rows3 className="w-4 h-4 mr-1" />
+            Together
+          </ToggleGroupItem>
+          <ToggleGroupItem value="side-by-side" aria-label="Languages side by side">
+            <Columns2 className="w-4 h-4 mr-1" />
+            Side by Side
+          </ToggleGroupItem>
+          <ToggleGroupItem value="reveal" aria-label="Tap to show each translation">
+            <Eye className="w-4 h-4 mr-1" />
+            Tap to Reveal
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {bilingual.paragraphs.map((paragraph, paragraphIndex) => (
+        <Fragment key={paragraphIndex}>
+          {renderPicture(paragraphIndex)}
+          <div className={view === "side-by-side" ? "grid grid-cols-2 gap-x-6 gap-y-2 mb-6" : "mb-6"}>
+            {paragraph.map((pair, pairIndex) => {
+              const index = paragraphStarts[paragraphIndex] + pairIndex;
+              const sentence = (
+                <ReadAloudParagraphs
+                  player={player}
+                  paragraphs={sentences}
+                  start={index}
+                  end={index + 1}
+                  highlightForms={highlightForms}
+                  paragraphClassName={PRIMARY_CLASS}
+                  onWordTap={onWordTap}
+                />
+              );
+
+              if (view === "side-by-side") {
+                return (
+                  <Fragment key={pairIndex}>
+                    {sentence}
+                    {renderTranslation(pair.secondary, "text-lg leading-relaxed text-purple-700")}
+                  </Fragment>
+                );
+              }
+
+              if (view === "reveal") {
+                const isRevealed = revealed.has(index);
+                return (
+                  <div key={pairIndex} className="mb-2">
+                    {sentence}
+                    <button
+                      type="button"
+                      onClick={() => toggleRevealed(index)}
+                      className="inline-flex items-center text-xs font-medium text-purple-500 hover:text-purple-700"
+                      aria-expanded={isRevealed}
+                    >
+                      {isRevealed ? <EyeOff className="w-3.5 h-3.5 mr-1" /> : <Eye className="w-3.5 h-3.5 mr-1" />}
+                      {isRevealed ? "Hide translation" : "Show translation"}
+                    </button>
+                    {isRevealed && renderTranslation(pair.secondary, "mt-1 text-base leading-relaxed text-purple-700 italic")}
+                  </div>
+                );
+              }
+
+              return (
+                <div key={pairIndex} className="mb-3">
+                  {sentence}
+                  {renderTranslation(pair.secondary, "text-base leading-relaxed text-purple-700 italic")}
+                </div>
+              );
+            })}
+          </div>
+        </Fragment>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { motion, useReducedMotion } from "framer-motion";
+import {
+  Carousel,
+  CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import { useReadAloud } from "@/hooks/useReadAloud";
+import { useIllustrationUrls } from "@/hooks/useIllustrationUrls";
+import { useLocale } from "@/hooks/useLocale";
+import { StoryIllustrations } from "@/types/story";
+import { paginateBook } from "@/utils/bookPages";
+import { isRightToLeft } from "@/utils/languages";
+import { ReadAloudControls } from "@/components/read-aloud/ReadAloudControls";
+import { ReadAloudParagraphs } from "@/components/read-aloud/ReadAloudParagraphs";
+import { IllustrationFigure } from "@/components/illustrations/IllustrationFigure";
+
+// Bigger print for the youngest readers
+const BOOK_TEXT_SIZES: Record<string, string> = {
+  k: "text-3xl",
+  "1": "text-3xl",
+  "2": "text-2xl",
+  "3": "text-2xl",
+  "4": "text-xl",
+  "5": "text-xl",
+};
+
+interface StoryBookProps {
+  paragraphs: string[];
+  readingLevel?: string;
+  language?: string;
+  /** Sight word spellings to highlight, from getHighlightForms */
+  highlightForms?: Set<string>;
+  onWordTap?: (word: string, sentence: string) => void;
+  illustrations?: StoryIllustrations | null;
+  /** Page to open on (0-based), such as where the reader left off */
+  initialPage?: number;
+  onPageChange?: (page: number) => void;
+}
+
+/**
+ * A story as a book, one page at a time: swipe or use the arrow keys to turn
+ * the page. Pages hold a few sentences for early readers and more for older
+ * ones, and pictures start their own page. Reading aloud starts from the open
+ * page and turns the pages as it goes.
+ */
+export const StoryBook = ({
+  paragraphs,
+  readingLevel,
+  language,
+  highlightForms,
+  onWordTap,
+  illustrations,
+  initialPage = 0,
+  onPageChange,
+}: StoryBookProps) => {
+  const { urls, isLoading } = useIllustrationUrls(illustrations);
+  const { t } = useLocale();
+  const book = useMemo(() => {
+    const pictureStarts = new Set((illustrations?.pages ?? []).filter((page) => page.imagePath).map((page) => page.start));
+    return paginateBook(paragraphs, readingLevel, pictureStarts);
+  }, [paragraphs, readingLevel, illustrations]);
+  const texts = useMemo(() => book.parts.map((part) => part.text), [book]);
+  const player = useReadAloud(texts, language);
+  const [api, setApi] = useState<CarouselApi>();
+  const [currentPage, setCurrentPage] = useState(() => Math.min(Math.max(initialPage, 0), Math.max(book.pages.length - 1, 0)));
+  // Changing embla's options starts it over, so the opening page is fixed
+  const [startIndex] = useState(currentPage);
+  const reduceMotion = useReducedMotion();
+  const textSize = BOOK_TEXT_SIZES[readingLevel ?? ""] ?? "text-lg";
+  // Right-to-left books start on the right and turn the other way
+  const rtl = isRightToLeft(language);
+  const turn = rtl ? -1 : 1;
+
+  // The select listener outlives the render that added it
+  const latestRef = useRef({ book, player, currentPage, onPageChange });
+  latestRef.current = { book, player, currentPage, onPageChange };
+
+  useEffect(() => {
+    if (!api) return;
+    const handleSelect = () => {
+      const { book, player, currentPage, onPageChange } = latestRef.current;
+      const page = api.selectedScrollSnap();
+      const { start, end } = book.pages[page] ?? { start: 0, end: 0 };
+      // Turning the page by hand stops narration of the page being left
+      if (player.paragraphIndex !== null && (player.paragraphIndex < start || player.paragraphIndex >= end)) {
+        player.stop();
+      }
+      if (page === currentPage) return;
+      setCurrentPage(page);
+      onPageChange?.(page);
+    };
+    api.on("select", handleSelect);
+    // A new version of the story can have fewer pages
+    api.on("reInit", handleSelect);
+    return () => {
+      api.off("select", handleSelect);
+      api.off("reInit", handleSelect);
+    };
+  }, [api]);
+
+  // Narration turns to the page it has reached
+  useEffect(() => {
+    if (!api || player.paragraphIndex === null) return;
+    const page = book.pages.findIndex(({ start, end }) => player.paragraphIndex >= start && player.paragraphIndex < end);
+    if (page !== -1 && page !== api.selectedScrollSnap()) {
+      api.scrollTo(page);
+    }
+  }, [api, book, player.paragraphIndex]);
+
+  const renderPicture = (partIndex: number) => {
+    const part = book.parts[partIndex];
+    const previous = book.parts[partIndex - 1];
+    // Only the start of a paragraph carries its picture
+    if (previous?.paragraphIndex === part.paragraphIndex) return null;
+    const pages = illustrations?.pages ?? [];
+    const pageIndex = pages.findIndex((page) => page.start === part.paragraphIndex);
+    const page = pages[pageIndex];
+    if (!page?.imagePath) return null;
+
+    return (
+      <IllustrationFigure url={urls[page.imagePath]} isLoading={isLoading} pageNumber={pageIndex + 1} className="mb-6" />
+    );
+  };
+
+  if (book.pages.length === 0) return null;
+
+  return (
+    <div>
+      {player.isSupported && <ReadAloudControls player={player} startFrom={book.pages[currentPage]?.start ?? 0} />}
+      <Carousel
+        setApi={setApi}
+        opts={{ startIndex, direction: rtl ? "rtl" : "ltr" }}
+        tabIndex={0}
+        aria-label={t("book.pages")}
+        className="rounded-2xl focus-visible:outline focus-visible:outline-2 focus-visible:outline-purple-400"
+        style={{ perspective: 1200 }}
+      >
+        <CarouselContent>
+          {book.pages.map(({ start, end }, pageIndex) => (
+            <CarouselItem key={pageIndex} aria-label={t("book.page", { page: pageIndex + 1, count: book.pages.length })}>
+              <motion.div
+                initial={false}
+                animate={
+                  pageIndex === currentPage || reduceMotion
+                    ? { rotateY: 0, opacity: 1 }
+                    : { rotateY: (pageIndex < currentPage ? 25 : -25) * turn, opacity: 0.4 }
+                }
+                transition={{ duration: 0.45, ease: "easeOut" }}
+                style={{ transformOrigin: (pageIndex < currentPage) !== rtl ? "right center" : "left center" }}
+                className="min-h-[16rem] p-6 rounded-2xl bg-amber-50/60 border border-amber-100 shadow-inner"
+              >
+                <ReadAloudParagraphs
+                  player={player}
+                  paragraphs={texts}
+                  start={start}
+                  end={end}
+                  highlightForms={highlightForms}
+                  paragraphClassName={`mb-4 text-gray-700 leading-relaxed font-medium ${textSize}`}
+                  onWordTap={onWordTap}
+                  renderBeforeParagraph={illustrations ? renderPicture : undefined}
+                />
+              </motion.div>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <div className="flex items-center justify-center gap-4 mt-4">
+          <CarouselPrevious className="static translate-y-0 h-10 w-10 rtl:rotate-180" aria-label={t("book.previous")} />
+          <span className="text-sm font-medium text-gray-600" aria-live="polite">
+            {t("book.page", { page: currentPage + 1, count: book.pages.length })}
+          </span>
+          <CarouselNext className="static translate-y-0 h-10 w-10 rtl:rotate-180" aria-label={t("book.next")} />
+        </div>
+      </Carousel>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import { BookOpen, ScrollText } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useBookMode } from "@/hooks/useBookMode";
+import { useLocale } from "@/hooks/useLocale";
+import { isRightToLeft } from "@/utils/languages";
+import { BilingualText, StoryIllustrations } from "@/types/story";
+import { IllustratedStory } from "@/components/illustrations/IllustratedStory";
+import { BilingualStory } from "@/components/bilingual/BilingualStory";
+import { StoryBook } from "./StoryBook";
+
+interface StoryReaderProps {
+  paragraphs: string[];
+  readingLevel?: string;
+  language?: string;
+  highlightForms?: Set<string>;
+  /** Classes for paragraphs in the scrolling view; book pages size text by reading level */
+  paragraphClassName?: string;
+  onWordTap?: (word: string, sentence: string) => void;
+  illustrations?: StoryIllustrations | null;
+  /** Sentence pairs for a bilingual story, which has its own views */
+  bilingual?: BilingualText | null;
+  /** Book page to open on */
+  initialPage?: number;
+  onPageChange?: (page: number) => void;
+}
+
+/**
+ * A story with a choice of views: one scroll, or a book read a page at a
+ * time. The choice is remembered across stories. Bilingual stories are read
+ * sentence by sentence with their translation instead. Arabic stories are
+ * laid out right to left, book pages included.
+ */
+export const StoryReader = ({
+  paragraphs,
+  readingLevel,
+  language,
+  highlightForms,
+  paragraphClassName,
+  onWordTap,
+  illustrations,
+  bilingual,
+  initialPage,
+  onPageChange,
+}: StoryReaderProps) => {
+  const { bookMode, setBookMode } = useBookMode(readingLevel);
+  const { t } = useLocale();
+  const dir = isRightToLeft(language) ? "rtl" : undefined;
+
+  if (bilingual) {
+    return (
+      <div dir={dir}>
+        <BilingualStory
+          bilingual={bilingual}
+          language={language}
+          highlightForms={highlightForms}
+          onWordTap={onWordTap}
+          illustrations={illustrations}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div dir={dir}>
+      <div className="flex justify-end mb-3">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={bookMode ? "book" : "scroll"}
+          onValueChange={(value) => value && setBookMode(value === "book")}
+          aria-label={t("book.view")}
+        >
+          <ToggleGroupItem value="scroll" aria-label={t("book.scrollLabel")}>
+            <ScrollText className="w-4 h-4 mr-1" />
+            {t("book.scroll")}
+          </ToggleGroupItem>
+          <ToggleGroupItem value="book" aria-label={t("book.bookLabel")}>
+            <BookOpen className="w-4 h-4 mr-1" />
+            {t("book.book")}
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+      {bookMode ? (
+        <StoryBook
+          paragraphs={paragraphs}
+          readingLevel={readingLevel}
+          language={language}
+          highlightForms={highlightForms}
+          onWordTap={onWordTap}
+          illustrations={illustrations}
+          initialPage={initialPage}
+          onPageChange={onPageChange}
+        />
+      ) : (
+        <IllustratedStory
+          illustrations={illustrations}
+          paragraphs={paragraphs}
+          language={language}
+          highlightForms={highlightForms}
+          paragraphClassName={paragraphClassName}
+          onWordTap={onWordTap}
+        />
+      )}
+    </div>
+  );
+};
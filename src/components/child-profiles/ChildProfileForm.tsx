@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { ReadingLevelSelector } from "@/components/ReadingLevelSelector";
+import { useToastNotifications } from "@/hooks/useToastNotifications";
+import { ChildProfile, ChildProfileInput, SharedProfileField } from "@/types/childProfile";
+import { SHARED_FIELD_LABELS, parseInterests } from "@/utils/childProfiles";
+
+interface ChildProfileFormProps {
+  profile?: ChildProfile;
+  isSaving: boolean;
+  onSave: (profile: ChildProfileInput) => void;
+  onCancel: () => void;
+}
+
+const SHARED_FIELDS = Object.keys(SHARED_FIELD_LABELS) as SharedProfileField[];
+
+export const ChildProfileForm = ({ profile, isSaving, onSave, onCancel }: ChildProfileFormProps) => {
+  const [name, setName] = useState(profile?.name ?? "");
+  const [pronouns, setPronouns] = useState(profile?.pronouns ?? "");
+  const [age, setAge] = useState(profile?.age ? String(profile.age) : "");
+  const [interests, setInterests] = useState(profile?.interests.join(", ") ?? "");
+  const [favoriteAnimal, setFavoriteAnimal] = useState(profile?.favorite_animal ?? "");
+  const [readingLevel, setReadingLevel] = useState(profile?.reading_level ?? "");
+  const [sharedFields, setSharedFields] = useState<SharedProfileField[]>(profile?.shared_fields ?? []);
+  const notifications = useToastNotifications();
+
+  const toggleSharedField = (field: SharedProfileField, shared: boolean) => {
+    setSharedFields((previous) =>
+      shared ? [...previous, field] : previous.filter((entry) => entry !== field)
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      notifications.childProfileNameRequired();
+      return;
+    }
+
+    const parsedAge = parseInt(age, 10);
+    onSave({
+      name: name.trim(),
+      pronouns: pronouns.trim() || null,
+      age: parsedAge >= 2 && parsedAge <= 18 ? parsedAge : null,
+      interests: parseInterests(interests),
+      favorite_animal: favoriteAnimal.trim() || null,
+      reading_level: readingLevel || null,
+      shared_fields: sharedFields,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">Name</label>
+          <Input value={name} onChange={(e) => setName(e.target.value)} maxLength={40} placeholder="e.g. Maya" />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">Pronouns</label>
+          <Input value={pronouns} onChange={(e) => setPronouns(e.target.value)} maxLength={20} placeholder="e.g. she/her" />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">Age</label>
+          <Input type="number" min={2} max={18} value={age} onChange={(e) => setAge(e.target.value)} />
+        </div>
+        <ReadingLevelSelector readingLevel={readingLevel} onReadingLevelChange={setReadingLevel} />
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">Interests</label>
+          <Input
+            value={interests}
+            onChange={(e) => setInterests(e.target.value)}
+            placeholder="e.g. dinosaurs, soccer, space"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">Favorite Animal</label>
+          <Input value={favoriteAnimal} onChange={(e) => setFavoriteAnimal(e.target.value)} maxLength={40} />
+        </div>
+      </div>
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium text-gray-700">Use in stories</legend>
+        <p className="text-xs text-gray-500">
+          Only the details you tick here are sent to our story writer. Reading level is always used to pick the grade.
+        </p>
+        <div className="flex flex-wrap gap-4">
+          {SHARED_FIELDS.map((field) => (
+            <label key={field} className="flex items-center gap-2 text-sm text-gray-700">
+              <Checkbox
+                checked={sharedFields.includes(field)}
+                onCheckedChange={(checked) => toggleSharedField(field, checked === true)}
+              />
+              {SHARED_FIELD_LABELS[field]}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save Profile"}
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { useChildProfiles } from "@/hooks/useChildProfiles";
+import { useToastNotifications } from "@/hooks/useToastNotifications";
+import { ChildProfile, ChildProfileInput } from "@/types/childProfile";
+import { SHARED_FIELD_LABELS } from "@/utils/childProfiles";
+import { ChildProfileForm } from "./ChildProfileForm";
+
+interface ChildProfileManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The profile being edited: an existing one, a new one, or none while browsing the list
+type Editing = ChildProfile | "new" | null;
+
+export const ChildProfileManager = ({ open, onOpenChange }: ChildProfileManagerProps) => {
+  const [editing, setEditing] = useState<Editing>(null);
+  const { profiles, saveProfile, deleteProfile, isSaving, isDeleting } = useChildProfiles();
+  const notifications = useToastNotifications();
+
+  const handleSave = (profile: ChildProfileInput) => {
+    saveProfile(
+      { id: editing && editing !== "new" ? editing.id : undefined, profile },
+      {
+        onSuccess: () => {
+          notifications.childProfileSaved(profile.name);
+          setEditing(null);
+        },
+        onError: () => notifications.childProfileSaveFailed(),
+      }
+    );
+  };
+
+  const handleDelete = (profile: ChildProfile) => {
+    deleteProfile(profile.id, {
+      onSuccess: () => notifications.childProfileDeleted(profile.name),
+      onError: () => notifications.childProfileDeleteFailed(),
+    });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setEditing(null);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reader Profiles</DialogTitle>
+          <DialogDescription>
+            Make your child the hero of their stories. Profiles are private to your account.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing ? (
+          <ChildProfileForm
+            key={editing === "new" ? "new" : editing.id}
+            profile={editing === "new" ? undefined : editing}
+            isSaving={isSaving}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <div className="space-y-3">
+            {profiles.length === 0 && (
+              <p className="text-center text-gray-500 py-4">No reader profiles yet.</p>
+            )}
+            {profiles.map((profile) => (
+              <div key={profile.id} className="clay-card p-4 flex items-center justify-between gap-3">
+                <div>
+                  <h4 className="font-semibold text-gray-800">{profile.name}</h4>
+                  <p className="text-sm text-gray-600">
+                    {profile.shared_fields.length > 0
+                      ? `Used in stories: ${profile.shared_fields.map((field) => SHARED_FIELD_LABELS[field]).join(", ")}`
+                      : "No details used in stories"}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setEditing(profile)} aria-label={`Edit ${profile.name}`}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDelete(profile)}
+                    disabled={isDeleting}
+                    aria-label={`Remove ${profile.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button onClick={() => setEditing("new")} className="w-full">
+              <Plus className="w-4 h-4 mr-2" />
+              Add a Reader
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
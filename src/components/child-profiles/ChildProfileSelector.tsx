@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { UserRound } from "lucide-react";
+import { ChildProfile } from "@/types/childProfile";
+import { ChildProfileManager } from "./ChildProfileManager";
+import { useLocale } from "@/hooks/useLocale";
+
+const NO_PROFILE = "none";
+
+interface ChildProfileSelectorProps {
+  profiles: ChildProfile[];
+  childProfileId: string;
+  onChildProfileChange: (profile: ChildProfile | null) => void;
+}
+
+export const ChildProfileSelector = ({
+  profiles,
+  childProfileId,
+  onChildProfileChange,
+}: ChildProfileSelectorProps) => {
+  const { t } = useLocale();
+  const [isManaging, setIsManaging] = useState(false);
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-gray-700">{t("storyForm.reader")}</label>
+      <div className="flex gap-2">
+        <Select
+          value={childProfileId || NO_PROFILE}
+          onValueChange={(value) =>
+            onChildProfileChange(profiles.find((profile) => profile.id === value) ?? null)
+          }
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder={t("storyForm.readerPlaceholder")} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_PROFILE}>{t("storyForm.readerAnyone")}</SelectItem>
+            {profiles.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" onClick={() => setIsManaging(true)} aria-label={t("storyForm.manageReaders")}>
+          <UserRound className="w-4 h-4" />
+        </Button>
+      </div>
+      <ChildProfileManager open={isManaging} onOpenChange={setIsManaging} />
+    </div>
+  );
+};
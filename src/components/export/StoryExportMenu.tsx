@@ -0,0 +1,149 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { BookDown, FileDown, Loader2, Printer, Share2 } from "lucide-react";
+import { useToastNotifications } from "@/hooks/useToastNotifications";
+import { useLocale } from "@/hooks/useLocale";
+import { downloadFile } from "@/utils/sightWordImport";
+import { ExportStory, canShareFiles, exportFileName, shareFile } from "@/utils/storyExport";
+
+const BOLD_SIGHT_WORDS_KEY = "storyExport_boldSightWords";
+
+type ExportFormat = "pdf" | "epub";
+
+interface StoryExportMenuProps {
+  /** The book title; also used for the file name */
+  title: string;
+  stories: ExportStory[];
+  /** Shown on the e-book title page */
+  description?: string;
+  language?: string;
+  /** Sight word spellings (lowercased) that can be printed in bold */
+  sightWordForms?: Set<string>;
+  label?: string;
+  className?: string;
+}
+
+/**
+ * Export menu for a story or a collection: a large-print PDF for a single
+ * story, an EPUB for any number, and the share sheet where the device has one.
+ * The PDF and EPUB code is only loaded when it's used.
+ */
+export const StoryExportMenu = ({
+  title,
+  stories,
+  description,
+  language,
+  sightWordForms,
+  label,
+  className,
+}: StoryExportMenuProps) => {
+  const notifications = useToastNotifications();
+  const { locale, t } = useLocale();
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+  const [boldSightWords, setBoldSightWords] = useState(() => localStorage.getItem(BOLD_SIGHT_WORDS_KEY) !== "false");
+  // A file made for sharing, kept in case the share sheet needs a second tap
+  const readyToShare = useRef<{ key: string; blob: Blob } | null>(null);
+  const canPrint = stories.length === 1;
+  const shareFormat: ExportFormat = canPrint ? "pdf" : "epub";
+  const hasSightWords = !!sightWordForms && sightWordForms.size > 0;
+  const boldForms = boldSightWords && hasSightWords ? sightWordForms : undefined;
+
+  const handleBoldSightWordsChange = (checked: boolean) => {
+    setBoldSightWords(checked);
+    localStorage.setItem(BOLD_SIGHT_WORDS_KEY, String(checked));
+  };
+
+  const createFile = async (format: ExportFormat): Promise<Blob> => {
+    if (format === "pdf") {
+      const { createStoryPdf } = await import("@/utils/storyPdf");
+      return createStoryPdf(stories[0], { boldForms, locale });
+    }
+    const { createStoryEpub } = await import("@/utils/storyEpub");
+    return createStoryEpub({ title, description, language, stories, boldForms, locale });
+  };
+
+  const handleDownload = async (format: ExportFormat) => {
+    setBusyFormat(format);
+    try {
+      const blob = await createFile(format);
+      downloadFile(blob, exportFileName(title, format), blob.type);
+    } catch (error) {
+      console.error(`Error exporting ${format}:`, error);
+      notifications.storyExportFailed();
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  const handleShare = async () => {
+    const fileName = exportFileName(title, shareFormat);
+    // Everything that goes into the file: a revised story keeps its title, and
+    // a collection keeps its title as favorites are added and removed
+    const key = JSON.stringify({ fileName, description, language, stories, boldSightWords, locale });
+    setBusyFormat(shareFormat);
+    try {
+      const blob = readyToShare.current?.key === key ? readyToShare.current.blob : await createFile(shareFormat);
+      readyToShare.current = { key, blob };
+      await shareFile(blob, fileName, title);
+    } catch (error) {
+      // Browsers only open the share sheet right after a tap; a long export can miss that window
+      if (error instanceof DOMException && error.name === "NotAllowedError") {
+        notifications.storyShareReady();
+      } else {
+        console.error("Error sharing story:", error);
+        notifications.storyExportFailed();
+      }
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={busyFormat !== null || stories.length === 0} className={className}>
+          {busyFormat ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Printer className="w-4 h-4 mr-2" />}
+          {busyFormat ? t("export.preparing") : label ?? t("export.menu")}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent>
+        {canPrint && (
+          <DropdownMenuItem onClick={() => handleDownload("pdf")}>
+            <FileDown className="w-4 h-4 mr-2" />
+            {t("export.downloadPdf")}
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onClick={() => handleDownload("epub")}>
+          <BookDown className="w-4 h-4 mr-2" />
+          {t("export.downloadEpub")}
+        </DropdownMenuItem>
+        {canShareFiles() && (
+          <DropdownMenuItem onClick={handleShare}>
+            <Share2 className="w-4 h-4 mr-2" />
+            {t("export.share", { format: shareFormat.toUpperCase() })}
+          </DropdownMenuItem>
+        )}
+        {hasSightWords && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuCheckboxItem
+              checked={boldSightWords}
+              onCheckedChange={handleBoldSightWordsChange}
+              onSelect={(event) => event.preventDefault()}
+            >
+              {t("export.boldSightWords")}
+            </DropdownMenuCheckboxItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
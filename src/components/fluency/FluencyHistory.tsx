@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Cloud, Play, Square, Trash2 } from "lucide-react";
+import { useToastNotifications } from "@/hooks/useToastNotifications";
+import { getLocalRecording, getRecordingUrl } from "@/services/readingSessions";
+import { ReadingSession } from "@/types/fluency";
+import { getLengthUnit } from "@/utils/languages";
+
+interface FluencyHistoryProps {
+  /** One reader's sessions, newest first */
+  sessions: ReadingSession[];
+  selectedId?: string;
+  onSelect: (session: ReadingSession) => void;
+  onDelete: (session: ReadingSession) => void;
+}
+
+// Sessions shown in the progress chart
+const CHART_SIZE = 12;
+
+// Chinese, Japanese and Korean readings are scored in characters correct per minute
+const rateLabel = (session: ReadingSession) =>
+  `${Math.round(session.wcpm)} ${getLengthUnit(session.language) === "characters" ? "CCPM" : "WCPM"}`;
+
+/**
+ * A reader's past readings: words (or characters) correct per minute over
+ * time, and each reading with its recording, from this device or the
+ * parent's account.
+ */
+export const FluencyHistory = ({ sessions, selectedId, onSelect, onDelete }: FluencyHistoryProps) => {
+  const notifications = useToastNotifications();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const objectUrlRef = useRef<string | null>(null);
+
+  const releaseObjectUrl = () => {
+    if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
+    objectUrlRef.current = null;
+  };
+
+  useEffect(() => releaseObjectUrl, []);
+
+  const handlePlay = async (session: ReadingSession) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (playingId === session.id) {
+      audio.pause();
+      setPlayingId(null);
+      return;
+    }
+
+    try {
+      releaseObjectUrl();
+      const local = await getLocalRecording(session.id).catch(() => null);
+      if (local) {
+        objectUrlRef.current = URL.createObjectURL(local);
+        audio.src = objectUrlRef.current;
+      } else if (session.audio_path) {
+        audio.src = await getRecordingUrl(session.audio_path);
+      } else {
+        notifications.recordingUnavailable();
+        return;
+      }
+      await audio.play();
+      setPlayingId(session.id);
+    } catch (error) {
+      console.error("Error playing recording:", error);
+      notifications.recordingUnavailable();
+    }
+  };
+
+  if (sessions.length === 0) {
+    return <p className="text-center text-sm text-gray-500">No readings yet. Record one to start tracking progress!</p>;
+  }
+
+  const chart = sessions.slice(0, CHART_SIZE).reverse();
+  const highest = Math.max(...chart.map((session) => session.wcpm), 1);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="mb-2 text-sm font-medium text-gray-700">Read correctly per minute</p>
+        <div className="flex h-24 items-end gap-1" aria-hidden>
+          {chart.map((session) => (
+            <div
+              key={session.id}
+              className={`flex-1 rounded-t ${session.id === selectedId ? "bg-purple-600" : "bg-purple-300"}`}
+              style={{ height: `${Math.max((session.wcpm / highest) * 100, 4)}%` }}
+              title={`${rateLabel(session)}, ${new Date(session.created_at).toLocaleDateString()}`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <ul className="divide-y divide-purple-100">
+        {sessions.map((session) => (
+          <li key={session.id} className="flex items-center gap-2 py-2">
+            <button
+              type="button"
+              onClick={() => onSelect(session)}
+              className={`flex-1 min-w-0 text-left ${session.id === selectedId ? "font-semibold" : ""}`}
+            >
+              <p className="truncate text-sm text-gray-800">{session.story_title}</p>
+              <p className="text-xs text-gray-500">
+                {new Date(session.created_at).toLocaleDateString()} · {rateLabel(session)} ·{" "}
+                {Math.round(session.accuracy * 100)}%
+              </p>
+            </button>
+            {session.audio_path && (
+              <Cloud className="h-4 w-4 shrink-0 text-gray-400" aria-label="Recording kept in your account" />
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => handlePlay(session)}
+              aria-label={playingId === session.id ? "Stop recording" : "Play recording"}
+            >
+              {playingId === session.id ? <Square className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onDelete(session)}
+              aria-label="Delete reading"
+              className="text-red-500 hover:text-red-600"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      <audio ref={audioRef} onEnded={() => setPlayingId(null)} className="hidden" />
+    </div>
+  );
+};
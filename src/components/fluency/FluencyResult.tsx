@@ -0,0 +1,106 @@
+import { Fragment } from "react";
+import { Miscue, ReadingSession } from "@/types/fluency";
+import { tokenizeParagraph } from "@/utils/storyText";
+import { getLengthUnit } from "@/utils/languages";
+
+interface FluencyResultProps {
+  session: ReadingSession;
+  /** The story that was read; without it the transcript is shown instead */
+  paragraphs?: string[];
+}
+
+const MISCUE_LABELS: Record<Miscue["type"], string> = {
+  substitution: "Said a different word",
+  omission: "Skipped",
+  insertion: "Added",
+};
+
+/**
+ * The score for one reading, with the story marked up the way a teacher marks
+ * a running record: substituted words in orange, skipped words struck through
+ * in red, added words in small blue carets, and unread words greyed out.
+ */
+export const FluencyResult = ({ session, paragraphs }: FluencyResultProps) => {
+  const miscuesAt = new Map<number, Miscue[]>();
+  session.miscues.forEach((miscue) => {
+    miscuesAt.set(miscue.position, [...(miscuesAt.get(miscue.position) ?? []), miscue]);
+  });
+  const counts = session.miscues.reduce<Record<Miscue["type"], number>>(
+    (totals, miscue) => ({ ...totals, [miscue.type]: totals[miscue.type] + 1 }),
+    { substitution: 0, omission: 0, insertion: 0 }
+  );
+
+  // Readings in Chinese, Japanese and Korean are scored character by character
+  const unit = getLengthUnit(session.language);
+  let position = -1;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div className="rounded-xl bg-purple-50 p-3">
+          <p className="text-3xl font-bold text-purple-700">{Math.round(session.wcpm)}</p>
+          <p className="text-xs text-gray-600">{unit} correct per minute</p>
+        </div>
+        <div className="rounded-xl bg-green-50 p-3">
+          <p className="text-3xl font-bold text-green-700">{Math.round(session.accuracy * 100)}%</p>
+          <p className="text-xs text-gray-600">accuracy</p>
+        </div>
+        <div className="rounded-xl bg-blue-50 p-3">
+          <p className="text-3xl font-bold text-blue-700">
+            {session.words_correct}/{session.words_attempted}
+          </p>
+          <p className="text-xs text-gray-600">{unit} read correctly</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+        <span><span className="font-semibold text-orange-600">{counts.substitution}</span> {MISCUE_LABELS.substitution.toLowerCase()}</span>
+        <span><span className="font-semibold text-red-600">{counts.omission}</span> {MISCUE_LABELS.omission.toLowerCase()}</span>
+        <span><span className="font-semibold text-blue-600">{counts.insertion}</span> {MISCUE_LABELS.insertion.toLowerCase()} (not counted)</span>
+      </div>
+
+      {!paragraphs ? (
+        <div className="rounded-xl border border-purple-100 p-4">
+          <p className="mb-1 text-sm font-medium text-gray-700">What we heard</p>
+          <p className="text-gray-600 italic">{session.transcript || "Nothing"}</p>
+        </div>
+      ) : (
+        <div className="max-h-64 overflow-y-auto rounded-xl border border-purple-100 p-4 text-gray-700 leading-relaxed">
+          {paragraphs.map((paragraph, index) => (
+            <p key={index} className="mb-3 last:mb-0">
+              {tokenizeParagraph(paragraph, unit).map((token, tokenIndex) => {
+                if (!token.isWord) return <Fragment key={tokenIndex}>{token.text}</Fragment>;
+                position++;
+                const miscues = miscuesAt.get(position) ?? [];
+                const insertions = miscues.filter((miscue) => miscue.type === "insertion");
+                const miscue = miscues.find((entry) => entry.type !== "insertion");
+                const className = miscue?.type === "substitution"
+                  ? "rounded bg-orange-100 px-0.5 text-orange-800"
+                  : miscue?.type === "omission"
+                    ? "text-red-600 line-through"
+                    : position >= session.words_attempted
+                      ? "text-gray-400"
+                      : undefined;
+                return (
+                  <Fragment key={tokenIndex}>
+                    {insertions.map((insertion, insertionIndex) => (
+                      <sup key={insertionIndex} className="mx-0.5 text-blue-600" title={`${MISCUE_LABELS.insertion} "${insertion.spoken}"`}>
+                        ^{insertion.spoken}
+                      </sup>
+                    ))}
+                    <span
+                      className={className}
+                      title={miscue?.type === "substitution" ? `Read as "${miscue.spoken}"` : miscue ? MISCUE_LABELS[miscue.type] : undefined}
+                    >
+                      {token.text}
+                    </span>
+                  </Fragment>
+                );
+              })}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, Mic, Pause, Play, RotateCcw, Square } from "lucide-react";
+import { ChildProfileSelector } from "@/components/child-profiles/ChildProfileSelector";
+import { useChildProfiles } from "@/hooks/useChildProfiles";
+import { isRecordingSupported, useReadingRecorder } from "@/hooks/useReadingRecorder";
+import { useReadingSessions } from "@/hooks/useReadingSessions";
+import { useToastNotifications } from "@/hooks/useToastNotifications";
+import { ReadingSession } from "@/types/fluency";
+import { getLengthUnit } from "@/utils/languages";
+import { FluencyHistory } from "./FluencyHistory";
+import { FluencyResult } from "./FluencyResult";
+
+interface ReadingCheckDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  content: string;
+  language?: string;
+  /** History id of the story */
+  storyId?: string;
+}
+
+const KEEP_AUDIO_KEY = "readingCheck_keepAudio";
+const MIN_DURATION_MS = 3000;
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+/**
+ * Record a reader reading the story aloud and score it: words correct per
+ * minute, accuracy and miscues, with each reader's earlier readings to show
+ * progress over time. Recordings stay on this device unless the parent opts
+ * in to keeping them in their account.
+ */
+export const ReadingCheckDialog = ({ open, onOpenChange, title, content, language, storyId }: ReadingCheckDialogProps) => {
+  const notifications = useToastNotifications();
+  const { profiles } = useChildProfiles();
+  const { sessions, scoreReading, isScoring, deleteSession } = useReadingSessions();
+  const recorder = useReadingRecorder();
+  const [readerId, setReaderId] = useState<string | null>(null);
+  const [selectedSession, setSelectedSession] = useState<ReadingSession | null>(null);
+  const [keepAudio, setKeepAudio] = useState(() => localStorage.getItem(KEEP_AUDIO_KEY) === "true");
+  const paragraphs = content.split("\n");
+
+  const readerSessions = sessions.filter((session) => session.child_profile_id === readerId);
+  const isThisStory = (session: ReadingSession) =>
+    session.story_title === title && (!storyId || session.story_id === storyId);
+
+  const handleKeepAudioChange = (checked: boolean) => {
+    setKeepAudio(checked);
+    localStorage.setItem(KEEP_AUDIO_KEY, String(checked));
+  };
+
+  const handleStop = async () => {
+    const recording = await recorder.stop();
+    if (!recording) return;
+    if (recording.durationMs < MIN_DURATION_MS) {
+      notifications.readingTooShort();
+      return;
+    }
+
+    try {
+      const session = await scoreReading({
+        ...recording,
+        storyText: content,
+        storyTitle: title,
+        language,
+        storyId,
+        childProfileId: readerId,
+        keepAudio,
+      });
+      setSelectedSession(session);
+    } catch (error) {
+      if (error instanceof Error && error.message === "READING_LIMIT_REACHED") {
+        notifications.readingLimitReached();
+        return;
+      }
+      console.error("Error scoring reading:", error);
+      notifications.readingScoreFailed();
+    }
+  };
+
+  const handleDelete = (session: ReadingSession) => {
+    if (selectedSession?.id === session.id) setSelectedSession(null);
+    deleteSession(session, { onError: () => notifications.readingSessionDeleteFailed() });
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) recorder.discard();
+    onOpenChange(isOpen);
+  };
+
+  const isRecording = recorder.status !== "idle";
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reading Check</DialogTitle>
+          <DialogDescription>
+            Record "{title}" being read aloud to see how many {getLengthUnit(language)} were read correctly per minute.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <ChildProfileSelector
+            profiles={profiles}
+            childProfileId={readerId ?? ""}
+            onChildProfileChange={(profile) => {
+              setReaderId(profile?.id ?? null);
+              setSelectedSession(null);
+            }}
+          />
+
+          {!isRecordingSupported() ? (
+            <p className="rounded-xl bg-amber-50 p-4 text-sm text-amber-800">
+              This browser can't record audio. Try the latest Chrome, Safari or Firefox.
+            </p>
+          ) : (
+            <div className="space-y-3 rounded-xl bg-purple-50 p-4 text-center">
+              {isScoring ? (
+                <p className="flex items-center justify-center gap-2 text-gray-700">
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                  Listening to the reading...
+                </p>
+              ) : isRecording ? (
+                <>
+                  <p className="text-3xl font-bold tabular-nums text-purple-700">{formatElapsed(recorder.elapsedMs)}</p>
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {recorder.status === "recording" ? (
+                      <Button variant="outline" onClick={recorder.pause} className="clay-button">
+                        <Pause className="mr-2 h-4 w-4" />
+                        Pause
+                      </Button>
+                    ) : (
+                      <Button variant="outline" onClick={recorder.resume} className="clay-button">
+                        <Play className="mr-2 h-4 w-4" />
+                        Resume
+                      </Button>
+                    )}
+                    <Button onClick={handleStop} className="clay-button">
+                      <Square className="mr-2 h-4 w-4" />
+                      Done Reading
+                    </Button>
+                    <Button variant="ghost" onClick={recorder.discard}>
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Start Over
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <Button onClick={recorder.start} size="lg" className="clay-button">
+                  <Mic className="mr-2 h-5 w-5" />
+                  Start Reading
+                </Button>
+              )}
+              {recorder.error && <p className="text-sm text-red-600">{recorder.error}</p>}
+              <label className="flex items-center justify-center gap-2 text-sm text-gray-700">
+                <Checkbox
+                  checked={keepAudio}
+                  onCheckedChange={(checked) => handleKeepAudioChange(checked === true)}
+                  disabled={isRecording || isScoring}
+                />
+                Also keep recordings in my account
+              </label>
+              <p className="text-xs text-gray-500">
+                Recordings are only sent to be scored and stay on this device unless you choose to keep them.
+              </p>
+            </div>
+          )}
+
+          {selectedSession && (
+            <FluencyResult
+              session={selectedSession}
+              paragraphs={isThisStory(selectedSession) ? paragraphs : undefined}
+            />
+          )}
+
+          <div>
+            <h3 className="mb-3 text-lg font-semibold text-gray-800">Progress</h3>
+            <FluencyHistory
+              sessions={readerSessions}
+              selectedId={selectedSession?.id}
+              onSelect={setSelectedSession}
+              onDelete={handleDelete}
+            />
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
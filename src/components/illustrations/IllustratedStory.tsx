@@ -0,0 +1,28 @@
+import { ComponentProps } from "react";
+import { useIllustrationUrls } from "@/hooks/useIllustrationUrls";
+import { StoryIllustrations } from "@/types/story";
+import { ReadAloudStory } from "@/components/read-aloud/ReadAloudStory";
+import { IllustrationFigure } from "./IllustrationFigure";
+
+interface IllustratedStoryProps extends Omit<ComponentProps<typeof ReadAloudStory>, "renderBeforeParagraph"> {
+  illustrations?: StoryIllustrations | null;
+}
+
+/**
+ * A story laid out as a picture book: each page's picture sits above the
+ * paragraphs it illustrates. Stories without pictures read as they always do.
+ */
+export const IllustratedStory = ({ illustrations, ...storyProps }: IllustratedStoryProps) => {
+  const { urls, isLoading } = useIllustrationUrls(illustrations);
+  const pages = illustrations?.pages ?? [];
+
+  const renderPicture = (paragraphIndex: number) => {
+    const pageIndex = pages.findIndex((page) => page.start === paragraphIndex);
+    const page = pages[pageIndex];
+    if (!page?.imagePath) return null;
+
+    return <IllustrationFigure url={urls[page.imagePath]} isLoading={isLoading} pageNumber={pageIndex + 1} />;
+  };
+
+  return <ReadAloudStory {...storyProps} renderBeforeParagraph={pages.length > 0 ? renderPicture : undefined} />;
+};
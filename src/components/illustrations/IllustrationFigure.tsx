@@ -0,0 +1,26 @@
+import { ImageOff } from "lucide-react";
+
+interface IllustrationFigureProps {
+  /** Signed URL of the picture, once it has loaded */
+  url?: string;
+  isLoading: boolean;
+  pageNumber: number;
+  className?: string;
+}
+
+export const IllustrationFigure = ({ url, isLoading, pageNumber, className = "my-6" }: IllustrationFigureProps) => (
+  <figure className={`not-prose ${className}`}>
+    {url ? (
+      <img
+        src={url}
+        alt={`Picture for page ${pageNumber}`}
+        loading="lazy"
+        className="w-full max-h-[28rem] object-cover rounded-2xl shadow-md"
+      />
+    ) : (
+      <div className="flex items-center justify-center w-full aspect-[4/3] rounded-2xl bg-purple-50 text-purple-300">
+        {isLoading ? <div className="w-full h-full rounded-2xl animate-pulse bg-purple-100" /> : <ImageOff className="w-10 h-10" />}
+      </div>
+    )}
+  </figure>
+);
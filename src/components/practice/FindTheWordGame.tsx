@@ -0,0 +1,97 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { SightWord } from "@/types/sightWords";
+import { tokenizeParagraph } from "@/utils/storyText";
+
+interface FindTheWordGameProps {
+  title: string;
+  paragraphs: string[];
+  words: SightWord[];
+  onAnswer: (word: SightWord, correct: boolean, responseMs: number | null) => void;
+  onFinish: () => void;
+}
+
+// How long the right answer stays highlighted before the next word
+const FEEDBACK_MS = 1200;
+
+// The reader looks for each word in the story and taps it; the first tap counts
+export const FindTheWordGame = ({ title, paragraphs, words, onAnswer, onFinish }: FindTheWordGameProps) => {
+  const [index, setIndex] = useState(0);
+  const [feedback, setFeedback] = useState<{ correct: boolean; tapped: string } | null>(null);
+  const shownAtRef = useRef(Date.now());
+  const advanceTimerRef = useRef<number>();
+  const target = words[index];
+  const tokenized = useMemo(() => paragraphs.map((paragraph) => tokenizeParagraph(paragraph)), [paragraphs]);
+
+  useEffect(() => {
+    shownAtRef.current = Date.now();
+  }, [index]);
+
+  // Don't move on after the game has been left
+  useEffect(() => () => window.clearTimeout(advanceTimerRef.current), []);
+
+  const isTarget = (text: string) => text.toLowerCase() === target.word.toLowerCase();
+
+  const handleTap = (text: string) => {
+    if (feedback) return;
+    const correct = isTarget(text);
+    onAnswer(target, correct, Date.now() - shownAtRef.current);
+    setFeedback({ correct, tapped: text.toLowerCase() });
+    advanceTimerRef.current = window.setTimeout(() => {
+      setFeedback(null);
+      if (index + 1 < words.length) {
+        setIndex(index + 1);
+      } else {
+        onFinish();
+      }
+    }, FEEDBACK_MS);
+  };
+
+  const tokenClass = (text: string) => {
+    if (!feedback) return "hover:bg-yellow-100";
+    if (isTarget(text)) return "bg-green-200 text-green-900";
+    if (!feedback.correct && text.toLowerCase() === feedback.tapped) return "bg-red-100 text-red-700";
+    return "";
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="clay-card p-4 text-center sticky top-2 z-10 bg-white">
+        <p className="text-sm text-gray-500">
+          Word {index + 1} of {words.length}
+        </p>
+        <p className="text-lg sm:text-xl text-gray-700">
+          Find the word <span className="text-3xl font-bold text-gray-900 ml-1">{target.word}</span>
+        </p>
+        {feedback && (
+          <p className={`mt-1 font-semibold ${feedback.correct ? "text-green-600" : "text-red-600"}`}>
+            {feedback.correct ? "You found it!" : "Not quite. Here it is!"}
+          </p>
+        )}
+      </div>
+
+      <div className="clay-card p-6 sm:p-8">
+        <h3 className="text-xl font-bold text-gray-800 mb-4 text-center">{title}</h3>
+        <div className="space-y-4 text-lg leading-relaxed text-gray-800">
+          {tokenized.map((tokens, paragraphIndex) => (
+            <p key={paragraphIndex}>
+              {tokens.map((token, tokenIndex) =>
+                token.isWord ? (
+                  <button
+                    key={tokenIndex}
+                    type="button"
+                    onClick={() => handleTap(token.text)}
+                    className={`rounded px-0.5 transition-colors ${tokenClass(token.text)}`}
+                  >
+                    {token.text}
+                  </button>
+                ) : (
+                  <span key={tokenIndex}>{token.text}</span>
+                )
+              )}
+            </p>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
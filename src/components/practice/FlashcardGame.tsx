@@ -0,0 +1,88 @@
+import { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Check, X } from "lucide-react";
+import { SightWord } from "@/types/sightWords";
+import { FLASHCARD_SECONDS } from "@/utils/practiceGames";
+
+interface FlashcardGameProps {
+  words: SightWord[];
+  onAnswer: (word: SightWord, correct: boolean, responseMs: number | null) => void;
+  onFinish: () => void;
+}
+
+// The reader says each word aloud; a grown-up marks whether it was read in time
+export const FlashcardGame = ({ words, onAnswer, onFinish }: FlashcardGameProps) => {
+  const [index, setIndex] = useState(0);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const shownAtRef = useRef(Date.now());
+  const word = words[index];
+  const timeUp = elapsedMs >= FLASHCARD_SECONDS * 1000;
+
+  useEffect(() => {
+    shownAtRef.current = Date.now();
+    setElapsedMs(0);
+    const timer = window.setInterval(() => {
+      const elapsed = Date.now() - shownAtRef.current;
+      setElapsedMs(elapsed);
+      if (elapsed >= FLASHCARD_SECONDS * 1000) {
+        window.clearInterval(timer);
+      }
+    }, 100);
+    return () => window.clearInterval(timer);
+  }, [index]);
+
+  const handleAnswer = (correct: boolean) => {
+    // Reading the word after the time is up doesn't count as knowing it by sight
+    onAnswer(word, correct && !timeUp, timeUp ? null : Date.now() - shownAtRef.current);
+    if (index + 1 < words.length) {
+      setIndex(index + 1);
+    } else {
+      onFinish();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-500 text-center">
+        Card {index + 1} of {words.length}
+      </p>
+
+      <motion.div
+        key={word.id}
+        initial={{ opacity: 0, rotateY: 90 }}
+        animate={{ opacity: 1, rotateY: 0 }}
+        transition={{ duration: 0.3 }}
+        className="clay-card p-10 sm:p-16 text-center"
+      >
+        <span className="text-5xl sm:text-7xl font-bold text-gray-800 break-words">{word.word}</span>
+      </motion.div>
+
+      <div className="space-y-1">
+        <Progress value={Math.min(100, (elapsedMs / (FLASHCARD_SECONDS * 1000)) * 100)} />
+        <p className="text-xs text-gray-500 text-center">
+          {timeUp ? "Time's up! Mark whether the word was read." : `${Math.ceil(FLASHCARD_SECONDS - elapsedMs / 1000)} seconds left`}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <Button
+          onClick={() => handleAnswer(false)}
+          variant="outline"
+          className="clay-button min-h-[56px] text-base font-semibold text-red-600"
+        >
+          <X className="mr-2 h-5 w-5" />
+          Not yet
+        </Button>
+        <Button
+          onClick={() => handleAnswer(true)}
+          className="clay-button min-h-[56px] text-base font-semibold bg-green-500 hover:bg-green-600 text-white"
+        >
+          <Check className="mr-2 h-5 w-5" />
+          Got it!
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { SightWord } from "@/types/sightWords";
+import { shuffle } from "@/utils/practiceGames";
+
+interface MatchingGameProps {
+  words: SightWord[];
+  onAnswer: (word: SightWord, correct: boolean, responseMs: number | null) => void;
+  onFinish: () => void;
+}
+
+/**
+ * Match each word to the same word written in capitals. A word counts as
+ * known when it is matched without a wrong guess first.
+ */
+export const MatchingGame = ({ words, onAnswer, onFinish }: MatchingGameProps) => {
+  const capitals = useMemo(() => shuffle(words), [words]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [matchedIds, setMatchedIds] = useState<string[]>([]);
+  const [missedIds, setMissedIds] = useState<string[]>([]);
+  const [wrongPair, setWrongPair] = useState<string | null>(null);
+
+  const handlePickCapital = (capital: SightWord) => {
+    const word = words.find((candidate) => candidate.id === selectedId);
+    if (!word) return;
+
+    if (capital.id === word.id) {
+      const matched = [...matchedIds, word.id];
+      onAnswer(word, !missedIds.includes(word.id), null);
+      setMatchedIds(matched);
+      setSelectedId(null);
+      if (matched.length === words.length) {
+        onFinish();
+      }
+    } else {
+      setMissedIds((previous) => (previous.includes(word.id) ? previous : [...previous, word.id]));
+      setWrongPair(capital.id);
+      window.setTimeout(() => setWrongPair(null), 600);
+    }
+  };
+
+  const wordButtonClass = (word: SightWord, isSelected: boolean) => {
+    if (matchedIds.includes(word.id)) return "bg-green-100 text-green-800 border-green-300 opacity-60";
+    if (isSelected) return "bg-blue-100 text-blue-900 border-blue-400";
+    return "bg-white text-gray-800";
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500 text-center">
+        Tap a word, then tap the same word in capitals.
+        {" "}{matchedIds.length} of {words.length} matched
+      </p>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-3">
+          {words.map((word) => (
+            <Button
+              key={word.id}
+              variant="outline"
+              disabled={matchedIds.includes(word.id)}
+              onClick={() => setSelectedId(word.id)}
+              className={`clay-button w-full min-h-[56px] text-xl font-bold ${wordButtonClass(word, selectedId === word.id)}`}
+            >
+              {word.word.toLowerCase()}
+            </Button>
+          ))}
+        </div>
+        <div className="space-y-3">
+          {capitals.map((capital) => (
+            <Button
+              key={capital.id}
+              variant="outline"
+              disabled={!selectedId || matchedIds.includes(capital.id)}
+              onClick={() => handlePickCapital(capital)}
+              className={`clay-button w-full min-h-[56px] text-xl font-bold ${
+                wrongPair === capital.id ? "bg-red-100 text-red-700 border-red-300" : wordButtonClass(capital, false)
+              }`}
+            >
+              {capital.word.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,218 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CloudOff, Layers, RefreshCw, Search, Shuffle, Trophy } from "lucide-react";
+import { useToastNotifications } from "@/hooks/useToastNotifications";
+import { useAuth } from "@/contexts/AuthContext";
+import { SightWordLists } from "@/hooks/useSightWordLists";
+import { PracticeSync } from "@/hooks/usePracticeSync";
+import { PracticeGame, SightWord } from "@/types/sightWords";
+import { loadPracticeDeck, savePracticeDeck } from "@/services/practiceSync";
+import {
+  MATCHING_ROUND_SIZE,
+  PRACTICE_GAMES,
+  ROUND_SIZE,
+  createPracticeResult,
+  findStoryTargets,
+  pickPracticeWords,
+} from "@/utils/practiceGames";
+import { FlashcardGame } from "./FlashcardGame";
+import { FindTheWordGame } from "./FindTheWordGame";
+import { MatchingGame } from "./MatchingGame";
+
+interface PracticeModeProps {
+  wordLists: SightWordLists;
+  practice: PracticeSync;
+  // The story currently shown on the Story tab, for Find the Word
+  story: { title: string; content: string } | null;
+}
+
+const GAME_ICONS: Record<PracticeGame, typeof Layers> = {
+  flashcards: Layers,
+  "find-the-word": Search,
+  matching: Shuffle,
+};
+
+export const PracticeMode = ({ wordLists, practice, story }: PracticeModeProps) => {
+  const { selectedList, words } = wordLists;
+  const { pendingCount, isOnline, recordResult, sync } = practice;
+  const notifications = useToastNotifications();
+  const { user } = useAuth();
+  const [game, setGame] = useState<PracticeGame | null>(null);
+  const [roundWords, setRoundWords] = useState<SightWord[]>([]);
+  const [score, setScore] = useState({ correct: 0, total: 0 });
+  const [isFinished, setIsFinished] = useState(false);
+
+  // Keep the list's words on the device so practice works offline
+  useEffect(() => {
+    if (user && selectedList) {
+      savePracticeDeck(user.id, { listId: selectedList.id, listName: selectedList.name, words });
+    }
+  }, [user, selectedList, words]);
+
+  const deck = selectedList
+    ? { listName: selectedList.name, words }
+    : user && loadPracticeDeck(user.id);
+  const activeWords = (deck?.words ?? []).filter((word) => word.active);
+  const paragraphs = useMemo(
+    () => (story?.content ?? "").split("\n").filter((paragraph) => paragraph.trim()),
+    [story?.content]
+  );
+  const storyTargets = findStoryTargets(paragraphs, activeWords);
+
+  const roundSource: Record<PracticeGame, { words: SightWord[]; size: number }> = {
+    flashcards: { words: activeWords, size: ROUND_SIZE },
+    "find-the-word": { words: storyTargets, size: ROUND_SIZE },
+    matching: { words: activeWords, size: MATCHING_ROUND_SIZE },
+  };
+
+  const startGame = (nextGame: PracticeGame) => {
+    const { words: candidates, size } = roundSource[nextGame];
+    setRoundWords(pickPracticeWords(candidates, size));
+    setScore({ correct: 0, total: 0 });
+    setIsFinished(false);
+    setGame(nextGame);
+  };
+
+  const handleAnswer = (word: SightWord, correct: boolean, responseMs: number | null) => {
+    if (!game) return;
+    recordResult(createPracticeResult(word, game, correct, responseMs));
+    setScore((previous) => ({
+      correct: previous.correct + (correct ? 1 : 0),
+      total: previous.total + 1,
+    }));
+  };
+
+  const handleFinish = () => {
+    setIsFinished(true);
+    if (navigator.onLine) {
+      sync();
+    } else {
+      notifications.practiceSavedOffline();
+    }
+  };
+
+  // Answers given before stopping still count
+  const handleStop = () => {
+    setGame(null);
+    sync();
+  };
+
+  const unavailableReason = (option: PracticeGame): string | null => {
+    if (activeWords.length === 0) return "Activate some sight words to practice.";
+    if (option === "find-the-word" && paragraphs.length === 0) return "Create a story first.";
+    if (option === "find-the-word" && storyTargets.length === 0) return "None of your active words are in the current story.";
+    if (option === "matching" && activeWords.length < 2) return "Needs at least 2 active words.";
+    return null;
+  };
+
+  const syncStatus = (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-500">
+      {!isOnline && (
+        <Badge variant="outline" className="gap-1">
+          <CloudOff className="h-3 w-3" />
+          Offline
+        </Badge>
+      )}
+      {pendingCount > 0 && (
+        <>
+          <span>
+            {pendingCount} {pendingCount === 1 ? "answer" : "answers"} waiting to sync
+          </span>
+          {isOnline && (
+            <Button variant="ghost" size="sm" onClick={sync} className="h-7 px-2">
+              <RefreshCw className="mr-1 h-3 w-3" />
+              Sync now
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+
+  if (game && isFinished) {
+    return (
+      <div className="max-w-2xl mx-auto space-y-6 animate-fade-in">
+        <div className="clay-card p-8 text-center space-y-4">
+          <Trophy className="h-12 w-12 mx-auto text-yellow-500" />
+          <h2 className="text-2xl font-bold text-gray-800">Great practice!</h2>
+          <p className="text-lg text-gray-700">
+            {score.correct} of {score.total} {score.total === 1 ? "word" : "words"} read correctly
+          </p>
+          <div className="flex flex-col sm:flex-row gap-3 justify-center">
+            <Button onClick={() => startGame(game)} className="clay-button min-h-[48px]">
+              Play Again
+            </Button>
+            <Button variant="outline" onClick={() => setGame(null)} className="clay-button min-h-[48px]">
+              Choose Another Game
+            </Button>
+          </div>
+        </div>
+        {syncStatus}
+      </div>
+    );
+  }
+
+  if (game && roundWords.length > 0) {
+    return (
+      <div className="max-w-2xl mx-auto space-y-4 animate-fade-in">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-800">{PRACTICE_GAMES[game].title}</h2>
+          <Button variant="ghost" size="sm" onClick={handleStop}>
+            Stop
+          </Button>
+        </div>
+        {game === "flashcards" && (
+          <FlashcardGame words={roundWords} onAnswer={handleAnswer} onFinish={handleFinish} />
+        )}
+        {game === "find-the-word" && (
+          <FindTheWordGame
+            title={story?.title ?? ""}
+            paragraphs={paragraphs}
+            words={roundWords}
+            onAnswer={handleAnswer}
+            onFinish={handleFinish}
+          />
+        )}
+        {game === "matching" && (
+          <MatchingGame words={roundWords} onAnswer={handleAnswer} onFinish={handleFinish} />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
+      <div className="text-center sm:text-left">
+        <h2 className="text-xl sm:text-2xl font-bold text-gray-800">Practice Sight Words</h2>
+        {deck && (
+          <p className="text-gray-600">
+            {activeWords.length} active {activeWords.length === 1 ? "word" : "words"} from "{deck.listName}"
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        {(Object.keys(PRACTICE_GAMES) as PracticeGame[]).map((option) => {
+          const Icon = GAME_ICONS[option];
+          const reason = unavailableReason(option);
+          return (
+            <button
+              key={option}
+              type="button"
+              onClick={() => startGame(option)}
+              disabled={!!reason}
+              className="clay-card p-6 text-left space-y-2 transition-transform hover:scale-[1.02] disabled:opacity-60 disabled:hover:scale-100"
+            >
+              <Icon className="h-8 w-8 text-purple-500" />
+              <h3 className="text-lg font-bold text-gray-800">{PRACTICE_GAMES[option].title}</h3>
+              <p className="text-sm text-gray-600">{reason ?? PRACTICE_GAMES[option].description}</p>
+            </button>
+          );
+        })}
+      </div>
+
+      {syncStatus}
+    </div>
+  );
+};
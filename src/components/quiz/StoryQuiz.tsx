@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Check, RotateCcw, Volume2, X } from "lucide-react";
+import { useQuizResults } from "@/hooks/useQuizResults";
+import { useToastNotifications } from "@/hooks/useToastNotifications";
+import { ComprehensionQuestion, QuestionKind } from "@/types/story";
+import { isSpeechSupported, speakText } from "@/utils/readAloud";
+
+interface StoryQuizProps {
+  questions: ComprehensionQuestion[];
+  title: string;
+  language?: string;
+  /** Where the story came from, to link the results to it */
+  storyId?: string;
+  favoriteStoryId?: string;
+  childProfileId?: string;
+}
+
+const KIND_LABELS: Record<QuestionKind, string> = {
+  literal: "Find it in the story",
+  inferential: "Think about it",
+  vocabulary: "Word meaning",
+};
+
+const CHOICE_LETTERS = ["A", "B", "C", "D", "E"];
+
+/**
+ * The multiple-choice comprehension quiz that follows a story. Answers are
+ * checked all at once, and each finished quiz is saved to the quiz results.
+ */
+export const StoryQuiz = ({ questions, title, language, storyId, favoriteStoryId, childProfileId }: StoryQuizProps) => {
+  const notifications = useToastNotifications();
+  const { results, saveResult } = useQuizResults();
+  const [chosen, setChosen] = useState<(number | null)[]>(() => questions.map(() => null));
+  const [isChecked, setIsChecked] = useState(false);
+
+  const previousResults = results.filter((result) =>
+    storyId ? result.story_id === storyId : favoriteStoryId ? result.favorite_story_id === favoriteStoryId : result.story_title === title
+  );
+  const bestScore = previousResults.reduce((best, result) => Math.max(best, result.score), -1);
+  const score = chosen.filter((choice, index) => choice === questions[index].answerIndex).length;
+  const allAnswered = chosen.every((choice) => choice !== null);
+
+  const handleCheck = () => {
+    setIsChecked(true);
+    saveResult(
+      {
+        child_profile_id: childProfileId ?? null,
+        story_id: storyId ?? null,
+        favorite_story_id: favoriteStoryId ?? null,
+        story_title: title,
+        score,
+        total: questions.length,
+        answers: questions.map((question, index) => ({
+          kind: question.kind,
+          question: question.question,
+          chosenIndex: chosen[index]!,
+          correct: chosen[index] === question.answerIndex,
+        })),
+      },
+      { onError: () => notifications.quizSaveFailed() }
+    );
+  };
+
+  const handleRetry = () => {
+    setChosen(questions.map(() => null));
+    setIsChecked(false);
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-purple-100">
+      <div className="flex items-baseline justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Quiz Time</h3>
+        {bestScore >= 0 && !isChecked && (
+          <span className="text-sm text-gray-500">
+            Best score: {bestScore}/{questions.length}
+          </span>
+        )}
+      </div>
+
+      <ol className="space-y-5">
+        {questions.map((question, questionIndex) => (
+          <li key={questionIndex} className="space-y-2">
+            <div className="flex items-start gap-2">
+              <p className="flex-1 font-medium text-gray-800">
+                {questionIndex + 1}. {question.question}
+              </p>
+              {isSpeechSupported() && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => speakText([question.question, ...question.choices].join(". "), language, 0.9)}
+                  aria-label="Read the question aloud"
+                >
+                  <Volume2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            <Badge variant="outline" className="text-xs">{KIND_LABELS[question.kind]}</Badge>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {question.choices.map((choice, choiceIndex) => {
+                const isChosen = chosen[questionIndex] === choiceIndex;
+                const isAnswer = question.answerIndex === choiceIndex;
+                const stateClass = !isChecked
+                  ? isChosen
+                    ? "border-purple-500 bg-purple-50"
+                    : "border-gray-200 hover:border-purple-300"
+                  : isAnswer
+                    ? "border-green-500 bg-green-50"
+                    : isChosen
+                      ? "border-red-400 bg-red-50"
+                      : "border-gray-200 opacity-60";
+                return (
+                  <button
+                    key={choiceIndex}
+                    type="button"
+                    disabled={isChecked}
+                    onClick={() =>
+                      setChosen((previous) => previous.map((value, index) => (index === questionIndex ? choiceIndex : value)))
+                    }
+                    className={`flex items-center gap-2 rounded-xl border-2 p-3 text-left text-gray-700 transition-colors ${stateClass}`}
+                    aria-pressed={isChosen}
+                  >
+                    <span className="font-semibold text-purple-600">{CHOICE_LETTERS[choiceIndex]}</span>
+                    <span className="flex-1">{choice}</span>
+                    {isChecked && isAnswer && <Check className="h-4 w-4 text-green-600" />}
+                    {isChecked && isChosen && !isAnswer && <X className="h-4 w-4 text-red-500" />}
+                  </button>
+                );
+              })}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <div className="mt-6 flex flex-col sm:flex-row items-center justify-center gap-3">
+        {isChecked ? (
+          <>
+            <p className="text-lg font-semibold text-purple-700">
+              {score === questions.length ? "Perfect! " : ""}You got {score} of {questions.length} right
+            </p>
+            <Button variant="outline" onClick={handleRetry} className="clay-button">
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Try Again
+            </Button>
+          </>
+        ) : (
+          <Button onClick={handleCheck} disabled={!allAnswered} className="clay-button">
+            <Check className="w-4 h-4 mr-2" />
+            Check Answers
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pause, Play, Square, Volume2 } from "lucide-react";
+import { ReadAloud } from "@/hooks/useReadAloud";
+
+interface ReadAloudControlsProps {
+  player: ReadAloud;
+  /** Paragraph "Read Aloud" starts from, such as the first one on the open page */
+  startFrom?: number;
+}
+
+export const ReadAloudControls = ({ player, startFrom = 0 }: ReadAloudControlsProps) => {
+  const { status, voices, voice, selectVoice, rate, changeRate, toggleStory, stop } = player;
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-6 p-3 rounded-xl bg-purple-50 border border-purple-100">
+      <div className="flex gap-2">
+        <Button onClick={() => toggleStory(startFrom)} variant="outline" className="clay-button flex-1 sm:flex-none">
+          {status === "playing" ? (
+            <>
+              <Pause className="w-4 h-4 mr-2" />
+              Pause
+            </>
+          ) : status === "paused" ? (
+            <>
+              <Play className="w-4 h-4 mr-2" />
+              Resume
+            </>
+          ) : (
+            <>
+              <Volume2 className="w-4 h-4 mr-2" />
+              Read Aloud
+            </>
+          )}
+        </Button>
+        {status !== "idle" && (
+          <Button onClick={stop} variant="outline" className="clay-button" aria-label="Stop reading">
+            <Square className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {voices.length > 1 && (
+        <Select value={voice?.voiceURI} onValueChange={selectVoice}>
+          <SelectTrigger className="sm:w-48" aria-label="Voice">
+            <SelectValue placeholder="Voice" />
+          </SelectTrigger>
+          <SelectContent>
+            {voices.map((option) => (
+              <SelectItem key={option.voiceURI} value={option.voiceURI}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <div className="flex items-center gap-3 sm:flex-1">
+        <span className="text-sm text-gray-600 whitespace-nowrap w-20">Speed {rate.toFixed(1)}&times;</span>
+        <Slider
+          value={[rate]}
+          min={0.5}
+          max={1.5}
+          step={0.1}
+          onValueChange={([value]) => changeRate(value)}
+          aria-label="Reading speed"
+        />
+      </div>
+    </div>
+  );
+};
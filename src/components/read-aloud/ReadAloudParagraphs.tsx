@@ -0,0 +1,127 @@
+import { Fragment, ReactNode } from "react";
+import { Pause, Play, Volume2 } from "lucide-react";
+import { ReadAloud } from "@/hooks/useReadAloud";
+import { splitForHighlight } from "@/utils/sightWordHighlighting";
+import { markSpokenRange } from "@/utils/readAloud";
+import { sentenceAt, tokenizeParagraph } from "@/utils/storyText";
+
+interface ReadAloudParagraphsProps {
+  player: ReadAloud;
+  /** Everything the player narrates */
+  paragraphs: string[];
+  /** Show only paragraphs [start, end), such as one page of a book */
+  start?: number;
+  end?: number;
+  /** Sight word spellings to highlight, from getHighlightForms */
+  highlightForms?: Set<string>;
+  paragraphClassName?: string;
+  /** Makes each word tappable, with the sentence it appears in */
+  onWordTap?: (word: string, sentence: string) => void;
+  /** Content shown above a paragraph, such as a picture book illustration */
+  renderBeforeParagraph?: (index: number) => ReactNode;
+}
+
+/**
+ * Paragraphs narrated by a read-aloud player, each with its own play button
+ * and the word being spoken highlighted.
+ */
+export const ReadAloudParagraphs = ({
+  player,
+  paragraphs,
+  start = 0,
+  end = paragraphs.length,
+  highlightForms = new Set<string>(),
+  paragraphClassName = "mb-4 text-gray-700 leading-relaxed",
+  onWordTap,
+  renderBeforeParagraph,
+}: ReadAloudParagraphsProps) => {
+  const { isSupported, status, paragraphIndex, spokenRange, toggleParagraph } = player;
+
+  // With onWordTap every word becomes a button
+  const renderText = (text: string, offset: number, paragraph: string): ReactNode => {
+    if (!onWordTap) return text;
+    let position = offset;
+    return tokenizeParagraph(text).map((token, tokenIndex) => {
+      const wordStart = position;
+      position += token.text.length;
+      return token.isWord ? (
+        <button
+          key={tokenIndex}
+          type="button"
+          onClick={() => onWordTap(token.text, sentenceAt(paragraph, wordStart))}
+          className="rounded hover:bg-purple-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-purple-400"
+        >
+          {token.text}
+        </button>
+      ) : (
+        <Fragment key={tokenIndex}>{token.text}</Fragment>
+      );
+    });
+  };
+
+  return (
+    <div className="prose prose-lg max-w-none">
+      {paragraphs.slice(start, end).map((paragraph, offset) => {
+        const index = start + offset;
+        const isCurrent = paragraphIndex === index;
+        const segments = markSpokenRange(
+          splitForHighlight(paragraph, highlightForms),
+          isCurrent ? spokenRange : null
+        );
+        // Where each segment starts in the paragraph
+        const offsets = segments.map((_, i) => segments.slice(0, i).reduce((sum, segment) => sum + segment.text.length, 0));
+
+        return (
+          <Fragment key={index}>
+            {renderBeforeParagraph?.(index)}
+            <p
+              className={`${paragraphClassName} ${isCurrent ? "bg-purple-50 rounded-lg -mx-2 px-2" : ""}`}
+            >
+              {isSupported && paragraph.trim() && (
+                <button
+                  type="button"
+                  onClick={() => toggleParagraph(index)}
+                  className="inline-flex items-center justify-center align-middle w-7 h-7 mr-2 rounded-full text-purple-500 hover:bg-purple-100"
+                  aria-label={
+                    isCurrent && status === "playing"
+                      ? "Pause this paragraph"
+                      : isCurrent && status === "paused"
+                        ? "Resume this paragraph"
+                        : "Read this paragraph aloud"
+                  }
+                >
+                  {isCurrent && status === "playing" ? (
+                    <Pause className="w-4 h-4" />
+                  ) : isCurrent && status === "paused" ? (
+                    <Play className="w-4 h-4" />
+                  ) : (
+                    <Volume2 className="w-4 h-4" />
+                  )}
+                </button>
+              )}
+              {segments.map((segment, segmentIndex) => {
+                const className = segment.spoken ? "bg-purple-300 text-gray-900" : "bg-yellow-200 text-gray-900";
+                const text = renderText(segment.text, offsets[segmentIndex], paragraph);
+
+                if (segment.highlighted) {
+                  return (
+                    <mark key={segmentIndex} className={`${className} rounded px-0.5`}>
+                      {text}
+                    </mark>
+                  );
+                }
+                return segment.spoken ? (
+                  <span key={segmentIndex} className={`${className} rounded`}>
+                    {text}
+                  </span>
+                ) : (
+                  <Fragment key={segmentIndex}>{text}</Fragment>
+                );
+              })}
+            </p>
+          </Fragment>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import { ReactNode } from "react";
+import { useReadAloud } from "@/hooks/useReadAloud";
+import { ReadAloudControls } from "./ReadAloudControls";
+import { ReadAloudParagraphs } from "./ReadAloudParagraphs";
+
+interface ReadAloudStoryProps {
+  paragraphs: string[];
+  language?: string;
+  /** Sight word spellings to highlight, from getHighlightForms */
+  highlightForms?: Set<string>;
+  paragraphClassName?: string;
+  /** Makes each word tappable, with the sentence it appears in */
+  onWordTap?: (word: string, sentence: string) => void;
+  /** Content shown above a paragraph, such as a picture book illustration */
+  renderBeforeParagraph?: (index: number) => ReactNode;
+}
+
+/**
+ * A story's paragraphs with a read-aloud player: the whole story can be
+ * narrated from the top, or any paragraph on its own, and the word being
+ * spoken is highlighted as it is read. Without speech synthesis support the
+ * paragraphs are shown as they are.
+ */
+export const ReadAloudStory = ({
+  paragraphs,
+  language,
+  highlightForms = new Set<string>(),
+  paragraphClassName = "mb-4 text-gray-700 leading-relaxed",
+  onWordTap,
+  renderBeforeParagraph,
+}: ReadAloudStoryProps) => {
+  const player = useReadAloud(paragraphs, language);
+
+  return (
+    <div>
+      {player.isSupported && <ReadAloudControls player={player} />}
+      <ReadAloudParagraphs
+        player={player}
+        paragraphs={paragraphs}
+        highlightForms={highlightForms}
+        paragraphClassName={paragraphClassName}
+        onWordTap={onWordTap}
+        renderBeforeParagraph={renderBeforeParagraph}
+      />
+    </div>
+  );
+};
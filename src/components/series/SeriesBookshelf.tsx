@@ -0,0 +1,202 @@
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { BookMarked, ChevronLeft, ChevronRight, PenLine } from "lucide-react";
+import { StorySeries } from "@/types/story";
+import { StoryReader } from "@/components/book/StoryReader";
+import { useFavoriteStories } from "@/hooks/useFavoriteStories";
+import { useLocale } from "@/hooks/useLocale";
+import { StoryQuiz } from "@/components/quiz/StoryQuiz";
+import { StoryExportMenu } from "@/components/export/StoryExportMenu";
+import { getHighlightForms } from "@/utils/sightWordHighlighting";
+
+interface SeriesBookshelfProps {
+  series: StorySeries[];
+  onContinueSeries?: (series: StorySeries) => void;
+}
+
+interface SeriesBookProps {
+  series: StorySeries;
+  onClose: () => void;
+  onContinueSeries?: (series: StorySeries) => void;
+}
+
+// Reads a series like a book: one chapter at a time, with a table of contents
+const SeriesBook = ({ series, onClose, onContinueSeries }: SeriesBookProps) => {
+  const [chapterIndex, setChapterIndex] = useState(0);
+  const chapter = series.chapters[chapterIndex];
+  const { saveLastPage } = useFavoriteStories();
+  const { t } = useLocale();
+  // Every chapter is written with the series' original story settings
+  const { readingLevel, theme } = series.request_params;
+  const chapters = series.chapters.map((entry) => ({
+    title: entry.title,
+    content: entry.content,
+    readingLevel: typeof readingLevel === "string" ? readingLevel : undefined,
+    theme: typeof theme === "string" ? theme : undefined,
+    language: entry.language,
+    subtitle: `Chapter ${entry.chapter_number}`,
+  }));
+  // The sight words each chapter was written with can be printed in bold
+  const seriesForms = useMemo(
+    () => new Set(series.chapters.flatMap((entry) => Array.from(getHighlightForms(entry.sight_words)))),
+    [series.chapters]
+  );
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">{series.title}</DialogTitle>
+          <DialogDescription>
+            {series.chapters.length} {series.chapters.length === 1 ? "chapter" : "chapters"}
+            {series.setting && ` · ${series.setting}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <nav aria-label="Chapters" className="flex flex-wrap gap-2">
+          {series.chapters.map((entry, index) => (
+            <Button
+              key={entry.id}
+              size="sm"
+              variant={index === chapterIndex ? "default" : "outline"}
+              onClick={() => setChapterIndex(index)}
+            >
+              {entry.chapter_number}
+            </Button>
+          ))}
+        </nav>
+
+        {chapter && (
+          <article>
+            <p className="text-sm font-semibold uppercase tracking-wide text-purple-600">
+              Chapter {chapter.chapter_number}
+            </p>
+            <h3 className="text-xl font-bold text-gray-800 mb-4">{chapter.title}</h3>
+            <StoryReader
+              key={chapter.id}
+              paragraphs={chapter.content.split("\n")}
+              readingLevel={chapters[chapterIndex].readingLevel}
+              language={chapter.language}
+              illustrations={chapter.illustrations}
+              bilingual={chapter.bilingual}
+              initialPage={chapter.last_page}
+              onPageChange={(page) => saveLastPage({ id: chapter.id, page })}
+            />
+            {chapter.questions && chapter.questions.length > 0 && (
+              <StoryQuiz
+                key={`quiz-${chapter.id}`}
+                questions={chapter.questions}
+                title={chapter.title}
+                language={chapter.language}
+                favoriteStoryId={chapter.id}
+              />
+            )}
+          </article>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-3 justify-between items-center pt-4 border-t border-purple-100">
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setChapterIndex(chapterIndex - 1)}
+              disabled={chapterIndex === 0}
+            >
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setChapterIndex(chapterIndex + 1)}
+              disabled={chapterIndex >= series.chapters.length - 1}
+            >
+              Next
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </Button>
+            {chapter && (
+              <StoryExportMenu
+                title={`${series.title} - Chapter ${chapter.chapter_number}`}
+                stories={[{ ...chapters[chapterIndex], subtitle: `${series.title} · Chapter ${chapter.chapter_number}` }]}
+                language={chapter.language}
+                sightWordForms={getHighlightForms(chapter.sight_words)}
+                label={t("export.chapter")}
+              />
+            )}
+            <StoryExportMenu
+              title={series.title}
+              stories={chapters}
+              description={series.setting || undefined}
+              language={chapters[0]?.language}
+              sightWordForms={seriesForms}
+              label={t("export.series")}
+            />
+          </div>
+          {onContinueSeries && (
+            <Button
+              onClick={() => {
+                onClose();
+                onContinueSeries(series);
+              }}
+              className="bg-gradient-to-r from-purple-500 to-pink-500 text-white"
+            >
+              <PenLine className="w-4 h-4 mr-2" />
+              Write Chapter {series.chapter_count + 1}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export const SeriesBookshelf = ({ series, onContinueSeries }: SeriesBookshelfProps) => {
+  const [openSeriesId, setOpenSeriesId] = useState<string | null>(null);
+  const openSeries = series.find((entry) => entry.id === openSeriesId);
+
+  if (series.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-xl font-semibold text-gray-700">Story Series</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {series.map((entry) => (
+          <motion.button
+            key={entry.id}
+            type="button"
+            whileHover={{ y: -2 }}
+            onClick={() => setOpenSeriesId(entry.id)}
+            className="clay-card p-5 text-left"
+          >
+            <div className="flex items-start gap-3">
+              <BookMarked className="w-8 h-8 text-purple-500 shrink-0" />
+              <div>
+                <h4 className="font-semibold text-gray-800">{entry.title}</h4>
+                <p className="text-sm text-gray-600">
+                  {entry.chapters.length} {entry.chapters.length === 1 ? "chapter" : "chapters"}
+                  {" · "}
+                  {new Date(entry.updated_at).toLocaleDateString()}
+                </p>
+                {entry.characters.length > 0 && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    With {entry.characters.slice(0, 3).map((character) => character.name).join(", ")}
+                  </p>
+                )}
+              </div>
+            </div>
+          </motion.button>
+        ))}
+      </div>
+
+      {openSeries && (
+        <SeriesBook
+          series={openSeries}
+          onClose={() => setOpenSeriesId(null)}
+          onContinueSeries={onContinueSeries}
+        />
+      )}
+    </div>
+  );
+};
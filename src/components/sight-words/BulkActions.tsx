@@ -1,47 +1,89 @@
-
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 
 interface BulkActionsProps {
   activeCount: number;
   totalCount: number;
+  selectedCount: number;
   onSelectAll: () => void;
   onDeselectAll: () => void;
+  onSelectionChange: (selectAll: boolean) => void;
+  onActivateSelected: () => void;
+  onDeactivateSelected: () => void;
+  onDeleteSelected: () => void;
 }
 
 export const BulkActions = ({ 
   activeCount, 
   totalCount, 
+  selectedCount,
   onSelectAll, 
-  onDeselectAll 
+  onDeselectAll,
+  onSelectionChange,
+  onActivateSelected,
+  onDeactivateSelected,
+  onDeleteSelected,
 }: BulkActionsProps) => {
   return (
-    <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
-      <div className="flex items-center gap-2">
-        <Badge variant="outline" className="font-medium">
-          {activeCount} of {totalCount} active
-        </Badge>
+    <div className="space-y-3 p-4 bg-gray-50 rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="font-medium">
+            {activeCount} of {totalCount} active
+          </Badge>
+        </div>
+        
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onSelectAll}
+            disabled={activeCount === totalCount}
+            className="text-xs"
+          >
+            Select All
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onDeselectAll}
+            disabled={activeCount === 0}
+            className="text-xs"
+          >
+            Deselect All
+          </Button>
+        </div>
       </div>
-      
-      <div className="flex gap-2">
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={onSelectAll}
-          disabled={activeCount === totalCount}
-          className="text-xs"
-        >
-          Select All
-        </Button>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={onDeselectAll}
-          disabled={activeCount === 0}
-          className="text-xs"
-        >
-          Deselect All
-        </Button>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 pt-3 border-t border-gray-200">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <Checkbox
+            checked={selectedCount === 0 ? false : selectedCount === totalCount ? true : "indeterminate"}
+            onCheckedChange={(checked) => onSelectionChange(checked === true)}
+            aria-label="Select every word"
+          />
+          {selectedCount > 0 ? `${selectedCount} selected` : "Select words to change them together"}
+        </label>
+
+        {selectedCount > 0 && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={onActivateSelected} className="text-xs">
+              Activate
+            </Button>
+            <Button variant="outline" size="sm" onClick={onDeactivateSelected} className="text-xs">
+              Deactivate
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onDeleteSelected}
+              className="text-xs text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              Delete
+            </Button>
+          </div>
+        )}
       </div>
     </div>
   );
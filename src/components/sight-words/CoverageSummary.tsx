@@ -0,0 +1,46 @@
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { SightWordCoverage } from "@/types/story";
+
+interface CoverageSummaryProps {
+  coverage: SightWordCoverage;
+  highlightEnabled: boolean;
+  onHighlightChange: (enabled: boolean) => void;
+}
+
+export const CoverageSummary = ({ coverage, highlightEnabled, onHighlightChange }: CoverageSummaryProps) => {
+  const usedCount = coverage.occurrences.length - coverage.missing.length;
+
+  return (
+    <div className="mb-6 p-4 rounded-lg bg-gradient-to-r from-purple-50 to-pink-50 border border-purple-200">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <p className="text-sm font-semibold text-gray-700">
+          Sight words: {usedCount} of {coverage.occurrences.length} used
+        </p>
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          Highlight
+          <Switch
+            checked={highlightEnabled}
+            onCheckedChange={onHighlightChange}
+            aria-label="Toggle sight word highlighting"
+          />
+        </label>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {coverage.occurrences.map((occurrence) => (
+          <Badge
+            key={occurrence.word}
+            variant={occurrence.count > 0 ? "default" : "secondary"}
+            className={
+              occurrence.count > 0
+                ? "bg-gradient-to-r from-purple-500 to-pink-500 text-white"
+                : "bg-gray-200 text-gray-500 line-through"
+            }
+          >
+            {occurrence.word} &times;{occurrence.count}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,49 +1,87 @@
-
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { X } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { SightWord } from "@/types/sightWords";
+import { useLocale } from "@/hooks/useLocale";
+import { MASTERY_LABELS } from "@/utils/sightWordMastery";
 
 interface WordChipProps {
-  word: string;
-  active: boolean;
+  word: SightWord;
+  selected: boolean;
+  onSelect: (selected: boolean) => void;
   onToggle: () => void;
+  onCycleMastery: () => void;
   onDelete: () => void;
 }
 
-export const WordChip = ({ word, active, onToggle, onDelete }: WordChipProps) => {
+const MASTERY_STYLES = {
+  new: "border-blue-300 text-blue-700 bg-blue-50",
+  practicing: "border-amber-300 text-amber-700 bg-amber-50",
+  mastered: "border-green-300 text-green-700 bg-green-50",
+};
+
+export const WordChip = ({ word, selected, onSelect, onToggle, onCycleMastery, onDelete }: WordChipProps) => {
+  const { active } = word;
+  const { t } = useLocale();
+
   return (
-    <div className={`flex items-center justify-between gap-3 p-3 rounded-lg border transition-all ${
+    <div className={`p-3 rounded-lg border transition-all ${
       active 
         ? 'bg-gradient-to-r from-purple-50 to-pink-50 border-purple-200' 
         : 'bg-gray-50 border-gray-200'
     }`}>
-      <Badge 
-        variant={active ? "default" : "secondary"}
-        className={`font-medium ${
-          active 
-            ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white' 
-            : 'bg-gray-300 text-gray-600'
-        }`}
-      >
-        {word}
-      </Badge>
-      
-      <div className="flex items-center gap-2">
-        <Switch
-          checked={active}
-          onCheckedChange={onToggle}
-          aria-label={`Toggle ${word}`}
-        />
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <Checkbox
+            checked={selected}
+            onCheckedChange={(checked) => onSelect(checked === true)}
+            aria-label={`Select ${word.word}`}
+          />
+          <Badge 
+            variant={active ? "default" : "secondary"}
+            className={`font-medium ${
+              active 
+                ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white' 
+                : 'bg-gray-300 text-gray-600'
+            }`}
+          >
+            {word.word}
+          </Badge>
+        </div>
         
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={onDelete}
-          className="h-6 w-6 p-0 text-gray-400 hover:text-red-500 hover:bg-red-50"
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={active}
+            onCheckedChange={onToggle}
+            aria-label={`Toggle ${word.word}`}
+          />
+          
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onDelete}
+            className="h-6 w-6 p-0 text-gray-400 hover:text-red-500 hover:bg-red-50"
+            aria-label={`Remove ${word.word}`}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 mt-2 text-xs text-gray-500">
+        <button
+          type="button"
+          onClick={onCycleMastery}
+          className={`px-2 py-0.5 rounded-full border font-medium ${MASTERY_STYLES[word.mastery]}`}
+          aria-label={t("mastery.change", { word: word.word, state: t(MASTERY_LABELS[word.mastery]).toLowerCase() })}
         >
-          <X className="h-3 w-3" />
-        </Button>
+          {t(MASTERY_LABELS[word.mastery])}
+        </button>
+        <span title={`Added ${new Date(word.created_at).toLocaleDateString()} · ${word.times_correct} of ${word.times_practiced} practice answers correct`}>
+          Seen {word.times_seen}&times; · Practiced {word.times_practiced}&times;
+        </span>
       </div>
     </div>
   );
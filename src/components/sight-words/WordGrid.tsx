@@ -1,32 +1,30 @@
-
 import { SightWord } from "@/types/sightWords";
+import { compareSightWords } from "@/utils/sightWordMastery";
 import { WordChip } from "./WordChip";
 
 interface WordGridProps {
   words: SightWord[];
-  onToggleWord: (index: number) => void;
-  onDeleteWord: (index: number) => void;
+  selectedIds: string[];
+  onSelectWord: (word: SightWord, selected: boolean) => void;
+  onToggleWord: (word: SightWord) => void;
+  onCycleMastery: (word: SightWord) => void;
+  onDeleteWord: (word: SightWord) => void;
 }
 
-export const WordGrid = ({ words, onToggleWord, onDeleteWord }: WordGridProps) => {
-  // Sort words: active first, then inactive
-  const sortedWords = words
-    .map((word, index) => ({ ...word, originalIndex: index }))
-    .sort((a, b) => {
-      if (a.active && !b.active) return -1;
-      if (!a.active && b.active) return 1;
-      return 0;
-    });
+export const WordGrid = ({ words, selectedIds, onSelectWord, onToggleWord, onCycleMastery, onDeleteWord }: WordGridProps) => {
+  const sortedWords = [...words].sort(compareSightWords);
 
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 max-w-4xl">
-      {sortedWords.map(({ word, active, originalIndex }) => (
+      {sortedWords.map((word) => (
         <WordChip
-          key={`${word}-${originalIndex}`}
+          key={word.id}
           word={word}
-          active={active}
-          onToggle={() => onToggleWord(originalIndex)}
-          onDelete={() => onDeleteWord(originalIndex)}
+          selected={selectedIds.includes(word.id)}
+          onSelect={(selected) => onSelectWord(word, selected)}
+          onToggle={() => onToggleWord(word)}
+          onCycleMastery={() => onCycleMastery(word)}
+          onDelete={() => onDeleteWord(word)}
         />
       ))}
     </div>
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { SightWord } from "@/types/sightWords";
+import {
+  ImportedWord,
+  parseWordCsv,
+  parseWordList,
+  previewWordImport,
+} from "@/utils/sightWordImport";
+
+interface WordImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  listWords: SightWord[];
+  onImport: (words: ImportedWord[]) => Promise<void>;
+}
+
+const PreviewLine = ({ label, words }: { label: string; words: string[] }) =>
+  words.length > 0 ? (
+    <p className="text-sm text-gray-600">
+      <span className="font-medium">{label} ({words.length}):</span> {words.join(", ")}
+    </p>
+  ) : null;
+
+// Bring in words pasted from a document or exported from a spreadsheet
+export const WordImportDialog = ({ open, onOpenChange, listWords, onImport }: WordImportDialogProps) => {
+  const [pastedText, setPastedText] = useState("");
+  const [csvWords, setCsvWords] = useState<ImportedWord[]>([]);
+  const [csvFileName, setCsvFileName] = useState("");
+  const [source, setSource] = useState("paste");
+  const [isImporting, setIsImporting] = useState(false);
+
+  const imported = source === "paste" ? parseWordList(pastedText) : csvWords;
+  const preview = previewWordImport(imported, listWords);
+  const inactiveCount = preview.newWords.filter((word) => !word.active).length;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setCsvFileName(file.name);
+    setCsvWords(parseWordCsv(await file.text()));
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await onImport(preview.newWords);
+      onOpenChange(false);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Sight Words</DialogTitle>
+          <DialogDescription>
+            Paste a list or choose a CSV file. Nothing is added until you check the preview and import.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={source} onValueChange={setSource}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="paste">Paste a List</TabsTrigger>
+            <TabsTrigger value="csv">CSV File</TabsTrigger>
+          </TabsList>
+          <TabsContent value="paste" className="pt-4">
+            <Textarea
+              value={pastedText}
+              onChange={(e) => setPastedText(e.target.value)}
+              placeholder="the, and, said&#10;one word per line works too"
+              rows={6}
+              aria-label="Words to import"
+            />
+            <p className="text-xs text-gray-500 mt-2">Separate words with commas, tabs or new lines.</p>
+          </TabsContent>
+          <TabsContent value="csv" className="pt-4 space-y-2">
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              aria-label="CSV file"
+            />
+            <p className="text-xs text-gray-500">
+              Use a "word" column and, optionally, an "active" column (yes/no). Without a header row, the
+              first column is the word and the second says whether it is active.
+              {csvFileName && ` Read ${csvWords.length} words from ${csvFileName}.`}
+            </p>
+          </TabsContent>
+        </Tabs>
+
+        {imported.length > 0 && (
+          <div className="space-y-2 p-4 rounded-lg bg-gray-50">
+            <p className="text-sm font-semibold text-gray-700">
+              {preview.newWords.length} new {preview.newWords.length === 1 ? "word" : "words"} to add
+              {inactiveCount > 0 && ` (${inactiveCount} inactive)`}
+            </p>
+            <PreviewLine label="Already in this list" words={preview.existing} />
+            <PreviewLine label="Repeated in your import" words={preview.repeated} />
+            <PreviewLine label="Too long to add" words={preview.invalid} />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={isImporting || preview.newWords.length === 0}>
+            {isImporting ? "Importing..." : `Import ${preview.newWords.length} Words`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Check, Sparkles } from "lucide-react";
+import { SightWord } from "@/types/sightWords";
+import {
+  LIBRARY_LANGUAGES,
+  SightWordBand,
+  SightWordLibrary,
+  getLibrariesForLanguage,
+  isBandComplete,
+  suggestNextBand,
+} from "@/utils/sightWordLibraries";
+import { getLanguageLabel } from "@/utils/languages";
+
+interface WordLibraryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  listWords: SightWord[];
+  // The reader's level, used to suggest which band to import next
+  readingLevel: string | null;
+  /** The story language whose libraries the dialog opens on */
+  language?: string | null;
+  onAddWords: (words: string[]) => Promise<void>;
+}
+
+interface BandPickerProps {
+  library: SightWordLibrary;
+  listWords: SightWord[];
+  readingLevel: string | null;
+  isAdding: boolean;
+  onAddWords: (words: string[]) => void;
+}
+
+const BandPicker = ({ library, listWords, readingLevel, isAdding, onAddWords }: BandPickerProps) => {
+  const suggested = suggestNextBand(library, readingLevel, listWords);
+  const [bandId, setBandId] = useState(suggested?.id ?? library.bands[0].id);
+  const [picked, setPicked] = useState<string[]>([]);
+  const band = library.bands.find((entry) => entry.id === bandId) ?? library.bands[0];
+
+  const known = new Set(listWords.map((word) => word.word.toLowerCase()));
+  const newWords = band.words.filter((word) => !known.has(word.toLowerCase()));
+
+  const selectBand = (next: SightWordBand) => {
+    setBandId(next.id);
+    setPicked([]);
+  };
+
+  const togglePicked = (word: string) => {
+    setPicked((previous) =>
+      previous.includes(word) ? previous.filter((entry) => entry !== word) : [...previous, word]
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">{library.description}</p>
+
+      <div className="flex flex-wrap gap-2">
+        {library.bands.map((entry) => (
+          <Button
+            key={entry.id}
+            size="sm"
+            variant={entry.id === band.id ? "default" : "outline"}
+            onClick={() => selectBand(entry)}
+          >
+            {isBandComplete(entry, listWords) && <Check className="w-3 h-3 mr-1" />}
+            {entry.label}
+            {entry.id === suggested?.id && <Sparkles className="w-3 h-3 ml-1" aria-label="Suggested" />}
+          </Button>
+        ))}
+      </div>
+
+      {band.id === suggested?.id && (
+        <p className="text-sm text-purple-700">Suggested next for your reader.</p>
+      )}
+
+      <div className="flex flex-wrap gap-2 max-h-64 overflow-y-auto p-1">
+        {band.words.map((word) => {
+          const inList = known.has(word.toLowerCase());
+          const isPicked = picked.includes(word);
+          return (
+            <button
+              key={word}
+              type="button"
+              onClick={() => togglePicked(word)}
+              disabled={inList}
+              aria-pressed={isPicked}
+            >
+              <Badge
+                variant={isPicked ? "default" : "outline"}
+                className={
+                  inList
+                    ? "bg-gray-100 text-gray-400"
+                    : isPicked
+                      ? "bg-gradient-to-r from-purple-500 to-pink-500 text-white"
+                      : "text-gray-700"
+                }
+              >
+                {word}
+              </Badge>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2 justify-end">
+        <Button
+          variant="outline"
+          onClick={() => onAddWords(picked)}
+          disabled={isAdding || picked.length === 0}
+        >
+          Add Selected ({picked.length})
+        </Button>
+        <Button
+          onClick={() => onAddWords(newWords)}
+          disabled={isAdding || newWords.length === 0}
+          className="bg-gradient-to-r from-purple-500 to-pink-500 text-white"
+        >
+          {newWords.length === 0 ? "All in Your List" : `Import ${newWords.length} New Words`}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Browse the Dolch and Fry lists, or beginning-reader words in another story
+// language, and bring whole bands, or chosen words, into a list
+export const WordLibraryDialog = ({
+  open,
+  onOpenChange,
+  listWords,
+  readingLevel,
+  language,
+  onAddWords,
+}: WordLibraryDialogProps) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [libraryLanguage, setLibraryLanguage] = useState(() =>
+    language && LIBRARY_LANGUAGES.includes(language) ? language : "english"
+  );
+  const libraries = getLibrariesForLanguage(libraryLanguage);
+
+  const handleAddWords = async (words: string[]) => {
+    setIsAdding(true);
+    try {
+      await onAddWords(words);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Word Libraries</DialogTitle>
+          <DialogDescription>
+            Import a whole band of graded sight words, or tap words to pick just the ones you want.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Select value={libraryLanguage} onValueChange={setLibraryLanguage}>
+          <SelectTrigger className="w-full sm:w-64" aria-label="Library language">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LIBRARY_LANGUAGES.map((value) => (
+              <SelectItem key={value} value={value}>
+                {getLanguageLabel(value)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Tabs key={libraryLanguage} defaultValue={libraries[0].id}>
+          {libraries.length > 1 && (
+            <TabsList className="grid w-full grid-cols-2">
+              {libraries.map((library) => (
+                <TabsTrigger key={library.id} value={library.id}>
+                  {library.name}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          )}
+          {libraries.map((library) => (
+            <TabsContent key={library.id} value={library.id} className="pt-4">
+              <BandPicker
+                library={library}
+                listWords={listWords}
+                readingLevel={readingLevel}
+                isAdding={isAdding}
+                onAddWords={handleAddWords}
+              />
+            </TabsContent>
+          ))}
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChildProfile } from "@/types/childProfile";
+import { SightWordList } from "@/types/sightWords";
+
+const EVERY_READER = "all";
+
+interface WordListDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The list being edited, or undefined to create one
+  list?: SightWordList;
+  profiles: ChildProfile[];
+  onSave: (list: { name: string; child_profile_id: string | null }) => Promise<void>;
+}
+
+export const WordListDialog = ({ open, onOpenChange, list, profiles, onSave }: WordListDialogProps) => {
+  const [name, setName] = useState(list?.name ?? "");
+  const [childProfileId, setChildProfileId] = useState(list?.child_profile_id ?? EVERY_READER);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        name: name.trim(),
+        child_profile_id: childProfileId === EVERY_READER ? null : childProfileId,
+      });
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{list ? "Edit Word List" : "New Word List"}</DialogTitle>
+            <DialogDescription>
+              Keep separate lists for each reader, or for each week of practice.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="word-list-name">Name</Label>
+            <Input
+              id="word-list-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={60}
+              placeholder="e.g. Week 3 words"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reader</Label>
+            <Select value={childProfileId} onValueChange={setChildProfileId}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={EVERY_READER}>Every reader</SelectItem>
+                {profiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {isSaving ? "Saving..." : "Save List"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { ChildProfile } from "@/types/childProfile";
+import { SightWordList } from "@/types/sightWords";
+import { WordListDialog } from "./WordListDialog";
+
+interface WordListSelectorProps {
+  lists: SightWordList[];
+  selectedList: SightWordList | null;
+  profiles: ChildProfile[];
+  canCreateLists: boolean;
+  onSelectList: (id: string) => void;
+  onCreateList: (list: { name: string; child_profile_id: string | null }) => Promise<void>;
+  onUpdateList: (list: { id: string; name: string; child_profile_id: string | null }) => Promise<void>;
+  onDeleteList: (list: SightWordList) => void;
+  onUpgrade: () => void;
+}
+
+// The dialog that is open: creating a list, editing the selected one, or none
+type DialogMode = "create" | "edit" | null;
+
+export const WordListSelector = ({
+  lists,
+  selectedList,
+  profiles,
+  canCreateLists,
+  onSelectList,
+  onCreateList,
+  onUpdateList,
+  onDeleteList,
+  onUpgrade,
+}: WordListSelectorProps) => {
+  const [dialogMode, setDialogMode] = useState<DialogMode>(null);
+
+  const listLabel = (list: SightWordList) => {
+    const profile = profiles.find((entry) => entry.id === list.child_profile_id);
+    return profile ? `${profile.name} · ${list.name}` : list.name;
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-2">
+      <Select value={selectedList?.id ?? ""} onValueChange={onSelectList}>
+        <SelectTrigger className="w-full clay-input" aria-label="Word list">
+          <SelectValue placeholder="Choose a word list" />
+        </SelectTrigger>
+        <SelectContent>
+          {lists.map((list) => (
+            <SelectItem key={list.id} value={list.id}>
+              {listLabel(list)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          onClick={() => (canCreateLists ? setDialogMode("create") : onUpgrade())}
+          aria-label="New word list"
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => setDialogMode("edit")}
+          disabled={!selectedList}
+          aria-label="Edit word list"
+        >
+          <Pencil className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => selectedList && onDeleteList(selectedList)}
+          disabled={!selectedList || lists.length <= 1}
+          aria-label="Delete word list"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {dialogMode && (
+        <WordListDialog
+          open
+          onOpenChange={(open) => !open && setDialogMode(null)}
+          list={dialogMode === "edit" ? selectedList ?? undefined : undefined}
+          profiles={profiles}
+          onSave={(list) =>
+            dialogMode === "edit" && selectedList
+              ? onUpdateList({ id: selectedList.id, ...list })
+              : onCreateList(list)
+          }
+        />
+      )}
+    </div>
+  );
+};
@@ -83,17 +83,28 @@ const Carousel = React.forwardRef<
       api?.scrollNext()
     }, [api])
 
+    // Right-to-left carousels run the other way, so the arrow keys swap
+    const rtl = opts?.direction === "rtl"
+
     const handleKeyDown = React.useCallback(
       (event: React.KeyboardEvent<HTMLDivElement>) => {
         if (event.key === "ArrowLeft") {
           event.preventDefault()
-          scrollPrev()
+          if (rtl) {
+            scrollNext()
+          } else {
+            scrollPrev()
+          }
         } else if (event.key === "ArrowRight") {
           event.preventDefault()
-          scrollNext()
+          if (rtl) {
+            scrollPrev()
+          } else {
+            scrollNext()
+          }
         }
       },
-      [scrollPrev, scrollNext]
+      [rtl, scrollPrev, scrollNext]
     )
 
     React.useEffect(() => {
@@ -0,0 +1,150 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus, Sparkles, Volume2 } from "lucide-react";
+import { useToastNotifications } from "@/hooks/useToastNotifications";
+import { SightWordLists } from "@/hooks/useSightWordLists";
+import { defineWord } from "@/services/wordHelp";
+import { findLibraryBands } from "@/utils/sightWordLibraries";
+import { isSpeechSupported, speakText } from "@/utils/readAloud";
+import { splitSyllables } from "@/utils/syllables";
+
+interface WordHelpDialogProps {
+  /** The word that was tapped; the dialog is closed when null */
+  word: string | null;
+  sentence?: string;
+  language?: string;
+  readingLevel?: string;
+  wordLists?: SightWordLists;
+  onClose: () => void;
+}
+
+// Sight words are kept in lower case, apart from "I"
+const toListWord = (word: string) => (word === "I" ? word : word.toLowerCase());
+
+/**
+ * Help with a word tapped in a story: how to say it, its syllables, what it
+ * means, and whether it is a sight word, with a shortcut to add it to the
+ * selected sight word list.
+ */
+export const WordHelpDialog = ({ word, sentence, language = "english", readingLevel, wordLists, onClose }: WordHelpDialogProps) => {
+  const notifications = useToastNotifications();
+  const lookupWord = word?.replace(/[’']s$/i, "") ?? "";
+  const isEnglish = language === "english";
+
+  const { data: definition, isLoading, isError } = useQuery({
+    queryKey: ["wordDefinition", language, lookupWord.toLowerCase()],
+    queryFn: () => defineWord({ word: lookupWord, sentence, language, readingLevel }),
+    enabled: !!lookupWord,
+    staleTime: Infinity,
+    retry: 1,
+  });
+
+  const syllables = isEnglish ? splitSyllables(lookupWord) : [lookupWord];
+  const libraryBands = isEnglish ? findLibraryBands(lookupWord) : [];
+  const listWord = toListWord(lookupWord);
+  const isOnList = !!wordLists?.words.some((entry) => entry.word.toLowerCase() === listWord.toLowerCase());
+
+  const handleAddToList = async () => {
+    if (!wordLists) return;
+    try {
+      const { added, limitReached } = await wordLists.addWords([listWord]);
+      if (added.length > 0) {
+        notifications.wordAdded();
+      } else if (limitReached) {
+        notifications.wordLimitReached();
+      } else {
+        notifications.wordDuplicate();
+      }
+    } catch (err) {
+      if (err instanceof Error && err.message === "WORD_LIMIT_REACHED") {
+        notifications.wordLimitReached();
+        return;
+      }
+      console.error("Error adding sight word:", err);
+      notifications.wordsSaveFailed();
+    }
+  };
+
+  return (
+    <Dialog open={!!word} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3 text-3xl">
+            {lookupWord}
+            {isSpeechSupported() && (
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => speakText(lookupWord, language)}
+                aria-label={`Say "${lookupWord}"`}
+              >
+                <Volume2 className="h-5 w-5" />
+              </Button>
+            )}
+          </DialogTitle>
+          {syllables.length > 1 && (
+            <DialogDescription asChild>
+              <div className="flex items-center gap-2 text-lg">
+                <span className="font-semibold text-purple-700">{syllables.join(" · ")}</span>
+                {isSpeechSupported() && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => speakText(syllables.join(", "), language, 0.6)}
+                  >
+                    Say it slowly
+                  </Button>
+                )}
+              </div>
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {(isOnList || libraryBands.length > 0) && (
+            <div className="flex flex-wrap gap-2">
+              {isOnList && <Badge className="bg-green-100 text-green-800 hover:bg-green-100">On your sight word list</Badge>}
+              {libraryBands.map((band) => (
+                <Badge key={band} variant="outline">
+                  Sight word · {band}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="rounded-xl bg-purple-50 p-4">
+            {isLoading ? (
+              <div className="space-y-2">
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-2/3" />
+              </div>
+            ) : isError || !definition ? (
+              <p className="text-gray-600">We couldn't find what this word means. Ask a grown-up!</p>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-lg text-gray-800">{definition.definition}</p>
+                {definition.example && <p className="text-gray-600 italic">"{definition.example}"</p>}
+                {definition.source === "ai" && (
+                  <p className="flex items-center gap-1 text-xs text-gray-500">
+                    <Sparkles className="h-3 w-3" />
+                    Written by AI
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {wordLists?.selectedList && !isOnList && (
+            <Button variant="outline" onClick={handleAddToList} className="w-full clay-button">
+              <Plus className="mr-2 h-4 w-4" />
+              Add to "{wordLists.selectedList.name}"
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -4,6 +4,7 @@ import { Session, User } from '@supabase/supabase-js';
 import { useToastNotifications } from '@/hooks/useToastNotifications';
 import { isPWA, isTWA } from '@/utils/twaDetection';
 import { debugLogger } from '@/utils/debugLogger';
+import { clearPracticeDeck } from '@/services/practiceSync';
 
 interface AuthContextType {
   user: User | null;
@@ -265,6 +266,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const logout = async () => {
     try {
       debugLogger.logAuth('INFO', 'Logout attempt started');
+
+      if (user) {
+        clearPracticeDeck(user.id);
+      }
       
       // Clear local state immediately
       setUser(null);
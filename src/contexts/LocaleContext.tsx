@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState, ReactNode } from 'react';
+import { MessageKey } from '@/i18n/en';
+import { MessageParams } from '@/i18n/types';
+import { LocaleContext } from '@/i18n/localeContext';
+import { detectLocale, Locale, saveLocale, translate } from '@/i18n/translate';
+
+export const LocaleProvider = ({ children }: { children: ReactNode }) => {
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = (next: Locale) => {
+    saveLocale(next);
+    setLocaleState(next);
+  };
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    [locale]
+  );
+
+  return (
+    <LocaleContext.Provider value={{ locale, setLocale, t }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+};
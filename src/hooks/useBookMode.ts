@@ -0,0 +1,19 @@
+import { useState } from 'react';
+
+const BOOK_MODE_KEY = 'storyView_bookMode';
+
+/**
+ * Whether stories are read a page at a time or in one scroll. Until a reader
+ * picks a view, kindergarten and first grade stories open as a book.
+ */
+export const useBookMode = (readingLevel?: string) => {
+  const [preference, setPreference] = useState(() => localStorage.getItem(BOOK_MODE_KEY));
+  const bookMode = preference === null ? readingLevel === 'k' || readingLevel === '1' : preference === 'true';
+
+  const setBookMode = (value: boolean) => {
+    setPreference(String(value));
+    localStorage.setItem(BOOK_MODE_KEY, String(value));
+  };
+
+  return { bookMode, setBookMode };
+};
@@ -0,0 +1,87 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { ChildProfile, ChildProfileInput } from '@/types/childProfile';
+
+export const useChildProfiles = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: profiles = [], isLoading, isFetched } = useQuery<ChildProfile[]>({
+    queryKey: ['childProfiles', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('child_profiles')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as ChildProfile[];
+    },
+    enabled: !!user?.id,
+    staleTime: 60000, // Cache for 60 seconds
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, profile }: { id?: string; profile: ChildProfileInput }) => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const query = id
+        ? supabase.from('child_profiles').update(profile).eq('id', id)
+        : supabase.from('child_profiles').insert({ ...profile, user_id: user.id });
+
+      const { data, error } = await query.select().single();
+
+      if (error) throw error;
+      return data as ChildProfile;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['childProfiles', user?.id] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('child_profiles')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    // Optimistic update for instant UI feedback
+    onMutate: async (deletedId) => {
+      await queryClient.cancelQueries({ queryKey: ['childProfiles', user?.id] });
+
+      const previousProfiles = queryClient.getQueryData<ChildProfile[]>(['childProfiles', user?.id]);
+
+      queryClient.setQueryData<ChildProfile[]>(
+        ['childProfiles', user?.id],
+        (old) => (old || []).filter((profile) => profile.id !== deletedId)
+      );
+
+      return { previousProfiles };
+    },
+    onError: (err, deletedId, context) => {
+      if (context?.previousProfiles) {
+        queryClient.setQueryData(['childProfiles', user?.id], context.previousProfiles);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['childProfiles', user?.id] });
+    },
+  });
+
+  return {
+    profiles,
+    isLoading,
+    isFetched,
+    saveProfile: saveMutation.mutate,
+    deleteProfile: deleteMutation.mutate,
+    isSaving: saveMutation.isPending,
+    isDeleting: deleteMutation.isPending,
+  };
+};
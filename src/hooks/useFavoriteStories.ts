@@ -1,7 +1,9 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { Json } from '@/integrations/supabase/types';
 import { FavoriteStory } from '@/services/favoriteStories';
+import { BilingualText, ComprehensionQuestion, SightWordCoverage, StoryIllustrations, StorySeries } from '@/types/story';
 
 export const useFavoriteStories = () => {
   const { user } = useAuth();
@@ -19,7 +21,7 @@ export const useFavoriteStories = () => {
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      return data as FavoriteStory[];
+      return data as unknown as FavoriteStory[];
     },
     enabled: !!user?.id,
     staleTime: 60000, // Cache for 60 seconds
@@ -30,7 +32,12 @@ export const useFavoriteStories = () => {
       title: string; 
       content: string; 
       reading_level: string; 
-      theme: string 
+      theme: string;
+      language?: string;
+      sight_words?: SightWordCoverage;
+      questions?: ComprehensionQuestion[];
+      illustrations?: StoryIllustrations;
+      bilingual?: BilingualText;
     }) => {
       if (!user?.id) throw new Error('User not authenticated');
       
@@ -38,6 +45,10 @@ export const useFavoriteStories = () => {
         .from('favorite_stories')
         .insert({ 
           ...story, 
+          sight_words: (story.sight_words ?? null) as unknown as Json,
+          questions: (story.questions ?? null) as unknown as Json,
+          illustrations: (story.illustrations ?? null) as unknown as Json,
+          bilingual: (story.bilingual ?? null) as unknown as Json,
           user_id: user.id 
         })
         .select()
@@ -58,7 +69,15 @@ export const useFavoriteStories = () => {
       const optimisticStory: FavoriteStory = {
         id: `temp-${Date.now()}`,
         user_id: user!.id,
+        language: 'english',
         ...newStory,
+        sight_words: newStory.sight_words ?? null,
+        questions: newStory.questions ?? null,
+        illustrations: newStory.illustrations ?? null,
+        bilingual: newStory.bilingual ?? null,
+        last_page: 0,
+        series_id: null,
+        chapter_number: null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       };
@@ -115,11 +134,42 @@ export const useFavoriteStories = () => {
     },
   });
 
+  // Remembers where the reader is in a book; the list isn't refetched for every page turn
+  const lastPageMutation = useMutation({
+    mutationFn: async ({ id, page }: { id: string; page: number }) => {
+      const { error } = await supabase
+        .from('favorite_stories')
+        .update({ last_page: page })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onMutate: ({ id, page }) => {
+      queryClient.setQueryData<FavoriteStory[]>(
+        ['favoriteStories', user?.id],
+        (old) => (old || []).map((story) => (story.id === id ? { ...story, last_page: page } : story))
+      );
+      // Series chapters are favorites too
+      queryClient.setQueryData<StorySeries[]>(
+        ['storySeries', user?.id],
+        (old) =>
+          old?.map((series) => ({
+            ...series,
+            chapters: series.chapters.map((chapter) => (chapter.id === id ? { ...chapter, last_page: page } : chapter)),
+          }))
+      );
+    },
+    onError: (error) => {
+      console.error('Error saving book page:', error);
+    },
+  });
+
   return {
     stories,
     isLoading,
     saveStory: saveMutation.mutate,
     deleteStory: deleteMutation.mutate,
+    saveLastPage: lastPageMutation.mutate,
     isSaving: saveMutation.isPending,
     isDeleting: deleteMutation.isPending,
   };
@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { getIllustrationUrls } from '@/services/illustrations';
+import { StoryIllustrations } from '@/types/story';
+
+/** Links to a picture book's pictures, by storage path */
+export const useIllustrationUrls = (illustrations?: StoryIllustrations | null) => {
+  const paths = (illustrations?.pages ?? []).flatMap((page) => (page.imagePath ? [page.imagePath] : []));
+
+  const { data: urls = {}, isLoading } = useQuery<Record<string, string>>({
+    queryKey: ['illustrationUrls', paths],
+    queryFn: () => getIllustrationUrls(paths),
+    enabled: paths.length > 0,
+    staleTime: 50 * 60 * 1000, // Links are signed for an hour
+  });
+
+  return { urls, isLoading };
+};
@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { LocaleContext } from '@/i18n/localeContext';
+
+export const useLocale = () => {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error('useLocale must be used within LocaleProvider');
+  }
+  return context;
+};
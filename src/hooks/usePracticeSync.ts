@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { PracticeResult } from '@/types/sightWords';
+import { getQueuedPracticeResults, queuePracticeResult, syncPracticeResults } from '@/services/practiceSync';
+
+/**
+ * Practice answers are queued on the device and synced when a round ends,
+ * when the app starts and whenever the connection comes back, so games can
+ * be played offline.
+ */
+export const usePracticeSync = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [pendingCount, setPendingCount] = useState(() => (user?.id ? getQueuedPracticeResults(user.id).length : 0));
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  const sync = useCallback(async () => {
+    try {
+      const synced = await syncPracticeResults();
+      if (synced > 0) {
+        // Mastery statistics changed on the server
+        queryClient.invalidateQueries({ queryKey: ['sightWords'] });
+      }
+    } catch (error) {
+      console.error('Practice sync failed:', error);
+    } finally {
+      setPendingCount(user?.id ? getQueuedPracticeResults(user.id).length : 0);
+    }
+  }, [queryClient, user?.id]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [sync]);
+
+  useEffect(() => {
+    if (user?.id) {
+      sync();
+    }
+  }, [user?.id, sync]);
+
+  const recordResult = useCallback((result: PracticeResult) => {
+    if (!user?.id) return;
+    queuePracticeResult(user.id, result);
+    setPendingCount((count) => count + 1);
+  }, [user?.id]);
+
+  return { pendingCount, isOnline, recordResult, sync };
+};
+
+export type PracticeSync = ReturnType<typeof usePracticeSync>;
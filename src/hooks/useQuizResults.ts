@@ -0,0 +1,61 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { QuizResult, QuizResultInput } from '@/types/quiz';
+
+// Recent results are enough to show how a reader did on each story
+const RESULTS_LIMIT = 200;
+
+/** Comprehension quiz results, newest first */
+export const useQuizResults = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: results = [], isLoading } = useQuery<QuizResult[]>({
+    queryKey: ['quizResults', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('quiz_results')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(RESULTS_LIMIT);
+
+      if (error) throw error;
+      return data as unknown as QuizResult[];
+    },
+    enabled: !!user?.id,
+    staleTime: 60000, // Cache for 60 seconds
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (result: QuizResultInput) => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('quiz_results')
+        .insert({ ...result, answers: result.answers as unknown as Json, user_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as unknown as QuizResult;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData<QuizResult[]>(
+        ['quizResults', user?.id],
+        (old) => [saved, ...(old || [])]
+      );
+    },
+  });
+
+  return {
+    results,
+    isLoading,
+    saveResult: saveMutation.mutate,
+    isSaving: saveMutation.isPending,
+  };
+};
@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { isSpeechSupported, speechLanguageTag, spokenWordLength, voicesForLanguage } from '@/utils/readAloud';
+
+const RATE_KEY = 'readAloud_rate';
+// A little slower than conversation, for readers following along
+const DEFAULT_RATE = 0.9;
+const voiceKey = (language?: string) => `readAloud_voice_${language ?? 'english'}`;
+
+export type ReadAloudStatus = 'idle' | 'playing' | 'paused';
+
+/**
+ * Narrate a story with the browser's speech synthesis, one paragraph per
+ * utterance, reporting the word being spoken so it can be highlighted.
+ * The voice is remembered per story language and the rate across stories.
+ */
+export const useReadAloud = (paragraphs: string[], language?: string) => {
+  const isSupported = isSpeechSupported();
+  const [allVoices, setAllVoices] = useState<SpeechSynthesisVoice[]>([]);
+  // Voices chosen in this session, by story language
+  const [chosenVoices, setChosenVoices] = useState<Record<string, string>>({});
+  const [rate, setRate] = useState(() => Number(localStorage.getItem(RATE_KEY)) || DEFAULT_RATE);
+  const [status, setStatus] = useState<ReadAloudStatus>('idle');
+  const [paragraphIndex, setParagraphIndex] = useState<number | null>(null);
+  const [spokenRange, setSpokenRange] = useState<{ start: number; end: number } | null>(null);
+  const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+
+  // Voices load asynchronously in most browsers
+  useEffect(() => {
+    if (!isSupported) return;
+    const loadVoices = () => setAllVoices(window.speechSynthesis.getVoices());
+    loadVoices();
+    window.speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+  }, [isSupported]);
+
+  const voices = useMemo(() => voicesForLanguage(allVoices, language), [allVoices, language]);
+  const voiceURI = chosenVoices[voiceKey(language)] ?? localStorage.getItem(voiceKey(language));
+  const voice = voices.find((candidate) => candidate.voiceURI === voiceURI) ?? voices[0] ?? null;
+
+  // Utterance callbacks outlive the render that started them
+  const settingsRef = useRef({ paragraphs, language, voice, rate });
+  settingsRef.current = { paragraphs, language, voice, rate };
+
+  const stop = useCallback(() => {
+    utteranceRef.current = null;
+    window.speechSynthesis.cancel();
+    setStatus('idle');
+    setParagraphIndex(null);
+    setSpokenRange(null);
+  }, []);
+
+  const speak = useCallback((index: number, continuous: boolean) => {
+    const { paragraphs, language, voice, rate } = settingsRef.current;
+    const text = paragraphs[index];
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = voice?.lang ?? speechLanguageTag(language);
+    if (voice) utterance.voice = voice;
+    utterance.rate = rate;
+
+    // Events from an utterance that has since been replaced or stopped are ignored
+    utterance.onboundary = (event) => {
+      if (utteranceRef.current !== utterance || event.name !== 'word') return;
+      const length = spokenWordLength(text, event.charIndex, event.charLength);
+      setSpokenRange({ start: event.charIndex, end: event.charIndex + length });
+    };
+    utterance.onend = () => {
+      if (utteranceRef.current !== utterance) return;
+      const next = settingsRef.current.paragraphs.findIndex((paragraph, i) => i > index && paragraph.trim());
+      if (continuous && next !== -1) {
+        speak(next, true);
+      } else {
+        stop();
+      }
+    };
+    utterance.onerror = (event) => {
+      if (utteranceRef.current !== utterance) return;
+      // Interrupted when something else is spoken, such as a tapped word
+      if (event.error !== 'interrupted' && event.error !== 'canceled') {
+        console.error('Read-aloud failed:', event.error);
+      }
+      stop();
+    };
+
+    window.speechSynthesis.cancel();
+    // Chrome keeps new utterances paused if the last one was paused
+    window.speechSynthesis.resume();
+    utteranceRef.current = utterance;
+    setParagraphIndex(index);
+    setSpokenRange(null);
+    setStatus('playing');
+    window.speechSynthesis.speak(utterance);
+  }, [stop]);
+
+  const pause = () => {
+    window.speechSynthesis.pause();
+    setStatus('paused');
+  };
+
+  const resume = () => {
+    window.speechSynthesis.resume();
+    setStatus('playing');
+  };
+
+  // Play, pause or resume a single paragraph
+  const toggleParagraph = (index: number) => {
+    if (paragraphIndex === index && status === 'playing') {
+      pause();
+    } else if (paragraphIndex === index && status === 'paused') {
+      resume();
+    } else {
+      speak(index, false);
+    }
+  };
+
+  // Play the story through from paragraph `from` (the top by default), or pause and resume it
+  const toggleStory = (from = 0) => {
+    if (status === 'playing') {
+      pause();
+    } else if (status === 'paused') {
+      resume();
+    } else {
+      const first = paragraphs.findIndex((paragraph, i) => i >= from && paragraph.trim());
+      if (first !== -1) speak(first, true);
+    }
+  };
+
+  const selectVoice = (uri: string) => {
+    setChosenVoices((chosen) => ({ ...chosen, [voiceKey(language)]: uri }));
+    localStorage.setItem(voiceKey(language), uri);
+  };
+
+  // Takes effect from the next paragraph
+  const changeRate = (value: number) => {
+    setRate(value);
+    localStorage.setItem(RATE_KEY, String(value));
+  };
+
+  // Stop narrating when the story changes or the player goes away
+  const storyText = paragraphs.join('\n');
+  useEffect(() => () => {
+    if (utteranceRef.current) stop();
+  }, [storyText, stop]);
+
+  return {
+    isSupported,
+    voices,
+    voice,
+    selectVoice,
+    rate,
+    changeRate,
+    status,
+    paragraphIndex,
+    spokenRange,
+    toggleParagraph,
+    toggleStory,
+    stop,
+  };
+};
+
+export type ReadAloud = ReturnType<typeof useReadAloud>;
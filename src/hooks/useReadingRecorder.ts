@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type RecorderStatus = 'idle' | 'recording' | 'paused';
+
+export interface Recording {
+  audio: Blob;
+  /** Time spent reading, not counting pauses */
+  durationMs: number;
+}
+
+// Opus in WebM where supported (Chrome, Firefox), AAC in MP4 on Safari
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+export const isRecordingSupported = (): boolean =>
+  typeof window !== 'undefined' && 'MediaRecorder' in window && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Record the reader through the microphone with MediaRecorder. `stop`
+ * resolves with the recording; the microphone is released as soon as
+ * recording stops or the component unmounts.
+ */
+export const useReadingRecorder = () => {
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  // Reading time before the current stretch, and when the current stretch began
+  const timingRef = useRef({ elapsed: 0, resumedAt: 0 });
+
+  const releaseMicrophone = useCallback(() => {
+    recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+    recorderRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    if (status !== 'recording') return;
+    const interval = setInterval(() => {
+      const { elapsed, resumedAt } = timingRef.current;
+      setElapsedMs(elapsed + Date.now() - resumedAt);
+    }, 250);
+    return () => clearInterval(interval);
+  }, [status]);
+
+  useEffect(() => () => {
+    if (recorderRef.current?.state !== 'inactive') recorderRef.current?.stop();
+    releaseMicrophone();
+  }, [releaseMicrophone]);
+
+  const start = useCallback(async () => {
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      chunksRef.current = [];
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data);
+      };
+      recorderRef.current = recorder;
+      recorder.start(1000);
+      timingRef.current = { elapsed: 0, resumedAt: Date.now() };
+      setElapsedMs(0);
+      setStatus('recording');
+    } catch (err) {
+      console.error('Could not start recording:', err);
+      setError(
+        err instanceof DOMException && err.name === 'NotAllowedError'
+          ? 'Allow microphone access to record reading.'
+          : 'No microphone was found.'
+      );
+    }
+  }, []);
+
+  const pause = useCallback(() => {
+    if (recorderRef.current?.state !== 'recording') return;
+    recorderRef.current.pause();
+    const timing = timingRef.current;
+    timing.elapsed += Date.now() - timing.resumedAt;
+    setElapsedMs(timing.elapsed);
+    setStatus('paused');
+  }, []);
+
+  const resume = useCallback(() => {
+    if (recorderRef.current?.state !== 'paused') return;
+    recorderRef.current.resume();
+    timingRef.current.resumedAt = Date.now();
+    setStatus('recording');
+  }, []);
+
+  const stop = useCallback((): Promise<Recording | null> => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === 'inactive') return Promise.resolve(null);
+
+    const timing = timingRef.current;
+    const durationMs = recorder.state === 'recording' ? timing.elapsed + Date.now() - timing.resumedAt : timing.elapsed;
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        releaseMicrophone();
+        setStatus('idle');
+        setElapsedMs(durationMs);
+        resolve({ audio: new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' }), durationMs });
+      };
+      recorder.stop();
+    });
+  }, [releaseMicrophone]);
+
+  // Stop without keeping the recording
+  const discard = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+    releaseMicrophone();
+    chunksRef.current = [];
+    setStatus('idle');
+    setElapsedMs(0);
+  }, [releaseMicrophone]);
+
+  return { status, elapsedMs, error, start, pause, resume, stop, discard };
+};
@@ -0,0 +1,105 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { ReadingSession } from '@/types/fluency';
+import {
+  ScoreReadingParams,
+  deleteLocalRecording,
+  deleteStoredRecording,
+  saveLocalRecording,
+  scoreReading,
+} from '@/services/readingSessions';
+
+// Enough history to chart a reader's progress over a school year
+const HISTORY_LIMIT = 200;
+
+/** Scored read-aloud sessions for every reader, newest first */
+export const useReadingSessions = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<ReadingSession[]>({
+    queryKey: ['readingSessions', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('reading_sessions')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (error) throw error;
+      return data as unknown as ReadingSession[];
+    },
+    enabled: !!user?.id,
+    staleTime: 60000, // Cache for 60 seconds
+  });
+
+  const scoreMutation = useMutation({
+    mutationFn: async (params: ScoreReadingParams) => {
+      const session = await scoreReading(params);
+      try {
+        await saveLocalRecording(session.id, params.audio);
+      } catch (error) {
+        // Private browsing can block IndexedDB; the score is what matters
+        console.error('Failed to keep the recording on this device:', error);
+      }
+      return session;
+    },
+    onSuccess: (session) => {
+      queryClient.setQueryData<ReadingSession[]>(
+        ['readingSessions', user?.id],
+        (old) => [session, ...(old || [])]
+      );
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (session: ReadingSession) => {
+      if (session.audio_path) {
+        await deleteStoredRecording(session.audio_path);
+      }
+
+      const { error } = await supabase
+        .from('reading_sessions')
+        .delete()
+        .eq('id', session.id);
+
+      if (error) throw error;
+      await deleteLocalRecording(session.id).catch((error) => {
+        console.error('Failed to delete the recording on this device:', error);
+      });
+    },
+    // Optimistic update for instant UI feedback
+    onMutate: async (deleted) => {
+      await queryClient.cancelQueries({ queryKey: ['readingSessions', user?.id] });
+
+      const previousSessions = queryClient.getQueryData<ReadingSession[]>(['readingSessions', user?.id]);
+
+      queryClient.setQueryData<ReadingSession[]>(
+        ['readingSessions', user?.id],
+        (old) => (old || []).filter((session) => session.id !== deleted.id)
+      );
+
+      return { previousSessions };
+    },
+    onError: (err, deleted, context) => {
+      if (context?.previousSessions) {
+        queryClient.setQueryData(['readingSessions', user?.id], context.previousSessions);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['readingSessions', user?.id] });
+    },
+  });
+
+  return {
+    sessions,
+    isLoading,
+    scoreReading: scoreMutation.mutateAsync,
+    isScoring: scoreMutation.isPending,
+    deleteSession: deleteMutation.mutate,
+  };
+};
@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { SightWord, SightWordChanges, SightWordList } from '@/types/sightWords';
+import { addSightWords } from '@/services/sightWords';
+import { ImportedWord } from '@/utils/sightWordImport';
+
+const SELECTED_LIST_KEY = 'sightWords_listId';
+
+/**
+ * The user's sight word lists and the words of the selected one. The
+ * selection is remembered across visits, and the server creates a first list
+ * for accounts that have none so there is always somewhere to add words.
+ */
+export const useSightWordLists = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [selectedListId, setSelectedListId] = useState<string | null>(() => localStorage.getItem(SELECTED_LIST_KEY));
+
+  const { data: lists = [], isLoading: listsLoading } = useQuery<SightWordList[]>({
+    queryKey: ['sightWordLists', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase.rpc('get_or_create_sight_word_lists');
+
+      if (error) throw error;
+      return data as SightWordList[];
+    },
+    enabled: !!user?.id,
+    staleTime: 60000, // Cache for 60 seconds
+  });
+
+  const selectedList = lists.find((list) => list.id === selectedListId) ?? lists[0] ?? null;
+  const wordsKey = ['sightWords', selectedList?.id];
+
+  const { data: words = [], isLoading: wordsLoading } = useQuery<SightWord[]>({
+    queryKey: wordsKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('sight_word_entries')
+        .select('*')
+        .eq('list_id', selectedList!.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as SightWord[];
+    },
+    enabled: !!selectedList,
+    staleTime: 60000, // Cache for 60 seconds
+  });
+
+  const selectList = (id: string) => {
+    setSelectedListId(id);
+    localStorage.setItem(SELECTED_LIST_KEY, id);
+  };
+
+  const createListMutation = useMutation({
+    mutationFn: async (list: { name: string; child_profile_id: string | null }) => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('sight_word_lists')
+        .insert({ ...list, user_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as SightWordList;
+    },
+    onSuccess: (list) => selectList(list.id),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['sightWordLists', user?.id] });
+    },
+  });
+
+  const updateListMutation = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string; name: string; child_profile_id: string | null }) => {
+      const { error } = await supabase
+        .from('sight_word_lists')
+        .update(changes)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['sightWordLists', user?.id] });
+    },
+  });
+
+  const deleteListMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('sight_word_lists')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['sightWordLists', user?.id] });
+    },
+  });
+
+  const addWordsMutation = useMutation({
+    mutationFn: async (newWords: Array<string | ImportedWord>) => {
+      if (!selectedList) throw new Error('No sight word list selected');
+
+      const result = await addSightWords(selectedList.id, newWords);
+      return { ...result, listId: selectedList.id };
+    },
+    onSuccess: ({ added, listId }) => {
+      queryClient.setQueryData<SightWord[]>(['sightWords', listId], (old) => [...(old || []), ...added]);
+    },
+  });
+
+  const updateWordsMutation = useMutation({
+    mutationFn: async ({ ids, changes }: { ids: string[]; changes: SightWordChanges }) => {
+      const { error } = await supabase
+        .from('sight_word_entries')
+        .update(changes)
+        .in('id', ids);
+
+      if (error) throw error;
+    },
+    // Optimistic update for instant UI feedback
+    onMutate: async ({ ids, changes }) => {
+      await queryClient.cancelQueries({ queryKey: wordsKey });
+
+      const previousWords = queryClient.getQueryData<SightWord[]>(wordsKey);
+
+      queryClient.setQueryData<SightWord[]>(
+        wordsKey,
+        (old) => (old || []).map((word) => (ids.includes(word.id) ? { ...word, ...changes } : word))
+      );
+
+      return { previousWords };
+    },
+    onError: (err, variables, context) => {
+      if (context?.previousWords) {
+        queryClient.setQueryData(wordsKey, context.previousWords);
+      }
+    },
+  });
+
+  const deleteWordsMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const { error } = await supabase
+        .from('sight_word_entries')
+        .delete()
+        .in('id', ids);
+
+      if (error) throw error;
+    },
+    // Optimistic update for instant UI feedback
+    onMutate: async (deletedIds) => {
+      await queryClient.cancelQueries({ queryKey: wordsKey });
+
+      const previousWords = queryClient.getQueryData<SightWord[]>(wordsKey);
+
+      queryClient.setQueryData<SightWord[]>(
+        wordsKey,
+        (old) => (old || []).filter((word) => !deletedIds.includes(word.id))
+      );
+
+      return { previousWords };
+    },
+    onError: (err, deletedIds, context) => {
+      if (context?.previousWords) {
+        queryClient.setQueryData(wordsKey, context.previousWords);
+      }
+    },
+  });
+
+  return {
+    lists,
+    selectedList,
+    selectList,
+    words,
+    isLoading: listsLoading || (!!selectedList && wordsLoading),
+    createList: createListMutation.mutateAsync,
+    updateList: updateListMutation.mutateAsync,
+    deleteList: deleteListMutation.mutateAsync,
+    addWords: addWordsMutation.mutateAsync,
+    updateWords: updateWordsMutation.mutateAsync,
+    deleteWords: deleteWordsMutation.mutateAsync,
+  };
+};
+
+export type SightWordLists = ReturnType<typeof useSightWordLists>;
@@ -0,0 +1,89 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { GeneratedStory } from '@/types/story';
+
+export interface StoryHistoryFilters {
+  search: string;
+  readingLevel: string | null;
+  theme: string | null;
+  language: string | null;
+}
+
+export interface StoryHistoryFacets {
+  readingLevels: string[];
+  themes: string[];
+  languages: string[];
+}
+
+const HISTORY_PAGE_SIZE = 50;
+
+const distinct = (values: string[]) => Array.from(new Set(values)).sort();
+
+// PostgREST's `or` filter syntax treats these characters specially
+const sanitizeSearch = (search: string) => search.replace(/[%,()*\\]/g, ' ').trim();
+
+export const useStoryHistory = (filters: StoryHistoryFilters) => {
+  const { user } = useAuth();
+
+  const { data: stories = [], isLoading, isFetching } = useQuery<GeneratedStory[]>({
+    queryKey: ['storyHistory', user?.id, filters],
+    queryFn: async () => {
+      if (!user?.id) return [];
+
+      let query = supabase
+        .from('generated_stories')
+        .select('*')
+        .eq('user_id', user.id);
+
+      if (filters.readingLevel) query = query.eq('reading_level', filters.readingLevel);
+      if (filters.theme) query = query.eq('theme', filters.theme);
+      if (filters.language) query = query.eq('language', filters.language);
+
+      const search = sanitizeSearch(filters.search);
+      if (search) {
+        query = query.or(`title.ilike.%${search}%,content.ilike.%${search}%`);
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_PAGE_SIZE);
+
+      if (error) throw error;
+      return data as unknown as GeneratedStory[];
+    },
+    enabled: !!user?.id,
+    placeholderData: (previous) => previous,
+    staleTime: 60000, // Cache for 60 seconds
+  });
+
+  // Filter options come from the user's own history, so every option has results
+  const { data: facets = { readingLevels: [], themes: [], languages: [] } } = useQuery<StoryHistoryFacets>({
+    queryKey: ['storyHistory', user?.id, 'facets'],
+    queryFn: async () => {
+      if (!user?.id) return { readingLevels: [], themes: [], languages: [] };
+
+      const { data, error } = await supabase
+        .from('generated_stories')
+        .select('reading_level, theme, language')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      return {
+        readingLevels: distinct(data.map((row) => row.reading_level)),
+        themes: distinct(data.map((row) => row.theme)),
+        languages: distinct(data.map((row) => row.language)),
+      };
+    },
+    enabled: !!user?.id,
+    staleTime: 60000,
+  });
+
+  return {
+    stories,
+    facets,
+    isLoading,
+    isFetching,
+    pageSize: HISTORY_PAGE_SIZE,
+  };
+};
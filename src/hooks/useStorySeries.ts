@@ -0,0 +1,32 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { StorySeries } from '@/types/story';
+
+export const useStorySeries = () => {
+  const { user, isSubscribed } = useAuth();
+
+  const { data: series = [], isLoading } = useQuery<StorySeries[]>({
+    queryKey: ['storySeries', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('story_series')
+        .select('*, chapters:favorite_stories(id, title, content, language, sight_words, questions, illustrations, bilingual, last_page, chapter_number, created_at)')
+        .eq('user_id', user.id)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      return (data as unknown as StorySeries[]).map((entry) => ({
+        ...entry,
+        chapters: [...entry.chapters].sort((a, b) => a.chapter_number - b.chapter_number),
+      }));
+    },
+    // Series live in the favorites area, which is an Unlimited feature
+    enabled: !!user?.id && isSubscribed,
+    staleTime: 60000, // Cache for 60 seconds
+  });
+
+  return { series, isLoading };
+};
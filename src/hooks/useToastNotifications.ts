@@ -1,61 +1,104 @@
 import { toast as sonnerToast } from 'sonner';
+import { useLocale } from '@/hooks/useLocale';
 
 /**
- * Centralized toast notification hook for consistent messaging across the app
+ * Centralized toast notification hook for consistent messaging across the app,
+ * in the user's chosen locale
  * @returns Object containing all toast notification methods
  */
 export const useToastNotifications = () => {
+  const { t } = useLocale();
+
   return {
     // Story operations
-    storyGenerated: () => sonnerToast.success('Story generated successfully!'),
-    storyGenerationFailed: () => sonnerToast.error('Failed to generate story. Please try again.'),
-    storySaved: () => sonnerToast.success('Story saved to favorites!'),
-    storyAlreadySaved: () => sonnerToast.error('This story is already in your favorites'),
-    storySaveFailed: () => sonnerToast.error('Failed to save story to favorites'),
-    storyDeleted: (title: string) => sonnerToast.success(`"${title}" removed from favorites`),
-    storyDeleteFailed: () => sonnerToast.error('Failed to remove story from favorites'),
+    storyGenerated: () => sonnerToast.success(t('toast.storyGenerated')),
+    storyGenerationFailed: () => sonnerToast.error(t('toast.storyGenerationFailed')),
+    seriesPremiumRequired: () => sonnerToast.error(t('toast.seriesPremiumRequired')),
+    storyGenerationCanceled: () => sonnerToast.info(t('toast.storyGenerationCanceled')),
+    storyBlocked: () => sonnerToast.error(t('toast.storyBlocked')),
+    storySaved: () => sonnerToast.success(t('toast.storySaved')),
+    storyAlreadySaved: () => sonnerToast.error(t('toast.storyAlreadySaved')),
+    storySaveFailed: () => sonnerToast.error(t('toast.storySaveFailed')),
+    storyDeleted: (title: string) => sonnerToast.success(t('toast.storyDeleted', { title })),
+    storyDeleteFailed: () => sonnerToast.error(t('toast.storyDeleteFailed')),
     
     // Sight words operations
-    wordAdded: () => sonnerToast.success('Word added successfully!'),
-    wordDuplicate: () => sonnerToast.error('This word is already in your list'),
-    wordToggled: (active: boolean) => sonnerToast.success(active ? 'Word activated' : 'Word deactivated'),
-    wordDeleted: () => sonnerToast.success('Word removed successfully!'),
-    allWordsActivated: () => sonnerToast.success('All words activated!'),
-    allWordsDeactivated: () => sonnerToast.success('All words deactivated!'),
-    wordsSaveFailed: () => sonnerToast.error('Failed to save words'),
-    wordsLoadFailed: () => sonnerToast.error('Failed to load sight words'),
-    wordLimitReached: () => sonnerToast.error('Free accounts are limited to 3 words. Please upgrade to add more words.'),
+    wordAdded: () => sonnerToast.success(t('toast.wordAdded')),
+    wordsImported: (count: number) => sonnerToast.success(t('toast.wordsImported', { count })),
+    wordDuplicate: () => sonnerToast.error(t('toast.wordDuplicate')),
+    wordToggled: (active: boolean) => sonnerToast.success(t(active ? 'toast.wordActivated' : 'toast.wordDeactivated')),
+    wordDeleted: () => sonnerToast.success(t('toast.wordDeleted')),
+    allWordsActivated: () => sonnerToast.success(t('toast.allWordsActivated')),
+    allWordsDeactivated: () => sonnerToast.success(t('toast.allWordsDeactivated')),
+    selectedWordsUpdated: (count: number, active: boolean) => sonnerToast.success(t(active ? 'toast.selectedWordsActivated' : 'toast.selectedWordsDeactivated', { count })),
+    selectedWordsDeleted: (count: number) => sonnerToast.success(t('toast.selectedWordsDeleted', { count })),
+    wordsSaveFailed: () => sonnerToast.error(t('toast.wordsSaveFailed')),
+    wordsLoadFailed: () => sonnerToast.error(t('toast.wordsLoadFailed')),
+    wordListSaved: (name: string) => sonnerToast.success(t('toast.wordListSaved', { name })),
+    wordListSaveFailed: () => sonnerToast.error(t('toast.wordListSaveFailed')),
+    wordListDeleted: (name: string) => sonnerToast.success(t('toast.wordListDeleted', { name })),
+    wordListDeleteFailed: () => sonnerToast.error(t('toast.wordListDeleteFailed')),
+    wordLimitReached: () => sonnerToast.error(t('toast.wordLimitReached')),
     
+    // Practice
+    practiceSavedOffline: () => sonnerToast.success(t('toast.practiceSavedOffline')),
+
+    // Reading fluency
+    readingTooShort: () => sonnerToast.error(t('toast.readingTooShort')),
+    readingScoreFailed: () => sonnerToast.error(t('toast.readingScoreFailed')),
+    readingLimitReached: () => sonnerToast.error(t('toast.readingLimitReached')),
+    readingSessionDeleteFailed: () => sonnerToast.error(t('toast.readingSessionDeleteFailed')),
+    recordingUnavailable: () => sonnerToast.error(t('toast.recordingUnavailable')),
+
+    // Comprehension quizzes
+    quizSaveFailed: () => sonnerToast.error(t('toast.quizSaveFailed')),
+
+    // Illustrations
+    illustrationsPremiumRequired: () => sonnerToast.info(t('toast.illustrationsPremiumRequired')),
+    illustrationLimitReached: () => sonnerToast.info(t('toast.illustrationLimitReached')),
+    illustrationsFailed: () => sonnerToast.info(t('toast.illustrationsFailed')),
+
+    // Printing and sharing
+    storyExportFailed: () => sonnerToast.error(t('toast.storyExportFailed')),
+    storyShareReady: () => sonnerToast.info(t('toast.storyShareReady')),
+
+    // Child profiles
+    childProfileSaved: (name: string) => sonnerToast.success(t('toast.childProfileSaved', { name })),
+    childProfileSaveFailed: () => sonnerToast.error(t('toast.childProfileSaveFailed')),
+    childProfileDeleted: (name: string) => sonnerToast.success(t('toast.childProfileDeleted', { name })),
+    childProfileDeleteFailed: () => sonnerToast.error(t('toast.childProfileDeleteFailed')),
+    childProfileNameRequired: () => sonnerToast.error(t('toast.childProfileNameRequired')),
+
     // Limits and subscription
-    dailyLimitReached: () => sonnerToast.error('Daily limit reached. Upgrade to unlimited or wait until tomorrow (midnight CST).'),
-    storiesLimitReached: () => sonnerToast.error("You've reached your daily story limit. Upgrade for unlimited stories!"),
-    paymentSuccessful: () => sonnerToast.success('Payment successful! Your unlimited subscription is now active.'),
-    paymentCanceled: () => sonnerToast.error('Payment was canceled. You can try again anytime.'),
+    dailyLimitReached: () => sonnerToast.error(t('toast.dailyLimitReached')),
+    storiesLimitReached: () => sonnerToast.error(t('toast.storiesLimitReached')),
+    paymentSuccessful: () => sonnerToast.success(t('toast.paymentSuccessful')),
+    paymentCanceled: () => sonnerToast.error(t('toast.paymentCanceled')),
     
     // Authentication
-    loginSuccess: () => sonnerToast.success('Successfully logged in!'),
-    loginFailed: (message?: string) => sonnerToast.error(message || 'Failed to login. Please try again.'),
-    logoutSuccess: () => sonnerToast.success('Successfully logged out'),
-    registrationSuccess: () => sonnerToast.success('Registration successful! Please check your email to confirm your account.'),
-    registrationFailed: (message?: string) => sonnerToast.error(message || 'Error during registration'),
-    sessionExpired: () => sonnerToast.error('Session expired. Please log in again.'),
+    loginSuccess: () => sonnerToast.success(t('toast.loginSuccess')),
+    loginFailed: (message?: string) => sonnerToast.error(message || t('toast.loginFailed')),
+    logoutSuccess: () => sonnerToast.success(t('toast.logoutSuccess')),
+    registrationSuccess: () => sonnerToast.success(t('toast.registrationSuccess')),
+    registrationFailed: (message?: string) => sonnerToast.error(message || t('toast.registrationFailed')),
+    sessionExpired: () => sonnerToast.error(t('toast.sessionExpired')),
     
     // Reports
-    reportSubmitted: () => sonnerToast.success('Content report submitted successfully'),
-    reportSubmitFailed: (message?: string) => sonnerToast.error(message || 'Failed to submit report'),
-    reportReasonRequired: () => sonnerToast.error('Please select a reason for reporting'),
-    reportsLoadFailed: (message?: string) => sonnerToast.error(message || 'Failed to load reports'),
+    reportSubmitted: () => sonnerToast.success(t('toast.reportSubmitted')),
+    reportSubmitFailed: (message?: string) => sonnerToast.error(message || t('toast.reportSubmitFailed')),
+    reportReasonRequired: () => sonnerToast.error(t('toast.reportReasonRequired')),
+    reportsLoadFailed: (message?: string) => sonnerToast.error(message || t('toast.reportsLoadFailed')),
     
     // Forms
-    formIncomplete: () => sonnerToast.error('Please fill in all required fields'),
-    themeRequired: () => sonnerToast.error('Please enter a theme/lesson or disable the option'),
-    wordsLoading: () => sonnerToast.error('Please wait for sight words to load'),
-    noActiveWords: () => sonnerToast.error('Please add and activate some sight words before generating a story'),
+    formIncomplete: () => sonnerToast.error(t('toast.formIncomplete')),
+    themeRequired: () => sonnerToast.error(t('toast.themeRequired')),
+    wordsLoading: () => sonnerToast.error(t('toast.wordsLoading')),
+    noActiveWords: () => sonnerToast.error(t('toast.noActiveWords')),
     
     // Generic operations
-    upgradeRequired: () => sonnerToast.error('Please log in to upgrade'),
-    checkoutFailed: () => sonnerToast.error('Failed to start checkout process'),
-    storyInfoIncomplete: () => sonnerToast.error('Story information is incomplete'),
+    upgradeRequired: () => sonnerToast.error(t('toast.upgradeRequired')),
+    checkoutFailed: () => sonnerToast.error(t('toast.checkoutFailed')),
+    storyInfoIncomplete: () => sonnerToast.error(t('toast.storyInfoIncomplete')),
     
     // Custom toast for flexibility
     custom: {
@@ -0,0 +1,314 @@
+import { Message, PluralMessage } from "./types";
+
+// The source catalog: every other catalog has exactly these keys
+export const en = {
+  // User menu
+  "menu.open": "Open menu",
+  "menu.profile": "Profile",
+  "menu.language": "Language",
+  "menu.logout": "Logout",
+
+  // Story form
+  "storyForm.reader": "Reader",
+  "storyForm.readerPlaceholder": "Choose a reader",
+  "storyForm.readerAnyone": "Anyone (not personalized)",
+  "storyForm.manageReaders": "Manage reader profiles",
+  "storyForm.readingLevel": "Reading Level",
+  "storyForm.readingLevelPlaceholder": "Select grade level",
+  "storyForm.interestLevel": "Interest Level",
+  "storyForm.interestLevelPlaceholder": "Select interest level",
+  "storyForm.genre": "Genre",
+  "storyForm.genrePlaceholder": "Select a genre",
+  "storyForm.language": "Language",
+  "storyForm.languagePlaceholder": "Select language",
+  "storyForm.translation": "Bilingual Translation",
+  "storyForm.translationPlaceholder": "Select translation",
+  "storyForm.translationNone": "None (one language)",
+  "storyForm.translationHint": "Every sentence is paired with its translation. Sight words are practiced in the story language.",
+  "storyForm.addThemeLesson": "Add Theme/Lesson",
+  "storyForm.themeLessonToggle": "Toggle theme/lesson",
+  "storyForm.themeLessonFocus": "Theme or Lesson Focus",
+  "storyForm.themeLessonPlaceholder": "Enter a theme, lesson, or topic (e.g., 'sharing with friends', 'overcoming fears', 'learning about colors')",
+  "storyForm.length": "Story Length",
+  "storyForm.lengthPlaceholder": "Select story length",
+  "storyForm.lengthShort": "Short",
+  "storyForm.lengthMedium": "Medium",
+  "storyForm.lengthLong": "Long",
+  "storyForm.generate": "Generate Story",
+  "storyForm.generating": "Writing your story...",
+
+  "readingLevel.k": "Kindergarten",
+  "readingLevel.1": "1st Grade",
+  "readingLevel.2": "2nd Grade",
+  "readingLevel.3": "3rd Grade",
+  "readingLevel.4": "4th Grade",
+  "readingLevel.5": "5th Grade",
+  "readingLevel.teen": "Teen",
+
+  "interestLevel.elementary": "Elementary (ages 5-8)",
+  "interestLevel.middleGrade": "Middle Grade (ages 9-12)",
+  "interestLevel.youngAdult": "Young Adult (ages 13+)",
+
+  "theme.adventure": "Adventure",
+  "theme.bedtime": "Bedtime",
+  "theme.comedy": "Comedy",
+  "theme.educational": "Educational",
+  "theme.fairytale": "Fairy Tale",
+  "theme.family": "Family",
+  "theme.fantasy": "Fantasy Adventure",
+  "theme.friendship": "Friendship",
+  "theme.holiday": "Holiday",
+  "theme.mystery": "Mystery",
+  "theme.nature": "Nature & Animals",
+  "theme.school": "School",
+  "theme.science": "Science Fiction",
+  "theme.superhero": "Superhero",
+
+  // Story settings
+  "storySettings.rhymingVerse": "Rhyming Verse",
+  "storySettings.rhymingVerseToggle": "Toggle rhyming verse writing style",
+  "storySettings.rhymingVerseEnglish": "Playful rhymes in the style of Dr. Seuss",
+  "storySettings.rhymingVerseOther": "Rhymes in the style of the language's own nursery rhymes and songs",
+  "storySettings.rhymingVerseUnavailable": "Rhyming verse isn't offered for {language} stories",
+  "storySettings.useSightWords": "Use Sight Words",
+  "storySettings.useSightWordsToggle": "Toggle use of sight words",
+  "storySettings.quizQuestions": "Quiz Questions",
+  "storySettings.quizQuestionsToggle": "Toggle comprehension questions after the story",
+  "storySettings.pictureBook": "Picture Book",
+  "storySettings.pictureBookToggle": "Toggle illustrations for each page of the story",
+  "storySettings.pictureBookQuota": "Picture books use up to 8 pictures from your 24 a day",
+  "storySettings.unlimitedFeature": "Unlimited feature",
+
+  // Toasts
+  "toast.storyGenerated": "Story generated successfully!",
+  "toast.storyGenerationFailed": "Failed to generate story. Please try again.",
+  "toast.seriesPremiumRequired": "Story series are an Unlimited feature. Upgrade to keep the adventure going!",
+  "toast.storyGenerationCanceled": "Story generation canceled. It did not count toward your daily limit.",
+  "toast.storyBlocked": "We couldn't create a story that passed our safety checks. Try a different theme or lesson. This attempt did not count toward your daily limit.",
+  "toast.storySaved": "Story saved to favorites!",
+  "toast.storyAlreadySaved": "This story is already in your favorites",
+  "toast.storySaveFailed": "Failed to save story to favorites",
+  "toast.storyDeleted": "\"{title}\" removed from favorites",
+  "toast.storyDeleteFailed": "Failed to remove story from favorites",
+  "toast.wordAdded": "Word added successfully!",
+  "toast.wordsImported": { one: "Added {count} word!", other: "Added {count} words!" },
+  "toast.wordDuplicate": "This word is already in your list",
+  "toast.wordActivated": "Word activated",
+  "toast.wordDeactivated": "Word deactivated",
+  "toast.wordDeleted": "Word removed successfully!",
+  "toast.allWordsActivated": "All words activated!",
+  "toast.allWordsDeactivated": "All words deactivated!",
+  "toast.selectedWordsActivated": { one: "{count} word activated", other: "{count} words activated" },
+  "toast.selectedWordsDeactivated": { one: "{count} word deactivated", other: "{count} words deactivated" },
+  "toast.selectedWordsDeleted": { one: "{count} word removed", other: "{count} words removed" },
+  "toast.wordsSaveFailed": "Failed to save words",
+  "toast.wordsLoadFailed": "Failed to load sight words",
+  "toast.wordListSaved": "Saved the \"{name}\" word list",
+  "toast.wordListSaveFailed": "Failed to save the word list",
+  "toast.wordListDeleted": "Deleted the \"{name}\" word list",
+  "toast.wordListDeleteFailed": "Failed to delete the word list",
+  "toast.wordLimitReached": "Free accounts are limited to 3 words. Please upgrade to add more words.",
+  "toast.practiceSavedOffline": "Practice saved. It will sync when you're back online.",
+  "toast.readingTooShort": "Keep reading for at least 3 seconds before stopping",
+  "toast.readingScoreFailed": "We couldn't score that reading. Please try again.",
+  "toast.readingLimitReached": "That's all the reading checks for today. Try again tomorrow!",
+  "toast.readingSessionDeleteFailed": "Failed to delete the reading",
+  "toast.recordingUnavailable": "This recording is not available on this device",
+  "toast.quizSaveFailed": "Your quiz score couldn't be saved",
+  "toast.illustrationsPremiumRequired": "Picture book illustrations are an Unlimited feature. Your story was written without pictures.",
+  "toast.illustrationLimitReached": "You've used today's pictures. This story was written without them; more are available tomorrow.",
+  "toast.illustrationsFailed": "The pictures couldn't be drawn this time. Your story was written without them.",
+  "toast.storyExportFailed": "We couldn't create that file. Please try again.",
+  "toast.storyShareReady": "Your file is ready. Tap Share again to send it.",
+  "toast.childProfileSaved": "Saved {name}'s profile",
+  "toast.childProfileSaveFailed": "Failed to save the profile",
+  "toast.childProfileDeleted": "Removed {name}'s profile",
+  "toast.childProfileDeleteFailed": "Failed to remove the profile",
+  "toast.childProfileNameRequired": "Please enter the child's name",
+  "toast.dailyLimitReached": "Daily limit reached. Upgrade to unlimited or wait until tomorrow (midnight CST).",
+  "toast.storiesLimitReached": "You've reached your daily story limit. Upgrade for unlimited stories!",
+  "toast.paymentSuccessful": "Payment successful! Your unlimited subscription is now active.",
+  "toast.paymentCanceled": "Payment was canceled. You can try again anytime.",
+  "toast.loginSuccess": "Successfully logged in!",
+  "toast.loginFailed": "Failed to login. Please try again.",
+  "toast.logoutSuccess": "Successfully logged out",
+  "toast.registrationSuccess": "Registration successful! Please check your email to confirm your account.",
+  "toast.registrationFailed": "Error during registration",
+  "toast.sessionExpired": "Session expired. Please log in again.",
+  "toast.reportSubmitted": "Content report submitted successfully",
+  "toast.reportSubmitFailed": "Failed to submit report",
+  "toast.reportReasonRequired": "Please select a reason for reporting",
+  "toast.reportsLoadFailed": "Failed to load reports",
+  "toast.formIncomplete": "Please fill in all required fields",
+  "toast.themeRequired": "Please enter a theme/lesson or disable the option",
+  "toast.wordsLoading": "Please wait for sight words to load",
+  "toast.noActiveWords": "Please add and activate some sight words before generating a story",
+  "toast.upgradeRequired": "Please log in to upgrade",
+  "toast.checkoutFailed": "Failed to start checkout process",
+  "toast.storyInfoIncomplete": "Story information is incomplete",
+
+  // Upgrade modal
+  "upgrade.title": "Upgrade to Unlimited",
+  "upgrade.description": "Unlock unlimited access to all features",
+  "upgrade.unlimitedStories": "Unlimited Story Generation",
+  "upgrade.unlimitedStoriesDetail": "Create as many stories as you want, anytime",
+  "upgrade.unlimitedWords": "Unlimited Sight Words",
+  "upgrade.unlimitedWordsDetail": "Add as many sight words as you need",
+  "upgrade.savingStories": "Saving Stories",
+  "upgrade.savingStoriesDetail": "Keep your best stories and access them anytime",
+  "upgrade.earlyAccess": "Early Access to New Features",
+  "upgrade.earlyAccessDetail": "Be the first to try new features as they're released",
+  "upgrade.promoHeading": "Have a Promo Code?",
+  // {code} is shown in bold
+  "upgrade.promoApplied": "You've already applied the promo code {code}. Your special pricing is available below!",
+  // {offer} is shown in bold
+  "upgrade.promoPrompt": "Enter your promo code to unlock {offer} on unlimited access!",
+  "upgrade.specialPricing": "special pricing",
+  "upgrade.promoPlaceholder": "Enter promo code",
+  "upgrade.promoActive": "Your promo code is active. Enjoy your special pricing below!",
+  "upgrade.promoAccepted": "Code applied! You will receive a free week before being charged.",
+  "upgrade.promoInvalid": "Invalid or expired code",
+  "upgrade.validating": "Validating...",
+  "upgrade.applyCode": "Apply Code",
+  "upgrade.specialOffer": "Special Offer",
+  "upgrade.subscribe": "Subscribe to Unlimited",
+  "upgrade.freeWeek": "You get a free week!",
+  "upgrade.choosePlan": "Choose your plan below. Have a promo code? Enter it above for special pricing!",
+  "upgrade.errorTitle": "Error",
+  "upgrade.promoRequired": "Please enter a promo code",
+  "upgrade.invalidCodeTitle": "Invalid Code",
+  "upgrade.invalidCodeDetail": "This promo code is invalid or has expired",
+  "upgrade.applyFailed": "Failed to apply code",
+
+  // Profile page
+  "profile.title": "Profile Settings",
+  "profile.infoTitle": "Profile Information",
+  "profile.infoDescription": "Update your personal information and email address.",
+  "profile.name": "Name",
+  "profile.namePlaceholder": "Enter your name",
+  "profile.nameRequired": "Name is required",
+  "profile.email": "Email",
+  "profile.emailPlaceholder": "Enter your email",
+  "profile.emailInvalid": "Invalid email address",
+  "profile.saveChanges": "Save Changes",
+  "profile.passwordTitle": "Change Password",
+  "profile.passwordDescription": "Update your password to keep your account secure.",
+  "profile.currentPassword": "Current Password",
+  "profile.currentPasswordPlaceholder": "Enter current password",
+  "profile.currentPasswordRequired": "Current password is required",
+  "profile.newPassword": "New Password",
+  "profile.newPasswordPlaceholder": "Enter new password",
+  "profile.passwordTooShort": "Password must be at least 6 characters",
+  "profile.confirmPassword": "Confirm New Password",
+  "profile.confirmPasswordPlaceholder": "Confirm new password",
+  "profile.passwordsDontMatch": "Passwords don't match",
+  "profile.updatePassword": "Update Password",
+  "profile.privacyTitle": "Data & Privacy",
+  "profile.privacyDescription": "Learn about how your data is handled and our privacy practices.",
+  "profile.privacyPolicy": "View Data & Privacy Policy",
+  "profile.subscriptionTitle": "Subscription Management",
+  "profile.subscriptionDescription": "Manage your unlimited subscription and billing",
+  "profile.unlimitedActive": "Unlimited Active",
+  "profile.unlimitedActiveDetail": "You have unlimited access to all features",
+  "profile.active": "Active",
+  "profile.opening": "Opening...",
+  "profile.manageSubscription": "Manage Subscription & Billing",
+  "profile.portalHint": "Opens Stripe customer portal to manage your subscription, update payment method, view invoices, or cancel subscription.",
+  "profile.upgrade": "Upgrade to Unlimited",
+  "profile.benefits": "Unlimited Benefits:",
+  "profile.accountTitle": "Account Management",
+  "profile.accountDescription": "Permanently delete your account and all associated data",
+  "profile.deleteWarning": "⚠️ Warning: This action cannot be undone",
+  "profile.deleteRemoves": "Deleting your account will permanently remove:",
+  "profile.deleteProfile": "Your profile information",
+  "profile.deleteStories": "All generated stories",
+  "profile.deleteFavorites": "Your favorite stories",
+  "profile.deleteWordLists": "Your sight word lists",
+  "profile.deleteHistory": "Usage history and preferences",
+  "profile.deleteSubscription": "Your active subscription will be cancelled immediately",
+  "profile.deleteAccess": "Account access",
+  "profile.deleteMyAccount": "Delete My Account",
+  "profile.deleteConfirmTitle": "Are you absolutely sure?",
+  "profile.deleteConfirmDescription": "This action cannot be undone. This will permanently delete your account and remove all your data from our servers.",
+  // {word} is the confirmation word, which stays in English so it is typed the same everywhere
+  "profile.deleteConfirmLabel": "Type {word} to confirm:",
+  "profile.deleteConfirmPlaceholder": "Type {word} here",
+  "profile.cancel": "Cancel",
+  "profile.deleting": "Deleting...",
+  "profile.deleteAccount": "Delete Account",
+  "profile.errorTitle": "Error",
+  "profile.successTitle": "Success",
+  "profile.loadFailed": "Failed to load profile data",
+  "profile.portalFailed": "Failed to open subscription management",
+  "profile.confirmRequiredTitle": "Confirmation required",
+  "profile.confirmRequired": "Please type {word} to confirm account deletion.",
+  "profile.deletedTitle": "Account deleted",
+  "profile.deleted": "Your account has been permanently deleted.",
+  "profile.deleteFailed": "Failed to delete account. Please try again.",
+  "profile.updated": "Profile updated successfully",
+  "profile.updateFailed": "Failed to update profile",
+  "profile.passwordUpdated": "Password updated successfully",
+  "profile.passwordUpdateFailed": "Failed to update password",
+  // App shell
+  "app.title": "Create Magical Stories for Young Readers",
+  "app.tabStory": "Story",
+  "app.tabWords": "Words",
+  "app.tabPractice": "Practice",
+  "app.tabHistory": "History",
+  "app.tabSaved": "Saved",
+  "app.aiNotice": "AI Content Notice",
+  // Story display
+  "story.chapter": "{series} · Chapter {number}",
+  "story.onceUponATime": "Once upon a time...",
+  "story.writing": "Writing your story...",
+  "story.stop": "Stop",
+  "story.saved": "Saved!",
+  "story.saving": "Saving...",
+  "story.saveToFavorites": "Save to Favorites",
+  "story.upgrade": "Upgrade to Unlimited",
+  "story.writeChapter": "Write Chapter {number}",
+  "story.continueSeries": "Continue as a Series",
+  "story.readingCheck": "Reading Check",
+  "story.report": "Report Content",
+  "story.characters": "Characters",
+  // Book reader
+  "book.view": "Story view",
+  "book.scroll": "Scroll",
+  "book.scrollLabel": "Scrolling view",
+  "book.book": "Book",
+  "book.bookLabel": "Book view",
+  "book.pages": "Story pages",
+  "book.page": "Page {page} of {count}",
+  "book.previous": "Previous page",
+  "book.next": "Next page",
+  // Sight word mastery
+  "mastery.new": "New",
+  "mastery.practicing": "Practicing",
+  "mastery.mastered": "Mastered",
+  "mastery.change": "{word} is {state}. Change mastery",
+  // Print & share
+  "export.menu": "Print & Share",
+  "export.preparing": "Preparing...",
+  "export.downloadPdf": "Download PDF (large print)",
+  "export.downloadEpub": "Download EPUB e-book",
+  // {format} is PDF or EPUB
+  "export.share": "Share {format}...",
+  "export.boldSightWords": "Bold sight words",
+  "export.collection": "Export Collection",
+  "export.chapter": "Print Chapter",
+  "export.series": "Export Series",
+  "export.readingLevel": "Reading level: {level}",
+  "export.theme": "Theme: {theme}",
+  "export.contents": "Contents",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+/**
+ * A translation of `en`. Typing a catalog as this makes the type check fail
+ * when it is missing a key, has a key `en` doesn't, or gives a plural message
+ * a single form.
+ */
+export type Catalog = {
+  [Key in MessageKey]: (typeof en)[Key] extends string ? string : PluralMessage;
+};
@@ -0,0 +1,298 @@
+import { Catalog } from "./en";
+
+export const es: Catalog = {
+  // User menu
+  "menu.open": "Abrir menú",
+  "menu.profile": "Perfil",
+  "menu.language": "Idioma",
+  "menu.logout": "Cerrar sesión",
+
+  // Story form
+  "storyForm.reader": "Lector",
+  "storyForm.readerPlaceholder": "Elige un lector",
+  "storyForm.readerAnyone": "Cualquiera (sin personalizar)",
+  "storyForm.manageReaders": "Gestionar perfiles de lectores",
+  "storyForm.readingLevel": "Nivel de lectura",
+  "storyForm.readingLevelPlaceholder": "Selecciona el curso",
+  "storyForm.interestLevel": "Nivel de interés",
+  "storyForm.interestLevelPlaceholder": "Selecciona el nivel de interés",
+  "storyForm.genre": "Género",
+  "storyForm.genrePlaceholder": "Selecciona un género",
+  "storyForm.language": "Idioma",
+  "storyForm.languagePlaceholder": "Selecciona el idioma",
+  "storyForm.translation": "Traducción bilingüe",
+  "storyForm.translationPlaceholder": "Selecciona la traducción",
+  "storyForm.translationNone": "Ninguna (un solo idioma)",
+  "storyForm.translationHint": "Cada oración va acompañada de su traducción. Las palabras de uso frecuente se practican en el idioma del cuento.",
+  "storyForm.addThemeLesson": "Añadir tema/lección",
+  "storyForm.themeLessonToggle": "Activar o desactivar tema/lección",
+  "storyForm.themeLessonFocus": "Tema o lección principal",
+  "storyForm.themeLessonPlaceholder": "Escribe un tema, una lección o un asunto (p. ej., 'compartir con los amigos', 'superar los miedos', 'aprender los colores')",
+  "storyForm.length": "Extensión del cuento",
+  "storyForm.lengthPlaceholder": "Selecciona la extensión",
+  "storyForm.lengthShort": "Corto",
+  "storyForm.lengthMedium": "Mediano",
+  "storyForm.lengthLong": "Largo",
+  "storyForm.generate": "Crear cuento",
+  "storyForm.generating": "Escribiendo tu cuento...",
+
+  "readingLevel.k": "Preescolar",
+  "readingLevel.1": "1.º de primaria",
+  "readingLevel.2": "2.º de primaria",
+  "readingLevel.3": "3.º de primaria",
+  "readingLevel.4": "4.º de primaria",
+  "readingLevel.5": "5.º de primaria",
+  "readingLevel.teen": "Adolescente",
+
+  "interestLevel.elementary": "Primaria (5 a 8 años)",
+  "interestLevel.middleGrade": "Preadolescente (9 a 12 años)",
+  "interestLevel.youngAdult": "Juvenil (13 años o más)",
+
+  "theme.adventure": "Aventura",
+  "theme.bedtime": "Hora de dormir",
+  "theme.comedy": "Comedia",
+  "theme.educational": "Educativo",
+  "theme.fairytale": "Cuento de hadas",
+  "theme.family": "Familia",
+  "theme.fantasy": "Aventura fantástica",
+  "theme.friendship": "Amistad",
+  "theme.holiday": "Días festivos",
+  "theme.mystery": "Misterio",
+  "theme.nature": "Naturaleza y animales",
+  "theme.school": "Escuela",
+  "theme.science": "Ciencia ficción",
+  "theme.superhero": "Superhéroes",
+
+  // Story settings
+  "storySettings.rhymingVerse": "Verso con rima",
+  "storySettings.rhymingVerseToggle": "Activar o desactivar el estilo en verso con rima",
+  "storySettings.rhymingVerseEnglish": "Rimas divertidas al estilo del Dr. Seuss",
+  "storySettings.rhymingVerseOther": "Rimas al estilo de las canciones y rimas infantiles del propio idioma",
+  "storySettings.rhymingVerseUnavailable": "El verso con rima no está disponible para cuentos en {language}",
+  "storySettings.useSightWords": "Usar palabras frecuentes",
+  "storySettings.useSightWordsToggle": "Activar o desactivar las palabras frecuentes",
+  "storySettings.quizQuestions": "Preguntas de comprensión",
+  "storySettings.quizQuestionsToggle": "Activar o desactivar las preguntas de comprensión después del cuento",
+  "storySettings.pictureBook": "Libro ilustrado",
+  "storySettings.pictureBookToggle": "Activar o desactivar las ilustraciones de cada página del cuento",
+  "storySettings.pictureBookQuota": "Los libros ilustrados usan hasta 8 de tus 24 imágenes diarias",
+  "storySettings.unlimitedFeature": "Función Ilimitada",
+
+  // Toasts
+  "toast.storyGenerated": "¡Cuento creado con éxito!",
+  "toast.storyGenerationFailed": "No se pudo crear el cuento. Inténtalo de nuevo.",
+  "toast.seriesPremiumRequired": "Las series de cuentos son una función Ilimitada. ¡Mejora tu plan para que la aventura continúe!",
+  "toast.storyGenerationCanceled": "Se canceló la creación del cuento. No cuenta para tu límite diario.",
+  "toast.storyBlocked": "No pudimos crear un cuento que superara nuestros controles de seguridad. Prueba con otro tema o lección. Este intento no cuenta para tu límite diario.",
+  "toast.storySaved": "¡Cuento guardado en favoritos!",
+  "toast.storyAlreadySaved": "Este cuento ya está en tus favoritos",
+  "toast.storySaveFailed": "No se pudo guardar el cuento en favoritos",
+  "toast.storyDeleted": "«{title}» se quitó de favoritos",
+  "toast.storyDeleteFailed": "No se pudo quitar el cuento de favoritos",
+  "toast.wordAdded": "¡Palabra añadida con éxito!",
+  "toast.wordsImported": { one: "¡Se añadió {count} palabra!", other: "¡Se añadieron {count} palabras!" },
+  "toast.wordDuplicate": "Esta palabra ya está en tu lista",
+  "toast.wordActivated": "Palabra activada",
+  "toast.wordDeactivated": "Palabra desactivada",
+  "toast.wordDeleted": "¡Palabra eliminada con éxito!",
+  "toast.allWordsActivated": "¡Todas las palabras activadas!",
+  "toast.allWordsDeactivated": "¡Todas las palabras desactivadas!",
+  "toast.selectedWordsActivated": { one: "{count} palabra activada", other: "{count} palabras activadas" },
+  "toast.selectedWordsDeactivated": { one: "{count} palabra desactivada", other: "{count} palabras desactivadas" },
+  "toast.selectedWordsDeleted": { one: "{count} palabra eliminada", other: "{count} palabras eliminadas" },
+  "toast.wordsSaveFailed": "No se pudieron guardar las palabras",
+  "toast.wordsLoadFailed": "No se pudieron cargar las palabras frecuentes",
+  "toast.wordListSaved": "Se guardó la lista de palabras «{name}»",
+  "toast.wordListSaveFailed": "No se pudo guardar la lista de palabras",
+  "toast.wordListDeleted": "Se eliminó la lista de palabras «{name}»",
+  "toast.wordListDeleteFailed": "No se pudo eliminar la lista de palabras",
+  "toast.wordLimitReached": "Las cuentas gratuitas tienen un límite de 3 palabras. Mejora tu plan para añadir más.",
+  "toast.practiceSavedOffline": "Práctica guardada. Se sincronizará cuando vuelvas a tener conexión.",
+  "toast.readingTooShort": "Sigue leyendo al menos 3 segundos antes de parar",
+  "toast.readingScoreFailed": "No pudimos puntuar esa lectura. Inténtalo de nuevo.",
+  "toast.readingLimitReached": "Ya no quedan comprobaciones de lectura por hoy. ¡Inténtalo de nuevo mañana!",
+  "toast.readingSessionDeleteFailed": "No se pudo eliminar la lectura",
+  "toast.recordingUnavailable": "Esta grabación no está disponible en este dispositivo",
+  "toast.quizSaveFailed": "No se pudo guardar la puntuación del cuestionario",
+  "toast.illustrationsPremiumRequired": "Las ilustraciones de libro ilustrado son una función Ilimitada. Tu cuento se escribió sin imágenes.",
+  "toast.illustrationLimitReached": "Ya usaste las imágenes de hoy. Este cuento se escribió sin ellas; mañana tendrás más.",
+  "toast.illustrationsFailed": "No se pudieron dibujar las imágenes esta vez. Tu cuento se escribió sin ellas.",
+  "toast.storyExportFailed": "No pudimos crear ese archivo. Inténtalo de nuevo.",
+  "toast.storyShareReady": "Tu archivo está listo. Toca Compartir otra vez para enviarlo.",
+  "toast.childProfileSaved": "Se guardó el perfil de {name}",
+  "toast.childProfileSaveFailed": "No se pudo guardar el perfil",
+  "toast.childProfileDeleted": "Se eliminó el perfil de {name}",
+  "toast.childProfileDeleteFailed": "No se pudo eliminar el perfil",
+  "toast.childProfileNameRequired": "Escribe el nombre del niño o la niña",
+  "toast.dailyLimitReached": "Alcanzaste el límite diario. Mejora a Ilimitado o espera hasta mañana (medianoche CST).",
+  "toast.storiesLimitReached": "Alcanzaste tu límite diario de cuentos. ¡Mejora tu plan para tener cuentos ilimitados!",
+  "toast.paymentSuccessful": "¡Pago realizado! Tu suscripción ilimitada ya está activa.",
+  "toast.paymentCanceled": "Se canceló el pago. Puedes intentarlo de nuevo cuando quieras.",
+  "toast.loginSuccess": "¡Sesión iniciada!",
+  "toast.loginFailed": "No se pudo iniciar sesión. Inténtalo de nuevo.",
+  "toast.logoutSuccess": "Sesión cerrada",
+  "toast.registrationSuccess": "¡Registro completado! Revisa tu correo para confirmar tu cuenta.",
+  "toast.registrationFailed": "Error durante el registro",
+  "toast.sessionExpired": "La sesión caducó. Vuelve a iniciar sesión.",
+  "toast.reportSubmitted": "Denuncia de contenido enviada",
+  "toast.reportSubmitFailed": "No se pudo enviar la denuncia",
+  "toast.reportReasonRequired": "Selecciona un motivo para la denuncia",
+  "toast.reportsLoadFailed": "No se pudieron cargar las denuncias",
+  "toast.formIncomplete": "Rellena todos los campos obligatorios",
+  "toast.themeRequired": "Escribe un tema/lección o desactiva la opción",
+  "toast.wordsLoading": "Espera a que se carguen las palabras frecuentes",
+  "toast.noActiveWords": "Añade y activa algunas palabras frecuentes antes de crear un cuento",
+  "toast.upgradeRequired": "Inicia sesión para mejorar tu plan",
+  "toast.checkoutFailed": "No se pudo iniciar el proceso de pago",
+  "toast.storyInfoIncomplete": "La información del cuento está incompleta",
+
+  // Upgrade modal
+  "upgrade.title": "Mejora a Ilimitado",
+  "upgrade.description": "Desbloquea el acceso ilimitado a todas las funciones",
+  "upgrade.unlimitedStories": "Creación ilimitada de cuentos",
+  "upgrade.unlimitedStoriesDetail": "Crea todos los cuentos que quieras, cuando quieras",
+  "upgrade.unlimitedWords": "Palabras frecuentes ilimitadas",
+  "upgrade.unlimitedWordsDetail": "Añade todas las palabras frecuentes que necesites",
+  "upgrade.savingStories": "Guardar cuentos",
+  "upgrade.savingStoriesDetail": "Conserva tus mejores cuentos y léelos cuando quieras",
+  "upgrade.earlyAccess": "Acceso anticipado a nuevas funciones",
+  "upgrade.earlyAccessDetail": "Sé de los primeros en probar las nuevas funciones",
+  "upgrade.promoHeading": "¿Tienes un código promocional?",
+  "upgrade.promoApplied": "Ya aplicaste el código promocional {code}. ¡Tu precio especial está disponible más abajo!",
+  "upgrade.promoPrompt": "¡Introduce tu código promocional para desbloquear un {offer} en el acceso ilimitado!",
+  "upgrade.specialPricing": "precio especial",
+  "upgrade.promoPlaceholder": "Introduce el código promocional",
+  "upgrade.promoActive": "Tu código promocional está activo. ¡Disfruta de tu precio especial más abajo!",
+  "upgrade.promoAccepted": "¡Código aplicado! Tendrás una semana gratis antes del primer cobro.",
+  "upgrade.promoInvalid": "Código no válido o caducado",
+  "upgrade.validating": "Validando...",
+  "upgrade.applyCode": "Aplicar código",
+  "upgrade.specialOffer": "Oferta especial",
+  "upgrade.subscribe": "Suscríbete a Ilimitado",
+  "upgrade.freeWeek": "¡Tienes una semana gratis!",
+  "upgrade.choosePlan": "Elige tu plan más abajo. ¿Tienes un código promocional? ¡Introdúcelo arriba para obtener un precio especial!",
+  "upgrade.errorTitle": "Error",
+  "upgrade.promoRequired": "Introduce un código promocional",
+  "upgrade.invalidCodeTitle": "Código no válido",
+  "upgrade.invalidCodeDetail": "Este código promocional no es válido o ha caducado",
+  "upgrade.applyFailed": "No se pudo aplicar el código",
+
+  // Profile page
+  "profile.title": "Configuración del perfil",
+  "profile.infoTitle": "Información del perfil",
+  "profile.infoDescription": "Actualiza tus datos personales y tu correo electrónico.",
+  "profile.name": "Nombre",
+  "profile.namePlaceholder": "Escribe tu nombre",
+  "profile.nameRequired": "El nombre es obligatorio",
+  "profile.email": "Correo electrónico",
+  "profile.emailPlaceholder": "Escribe tu correo electrónico",
+  "profile.emailInvalid": "Correo electrónico no válido",
+  "profile.saveChanges": "Guardar cambios",
+  "profile.passwordTitle": "Cambiar contraseña",
+  "profile.passwordDescription": "Actualiza tu contraseña para mantener tu cuenta segura.",
+  "profile.currentPassword": "Contraseña actual",
+  "profile.currentPasswordPlaceholder": "Escribe tu contraseña actual",
+  "profile.currentPasswordRequired": "La contraseña actual es obligatoria",
+  "profile.newPassword": "Nueva contraseña",
+  "profile.newPasswordPlaceholder": "Escribe la nueva contraseña",
+  "profile.passwordTooShort": "La contraseña debe tener al menos 6 caracteres",
+  "profile.confirmPassword": "Confirmar nueva contraseña",
+  "profile.confirmPasswordPlaceholder": "Confirma la nueva contraseña",
+  "profile.passwordsDontMatch": "Las contraseñas no coinciden",
+  "profile.updatePassword": "Actualizar contraseña",
+  "profile.privacyTitle": "Datos y privacidad",
+  "profile.privacyDescription": "Descubre cómo se tratan tus datos y nuestras prácticas de privacidad.",
+  "profile.privacyPolicy": "Ver la política de datos y privacidad",
+  "profile.subscriptionTitle": "Gestión de la suscripción",
+  "profile.subscriptionDescription": "Gestiona tu suscripción ilimitada y la facturación",
+  "profile.unlimitedActive": "Ilimitado activo",
+  "profile.unlimitedActiveDetail": "Tienes acceso ilimitado a todas las funciones",
+  "profile.active": "Activa",
+  "profile.opening": "Abriendo...",
+  "profile.manageSubscription": "Gestionar suscripción y facturación",
+  "profile.portalHint": "Abre el portal de clientes de Stripe para gestionar tu suscripción, cambiar el método de pago, ver facturas o cancelar la suscripción.",
+  "profile.upgrade": "Mejora a Ilimitado",
+  "profile.benefits": "Ventajas de Ilimitado:",
+  "profile.accountTitle": "Gestión de la cuenta",
+  "profile.accountDescription": "Elimina de forma permanente tu cuenta y todos sus datos",
+  "profile.deleteWarning": "⚠️ Atención: esta acción no se puede deshacer",
+  "profile.deleteRemoves": "Al eliminar tu cuenta se borrará para siempre:",
+  "profile.deleteProfile": "La información de tu perfil",
+  "profile.deleteStories": "Todos los cuentos creados",
+  "profile.deleteFavorites": "Tus cuentos favoritos",
+  "profile.deleteWordLists": "Tus listas de palabras frecuentes",
+  "profile.deleteHistory": "El historial de uso y las preferencias",
+  "profile.deleteSubscription": "Tu suscripción activa se cancelará de inmediato",
+  "profile.deleteAccess": "El acceso a la cuenta",
+  "profile.deleteMyAccount": "Eliminar mi cuenta",
+  "profile.deleteConfirmTitle": "¿Estás completamente seguro?",
+  "profile.deleteConfirmDescription": "Esta acción no se puede deshacer. Se eliminará tu cuenta para siempre y se borrarán todos tus datos de nuestros servidores.",
+  "profile.deleteConfirmLabel": "Escribe {word} para confirmar:",
+  "profile.deleteConfirmPlaceholder": "Escribe {word} aquí",
+  "profile.cancel": "Cancelar",
+  "profile.deleting": "Eliminando...",
+  "profile.deleteAccount": "Eliminar cuenta",
+  "profile.errorTitle": "Error",
+  "profile.successTitle": "Listo",
+  "profile.loadFailed": "No se pudieron cargar los datos del perfil",
+  "profile.portalFailed": "No se pudo abrir la gestión de la suscripción",
+  "profile.confirmRequiredTitle": "Se necesita confirmación",
+  "profile.confirmRequired": "Escribe {word} para confirmar la eliminación de la cuenta.",
+  "profile.deletedTitle": "Cuenta eliminada",
+  "profile.deleted": "Tu cuenta se eliminó de forma permanente.",
+  "profile.deleteFailed": "No se pudo eliminar la cuenta. Inténtalo de nuevo.",
+  "profile.updated": "Perfil actualizado",
+  "profile.updateFailed": "No se pudo actualizar el perfil",
+  "profile.passwordUpdated": "Contraseña actualizada",
+  "profile.passwordUpdateFailed": "No se pudo actualizar la contraseña",
+  // App shell
+  "app.title": "Crea historias mágicas para pequeños lectores",
+  "app.tabStory": "Historia",
+  "app.tabWords": "Palabras",
+  "app.tabPractice": "Práctica",
+  "app.tabHistory": "Historial",
+  "app.tabSaved": "Guardadas",
+  "app.aiNotice": "Aviso sobre contenido de IA",
+  // Story display
+  "story.chapter": "{series} · Capítulo {number}",
+  "story.onceUponATime": "Había una vez...",
+  "story.writing": "Escribiendo tu historia...",
+  "story.stop": "Detener",
+  "story.saved": "¡Guardada!",
+  "story.saving": "Guardando...",
+  "story.saveToFavorites": "Guardar en favoritos",
+  "story.upgrade": "Mejorar a ilimitado",
+  "story.writeChapter": "Escribir el capítulo {number}",
+  "story.continueSeries": "Continuar como serie",
+  "story.readingCheck": "Prueba de lectura",
+  "story.report": "Denunciar contenido",
+  "story.characters": "Personajes",
+  // Book reader
+  "book.view": "Vista de la historia",
+  "book.scroll": "Desplazar",
+  "book.scrollLabel": "Vista continua",
+  "book.book": "Libro",
+  "book.bookLabel": "Vista de libro",
+  "book.pages": "Páginas de la historia",
+  "book.page": "Página {page} de {count}",
+  "book.previous": "Página anterior",
+  "book.next": "Página siguiente",
+  // Sight word mastery
+  "mastery.new": "Nueva",
+  "mastery.practicing": "En práctica",
+  "mastery.mastered": "Dominada",
+  "mastery.change": "{word}: {state}. Cambiar dominio",
+  // Print & share
+  "export.menu": "Imprimir y compartir",
+  "export.preparing": "Preparando...",
+  "export.downloadPdf": "Descargar PDF (letra grande)",
+  "export.downloadEpub": "Descargar libro EPUB",
+  "export.share": "Compartir {format}...",
+  "export.boldSightWords": "Palabras frecuentes en negrita",
+  "export.collection": "Exportar colección",
+  "export.chapter": "Imprimir capítulo",
+  "export.series": "Exportar serie",
+  "export.readingLevel": "Nivel de lectura: {level}",
+  "export.theme": "Tema: {theme}",
+  "export.contents": "Índice",
+};
@@ -0,0 +1,298 @@
+import { Catalog } from "./en";
+
+export const fr: Catalog = {
+  // User menu
+  "menu.open": "Ouvrir le menu",
+  "menu.profile": "Profil",
+  "menu.language": "Langue",
+  "menu.logout": "Se déconnecter",
+
+  // Story form
+  "storyForm.reader": "Lecteur",
+  "storyForm.readerPlaceholder": "Choisir un lecteur",
+  "storyForm.readerAnyone": "Tout le monde (non personnalisé)",
+  "storyForm.manageReaders": "Gérer les profils de lecteurs",
+  "storyForm.readingLevel": "Niveau de lecture",
+  "storyForm.readingLevelPlaceholder": "Choisir la classe",
+  "storyForm.interestLevel": "Tranche d'âge",
+  "storyForm.interestLevelPlaceholder": "Choisir la tranche d'âge",
+  "storyForm.genre": "Genre",
+  "storyForm.genrePlaceholder": "Choisir un genre",
+  "storyForm.language": "Langue",
+  "storyForm.languagePlaceholder": "Choisir la langue",
+  "storyForm.translation": "Traduction bilingue",
+  "storyForm.translationPlaceholder": "Choisir la traduction",
+  "storyForm.translationNone": "Aucune (une seule langue)",
+  "storyForm.translationHint": "Chaque phrase est accompagnée de sa traduction. Les mots-outils sont travaillés dans la langue de l'histoire.",
+  "storyForm.addThemeLesson": "Ajouter un thème/une leçon",
+  "storyForm.themeLessonToggle": "Activer ou désactiver le thème/la leçon",
+  "storyForm.themeLessonFocus": "Thème ou leçon",
+  "storyForm.themeLessonPlaceholder": "Saisissez un thème, une leçon ou un sujet (par ex. « partager avec ses amis », « surmonter ses peurs », « apprendre les couleurs »)",
+  "storyForm.length": "Longueur de l'histoire",
+  "storyForm.lengthPlaceholder": "Choisir la longueur",
+  "storyForm.lengthShort": "Courte",
+  "storyForm.lengthMedium": "Moyenne",
+  "storyForm.lengthLong": "Longue",
+  "storyForm.generate": "Créer l'histoire",
+  "storyForm.generating": "Écriture de votre histoire...",
+
+  "readingLevel.k": "Maternelle",
+  "readingLevel.1": "CP",
+  "readingLevel.2": "CE1",
+  "readingLevel.3": "CE2",
+  "readingLevel.4": "CM1",
+  "readingLevel.5": "CM2",
+  "readingLevel.teen": "Adolescent",
+
+  "interestLevel.elementary": "Primaire (5 à 8 ans)",
+  "interestLevel.middleGrade": "Préadolescent (9 à 12 ans)",
+  "interestLevel.youngAdult": "Jeune adulte (13 ans et plus)",
+
+  "theme.adventure": "Aventure",
+  "theme.bedtime": "Histoire du soir",
+  "theme.comedy": "Comédie",
+  "theme.educational": "Éducatif",
+  "theme.fairytale": "Conte de fées",
+  "theme.family": "Famille",
+  "theme.fantasy": "Aventure fantastique",
+  "theme.friendship": "Amitié",
+  "theme.holiday": "Fêtes",
+  "theme.mystery": "Mystère",
+  "theme.nature": "Nature et animaux",
+  "theme.school": "École",
+  "theme.science": "Science-fiction",
+  "theme.superhero": "Super-héros",
+
+  // Story settings
+  "storySettings.rhymingVerse": "Vers rimés",
+  "storySettings.rhymingVerseToggle": "Activer ou désactiver l'écriture en vers rimés",
+  "storySettings.rhymingVerseEnglish": "Des rimes amusantes à la manière du Dr Seuss",
+  "storySettings.rhymingVerseOther": "Des rimes dans le style des comptines et chansons de la langue",
+  "storySettings.rhymingVerseUnavailable": "Les vers rimés ne sont pas proposés pour les histoires en {language}",
+  "storySettings.useSightWords": "Utiliser les mots-outils",
+  "storySettings.useSightWordsToggle": "Activer ou désactiver les mots-outils",
+  "storySettings.quizQuestions": "Questions de compréhension",
+  "storySettings.quizQuestionsToggle": "Activer ou désactiver les questions de compréhension après l'histoire",
+  "storySettings.pictureBook": "Livre illustré",
+  "storySettings.pictureBookToggle": "Activer ou désactiver les illustrations de chaque page de l'histoire",
+  "storySettings.pictureBookQuota": "Un livre illustré utilise jusqu'à 8 de vos 24 images par jour",
+  "storySettings.unlimitedFeature": "Fonction Illimité",
+
+  // Toasts
+  "toast.storyGenerated": "Histoire créée avec succès !",
+  "toast.storyGenerationFailed": "Impossible de créer l'histoire. Veuillez réessayer.",
+  "toast.seriesPremiumRequired": "Les séries d'histoires sont une fonction Illimité. Passez à Illimité pour poursuivre l'aventure !",
+  "toast.storyGenerationCanceled": "Création de l'histoire annulée. Elle n'est pas décomptée de votre limite quotidienne.",
+  "toast.storyBlocked": "Nous n'avons pas pu créer une histoire conforme à nos contrôles de sécurité. Essayez un autre thème ou une autre leçon. Cette tentative n'est pas décomptée de votre limite quotidienne.",
+  "toast.storySaved": "Histoire ajoutée aux favoris !",
+  "toast.storyAlreadySaved": "Cette histoire est déjà dans vos favoris",
+  "toast.storySaveFailed": "Impossible d'ajouter l'histoire aux favoris",
+  "toast.storyDeleted": "« {title} » a été retirée des favoris",
+  "toast.storyDeleteFailed": "Impossible de retirer l'histoire des favoris",
+  "toast.wordAdded": "Mot ajouté avec succès !",
+  "toast.wordsImported": { one: "{count} mot ajouté !", other: "{count} mots ajoutés !" },
+  "toast.wordDuplicate": "Ce mot est déjà dans votre liste",
+  "toast.wordActivated": "Mot activé",
+  "toast.wordDeactivated": "Mot désactivé",
+  "toast.wordDeleted": "Mot supprimé avec succès !",
+  "toast.allWordsActivated": "Tous les mots sont activés !",
+  "toast.allWordsDeactivated": "Tous les mots sont désactivés !",
+  "toast.selectedWordsActivated": { one: "{count} mot activé", other: "{count} mots activés" },
+  "toast.selectedWordsDeactivated": { one: "{count} mot désactivé", other: "{count} mots désactivés" },
+  "toast.selectedWordsDeleted": { one: "{count} mot supprimé", other: "{count} mots supprimés" },
+  "toast.wordsSaveFailed": "Impossible d'enregistrer les mots",
+  "toast.wordsLoadFailed": "Impossible de charger les mots-outils",
+  "toast.wordListSaved": "Liste de mots « {name} » enregistrée",
+  "toast.wordListSaveFailed": "Impossible d'enregistrer la liste de mots",
+  "toast.wordListDeleted": "Liste de mots « {name} » supprimée",
+  "toast.wordListDeleteFailed": "Impossible de supprimer la liste de mots",
+  "toast.wordLimitReached": "Les comptes gratuits sont limités à 3 mots. Passez à Illimité pour en ajouter davantage.",
+  "toast.practiceSavedOffline": "Exercice enregistré. Il sera synchronisé à votre retour en ligne.",
+  "toast.readingTooShort": "Continuez à lire au moins 3 secondes avant d'arrêter",
+  "toast.readingScoreFailed": "Nous n'avons pas pu évaluer cette lecture. Veuillez réessayer.",
+  "toast.readingLimitReached": "Plus de vérifications de lecture pour aujourd'hui. Réessayez demain !",
+  "toast.readingSessionDeleteFailed": "Impossible de supprimer la lecture",
+  "toast.recordingUnavailable": "Cet enregistrement n'est pas disponible sur cet appareil",
+  "toast.quizSaveFailed": "Impossible d'enregistrer votre score au quiz",
+  "toast.illustrationsPremiumRequired": "Les illustrations de livre illustré sont une fonction Illimité. Votre histoire a été écrite sans images.",
+  "toast.illustrationLimitReached": "Vous avez utilisé toutes vos images du jour. Cette histoire a été écrite sans elles ; d'autres seront disponibles demain.",
+  "toast.illustrationsFailed": "Les images n'ont pas pu être dessinées cette fois. Votre histoire a été écrite sans elles.",
+  "toast.storyExportFailed": "Nous n'avons pas pu créer ce fichier. Veuillez réessayer.",
+  "toast.storyShareReady": "Votre fichier est prêt. Touchez de nouveau Partager pour l'envoyer.",
+  "toast.childProfileSaved": "Profil de {name} enregistré",
+  "toast.childProfileSaveFailed": "Impossible d'enregistrer le profil",
+  "toast.childProfileDeleted": "Profil de {name} supprimé",
+  "toast.childProfileDeleteFailed": "Impossible de supprimer le profil",
+  "toast.childProfileNameRequired": "Veuillez saisir le prénom de l'enfant",
+  "toast.dailyLimitReached": "Limite quotidienne atteinte. Passez à Illimité ou attendez demain (minuit CST).",
+  "toast.storiesLimitReached": "Vous avez atteint votre limite quotidienne d'histoires. Passez à Illimité pour des histoires sans limite !",
+  "toast.paymentSuccessful": "Paiement réussi ! Votre abonnement Illimité est maintenant actif.",
+  "toast.paymentCanceled": "Le paiement a été annulé. Vous pouvez réessayer à tout moment.",
+  "toast.loginSuccess": "Connexion réussie !",
+  "toast.loginFailed": "Échec de la connexion. Veuillez réessayer.",
+  "toast.logoutSuccess": "Déconnexion réussie",
+  "toast.registrationSuccess": "Inscription réussie ! Consultez vos e-mails pour confirmer votre compte.",
+  "toast.registrationFailed": "Erreur lors de l'inscription",
+  "toast.sessionExpired": "Session expirée. Veuillez vous reconnecter.",
+  "toast.reportSubmitted": "Signalement envoyé avec succès",
+  "toast.reportSubmitFailed": "Impossible d'envoyer le signalement",
+  "toast.reportReasonRequired": "Veuillez choisir un motif de signalement",
+  "toast.reportsLoadFailed": "Impossible de charger les signalements",
+  "toast.formIncomplete": "Veuillez remplir tous les champs obligatoires",
+  "toast.themeRequired": "Veuillez saisir un thème/une leçon ou désactiver l'option",
+  "toast.wordsLoading": "Veuillez patienter pendant le chargement des mots-outils",
+  "toast.noActiveWords": "Ajoutez et activez quelques mots-outils avant de créer une histoire",
+  "toast.upgradeRequired": "Veuillez vous connecter pour passer à Illimité",
+  "toast.checkoutFailed": "Impossible de lancer le paiement",
+  "toast.storyInfoIncomplete": "Les informations de l'histoire sont incomplètes",
+
+  // Upgrade modal
+  "upgrade.title": "Passer à Illimité",
+  "upgrade.description": "Débloquez l'accès illimité à toutes les fonctions",
+  "upgrade.unlimitedStories": "Création d'histoires illimitée",
+  "upgrade.unlimitedStoriesDetail": "Créez autant d'histoires que vous voulez, quand vous voulez",
+  "upgrade.unlimitedWords": "Mots-outils illimités",
+  "upgrade.unlimitedWordsDetail": "Ajoutez autant de mots-outils que nécessaire",
+  "upgrade.savingStories": "Sauvegarde des histoires",
+  "upgrade.savingStoriesDetail": "Gardez vos meilleures histoires et retrouvez-les à tout moment",
+  "upgrade.earlyAccess": "Accès anticipé aux nouvelles fonctions",
+  "upgrade.earlyAccessDetail": "Soyez parmi les premiers à essayer les nouvelles fonctions",
+  "upgrade.promoHeading": "Vous avez un code promo ?",
+  "upgrade.promoApplied": "Vous avez déjà appliqué le code promo {code}. Votre tarif spécial est disponible ci-dessous !",
+  "upgrade.promoPrompt": "Saisissez votre code promo pour débloquer un {offer} sur l'accès illimité !",
+  "upgrade.specialPricing": "tarif spécial",
+  "upgrade.promoPlaceholder": "Saisir le code promo",
+  "upgrade.promoActive": "Votre code promo est actif. Profitez de votre tarif spécial ci-dessous !",
+  "upgrade.promoAccepted": "Code appliqué ! Vous bénéficiez d'une semaine gratuite avant le premier prélèvement.",
+  "upgrade.promoInvalid": "Code invalide ou expiré",
+  "upgrade.validating": "Validation...",
+  "upgrade.applyCode": "Appliquer le code",
+  "upgrade.specialOffer": "Offre spéciale",
+  "upgrade.subscribe": "S'abonner à Illimité",
+  "upgrade.freeWeek": "Vous bénéficiez d'une semaine gratuite !",
+  "upgrade.choosePlan": "Choisissez votre formule ci-dessous. Vous avez un code promo ? Saisissez-le ci-dessus pour obtenir un tarif spécial !",
+  "upgrade.errorTitle": "Erreur",
+  "upgrade.promoRequired": "Veuillez saisir un code promo",
+  "upgrade.invalidCodeTitle": "Code invalide",
+  "upgrade.invalidCodeDetail": "Ce code promo est invalide ou a expiré",
+  "upgrade.applyFailed": "Impossible d'appliquer le code",
+
+  // Profile page
+  "profile.title": "Paramètres du profil",
+  "profile.infoTitle": "Informations du profil",
+  "profile.infoDescription": "Mettez à jour vos informations personnelles et votre adresse e-mail.",
+  "profile.name": "Nom",
+  "profile.namePlaceholder": "Saisissez votre nom",
+  "profile.nameRequired": "Le nom est obligatoire",
+  "profile.email": "E-mail",
+  "profile.emailPlaceholder": "Saisissez votre e-mail",
+  "profile.emailInvalid": "Adresse e-mail invalide",
+  "profile.saveChanges": "Enregistrer les modifications",
+  "profile.passwordTitle": "Changer le mot de passe",
+  "profile.passwordDescription": "Mettez à jour votre mot de passe pour sécuriser votre compte.",
+  "profile.currentPassword": "Mot de passe actuel",
+  "profile.currentPasswordPlaceholder": "Saisissez le mot de passe actuel",
+  "profile.currentPasswordRequired": "Le mot de passe actuel est obligatoire",
+  "profile.newPassword": "Nouveau mot de passe",
+  "profile.newPasswordPlaceholder": "Saisissez le nouveau mot de passe",
+  "profile.passwordTooShort": "Le mot de passe doit contenir au moins 6 caractères",
+  "profile.confirmPassword": "Confirmer le nouveau mot de passe",
+  "profile.confirmPasswordPlaceholder": "Confirmez le nouveau mot de passe",
+  "profile.passwordsDontMatch": "Les mots de passe ne correspondent pas",
+  "profile.updatePassword": "Mettre à jour le mot de passe",
+  "profile.privacyTitle": "Données et confidentialité",
+  "profile.privacyDescription": "Découvrez comment vos données sont traitées et nos pratiques de confidentialité.",
+  "profile.privacyPolicy": "Voir la politique de données et de confidentialité",
+  "profile.subscriptionTitle": "Gestion de l'abonnement",
+  "profile.subscriptionDescription": "Gérez votre abonnement Illimité et la facturation",
+  "profile.unlimitedActive": "Illimité actif",
+  "profile.unlimitedActiveDetail": "Vous avez un accès illimité à toutes les fonctions",
+  "profile.active": "Actif",
+  "profile.opening": "Ouverture...",
+  "profile.manageSubscription": "Gérer l'abonnement et la facturation",
+  "profile.portalHint": "Ouvre le portail client Stripe pour gérer votre abonnement, modifier le moyen de paiement, consulter vos factures ou résilier l'abonnement.",
+  "profile.upgrade": "Passer à Illimité",
+  "profile.benefits": "Avantages d'Illimité :",
+  "profile.accountTitle": "Gestion du compte",
+  "profile.accountDescription": "Supprimez définitivement votre compte et toutes les données associées",
+  "profile.deleteWarning": "⚠️ Attention : cette action est irréversible",
+  "profile.deleteRemoves": "La suppression de votre compte effacera définitivement :",
+  "profile.deleteProfile": "Les informations de votre profil",
+  "profile.deleteStories": "Toutes les histoires créées",
+  "profile.deleteFavorites": "Vos histoires favorites",
+  "profile.deleteWordLists": "Vos listes de mots-outils",
+  "profile.deleteHistory": "L'historique d'utilisation et les préférences",
+  "profile.deleteSubscription": "Votre abonnement actif sera résilié immédiatement",
+  "profile.deleteAccess": "L'accès au compte",
+  "profile.deleteMyAccount": "Supprimer mon compte",
+  "profile.deleteConfirmTitle": "Êtes-vous vraiment sûr ?",
+  "profile.deleteConfirmDescription": "Cette action est irréversible. Votre compte sera définitivement supprimé et toutes vos données seront effacées de nos serveurs.",
+  "profile.deleteConfirmLabel": "Saisissez {word} pour confirmer :",
+  "profile.deleteConfirmPlaceholder": "Saisissez {word} ici",
+  "profile.cancel": "Annuler",
+  "profile.deleting": "Suppression...",
+  "profile.deleteAccount": "Supprimer le compte",
+  "profile.errorTitle": "Erreur",
+  "profile.successTitle": "Succès",
+  "profile.loadFailed": "Impossible de charger les données du profil",
+  "profile.portalFailed": "Impossible d'ouvrir la gestion de l'abonnement",
+  "profile.confirmRequiredTitle": "Confirmation requise",
+  "profile.confirmRequired": "Veuillez saisir {word} pour confirmer la suppression du compte.",
+  "profile.deletedTitle": "Compte supprimé",
+  "profile.deleted": "Votre compte a été définitivement supprimé.",
+  "profile.deleteFailed": "Impossible de supprimer le compte. Veuillez réessayer.",
+  "profile.updated": "Profil mis à jour avec succès",
+  "profile.updateFailed": "Impossible de mettre à jour le profil",
+  "profile.passwordUpdated": "Mot de passe mis à jour avec succès",
+  "profile.passwordUpdateFailed": "Impossible de mettre à jour le mot de passe",
+  // App shell
+  "app.title": "Créez des histoires magiques pour les jeunes lecteurs",
+  "app.tabStory": "Histoire",
+  "app.tabWords": "Mots",
+  "app.tabPractice": "Exercices",
+  "app.tabHistory": "Historique",
+  "app.tabSaved": "Favoris",
+  "app.aiNotice": "Avis sur le contenu généré par IA",
+  // Story display
+  "story.chapter": "{series} · Chapitre {number}",
+  "story.onceUponATime": "Il était une fois...",
+  "story.writing": "Écriture de votre histoire...",
+  "story.stop": "Arrêter",
+  "story.saved": "Enregistrée !",
+  "story.saving": "Enregistrement...",
+  "story.saveToFavorites": "Ajouter aux favoris",
+  "story.upgrade": "Passer à l'illimité",
+  "story.writeChapter": "Écrire le chapitre {number}",
+  "story.continueSeries": "Continuer en série",
+  "story.readingCheck": "Contrôle de lecture",
+  "story.report": "Signaler le contenu",
+  "story.characters": "Personnages",
+  // Book reader
+  "book.view": "Affichage de l'histoire",
+  "book.scroll": "Défilement",
+  "book.scrollLabel": "Affichage en défilement",
+  "book.book": "Livre",
+  "book.bookLabel": "Affichage en livre",
+  "book.pages": "Pages de l'histoire",
+  "book.page": "Page {page} sur {count}",
+  "book.previous": "Page précédente",
+  "book.next": "Page suivante",
+  // Sight word mastery
+  "mastery.new": "Nouveau",
+  "mastery.practicing": "En cours",
+  "mastery.mastered": "Maîtrisé",
+  "mastery.change": "{word} : {state}. Changer le niveau de maîtrise",
+  // Print & share
+  "export.menu": "Imprimer et partager",
+  "export.preparing": "Préparation...",
+  "export.downloadPdf": "Télécharger le PDF (gros caractères)",
+  "export.downloadEpub": "Télécharger le livre EPUB",
+  "export.share": "Partager le {format}...",
+  "export.boldSightWords": "Mots-outils en gras",
+  "export.collection": "Exporter la collection",
+  "export.chapter": "Imprimer le chapitre",
+  "export.series": "Exporter la série",
+  "export.readingLevel": "Niveau de lecture : {level}",
+  "export.theme": "Thème : {theme}",
+  "export.contents": "Sommaire",
+};
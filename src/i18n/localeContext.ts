@@ -0,0 +1,12 @@
+import { createContext } from 'react';
+import { MessageKey } from '@/i18n/en';
+import { MessageParams } from '@/i18n/types';
+import { Locale } from '@/i18n/translate';
+
+export interface LocaleContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+export const LocaleContext = createContext<LocaleContextType | undefined>(undefined);
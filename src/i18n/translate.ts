@@ -0,0 +1,56 @@
+import { en, Catalog, MessageKey } from "./en";
+import { es } from "./es";
+import { fr } from "./fr";
+import { MessageParams } from "./types";
+
+const LOCALE_KEY = "app_locale";
+
+// The app's own language, separate from the language stories are written in
+export const LOCALES = [
+  { value: "en", label: "English" },
+  { value: "es", label: "Español" },
+  { value: "fr", label: "Français" },
+] as const;
+
+export type Locale = (typeof LOCALES)[number]["value"];
+
+const CATALOGS: Record<Locale, Catalog> = { en, es, fr };
+
+const isLocale = (value: string | null): value is Locale =>
+  LOCALES.some((locale) => locale.value === value);
+
+/**
+ * The locale chosen in the user menu, or else the first of the browser's
+ * languages the app has a catalog for, or else English.
+ */
+export function detectLocale(): Locale {
+  const saved = localStorage.getItem(LOCALE_KEY);
+  if (isLocale(saved)) return saved;
+
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const tag of preferred) {
+    const language = tag?.split("-")[0].toLowerCase() ?? null;
+    if (isLocale(language)) return language;
+  }
+  return "en";
+}
+
+export function saveLocale(locale: Locale) {
+  localStorage.setItem(LOCALE_KEY, locale);
+}
+
+/**
+ * A message from the locale's catalog with `{name}` placeholders filled in.
+ * Plural messages pick their form by the locale's plural rules for
+ * `params.count`.
+ */
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message = CATALOGS[locale][key] ?? en[key];
+  const text = typeof message === "string"
+    ? message
+    : message[new Intl.PluralRules(locale).select(Number(params.count ?? 0))] ?? message.other;
+
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
@@ -0,0 +1,7 @@
+/** A message with a form for each plural category, chosen by `count` */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/** Catalog text; `{name}` placeholders are filled in from the message's params */
+export type Message = string | PluralMessage;
+
+export type MessageParams = Record<string, string | number>;
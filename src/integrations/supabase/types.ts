@@ -14,6 +14,48 @@ export type Database = {
   }
   public: {
     Tables: {
+      child_profiles: {
+        Row: {
+          age: number | null
+          created_at: string
+          favorite_animal: string | null
+          id: string
+          interests: string[]
+          name: string
+          pronouns: string | null
+          reading_level: string | null
+          shared_fields: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          age?: number | null
+          created_at?: string
+          favorite_animal?: string | null
+          id?: string
+          interests?: string[]
+          name: string
+          pronouns?: string | null
+          reading_level?: string | null
+          shared_fields?: string[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          age?: number | null
+          created_at?: string
+          favorite_animal?: string | null
+          id?: string
+          interests?: string[]
+          name?: string
+          pronouns?: string | null
+          reading_level?: string | null
+          shared_fields?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       content_reports: {
         Row: {
           created_at: string
@@ -52,36 +94,169 @@ export type Database = {
       }
       favorite_stories: {
         Row: {
+          bilingual: Json | null
+          chapter_number: number | null
           content: string
           created_at: string
           id: string
+          illustrations: Json | null
+          language: string
+          last_page: number
+          questions: Json | null
           reading_level: string
+          series_id: string | null
+          sight_words: Json | null
           theme: string
           title: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          bilingual?: Json | null
+          chapter_number?: number | null
           content: string
           created_at?: string
           id?: string
+          illustrations?: Json | null
+          language?: string
+          last_page?: number
+          questions?: Json | null
           reading_level: string
+          series_id?: string | null
+          sight_words?: Json | null
           theme: string
           title: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          bilingual?: Json | null
+          chapter_number?: number | null
           content?: string
           created_at?: string
           id?: string
+          illustrations?: Json | null
+          language?: string
+          last_page?: number
+          questions?: Json | null
           reading_level?: string
+          series_id?: string | null
+          sight_words?: Json | null
           theme?: string
           title?: string
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "favorite_stories_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "story_series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      generated_stories: {
+        Row: {
+          bilingual: Json | null
+          characters: Json
+          completion_tokens: number | null
+          content: string
+          created_at: string
+          id: string
+          illustrations: Json | null
+          interest_level: string
+          language: string
+          length: string
+          model: string
+          paragraphs: Json
+          prompt_tokens: number | null
+          provider: string
+          questions: Json | null
+          readability: Json | null
+          reading_level: string
+          request_params: Json
+          revision_action: string | null
+          root_story_id: string | null
+          sight_words: Json | null
+          summary: string | null
+          theme: string
+          title: string
+          total_tokens: number | null
+          updated_at: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          bilingual?: Json | null
+          characters?: Json
+          completion_tokens?: number | null
+          content: string
+          created_at?: string
+          id?: string
+          illustrations?: Json | null
+          interest_level: string
+          language: string
+          length: string
+          model: string
+          paragraphs?: Json
+          prompt_tokens?: number | null
+          provider: string
+          questions?: Json | null
+          readability?: Json | null
+          reading_level: string
+          request_params: Json
+          revision_action?: string | null
+          root_story_id?: string | null
+          sight_words?: Json | null
+          summary?: string | null
+          theme: string
+          title: string
+          total_tokens?: number | null
+          updated_at?: string
+          user_id: string
+          version?: number
+        }
+        Update: {
+          bilingual?: Json | null
+          characters?: Json
+          completion_tokens?: number | null
+          content?: string
+          created_at?: string
+          id?: string
+          illustrations?: Json | null
+          interest_level?: string
+          language?: string
+          length?: string
+          model?: string
+          paragraphs?: Json
+          prompt_tokens?: number | null
+          provider?: string
+          questions?: Json | null
+          readability?: Json | null
+          reading_level?: string
+          request_params?: Json
+          revision_action?: string | null
+          root_story_id?: string | null
+          sight_words?: Json | null
+          summary?: string | null
+          theme?: string
+          title?: string
+          total_tokens?: number | null
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generated_stories_root_story_id_fkey"
+            columns: ["root_story_id"]
+            isOneToOne: false
+            referencedRelation: "generated_stories"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       premium_codes: {
         Row: {
@@ -170,6 +345,136 @@ export type Database = {
         }
         Relationships: []
       }
+      quiz_results: {
+        Row: {
+          answers: Json
+          child_profile_id: string | null
+          created_at: string
+          favorite_story_id: string | null
+          id: string
+          score: number
+          story_id: string | null
+          story_title: string
+          total: number
+          user_id: string
+        }
+        Insert: {
+          answers?: Json
+          child_profile_id?: string | null
+          created_at?: string
+          favorite_story_id?: string | null
+          id?: string
+          score: number
+          story_id?: string | null
+          story_title: string
+          total: number
+          user_id: string
+        }
+        Update: {
+          answers?: Json
+          child_profile_id?: string | null
+          created_at?: string
+          favorite_story_id?: string | null
+          id?: string
+          score?: number
+          story_id?: string | null
+          story_title?: string
+          total?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_results_child_profile_id_fkey"
+            columns: ["child_profile_id"]
+            isOneToOne: false
+            referencedRelation: "child_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_results_favorite_story_id_fkey"
+            columns: ["favorite_story_id"]
+            isOneToOne: false
+            referencedRelation: "favorite_stories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_results_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "generated_stories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reading_sessions: {
+        Row: {
+          accuracy: number
+          audio_path: string | null
+          child_profile_id: string | null
+          created_at: string
+          duration_ms: number
+          id: string
+          language: string
+          miscues: Json
+          story_id: string | null
+          story_title: string
+          transcript: string
+          user_id: string
+          wcpm: number
+          words_attempted: number
+          words_correct: number
+        }
+        Insert: {
+          accuracy: number
+          audio_path?: string | null
+          child_profile_id?: string | null
+          created_at?: string
+          duration_ms: number
+          id?: string
+          language?: string
+          miscues?: Json
+          story_id?: string | null
+          story_title: string
+          transcript: string
+          user_id: string
+          wcpm: number
+          words_attempted: number
+          words_correct: number
+        }
+        Update: {
+          accuracy?: number
+          audio_path?: string | null
+          child_profile_id?: string | null
+          created_at?: string
+          duration_ms?: number
+          id?: string
+          language?: string
+          miscues?: Json
+          story_id?: string | null
+          story_title?: string
+          transcript?: string
+          user_id?: string
+          wcpm?: number
+          words_attempted?: number
+          words_correct?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reading_sessions_child_profile_id_fkey"
+            columns: ["child_profile_id"]
+            isOneToOne: false
+            referencedRelation: "child_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reading_sessions_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "generated_stories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       report_reasons: {
         Row: {
           created_at: string
@@ -194,6 +499,141 @@ export type Database = {
         }
         Relationships: []
       }
+      sight_word_entries: {
+        Row: {
+          active: boolean
+          created_at: string
+          id: string
+          last_practiced_at: string | null
+          last_seen_at: string | null
+          list_id: string
+          mastery: string
+          practice_streak: number
+          times_correct: number
+          times_practiced: number
+          times_seen: number
+          updated_at: string
+          user_id: string
+          word: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          last_practiced_at?: string | null
+          last_seen_at?: string | null
+          list_id: string
+          mastery?: string
+          practice_streak?: number
+          times_correct?: number
+          times_practiced?: number
+          times_seen?: number
+          updated_at?: string
+          user_id: string
+          word: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          last_practiced_at?: string | null
+          last_seen_at?: string | null
+          list_id?: string
+          mastery?: string
+          practice_streak?: number
+          times_correct?: number
+          times_practiced?: number
+          times_seen?: number
+          updated_at?: string
+          user_id?: string
+          word?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sight_word_entries_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "sight_word_lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sight_word_lists: {
+        Row: {
+          child_profile_id: string | null
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          child_profile_id?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          child_profile_id?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sight_word_lists_child_profile_id_fkey"
+            columns: ["child_profile_id"]
+            isOneToOne: false
+            referencedRelation: "child_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sight_word_practice_events: {
+        Row: {
+          correct: boolean
+          created_at: string
+          entry_id: string
+          game: string
+          id: string
+          practiced_at: string
+          response_ms: number | null
+          user_id: string
+        }
+        Insert: {
+          correct: boolean
+          created_at?: string
+          entry_id: string
+          game: string
+          id: string
+          practiced_at: string
+          response_ms?: number | null
+          user_id: string
+        }
+        Update: {
+          correct?: boolean
+          created_at?: string
+          entry_id?: string
+          game?: string
+          id?: string
+          practiced_at?: string
+          response_ms?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sight_word_practice_events_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "sight_word_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sight_words: {
         Row: {
           created_at: string
@@ -251,6 +691,87 @@ export type Database = {
         }
         Relationships: []
       }
+      story_moderation_events: {
+        Row: {
+          attempt: number
+          classifier: string | null
+          classifier_error: string | null
+          created_at: string
+          decision: string
+          flags: Json
+          id: string
+          request_params: Json
+          story_content: string
+          story_title: string
+          user_id: string
+        }
+        Insert: {
+          attempt?: number
+          classifier?: string | null
+          classifier_error?: string | null
+          created_at?: string
+          decision: string
+          flags?: Json
+          id?: string
+          request_params: Json
+          story_content: string
+          story_title: string
+          user_id: string
+        }
+        Update: {
+          attempt?: number
+          classifier?: string | null
+          classifier_error?: string | null
+          created_at?: string
+          decision?: string
+          flags?: Json
+          id?: string
+          request_params?: Json
+          story_content?: string
+          story_title?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      story_series: {
+        Row: {
+          chapter_count: number
+          characters: Json
+          created_at: string
+          id: string
+          request_params: Json
+          running_summary: string
+          setting: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          chapter_count?: number
+          characters?: Json
+          created_at?: string
+          id?: string
+          request_params: Json
+          running_summary?: string
+          setting?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          chapter_count?: number
+          characters?: Json
+          created_at?: string
+          id?: string
+          request_params?: Json
+          running_summary?: string
+          setting?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       stripe_webhook_logs: {
         Row: {
           customer_email: string | null
@@ -296,8 +817,14 @@ export type Database = {
       user_limits: {
         Row: {
           created_at: string
+          daily_definitions_used: number
+          daily_images_used: number
+          daily_readings_used: number
           daily_stories_used: number
           id: string
+          last_definition_reset_date: string
+          last_image_reset_date: string
+          last_reading_reset_date: string
           last_reset_date: string
           trial_started_at: string | null
           trial_used: boolean
@@ -306,8 +833,14 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          daily_definitions_used?: number
+          daily_images_used?: number
+          daily_readings_used?: number
           daily_stories_used?: number
           id?: string
+          last_definition_reset_date?: string
+          last_image_reset_date?: string
+          last_reading_reset_date?: string
           last_reset_date?: string
           trial_started_at?: string | null
           trial_used?: boolean
@@ -316,8 +849,14 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          daily_definitions_used?: number
+          daily_images_used?: number
+          daily_readings_used?: number
           daily_stories_used?: number
           id?: string
+          last_definition_reset_date?: string
+          last_image_reset_date?: string
+          last_reading_reset_date?: string
           last_reset_date?: string
           trial_started_at?: string | null
           trial_used?: boolean
@@ -331,12 +870,35 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      get_or_create_sight_word_lists: {
+        Args: never
+        Returns: {
+          child_profile_id: string | null
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "sight_word_lists"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
       get_or_create_user_limits: {
         Args: { p_user_id: string }
         Returns: {
           created_at: string
+          daily_definitions_used: number
+          daily_images_used: number
+          daily_readings_used: number
           daily_stories_used: number
           id: string
+          last_definition_reset_date: string
+          last_image_reset_date: string
+          last_reading_reset_date: string
           last_reset_date: string
           trial_started_at: string | null
           trial_used: boolean
@@ -354,6 +916,43 @@ export type Database = {
         Args: { user_id_param: string }
         Returns: undefined
       }
+      record_sight_word_practice: {
+        Args: { p_results: Json }
+        Returns: string[]
+      }
+      record_sight_words_seen: {
+        Args: { p_list_id: string; p_user_id: string; p_words: string[] }
+        Returns: undefined
+      }
+      release_reading_check: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      release_story_images: {
+        Args: { p_count: number; p_user_id: string }
+        Returns: undefined
+      }
+      release_word_definition: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      reserve_reading_check: {
+        Args: { p_limit: number; p_today: string; p_user_id: string }
+        Returns: boolean
+      }
+      reserve_story_images: {
+        Args: {
+          p_count: number
+          p_limit: number
+          p_today: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      reserve_word_definition: {
+        Args: { p_limit: number; p_today: string; p_user_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
       report_reason:
@@ -1,82 +1,59 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { StoryForm, StoryFormData } from "@/components/StoryForm";
 import { StoryDisplay } from "@/components/StoryDisplay";
 import { SightWordManager } from "@/components/SightWordManager";
 import { FavoriteStories } from "@/components/FavoriteStories";
+import { StoryHistory } from "@/components/StoryHistory";
 import { UsageLimits } from "@/components/UsageLimits";
 import { LimitReachedPrompt } from "@/components/LimitReachedPrompt";
+import { PracticeMode } from "@/components/practice/PracticeMode";
 
 
-import { SightWord } from "@/types/sightWords";
+import { useSightWordLists } from "@/hooks/useSightWordLists";
+import { usePracticeSync } from "@/hooks/usePracticeSync";
 import { motion } from "framer-motion";
-import { generateStory } from "@/services/openrouter";
+import { useQueryClient } from "@tanstack/react-query";
+import { StoryRequestData, streamStory } from "@/services/openrouter";
+import { RevisionAction, StoryResponse, StorySeries } from "@/types/story";
+import { revisedLength } from "@/utils/storyRevisions";
 import { useToastNotifications } from "@/hooks/useToastNotifications";
+import { useLocale } from "@/hooks/useLocale";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { supabase } from "@/integrations/supabase/client";
 import { UserMenu } from "@/components/UserMenu";
 import { AIContentDisclaimer } from "@/components/AIContentDisclaimer";
 import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
-import { toast } from "sonner";
+
+// While streaming only the title and text are known; the rest arrives with the finished story
+interface DisplayedStory extends Partial<StoryResponse> {
+  title: string;
+  content: string;
+  readingLevel?: string;
+  theme?: string;
+  language?: string;
+  length?: string;
+  childProfileId?: string;
+}
 
 const Index = () => {
-  const [story, setStory] = useState<{
-    title: string;
-    content: string;
-    readingLevel?: string;
-    theme?: string;
-  } | null>(null);
-  const [words, setWords] = useState<SightWord[]>([]);
+  const [story, setStory] = useState<DisplayedStory | null>(null);
+  // Every finished version of the current story, oldest first
+  const [versions, setVersions] = useState<DisplayedStory[]>([]);
+  const [versionIndex, setVersionIndex] = useState(0);
+  const lastRequestRef = useRef<StoryRequestData | null>(null);
+  const [activeTab, setActiveTab] = useState("story");
   const [showLimitPrompt, setShowLimitPrompt] = useState(false);
-  const [wordsLoading, setWordsLoading] = useState(true);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [streamStatus, setStreamStatus] = useState<string | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
   const { user, refreshSubscription } = useAuth();
   const notifications = useToastNotifications();
-
-  // Load sight words immediately when component mounts
-  useEffect(() => {
-    const loadWords = async () => {
-      if (!user) {
-        setWordsLoading(false);
-        return;
-      }
-
-      try {
-        setWordsLoading(true);
-        const { data, error } = await supabase
-          .from('sight_words')
-          .select('words_objects')
-          .eq('user_id', user.id)
-          .maybeSingle();
-        
-        if (error) throw error;
-        
-        if (data && data.words_objects) {
-          // Convert JSONB objects to SightWord objects
-          const sightWords: SightWord[] = data.words_objects.map((obj: any) => ({
-            word: obj.word,
-            active: obj.active
-          }));
-          setWords(sightWords);
-        } else {
-          // Create new record if none exists
-          const { error: insertError } = await supabase
-            .from('sight_words')
-            .insert({ user_id: user.id, words_objects: [] });
-            
-          if (insertError) throw insertError;
-          setWords([]);
-        }
-      } catch (err) {
-        console.error('Error loading sight words:', err);
-        notifications.wordsLoadFailed();
-      } finally {
-        setWordsLoading(false);
-      }
-    };
-
-    loadWords();
-  }, [user]);
+  const { t } = useLocale();
+  const queryClient = useQueryClient();
+  const wordLists = useSightWordLists();
+  const practice = usePracticeSync();
+  const { words, selectedList, isLoading: wordsLoading } = wordLists;
 
   // Handle Stripe payment completion
   useEffect(() => {
@@ -114,57 +91,163 @@ const Index = () => {
       return;
     }
     
-    let toastId: string | number | undefined;
+    const requestData: StoryRequestData = {
+      ...data,
+      keywords: data.useSightWords ? activeWords.map(word => word.word) : [],
+      sightWordListId: data.useSightWords ? selectedList?.id : undefined
+    };
+    lastRequestRef.current = requestData;
+    
+    console.log("=== Starting Story Generation ===");
+    console.log("Form data:", data);
+    console.log("Active sight words:", activeWords.map(w => w.word));
+    
+    await runStoryRequest(requestData, false);
+  };
+
+  const handleRevise = async (action: RevisionAction) => {
+    const currentVersion = versions[versionIndex];
+    if (!lastRequestRef.current || !currentVersion?.id) return;
+    
+    console.log("=== Starting Story Revision ===", action);
+    
+    await runStoryRequest({
+      ...lastRequestRef.current,
+      length: revisedLength(action, currentVersion.length ?? lastRequestRef.current.length) as StoryFormData["length"],
+      revision: { storyId: currentVersion.id, action }
+    }, true);
+  };
+
+  // Write the next chapter of a series: one picked from the bookshelf, the one
+  // the current story belongs to, or a new series starting with the current story
+  const handleContinueSeries = async (series?: StorySeries) => {
+    const currentVersion = versions[versionIndex];
+    const seriesRequest = series
+      ? { seriesId: series.id }
+      : currentVersion?.series
+        ? { seriesId: currentVersion.series.id }
+        : currentVersion?.id ? { fromStoryId: currentVersion.id } : null;
+    const baseRequest = series
+      ? (series.request_params as unknown as StoryRequestData)
+      : lastRequestRef.current;
+    if (!seriesRequest || !baseRequest) return;
+    
+    console.log("=== Starting Series Chapter ===", seriesRequest);
+    
+    const requestData: StoryRequestData = { ...baseRequest, revision: undefined, series: undefined };
+    lastRequestRef.current = requestData;
+    setActiveTab("story");
+    
+    await runStoryRequest({ ...requestData, series: seriesRequest }, false);
+  };
+
+  const handleSelectVersion = (index: number) => {
+    if (!versions[index]) return;
+    setVersionIndex(index);
+    setStory(versions[index]);
+  };
+
+  // Stream a new story, or a new version of the current one when `isRevision` is set
+  const runStoryRequest = async (requestData: StoryRequestData, isRevision: boolean) => {
+    const abortController = new AbortController();
+    streamAbortRef.current = abortController;
+    setIsStreaming(true);
+    setStreamStatus(null);
+    
+    // A failed or canceled revision goes back to the version it started from
+    const restorePreviousStory = () => setStory(isRevision ? versions[versionIndex] ?? null : null);
     
     try {
-      console.log("=== Starting Story Generation ===");
-      console.log("Form data:", data);
-      console.log("Active sight words:", activeWords.map(w => w.word));
-      
-      toastId = toast.loading("Generating your story...");
-      const activeWordStrings = activeWords.map(word => word.word);
-      
-      const generatedStory = await generateStory({
-        ...data,
-        keywords: data.useSightWords ? activeWordStrings : []
-      });
-      
-      toast.dismiss(toastId);
+      const generatedStory = await streamStory(
+        requestData,
+        {
+          onStart: () => {
+            setStory({
+              title: "",
+              content: "",
+              readingLevel: requestData.readingLevel,
+              theme: requestData.theme,
+              language: requestData.language,
+              length: requestData.length
+            });
+            setShowLimitPrompt(false); // Hide limit prompt if it was showing
+            
+            // Auto-scroll to story section as soon as text starts arriving (subtle, non-blocking)
+            setTimeout(() => {
+              const storySection = document.getElementById('story-section');
+              if (storySection) {
+                storySection.scrollIntoView({ 
+                  behavior: 'smooth', 
+                  block: 'start',
+                  inline: 'nearest'
+                });
+              }
+            }, 200);
+          },
+          onTitle: (title) => {
+            setStory(prev => prev ? { ...prev, title } : prev);
+          },
+          onDelta: (text) => {
+            setStory(prev => prev ? { ...prev, content: prev.content + text } : prev);
+          },
+          onStatus: setStreamStatus
+        },
+        abortController.signal
+      );
       
-      setStory({
+      const finishedStory: DisplayedStory = {
         ...generatedStory,
-        readingLevel: data.readingLevel,
-        theme: data.theme
-      });
-      setShowLimitPrompt(false); // Hide limit prompt if it was showing
+        readingLevel: requestData.readingLevel,
+        theme: requestData.theme,
+        language: requestData.language,
+        length: requestData.length,
+        childProfileId: requestData.childProfileId
+      };
+      const nextVersions = isRevision ? [...versions, finishedStory] : [finishedStory];
+      setVersions(nextVersions);
+      setVersionIndex(nextVersions.length - 1);
+      setStory(finishedStory);
+      setShowLimitPrompt(false);
+      queryClient.invalidateQueries({ queryKey: ['storyHistory', user?.id] });
+      if (requestData.series) {
+        queryClient.invalidateQueries({ queryKey: ['storySeries', user?.id] });
+        queryClient.invalidateQueries({ queryKey: ['favoriteStories', user?.id] });
+      }
+      if (requestData.sightWordListId) {
+        // The story counted towards each word's times seen
+        queryClient.invalidateQueries({ queryKey: ['sightWords', requestData.sightWordListId] });
+      }
       
       notifications.storyGenerated();
-      
-      // Auto-scroll to story section when generated (subtle, non-blocking)
-      setTimeout(() => {
-        const storySection = document.getElementById('story-section');
-        if (storySection) {
-          storySection.scrollIntoView({ 
-            behavior: 'smooth', 
-            block: 'center',
-            inline: 'nearest'
-          });
-        }
-      }, 200);
+      if (generatedStory.illustrationsUnavailable === "premium") {
+        notifications.illustrationsPremiumRequired();
+      } else if (generatedStory.illustrationsUnavailable === "quota") {
+        notifications.illustrationLimitReached();
+      } else if (generatedStory.illustrationsUnavailable === "error") {
+        notifications.illustrationsFailed();
+      }
       
       console.log("=== Story Generation Complete ===");
     } catch (error) {
+      if (abortController.signal.aborted) {
+        console.log("=== Story Generation Canceled ===");
+        restorePreviousStory();
+        notifications.storyGenerationCanceled();
+        return;
+      }
+      
       console.error("=== Story Generation Failed ===");
       console.error("Error:", error);
       
-      // Always dismiss the loading toast first
-      if (toastId) {
-        toast.dismiss(toastId);
-      }
-      
+      // Drop any partial text - the story was not completed or counted
+      restorePreviousStory();
       if (error instanceof Error && error.message === 'LIMIT_REACHED') {
         setShowLimitPrompt(true);
         notifications.dailyLimitReached();
+      } else if (error instanceof Error && error.message === 'PREMIUM_REQUIRED') {
+        notifications.seriesPremiumRequired();
+      } else if (error instanceof Error && error.message === 'STORY_BLOCKED') {
+        notifications.storyBlocked();
       } else if (error instanceof Error && error.message.includes('429')) {
         // Specific handling for rate limit errors from edge function
         setShowLimitPrompt(true);
@@ -178,9 +261,24 @@ const Index = () => {
           notifications.storyGenerationFailed();
         }
       }
+    } finally {
+      if (streamAbortRef.current === abortController) {
+        streamAbortRef.current = null;
+      }
+      setIsStreaming(false);
+      setStreamStatus(null);
     }
   };
 
+  const handleCancelStory = () => {
+    streamAbortRef.current?.abort();
+  };
+
+  // Stop any in-flight stream when leaving the page
+  useEffect(() => {
+    return () => streamAbortRef.current?.abort();
+  }, []);
+
   return (
     <div className="bg-gradient-to-br from-purple-100 via-pink-50 to-blue-100">
       <div className="container px-4 py-4 sm:py-8 max-w-6xl mx-auto">
@@ -200,7 +298,7 @@ const Index = () => {
               />
             </div>
             <h1 className="text-2xl sm:text-3xl font-bold bg-gradient-to-r from-purple-600 via-pink-600 to-blue-600 bg-clip-text text-transparent px-4">
-              Create Magical Stories for Young Readers
+              {t("app.title")}
             </h1>
           </motion.div>
 
@@ -210,19 +308,27 @@ const Index = () => {
         {/* Main Content */}
         <div className="max-w-4xl mx-auto">
           <div className="clay-card p-4 sm:p-8">
-            <Tabs defaultValue="story" className="w-full">
-              <TabsList className="grid w-full grid-cols-3 mb-6 sm:mb-8 bg-transparent p-1 sm:p-2 gap-1 sm:gap-2 h-auto">
+            <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+              <TabsList className="grid w-full grid-cols-5 mb-6 sm:mb-8 bg-transparent p-1 sm:p-2 gap-1 sm:gap-2 h-auto">
                 <TabsTrigger value="story" className="clay-tab-mobile text-gray-700 font-semibold min-h-[48px] px-2 sm:px-4 py-3 text-xs sm:text-base flex flex-col sm:flex-row items-center gap-1 sm:gap-2">
                   <span className="text-lg sm:text-base">📚</span>
-                  <span className="text-xs sm:text-base leading-tight sm:leading-normal">Story</span>
+                  <span className="text-xs sm:text-base leading-tight sm:leading-normal">{t("app.tabStory")}</span>
                 </TabsTrigger>
                 <TabsTrigger value="words" className="clay-tab-mobile text-gray-700 font-semibold min-h-[48px] px-2 sm:px-4 py-3 text-xs sm:text-base flex flex-col sm:flex-row items-center gap-1 sm:gap-2">
                   <span className="text-lg sm:text-base">🎯</span>
-                  <span className="text-xs sm:text-base leading-tight sm:leading-normal">Words</span>
+                  <span className="text-xs sm:text-base leading-tight sm:leading-normal">{t("app.tabWords")}</span>
+                </TabsTrigger>
+                <TabsTrigger value="practice" className="clay-tab-mobile text-gray-700 font-semibold min-h-[48px] px-2 sm:px-4 py-3 text-xs sm:text-base flex flex-col sm:flex-row items-center gap-1 sm:gap-2">
+                  <span className="text-lg sm:text-base">🃏</span>
+                  <span className="text-xs sm:text-base leading-tight sm:leading-normal">{t("app.tabPractice")}</span>
+                </TabsTrigger>
+                <TabsTrigger value="history" className="clay-tab-mobile text-gray-700 font-semibold min-h-[48px] px-2 sm:px-4 py-3 text-xs sm:text-base flex flex-col sm:flex-row items-center gap-1 sm:gap-2">
+                  <span className="text-lg sm:text-base">🕰️</span>
+                  <span className="text-xs sm:text-base leading-tight sm:leading-normal">{t("app.tabHistory")}</span>
                 </TabsTrigger>
                 <TabsTrigger value="favorites" className="clay-tab-mobile text-gray-700 font-semibold min-h-[48px] px-2 sm:px-4 py-3 text-xs sm:text-base flex flex-col sm:flex-row items-center gap-1 sm:gap-2">
                   <span className="text-lg sm:text-base">❤️</span>
-                  <span className="text-xs sm:text-base leading-tight sm:leading-normal">Saved</span>
+                  <span className="text-xs sm:text-base leading-tight sm:leading-normal">{t("app.tabSaved")}</span>
                 </TabsTrigger>
               </TabsList>
               
@@ -234,12 +340,12 @@ const Index = () => {
                     <LimitReachedPrompt onClose={() => setShowLimitPrompt(false)} />
                   )}
                   
-                  <StoryForm onSubmit={handleSubmit} />
+                  <StoryForm onSubmit={handleSubmit} isGenerating={isStreaming} />
                   
                   <Dialog>
                     <DialogTrigger asChild>
                       <Button variant="outline" className="w-full mt-2">
-                        AI Content Notice
+                        {t("app.aiNotice")}
                       </Button>
                     </DialogTrigger>
                     <DialogContent>
@@ -254,6 +360,27 @@ const Index = () => {
                         content={story.content}
                         readingLevel={story.readingLevel}
                         theme={story.theme}
+                        language={story.language}
+                        summary={story.summary}
+                        characters={story.characters}
+                        readability={story.readability}
+                        sightWords={story.sightWords}
+                        isStreaming={isStreaming}
+                        streamStatus={streamStatus}
+                        onCancel={handleCancelStory}
+                        length={story.length}
+                        storyId={story.id}
+                        versionIndex={versionIndex}
+                        versionCount={versions.length}
+                        onSelectVersion={handleSelectVersion}
+                        onRevise={handleRevise}
+                        series={story.series}
+                        onContinueSeries={() => handleContinueSeries()}
+                        wordLists={wordLists}
+                        questions={story.questions}
+                        illustrations={story.illustrations}
+                        bilingual={story.bilingual}
+                        childProfileId={story.childProfileId}
                       />
                     </div>
                   )}
@@ -261,11 +388,23 @@ const Index = () => {
               </TabsContent>
               
               <TabsContent value="words">
-                <SightWordManager words={words} setWords={setWords} isExternalLoading={wordsLoading} />
+                <SightWordManager wordLists={wordLists} />
+              </TabsContent>
+
+              <TabsContent value="practice">
+                <PracticeMode
+                  wordLists={wordLists}
+                  practice={practice}
+                  story={story && !isStreaming ? story : null}
+                />
+              </TabsContent>
+
+              <TabsContent value="history">
+                <StoryHistory />
               </TabsContent>
 
               <TabsContent value="favorites">
-                <FavoriteStories />
+                <FavoriteStories onContinueSeries={handleContinueSeries} />
               </TabsContent>
             </Tabs>
           </div>
@@ -14,6 +14,8 @@ import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { useLocale } from "@/hooks/useLocale";
+import { MessageKey } from "@/i18n/en";
 import { PremiumUpgradeModal } from "@/components/LazyModals";
 import {
   AlertDialog,
@@ -27,27 +29,32 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 
+// Validation messages are catalog keys, translated when they're shown
 const profileSchema = z.object({
-  name: z.string().min(1, "Name is required"),
-  email: z.string().email("Invalid email address"),
+  name: z.string().min(1, "profile.nameRequired" satisfies MessageKey),
+  email: z.string().email("profile.emailInvalid" satisfies MessageKey),
 });
 
 const passwordSchema = z.object({
-  currentPassword: z.string().min(1, "Current password is required"),
-  newPassword: z.string().min(6, "Password must be at least 6 characters"),
+  currentPassword: z.string().min(1, "profile.currentPasswordRequired" satisfies MessageKey),
+  newPassword: z.string().min(6, "profile.passwordTooShort" satisfies MessageKey),
   confirmPassword: z.string(),
 }).refine((data) => data.newPassword === data.confirmPassword, {
-  message: "Passwords don't match",
+  message: "profile.passwordsDontMatch" satisfies MessageKey,
   path: ["confirmPassword"],
 });
 
 type ProfileFormData = z.infer<typeof profileSchema>;
 type PasswordFormData = z.infer<typeof passwordSchema>;
 
+// Typed to confirm account deletion, in every locale
+const DELETE_CONFIRMATION = "DELETE";
+
 const Profile = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user, logout } = useAuth();
+  const { t } = useLocale();
   const [isLoading, setIsLoading] = useState(false);
   const [showCurrentPassword, setShowCurrentPassword] = useState(false);
   const [showNewPassword, setShowNewPassword] = useState(false);
@@ -101,8 +108,8 @@ const Profile = () => {
         } else if (error) {
           console.error("Error loading profile:", error);
           toast({
-            title: "Error",
-            description: "Failed to load profile data",
+            title: t("profile.errorTitle"),
+            description: t("profile.loadFailed"),
             variant: "destructive",
           });
         } else {
@@ -115,7 +122,7 @@ const Profile = () => {
     };
 
     loadProfile();
-  }, [user, profileForm, toast]);
+  }, [user, profileForm, toast, t]);
 
   useEffect(() => {
     checkSubscriptionStatus();
@@ -162,8 +169,8 @@ const Profile = () => {
     } catch (error: any) {
       console.error('Error opening customer portal:', error);
       toast({
-        title: "Error",
-        description: error.message || "Failed to open subscription management",
+        title: t("profile.errorTitle"),
+        description: error.message || t("profile.portalFailed"),
         variant: "destructive",
       });
     } finally {
@@ -172,10 +179,10 @@ const Profile = () => {
   };
 
   const handleDeleteAccount = async () => {
-    if (confirmText !== "DELETE") {
+    if (confirmText !== DELETE_CONFIRMATION) {
       toast({
-        title: "Confirmation required",
-        description: "Please type DELETE to confirm account deletion.",
+        title: t("profile.confirmRequiredTitle"),
+        description: t("profile.confirmRequired", { word: DELETE_CONFIRMATION }),
         variant: "destructive",
       });
       return;
@@ -199,8 +206,8 @@ const Profile = () => {
       if (error) throw error;
 
       toast({
-        title: "Account deleted",
-        description: "Your account has been permanently deleted.",
+        title: t("profile.deletedTitle"),
+        description: t("profile.deleted"),
       });
 
       await logout();
@@ -212,8 +219,8 @@ const Profile = () => {
     } catch (error: any) {
       console.error("Account deletion error:", error);
       toast({
-        title: "Error",
-        description: error.message || "Failed to delete account. Please try again.",
+        title: t("profile.errorTitle"),
+        description: error.message || t("profile.deleteFailed"),
         variant: "destructive",
       });
     } finally {
@@ -249,14 +256,14 @@ const Profile = () => {
       }
 
       toast({
-        title: "Success",
-        description: "Profile updated successfully",
+        title: t("profile.successTitle"),
+        description: t("profile.updated"),
       });
     } catch (error) {
       console.error("Error updating profile:", error);
       toast({
-        title: "Error",
-        description: "Failed to update profile",
+        title: t("profile.errorTitle"),
+        description: t("profile.updateFailed"),
         variant: "destructive",
       });
     } finally {
@@ -274,16 +281,16 @@ const Profile = () => {
       if (error) throw error;
 
       toast({
-        title: "Success",
-        description: "Password updated successfully",
+        title: t("profile.successTitle"),
+        description: t("profile.passwordUpdated"),
       });
 
       passwordForm.reset();
     } catch (error) {
       console.error("Error updating password:", error);
       toast({
-        title: "Error",
-        description: "Failed to update password",
+        title: t("profile.errorTitle"),
+        description: t("profile.passwordUpdateFailed"),
         variant: "destructive",
       });
     } finally {
@@ -291,6 +298,9 @@ const Profile = () => {
     }
   };
 
+  // Split around the placeholder so the confirmation word can be set in bold
+  const [confirmLabelBefore, confirmLabelAfter] = t("profile.deleteConfirmLabel").split("{word}");
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary via-primary-dark to-accent">
       <div className="container mx-auto px-4 py-8">
@@ -308,51 +318,51 @@ const Profile = () => {
             >
               <ArrowLeft className="h-5 w-5" />
             </Button>
-            <h1 className="text-3xl font-bold text-white">Profile Settings</h1>
+            <h1 className="text-3xl font-bold text-white">{t("profile.title")}</h1>
           </div>
 
           {/* Profile Information */}
           <Card>
             <CardHeader>
-              <CardTitle>Profile Information</CardTitle>
+              <CardTitle>{t("profile.infoTitle")}</CardTitle>
               <CardDescription>
-                Update your personal information and email address.
+                {t("profile.infoDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <form onSubmit={profileForm.handleSubmit(onProfileSubmit)} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="name">Name</Label>
+                  <Label htmlFor="name">{t("profile.name")}</Label>
                   <Input
                     id="name"
                     {...profileForm.register("name")}
-                    placeholder="Enter your name"
+                    placeholder={t("profile.namePlaceholder")}
                   />
                   {profileForm.formState.errors.name && (
                     <p className="text-sm text-destructive">
-                      {profileForm.formState.errors.name.message}
+                      {t(profileForm.formState.errors.name.message as MessageKey)}
                     </p>
                   )}
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="email">Email</Label>
+                  <Label htmlFor="email">{t("profile.email")}</Label>
                   <Input
                     id="email"
                     type="email"
                     {...profileForm.register("email")}
-                    placeholder="Enter your email"
+                    placeholder={t("profile.emailPlaceholder")}
                   />
                   {profileForm.formState.errors.email && (
                     <p className="text-sm text-destructive">
-                      {profileForm.formState.errors.email.message}
+                      {t(profileForm.formState.errors.email.message as MessageKey)}
                     </p>
                   )}
                 </div>
 
                 <Button type="submit" disabled={isLoading} className="w-full">
                   <Save className="mr-2 h-4 w-4" />
-                  Save Changes
+                  {t("profile.saveChanges")}
                 </Button>
               </form>
             </CardContent>
@@ -363,21 +373,21 @@ const Profile = () => {
           {/* Change Password */}
           <Card>
             <CardHeader>
-              <CardTitle>Change Password</CardTitle>
+              <CardTitle>{t("profile.passwordTitle")}</CardTitle>
               <CardDescription>
-                Update your password to keep your account secure.
+                {t("profile.passwordDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <form onSubmit={passwordForm.handleSubmit(onPasswordSubmit)} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="currentPassword">Current Password</Label>
+                  <Label htmlFor="currentPassword">{t("profile.currentPassword")}</Label>
                   <div className="relative">
                     <Input
                       id="currentPassword"
                       type={showCurrentPassword ? "text" : "password"}
                       {...passwordForm.register("currentPassword")}
-                      placeholder="Enter current password"
+                      placeholder={t("profile.currentPasswordPlaceholder")}
                     />
                     <Button
                       type="button"
@@ -395,19 +405,19 @@ const Profile = () => {
                   </div>
                   {passwordForm.formState.errors.currentPassword && (
                     <p className="text-sm text-destructive">
-                      {passwordForm.formState.errors.currentPassword.message}
+                      {t(passwordForm.formState.errors.currentPassword.message as MessageKey)}
                     </p>
                   )}
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="newPassword">New Password</Label>
+                  <Label htmlFor="newPassword">{t("profile.newPassword")}</Label>
                   <div className="relative">
                     <Input
                       id="newPassword"
                       type={showNewPassword ? "text" : "password"}
                       {...passwordForm.register("newPassword")}
-                      placeholder="Enter new password"
+                      placeholder={t("profile.newPasswordPlaceholder")}
                     />
                     <Button
                       type="button"
@@ -425,19 +435,19 @@ const Profile = () => {
                   </div>
                   {passwordForm.formState.errors.newPassword && (
                     <p className="text-sm text-destructive">
-                      {passwordForm.formState.errors.newPassword.message}
+                      {t(passwordForm.formState.errors.newPassword.message as MessageKey)}
                     </p>
                   )}
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="confirmPassword">Confirm New Password</Label>
+                  <Label htmlFor="confirmPassword">{t("profile.confirmPassword")}</Label>
                   <div className="relative">
                     <Input
                       id="confirmPassword"
                       type={showConfirmPassword ? "text" : "password"}
                       {...passwordForm.register("confirmPassword")}
-                      placeholder="Confirm new password"
+                      placeholder={t("profile.confirmPasswordPlaceholder")}
                     />
                     <Button
                       type="button"
@@ -455,14 +465,14 @@ const Profile = () => {
                   </div>
                   {passwordForm.formState.errors.confirmPassword && (
                     <p className="text-sm text-destructive">
-                      {passwordForm.formState.errors.confirmPassword.message}
+                      {t(passwordForm.formState.errors.confirmPassword.message as MessageKey)}
                     </p>
                   )}
                 </div>
 
                 <Button type="submit" disabled={isLoading} className="w-full">
                   <Save className="mr-2 h-4 w-4" />
-                  Update Password
+                  {t("profile.updatePassword")}
                 </Button>
               </form>
             </CardContent>
@@ -473,9 +483,9 @@ const Profile = () => {
           {/* Data & Privacy */}
           <Card>
             <CardHeader>
-              <CardTitle>Data & Privacy</CardTitle>
+              <CardTitle>{t("profile.privacyTitle")}</CardTitle>
               <CardDescription>
-                Learn about how your data is handled and our privacy practices.
+                {t("profile.privacyDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -485,7 +495,7 @@ const Profile = () => {
                 className="w-full"
               >
                 <ExternalLink className="mr-2 h-4 w-4" />
-                View Data & Privacy Policy
+                {t("profile.privacyPolicy")}
               </Button>
             </CardContent>
           </Card>
@@ -495,9 +505,9 @@ const Profile = () => {
           {/* Subscription Management */}
           <Card>
             <CardHeader>
-              <CardTitle>Subscription Management</CardTitle>
+              <CardTitle>{t("profile.subscriptionTitle")}</CardTitle>
               <CardDescription>
-                Manage your unlimited subscription and billing
+                {t("profile.subscriptionDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -514,12 +524,12 @@ const Profile = () => {
                           <CheckCircle2 className="h-5 w-5 text-green-600" />
                         </div>
                         <div>
-                          <p className="font-semibold text-green-900">Unlimited Active</p>
-                          <p className="text-sm text-green-700">You have unlimited access to all features</p>
+                          <p className="font-semibold text-green-900">{t("profile.unlimitedActive")}</p>
+                          <p className="text-sm text-green-700">{t("profile.unlimitedActiveDetail")}</p>
                         </div>
                       </div>
                       <Badge variant="secondary" className="bg-green-100 text-green-800 border-green-200">
-                        Active
+                        {t("profile.active")}
                       </Badge>
                     </div>
                     
@@ -532,18 +542,18 @@ const Profile = () => {
                       {isLoadingPortal ? (
                         <>
                           <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Opening...
+                          {t("profile.opening")}
                         </>
                       ) : (
                         <>
                           <ExternalLink className="mr-2 h-4 w-4" />
-                          Manage Subscription & Billing
+                          {t("profile.manageSubscription")}
                         </>
                       )}
                     </Button>
                     
                     <p className="text-xs text-muted-foreground text-center">
-                      Opens Stripe customer portal to manage your subscription, update payment method, view invoices, or cancel subscription.
+                      {t("profile.portalHint")}
                     </p>
                   </>
                 ) : (
@@ -553,18 +563,18 @@ const Profile = () => {
                       className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700"
                     >
                       <Sparkles className="mr-2 h-4 w-4" />
-                      Upgrade to Unlimited
+                      {t("profile.upgrade")}
                     </Button>
                     
                     <div className="p-4 border border-purple-200 rounded-lg bg-purple-50">
                       <p className="text-sm font-semibold text-purple-900 mb-2">
-                        Unlimited Benefits:
+                        {t("profile.benefits")}
                       </p>
                       <ul className="text-sm text-purple-800 space-y-1">
-                        <li>✨ Unlimited Story Generation</li>
-                        <li>✨ Unlimited Sight Words</li>
-                        <li>✨ Saving Stories</li>
-                        <li>✨ Early Access to New Features</li>
+                        <li>✨ {t("upgrade.unlimitedStories")}</li>
+                        <li>✨ {t("upgrade.unlimitedWords")}</li>
+                        <li>✨ {t("upgrade.savingStories")}</li>
+                        <li>✨ {t("upgrade.earlyAccess")}</li>
                       </ul>
                     </div>
                   </>
@@ -578,28 +588,28 @@ const Profile = () => {
           {/* Account Management Section */}
           <Card>
             <CardHeader>
-              <CardTitle className="text-destructive">Account Management</CardTitle>
+              <CardTitle className="text-destructive">{t("profile.accountTitle")}</CardTitle>
               <CardDescription>
-                Permanently delete your account and all associated data
+                {t("profile.accountDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
                 <div className="p-4 border border-yellow-200 bg-yellow-50 rounded-lg">
                   <p className="text-sm text-yellow-800 font-medium mb-2">
-                    ⚠️ Warning: This action cannot be undone
+                    {t("profile.deleteWarning")}
                   </p>
                   <p className="text-sm text-yellow-700">
-                    Deleting your account will permanently remove:
+                    {t("profile.deleteRemoves")}
                   </p>
                   <ul className="text-sm text-yellow-700 list-disc list-inside mt-2 space-y-1">
-                    <li>Your profile information</li>
-                    <li>All generated stories</li>
-                    <li>Your favorite stories</li>
-                    <li>Your sight word lists</li>
-                    <li>Usage history and preferences</li>
-                    <li><strong>Your active subscription will be cancelled immediately</strong></li>
-                    <li>Account access</li>
+                    <li>{t("profile.deleteProfile")}</li>
+                    <li>{t("profile.deleteStories")}</li>
+                    <li>{t("profile.deleteFavorites")}</li>
+                    <li>{t("profile.deleteWordLists")}</li>
+                    <li>{t("profile.deleteHistory")}</li>
+                    <li><strong>{t("profile.deleteSubscription")}</strong></li>
+                    <li>{t("profile.deleteAccess")}</li>
                   </ul>
                 </div>
 
@@ -611,30 +621,29 @@ const Profile = () => {
                       disabled={isDeleting}
                     >
                       <Trash2 className="mr-2 h-4 w-4" />
-                      Delete My Account
+                      {t("profile.deleteMyAccount")}
                     </Button>
                   </AlertDialogTrigger>
                   <AlertDialogContent>
                     <AlertDialogHeader>
                       <AlertDialogTitle className="text-destructive">
-                        Are you absolutely sure?
+                        {t("profile.deleteConfirmTitle")}
                       </AlertDialogTitle>
                       <AlertDialogDescription>
-                        This action cannot be undone. This will permanently delete your
-                        account and remove all your data from our servers.
+                        {t("profile.deleteConfirmDescription")}
                       </AlertDialogDescription>
                     </AlertDialogHeader>
                     
                     <div className="space-y-4 py-4">
                       <div className="space-y-2">
                         <Label htmlFor="confirm-delete">
-                          Type <span className="font-bold">DELETE</span> to confirm:
+                          {confirmLabelBefore}<span className="font-bold">{DELETE_CONFIRMATION}</span>{confirmLabelAfter}
                         </Label>
                         <Input
                           id="confirm-delete"
                           value={confirmText}
                           onChange={(e) => setConfirmText(e.target.value)}
-                          placeholder="Type DELETE here"
+                          placeholder={t("profile.deleteConfirmPlaceholder", { word: DELETE_CONFIRMATION })}
                           disabled={isDeleting}
                         />
                       </div>
@@ -642,22 +651,22 @@ const Profile = () => {
 
                     <AlertDialogFooter>
                       <AlertDialogCancel disabled={isDeleting}>
-                        Cancel
+                        {t("profile.cancel")}
                       </AlertDialogCancel>
                       <Button
                         variant="destructive"
                         onClick={handleDeleteAccount}
-                        disabled={isDeleting || confirmText !== "DELETE"}
+                        disabled={isDeleting || confirmText !== DELETE_CONFIRMATION}
                       >
                         {isDeleting ? (
                           <>
                             <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                            Deleting...
+                            {t("profile.deleting")}
                           </>
                         ) : (
                           <>
                             <Trash2 className="mr-2 h-4 w-4" />
-                            Delete Account
+                            {t("profile.deleteAccount")}
                           </>
                         )}
                       </Button>
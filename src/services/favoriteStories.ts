@@ -1,5 +1,6 @@
 
 import { supabase } from "@/integrations/supabase/client";
+import { BilingualText, ComprehensionQuestion, SightWordCoverage, StoryIllustrations } from "@/types/story";
 
 export interface FavoriteStory {
   id: string;
@@ -8,6 +9,20 @@ export interface FavoriteStory {
   content: string;
   reading_level: string;
   theme: string;
+  language: string;
+  /** Where the story used its sight words, when it was written with them */
+  sight_words: SightWordCoverage | null;
+  /** The story's comprehension quiz, when it had one */
+  questions: ComprehensionQuestion[] | null;
+  /** Picture book pages, when the story was illustrated */
+  illustrations: StoryIllustrations | null;
+  /** Sentence-by-sentence translation, for bilingual stories */
+  bilingual: BilingualText | null;
+  /** Book page the reader last turned to */
+  last_page: number;
+  /** Set for chapters of a series */
+  series_id: string | null;
+  chapter_number: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -60,7 +75,7 @@ export const getFavoriteStories = async (): Promise<FavoriteStory[]> => {
     throw error;
   }
 
-  return data || [];
+  return (data || []) as unknown as FavoriteStory[];
 };
 
 export const deleteFavoriteStory = async (id: string) => {
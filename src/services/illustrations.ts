@@ -0,0 +1,12 @@
+import { supabase } from "@/integrations/supabase/client";
+
+const ILLUSTRATIONS_BUCKET = "story-illustrations";
+
+// Short-lived links to a story's pictures, keyed by storage path
+export const getIllustrationUrls = async (paths: string[]): Promise<Record<string, string>> => {
+  const { data, error } = await supabase.storage.from(ILLUSTRATIONS_BUCKET).createSignedUrls(paths, 60 * 60);
+  if (error) throw error;
+  return Object.fromEntries(
+    data.filter((entry) => entry.path && entry.signedUrl).map((entry) => [entry.path, entry.signedUrl])
+  );
+};
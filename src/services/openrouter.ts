@@ -1,6 +1,23 @@
 
-import { getReadingLevelGuidelines } from "@/utils/readingLevelGuidelines";
 import { StoryFormData } from "@/components/StoryForm";
+import { RevisionAction, StoryResponse, StoryStreamEvent } from "@/types/story";
+
+export type StoryRequestData = StoryFormData & {
+  keywords: string[];
+  /** The sight word list the keywords came from; the server picks the words from it */
+  sightWordListId?: string;
+  /** Ask for a new version of a saved story instead of a new story */
+  revision?: { storyId: string; action: RevisionAction };
+  /** Write the next chapter of a series, or start one from a generated story */
+  series?: { seriesId?: string; fromStoryId?: string };
+};
+
+export interface StoryStreamHandlers {
+  onStart?: () => void;
+  onTitle?: (title: string) => void;
+  onDelta: (text: string) => void;
+  onStatus?: (message: string) => void;
+}
 
 const getInterestLevelGuidelines = (interestLevel: string) => {
   const guidelines = {
@@ -27,96 +44,138 @@ const getInterestLevelGuidelines = (interestLevel: string) => {
   return guidelines[interestLevel as keyof typeof guidelines];
 };
 
-export const generateStory = async (
-  storyData: StoryFormData & { keywords: string[] }
-) => {
-  // Validate required fields
+const validateStoryData = (storyData: StoryRequestData) => {
   const requiredFields = ['readingLevel', 'interestLevel', 'theme', 'length', 'language'];
   for (const field of requiredFields) {
     if (!storyData[field as keyof StoryFormData]) {
       throw new Error(`Missing required field: ${field}`);
     }
   }
-  console.log("=== Story Generation Started ===");
-  
-  // Use the Supabase edge function
-  console.log("=== Using Supabase Edge Function with OpenAI ===");
+};
+
+const buildRequestBody = (storyData: StoryRequestData) => ({
+  readingLevel: storyData.readingLevel,
+  interestLevel: storyData.interestLevel,
+  theme: storyData.theme,
+  themeLesson: storyData.themeLesson,
+  hasThemeLesson: storyData.hasThemeLesson,
+  length: storyData.length,
+  language: storyData.language,
+  secondaryLanguage: storyData.secondaryLanguage,
+  isRhymingVerse: storyData.isRhymingVerse,
+  useSightWords: storyData.useSightWords,
+  includeQuestions: storyData.includeQuestions,
+  includeIllustrations: storyData.includeIllustrations,
+  keywords: storyData.keywords,
+  sightWordListId: storyData.sightWordListId,
+  childProfileId: storyData.childProfileId,
+  revision: storyData.revision,
+  series: storyData.series
+});
+
+/**
+ * Generate a story and receive its text as the model writes it.
+ * `onDelta` is called with every new chunk; the resolved value is the final story.
+ * Aborting `signal` cancels the request server-side, and the daily counter is
+ * only incremented for streams that run to completion.
+ */
+export const streamStory = async (
+  storyData: StoryRequestData,
+  handlers: StoryStreamHandlers,
+  signal?: AbortSignal
+): Promise<StoryResponse> => {
+  validateStoryData(storyData);
+  console.log("=== Story Stream Started ===");
+
   const { supabase } = await import("@/integrations/supabase/client");
-  
-  // Check auth status before making the request
+
   const { data: { session }, error: sessionError } = await supabase.auth.getSession();
   if (sessionError || !session) {
     console.error("No valid session found:", sessionError);
     throw new Error('Authentication required. Please log in again.');
   }
-  
-  const { data, error } = await supabase.functions.invoke('generate-story', {
-    body: {
-      readingLevel: storyData.readingLevel,
-      interestLevel: storyData.interestLevel,
-      theme: storyData.theme,
-      themeLesson: storyData.themeLesson,
-      hasThemeLesson: storyData.hasThemeLesson,
-      length: storyData.length,
-      language: storyData.language,
-      isDrSeussStyle: storyData.isDrSeussStyle,
-      useSightWords: storyData.useSightWords,
-      keywords: storyData.keywords
-    }
+
+  // supabase.functions.invoke buffers the whole body, so the stream is read with fetch
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-story`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'apikey': import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ ...buildRequestBody(storyData), stream: true }),
+    signal
   });
 
-  console.log("Edge function response:", { data, error });
-  
-  // Log rate-limit headers if present in error context
-  if (error?.context?.headers) {
-    console.log("Rate-limit headers from Supabase:", {
-      limit: error.context.headers['x-ratelimit-limit-requests'],
-      remaining: error.context.headers['x-ratelimit-remaining-requests'],
-      reset: error.context.headers['x-ratelimit-reset-requests'],
-      retryAfter: error.context.headers['retry-after']
-    });
-  }
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error("Edge function stream error:", response.status, errorData);
 
-  if (error) {
-    console.error("Edge function error details:", error);
-    console.error("Error data:", error.data);
-    console.error("Error context:", error.context);
-    
-    // Handle authentication errors specifically
-    if (error.message?.includes('401') || error.message?.includes('Unauthorized')) {
+    if (response.status === 401) {
       throw new Error('Session expired. Please log in again.');
     }
-    
-    // Check for 429 status (rate limit) in various ways
-    const is429Error = error.message?.includes('429') || 
-                      error.context?.status === 429 ||
-                      error.status === 429;
-    
-    // Check for limit reached flag in error data
-    const hasLimitFlag = error.data?.limitReached === true ||
-                        error.context?.data?.limitReached === true;
-    
-    // Check for limit-related error messages
-    const hasLimitMessage = error.message?.includes('Daily story limit reached') || 
-                           error.data?.error?.includes('Daily story limit reached') ||
-                           error.context?.error?.includes('limitReached');
-    
-    console.log("Limit detection:", { is429Error, hasLimitFlag, hasLimitMessage });
-    
-    // Handle specific limit errors
-    if (is429Error || hasLimitFlag || hasLimitMessage) {
+
+    if (response.status === 429 || errorData?.limitReached === true) {
       console.log("Detected LIMIT_REACHED scenario");
       throw new Error('LIMIT_REACHED');
     }
-    
-    throw new Error(`Edge function failed: ${error.message || JSON.stringify(error)}`);
+
+    if (response.status === 403 && errorData?.premiumRequired === true) {
+      throw new Error('PREMIUM_REQUIRED');
+    }
+
+    if (errorData?.blocked === true) {
+      console.log("Detected STORY_BLOCKED scenario");
+      throw new Error('STORY_BLOCKED');
+    }
+
+    throw new Error(`Edge function failed: ${errorData?.error || response.statusText}`);
   }
 
-  if (!data || !data.title || !data.content) {
-    console.error("Invalid response from edge function:", data);
-    throw new Error(`Invalid response from story generation service: ${JSON.stringify(data)}`);
+  if (!response.body) {
+    throw new Error('Story stream is not supported by this browser');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      if (!line) continue;
+
+      const event = JSON.parse(line) as StoryStreamEvent;
+      switch (event.type) {
+        case 'start':
+          handlers.onStart?.();
+          break;
+        case 'title':
+          handlers.onTitle?.(event.title);
+          break;
+        case 'delta':
+          handlers.onDelta(event.text);
+          break;
+        case 'status':
+          handlers.onStatus?.(event.message);
+          break;
+        case 'error':
+          if (event.blocked) {
+            console.log("Detected STORY_BLOCKED scenario");
+            throw new Error('STORY_BLOCKED');
+          }
+          throw new Error(`Edge function failed: ${event.error}`);
+        case 'done':
+          console.log("=== Story Successfully Streamed via Edge Function ===");
+          return event.story;
+      }
+    }
   }
 
-  console.log("=== Story Successfully Generated via Edge Function ===");
-  return data;
+  throw new Error('Story stream ended before the story was finished');
 };
@@ -0,0 +1,119 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { PracticeResult, SightWord } from "@/types/sightWords";
+
+// Results are queued per account, so answers practiced on one account are
+// never sent by another that signs in on the same device
+const queueKey = (userId: string) => `practice-results-queue:${userId}`;
+// The queue from before results were kept per account
+const LEGACY_QUEUE_KEY = 'practice-results-queue';
+// Decks are kept per account too, so one account never practices another's words
+const deckKey = (userId: string) => `practice-deck:${userId}`;
+// The deck from before decks were kept per account, whose owner isn't known
+const LEGACY_DECK_KEY = 'practice-deck';
+
+// The words last practiced, kept so practice still works when the app is
+// opened offline and the word lists can't be fetched
+export interface PracticeDeck {
+  listId: string;
+  listName: string;
+  words: SightWord[];
+}
+
+const loadQueue = (key: string): PracticeResult[] => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || '[]');
+  } catch (error) {
+    console.error('Failed to load queued practice results:', error);
+    return [];
+  }
+};
+
+const storeQueue = (key: string, results: PracticeResult[]) => {
+  try {
+    if (results.length > 0) {
+      localStorage.setItem(key, JSON.stringify(results));
+    } else {
+      localStorage.removeItem(key);
+    }
+  } catch (error) {
+    console.error('Failed to store queued practice results:', error);
+  }
+};
+
+export const getQueuedPracticeResults = (userId: string): PracticeResult[] => loadQueue(queueKey(userId));
+
+export const queuePracticeResult = (userId: string, result: PracticeResult) => {
+  storeQueue(queueKey(userId), [...getQueuedPracticeResults(userId), result]);
+};
+
+// Send one queue and remove the results the server is done with; the rest
+// stay queued for the next sync. Resolves with the number removed.
+const sendQueue = async (key: string): Promise<number> => {
+  const pending = loadQueue(key);
+  if (pending.length === 0) return 0;
+
+  const { data, error } = await supabase.rpc('record_sight_word_practice', {
+    p_results: pending as unknown as Json,
+  });
+  if (error) throw error;
+
+  // Keep anything answered while the request was in flight
+  const doneIds = new Set(data ?? []);
+  storeQueue(key, loadQueue(key).filter((result) => !doneIds.has(result.id)));
+  return doneIds.size;
+};
+
+let activeSync: Promise<number> | null = null;
+
+/**
+ * Send the signed-in account's queued practice results to Supabase. Results
+ * stay queued while offline, signed out or when the request fails, and until
+ * the server has recorded them (it ignores results it already has), so this
+ * is safe to call at any time. Resolves with the number of results sent.
+ */
+export const syncPracticeResults = (): Promise<number> => {
+  if (activeSync) return activeSync;
+
+  activeSync = (async () => {
+    if (!navigator.onLine) return 0;
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return 0;
+
+    // Results in the old shared queue are sent with every account's; each
+    // one is removed once the account it was practiced on records it
+    const sent = await sendQueue(queueKey(session.user.id));
+    return sent + await sendQueue(LEGACY_QUEUE_KEY);
+  })().finally(() => {
+    activeSync = null;
+  });
+
+  return activeSync;
+};
+
+export const savePracticeDeck = (userId: string, deck: PracticeDeck) => {
+  try {
+    localStorage.setItem(deckKey(userId), JSON.stringify(deck));
+    localStorage.removeItem(LEGACY_DECK_KEY);
+  } catch (error) {
+    console.error('Failed to store practice deck:', error);
+  }
+};
+
+export const loadPracticeDeck = (userId: string): PracticeDeck | null => {
+  try {
+    const stored = localStorage.getItem(deckKey(userId));
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Failed to load practice deck:', error);
+    return null;
+  }
+};
+
+// Forget the account's deck when it signs out. Its queued results are kept,
+// to be sent the next time it signs in.
+export const clearPracticeDeck = (userId: string) => {
+  localStorage.removeItem(deckKey(userId));
+  localStorage.removeItem(LEGACY_DECK_KEY);
+};
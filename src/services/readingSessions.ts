@@ -0,0 +1,95 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ReadingSession } from "@/types/fluency";
+
+const RECORDINGS_BUCKET = "reading-recordings";
+const DB_NAME = "reading-recordings";
+const STORE_NAME = "recordings";
+
+export interface ScoreReadingParams {
+  audio: Blob;
+  durationMs: number;
+  storyText: string;
+  storyTitle: string;
+  language?: string;
+  /** History id of the story, when it has one */
+  storyId?: string;
+  childProfileId?: string | null;
+  /** Keep the recording in the parent's account as well as on this device */
+  keepAudio: boolean;
+}
+
+/**
+ * Send a recording to score-reading to be transcribed and scored. The audio
+ * is only stored on the server when `keepAudio` is set. Throws
+ * READING_LIMIT_REACHED when the account has used today's reading checks.
+ */
+export const scoreReading = async (params: ScoreReadingParams): Promise<ReadingSession> => {
+  const body = new FormData();
+  body.append("audio", params.audio, `reading.${params.audio.type.includes("mp4") ? "m4a" : "webm"}`);
+  body.append("durationMs", String(Math.round(params.durationMs)));
+  body.append("storyText", params.storyText);
+  body.append("storyTitle", params.storyTitle);
+  body.append("language", params.language ?? "english");
+  body.append("keepAudio", String(params.keepAudio));
+  if (params.storyId) body.append("storyId", params.storyId);
+  if (params.childProfileId) body.append("childProfileId", params.childProfileId);
+
+  const { data, error } = await supabase.functions.invoke("score-reading", { body });
+  if (error) {
+    const response: Response | undefined = error.context;
+    const details = await response?.json?.().catch(() => null);
+    if (response?.status === 429 && details?.code === "READING_LIMIT_REACHED") {
+      throw new Error("READING_LIMIT_REACHED");
+    }
+    throw error;
+  }
+  return data.session as ReadingSession;
+};
+
+// A short-lived link to a recording kept in the parent's account
+export const getRecordingUrl = async (path: string): Promise<string> => {
+  const { data, error } = await supabase.storage.from(RECORDINGS_BUCKET).createSignedUrl(path, 60 * 60);
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+export const deleteStoredRecording = async (path: string) => {
+  const { error } = await supabase.storage.from(RECORDINGS_BUCKET).remove([path]);
+  if (error) throw error;
+};
+
+// Recordings kept on this device only, in IndexedDB keyed by session id
+
+const openRecordingsDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openRecordingsDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveLocalRecording = async (sessionId: string, audio: Blob) => {
+  await withStore("readwrite", (store) => store.put(audio, sessionId));
+};
+
+export const getLocalRecording = async (sessionId: string): Promise<Blob | null> => {
+  const audio = await withStore<Blob | undefined>("readonly", (store) => store.get(sessionId));
+  return audio ?? null;
+};
+
+export const deleteLocalRecording = async (sessionId: string) => {
+  await withStore("readwrite", (store) => store.delete(sessionId));
+};
@@ -0,0 +1,35 @@
+import { supabase } from "@/integrations/supabase/client";
+import { SightWord } from "@/types/sightWords";
+import { ImportedWord } from "@/utils/sightWordImport";
+
+export interface AddSightWordsResult {
+  added: SightWord[];
+  duplicates: string[];
+  // Some words were left out because the free word limit was reached
+  limitReached: boolean;
+}
+
+/**
+ * Add words to a list through the add-sight-words function, the only way
+ * words can be added. Throws WORD_LIMIT_REACHED when a free account is
+ * already at its limit, so the caller can offer the upgrade.
+ */
+export const addSightWords = async (
+  listId: string,
+  words: Array<string | ImportedWord>
+): Promise<AddSightWordsResult> => {
+  const { data, error } = await supabase.functions.invoke('add-sight-words', {
+    body: { listId, words },
+  });
+
+  if (error) {
+    const response: Response | undefined = error.context;
+    const details = await response?.json?.().catch(() => null);
+    if (response?.status === 403 && details?.code === 'WORD_LIMIT_REACHED') {
+      throw new Error('WORD_LIMIT_REACHED');
+    }
+    throw error;
+  }
+
+  return data as AddSightWordsResult;
+};
@@ -0,0 +1,38 @@
+import { supabase } from "@/integrations/supabase/client";
+import { lookupChildDictionary } from "@/utils/childDictionary";
+
+export interface WordDefinition {
+  /** The form that was defined ("run" for "running") */
+  headword: string;
+  definition: string;
+  example: string | null;
+  source: "dictionary" | "ai";
+}
+
+export interface DefineWordParams {
+  word: string;
+  /** The sentence the word appears in, to pick the right meaning */
+  sentence?: string;
+  language?: string;
+  readingLevel?: string;
+}
+
+/**
+ * Define a word for a young reader: from the offline dictionary for common
+ * English words, otherwise through the define-word function.
+ */
+export const defineWord = async ({ word, sentence, language = "english", readingLevel }: DefineWordParams): Promise<WordDefinition> => {
+  if (language === "english") {
+    const entry = lookupChildDictionary(word);
+    if (entry) {
+      return { ...entry, example: null, source: "dictionary" };
+    }
+  }
+
+  const { data, error } = await supabase.functions.invoke("define-word", {
+    body: { word, sentence, language, readingLevel },
+  });
+
+  if (error) throw error;
+  return { headword: data.word, definition: data.definition, example: data.example, source: "ai" };
+};
@@ -0,0 +1,21 @@
+// Profile details a parent can opt in to using in stories
+export type SharedProfileField = 'name' | 'pronouns' | 'age' | 'interests' | 'favorite_animal';
+
+export interface ChildProfile {
+  id: string;
+  user_id: string;
+  name: string;
+  pronouns: string | null;
+  age: number | null;
+  interests: string[];
+  favorite_animal: string | null;
+  reading_level: string | null;
+  shared_fields: SharedProfileField[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type ChildProfileInput = Pick<
+  ChildProfile,
+  'name' | 'pronouns' | 'age' | 'interests' | 'favorite_animal' | 'reading_level' | 'shared_fields'
+>;
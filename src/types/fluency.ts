@@ -0,0 +1,37 @@
+export type MiscueType = 'substitution' | 'omission' | 'insertion';
+
+export interface Miscue {
+  type: MiscueType;
+  /**
+   * Index of the story word, counting words across the whole story. Chinese,
+   * Japanese and Korean readings are scored by character, so it counts
+   * characters for them.
+   */
+  position: number;
+  /** The story word (not set for insertions) */
+  expected?: string;
+  /** What the reader said (not set for omissions) */
+  spoken?: string;
+}
+
+// A recording of a reader reading a story aloud, scored by score-reading
+export interface ReadingSession {
+  id: string;
+  user_id: string;
+  child_profile_id: string | null;
+  story_id: string | null;
+  story_title: string;
+  language: string;
+  duration_ms: number;
+  words_attempted: number;
+  words_correct: number;
+  /** Words (or characters, see Miscue) correct per minute */
+  wcpm: number;
+  /** Share of attempted words read correctly, 0 to 1 */
+  accuracy: number;
+  miscues: Miscue[];
+  transcript: string;
+  /** Set when the recording was kept in the parent's account */
+  audio_path: string | null;
+  created_at: string;
+}
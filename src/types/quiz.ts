@@ -0,0 +1,27 @@
+import { QuestionKind } from "@/types/story";
+
+export interface QuizAnswer {
+  kind: QuestionKind;
+  question: string;
+  chosenIndex: number;
+  correct: boolean;
+}
+
+/** A finished comprehension quiz (quiz_results) */
+export interface QuizResult {
+  id: string;
+  user_id: string;
+  child_profile_id: string | null;
+  story_id: string | null;
+  favorite_story_id: string | null;
+  story_title: string;
+  score: number;
+  total: number;
+  answers: QuizAnswer[];
+  created_at: string;
+}
+
+export type QuizResultInput = Pick<
+  QuizResult,
+  "child_profile_id" | "story_id" | "favorite_story_id" | "story_title" | "score" | "total" | "answers"
+>;
@@ -1,10 +1,40 @@
+export type MasteryState = 'new' | 'practicing' | 'mastered';
 
 export interface SightWord {
+  id: string;
+  list_id: string;
   word: string;
   active: boolean;
+  mastery: MasteryState;
+  times_seen: number;
+  times_practiced: number;
+  times_correct: number;
+  // Correct practice answers in a row
+  practice_streak: number;
+  last_seen_at: string | null;
+  last_practiced_at: string | null;
+  created_at: string;
 }
 
-export interface SightWordManagerProps {
-  words: SightWord[];
-  setWords: (words: SightWord[]) => void;
+export interface SightWordList {
+  id: string;
+  user_id: string;
+  child_profile_id: string | null;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SightWordChanges = Partial<Pick<SightWord, 'active' | 'mastery'>>;
+
+export type PracticeGame = 'flashcards' | 'find-the-word' | 'matching';
+
+// One answer in a practice game, queued on the device until it is synced
+export interface PracticeResult {
+  id: string;
+  entry_id: string;
+  game: PracticeGame;
+  correct: boolean;
+  response_ms: number | null;
+  practiced_at: string;
 }
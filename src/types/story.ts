@@ -0,0 +1,191 @@
+export interface StoryCharacter {
+  name: string;
+  description: string;
+}
+
+export interface ReadabilityReport {
+  /** What lengths are measured in; missing from reports saved before languages had their own units */
+  unit?: "words" | "characters";
+  wordCount: number;
+  characterCount?: number;
+  sentenceCount: number;
+  /** In `unit` */
+  averageSentenceLength: number;
+  averageSyllablesPerWord: number;
+  /** English stories only */
+  fleschKincaidGrade: number | null;
+  fleschReadingEase: number | null;
+  daleChallScore: number | null;
+  /** In `unit` */
+  targetWordRange: [number, number];
+  targetSentenceLength: [number, number];
+  /** Whether the story landed inside the band for its reading level */
+  withinBand: boolean;
+  adjustment: "none" | "trimmed" | "regenerated";
+}
+
+export interface SightWordOccurrence {
+  word: string;
+  count: number;
+  /** Spellings found in the story ("running", "Runs") */
+  forms: string[];
+}
+
+export interface SightWordCoverage {
+  /** Share of sight words that appear at least once, 0-1 */
+  coverage: number;
+  occurrences: SightWordOccurrence[];
+  missing: string[];
+}
+
+export type QuestionKind = "literal" | "inferential" | "vocabulary";
+
+/** A multiple-choice question about a story; `answerIndex` is the answer key */
+export interface ComprehensionQuestion {
+  kind: QuestionKind;
+  question: string;
+  choices: string[];
+  answerIndex: number;
+}
+
+/** One page of a picture book: paragraphs [start, end) and the picture for them */
+export interface IllustratedPage {
+  start: number;
+  end: number;
+  prompt: string;
+  /** Path in the story-illustrations bucket; null when the picture couldn't be drawn */
+  imagePath: string | null;
+}
+
+export interface StoryIllustrations {
+  /** The art style shared by every page */
+  style: string;
+  pages: IllustratedPage[];
+}
+
+/** A sentence of the story and its translation */
+export interface SentencePair {
+  primary: string;
+  secondary: string;
+}
+
+/** A story's text as aligned sentence pairs, one list per paragraph */
+export interface BilingualText {
+  secondaryLanguage: string;
+  /** The title in the secondary language */
+  title: string;
+  paragraphs: SentencePair[][];
+}
+
+export interface StoryResponse {
+  title: string;
+  /** Paragraphs joined with "\n" */
+  content: string;
+  paragraphs: string[];
+  characters: StoryCharacter[];
+  /** One-sentence summary of the story */
+  summary: string;
+  readability: ReadabilityReport;
+  /** Present when the story was asked to use sight words */
+  sightWords?: SightWordCoverage;
+  /** Present when a quiz was asked for and could be written */
+  questions?: ComprehensionQuestion[];
+  /** Present when pictures were asked for and at least one could be drawn */
+  illustrations?: StoryIllustrations;
+  /** Why pictures that were asked for were left out */
+  illustrationsUnavailable?: "premium" | "quota" | "error";
+  /** Present when a translation was asked for and lined up with the story */
+  bilingual?: BilingualText;
+  /** History (generated_stories) id; absent if the story could not be saved */
+  id?: string;
+  /** Set together with `id` */
+  version?: StoryVersion;
+  /** Present when the story is a chapter of a series */
+  series?: {
+    id: string;
+    title: string;
+    chapterNumber: number;
+  };
+}
+
+export type RevisionAction = "regenerate" | "shorter" | "simpler" | "more-dialogue" | "new-ending";
+
+export interface StoryVersion {
+  /** History id of the first version; the story's own id for an original story */
+  rootStoryId: string;
+  number: number;
+  /** How this version was made from the previous one; null for the original */
+  action: RevisionAction | null;
+}
+
+/** A row of the user's story history (generated_stories) */
+export interface GeneratedStory {
+  id: string;
+  user_id: string;
+  title: string;
+  content: string;
+  paragraphs: string[];
+  characters: StoryCharacter[];
+  summary: string | null;
+  reading_level: string;
+  interest_level: string;
+  theme: string;
+  language: string;
+  length: string;
+  /** The StoryRequest the edge function received */
+  request_params: Record<string, unknown>;
+  provider: string;
+  model: string;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  total_tokens: number | null;
+  readability: ReadabilityReport | null;
+  sight_words: SightWordCoverage | null;
+  questions: ComprehensionQuestion[] | null;
+  illustrations: StoryIllustrations | null;
+  bilingual: BilingualText | null;
+  root_story_id: string | null;
+  version: number;
+  revision_action: RevisionAction | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type StoryStreamEvent =
+  | { type: "start" }
+  | { type: "title"; title: string }
+  | { type: "delta"; text: string }
+  | { type: "status"; message: string }
+  | { type: "done"; story: StoryResponse }
+  /** `blocked` is set when the story failed the content-safety check */
+  | { type: "error"; error: string; blocked?: boolean };
+
+export interface SeriesChapter {
+  id: string;
+  title: string;
+  content: string;
+  language: string;
+  sight_words: SightWordCoverage | null;
+  questions: ComprehensionQuestion[] | null;
+  illustrations: StoryIllustrations | null;
+  bilingual: BilingualText | null;
+  /** Book page the reader last turned to */
+  last_page: number;
+  chapter_number: number;
+  created_at: string;
+}
+
+/** A multi-chapter series (story_series) with its chapters in order */
+export interface StorySeries {
+  id: string;
+  title: string;
+  setting: string;
+  characters: StoryCharacter[];
+  running_summary: string;
+  /** The StoryRequest every chapter is written with */
+  request_params: Record<string, unknown>;
+  chapter_count: number;
+  created_at: string;
+  updated_at: string;
+  chapters: SeriesChapter[];
+}
@@ -0,0 +1,86 @@
+// A piece of a story paragraph; long paragraphs carry over onto the next page
+export interface BookPagePart {
+  paragraphIndex: number;
+  text: string;
+}
+
+export interface StoryBookLayout {
+  parts: BookPagePart[];
+  /** Each page is parts [start, end) */
+  pages: { start: number; end: number }[];
+}
+
+// Sentences on a page: a couple of short ones for kindergarten, a full page by grade 5
+const SENTENCES_PER_PAGE: Record<string, number> = {
+  k: 2,
+  "1": 3,
+  "2": 4,
+  "3": 5,
+  "4": 6,
+  "5": 8,
+  teen: 10,
+};
+
+// Where one sentence ends and the next begins: closing punctuation (and
+// quotes) then a word that isn't lowercase, so "Hi!" said Pip stays together,
+// or straight after a CJK full stop. Kept in step with SENTENCE_BREAK in
+// supabase/functions/generate-story/bilingual.ts so translated sentences pair
+// up with the sentences on the page.
+const SENTENCE_BREAK = /(?<=[.!?…।؟]["'”’»)]*)\s+(?=[^\p{Ll}])|(?<=[。！？])(?=.)/gu;
+
+export const splitSentences = (paragraph: string): string[] => {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const match of paragraph.matchAll(SENTENCE_BREAK)) {
+    const end = match.index + match[0].length;
+    sentences.push(paragraph.slice(start, end));
+    start = end;
+  }
+  if (start < paragraph.length) sentences.push(paragraph.slice(start));
+  return sentences;
+};
+
+/**
+ * Lay a story out as book pages sized for the reading level. A paragraph that
+ * won't fit on the rest of a page starts the next one when it fits there
+ * whole, and a paragraph with a picture always starts a new page so the
+ * picture sits above its text.
+ */
+export const paginateBook = (
+  paragraphs: string[],
+  readingLevel?: string,
+  pictureStarts: Set<number> = new Set()
+): StoryBookLayout => {
+  const perPage = SENTENCES_PER_PAGE[readingLevel ?? ""] ?? SENTENCES_PER_PAGE["3"];
+  const parts: BookPagePart[] = [];
+  const pages: StoryBookLayout["pages"] = [];
+  let pageStart = 0;
+  let sentencesOnPage = 0;
+
+  const turnPage = () => {
+    if (parts.length === pageStart) return;
+    pages.push({ start: pageStart, end: parts.length });
+    pageStart = parts.length;
+    sentencesOnPage = 0;
+  };
+
+  paragraphs.forEach((paragraph, paragraphIndex) => {
+    if (!paragraph.trim()) return;
+    let sentences = splitSentences(paragraph);
+
+    if (pictureStarts.has(paragraphIndex) || (sentencesOnPage + sentences.length > perPage && sentences.length <= perPage)) {
+      turnPage();
+    }
+
+    while (sentences.length > 0) {
+      if (sentencesOnPage >= perPage) turnPage();
+      const onThisPage = sentences.slice(0, perPage - sentencesOnPage);
+      sentences = sentences.slice(onThisPage.length);
+      parts.push({ paragraphIndex, text: onThisPage.join("").trim() });
+      sentencesOnPage += onThisPage.length;
+    }
+  });
+  turnPage();
+
+  return { parts, pages };
+};
@@ -0,0 +1,253 @@
+// A small offline dictionary of words that come up often in stories for
+// kindergarten to third grade, with definitions written for young readers.
+// Words that aren't here are defined by the define-word edge function.
+
+const DEFINITIONS: Record<string, string> = {
+  adventure: "An exciting trip or event where something new happens.",
+  afraid: "Feeling scared.",
+  alone: "With nobody else around.",
+  amazing: "So good or surprising that it makes you say \"wow!\"",
+  angry: "Feeling very upset, like you want to stomp your feet.",
+  animal: "A living thing that can move around, like a dog, a bird or a fish.",
+  answer: "What you say or write back when someone asks a question.",
+  apple: "A round fruit that is red, green or yellow and crunchy to bite.",
+  asleep: "Sleeping.",
+  awake: "Not sleeping.",
+  baby: "A very young child or animal.",
+  backpack: "A bag you carry on your back.",
+  bake: "To cook food like bread or cake in an oven.",
+  balloon: "A thin rubber bag you fill with air so it floats or bounces.",
+  basket: "A container made of woven straw or sticks for carrying things.",
+  beach: "Sandy land next to the ocean or a lake.",
+  beautiful: "Very pretty or lovely to look at or hear.",
+  bedtime: "The time when you go to bed.",
+  believe: "To think that something is true.",
+  berry: "A small, juicy fruit, like a strawberry or blueberry.",
+  blanket: "A big, soft cover that keeps you warm.",
+  borrow: "To take something for a while and then give it back.",
+  brave: "Ready to do something even when it feels scary.",
+  breakfast: "The first meal of the day.",
+  breeze: "A soft, gentle wind.",
+  bridge: "Something built over water or a road so you can cross it.",
+  bright: "Full of light, or very shiny.",
+  bubble: "A round ball of air inside a thin skin of soap or water.",
+  bucket: "A round container with a handle for carrying water or sand.",
+  build: "To make something by putting parts together.",
+  bunny: "A rabbit, especially a young one.",
+  busy: "Having lots of things to do.",
+  butterfly: "An insect with large, colorful wings.",
+  castle: "A big, strong building with tall towers, where kings and queens lived long ago.",
+  cave: "A big hole in the side of a hill or under the ground.",
+  celebrate: "To do something fun because of a special day or event.",
+  chase: "To run after someone or something to try to catch them.",
+  cheer: "To shout happily to show you like something.",
+  chilly: "A little bit cold.",
+  climb: "To go up something using your hands and feet.",
+  cloud: "A white or gray shape floating in the sky, made of tiny drops of water.",
+  clever: "Quick at learning and good at thinking of ideas.",
+  cozy: "Warm, soft and comfortable.",
+  crawl: "To move on your hands and knees.",
+  creature: "Any living animal, real or make-believe.",
+  crowd: "A lot of people in one place.",
+  curious: "Wanting to know or learn about something.",
+  dark: "With little or no light.",
+  decide: "To make up your mind and choose.",
+  delicious: "Tasting very good.",
+  different: "Not the same.",
+  dinosaur: "A kind of animal that lived a very long time ago. Some were huge!",
+  discover: "To find or learn something for the first time.",
+  dragon: "A make-believe monster with wings that can breathe fire.",
+  dream: "Pictures and stories in your mind while you sleep, or something you really hope for.",
+  drift: "To move slowly, carried by water or air.",
+  eager: "Really wanting to do something.",
+  early: "Before the usual time.",
+  earth: "The planet we live on, or the ground and dirt.",
+  empty: "With nothing inside.",
+  enormous: "Very, very big.",
+  escape: "To get away from something.",
+  excited: "Feeling very happy and full of energy about something.",
+  explore: "To look around a place to find out what is there.",
+  fair: "Treating everyone the same way.",
+  family: "The people you live with or are related to, like parents, brothers and sisters.",
+  favorite: "The one you like best.",
+  feather: "One of the soft, light parts that cover a bird.",
+  field: "A big, open area of land with grass or crops.",
+  flashlight: "A small light you carry that runs on batteries.",
+  float: "To stay on top of water or drift in the air.",
+  flower: "The colorful part of a plant that blooms.",
+  forest: "A large place with lots of trees growing close together.",
+  forget: "To not remember.",
+  fox: "A wild animal like a small dog with red fur and a bushy tail.",
+  friend: "Someone you like and who likes you back.",
+  frighten: "To make someone scared.",
+  frog: "A small green animal with long back legs that hops and lives near water.",
+  garden: "A place where people grow flowers, fruit or vegetables.",
+  gentle: "Soft and kind, not rough.",
+  giant: "Very big, or a make-believe person who is huge.",
+  giggle: "To laugh in a silly, happy way.",
+  glow: "To give off a soft, warm light.",
+  grateful: "Thankful for something.",
+  gather: "To bring things or people together in one place.",
+  grumpy: "In a bad mood.",
+  guess: "To give an answer when you are not sure.",
+  happy: "Feeling glad and good.",
+  heavy: "Hard to lift because it weighs a lot.",
+  helpful: "Doing things to help others.",
+  hide: "To go where no one can see you, or to put something where no one can find it.",
+  hill: "Land that is higher than the land around it, but smaller than a mountain.",
+  hollow: "Empty inside.",
+  honest: "Telling the truth.",
+  hop: "To jump on one foot, or to jump like a bunny.",
+  hug: "To put your arms around someone to show you care.",
+  hungry: "Wanting to eat.",
+  hurry: "To move or do something fast.",
+  idea: "A thought or plan in your mind.",
+  imagine: "To make a picture of something in your mind.",
+  insect: "A tiny animal with six legs, like an ant or a bee.",
+  island: "Land with water all around it.",
+  journey: "A long trip from one place to another.",
+  jungle: "A hot, wet forest full of plants and animals.",
+  kind: "Nice and caring to others.",
+  kingdom: "A land ruled by a king or queen.",
+  kitten: "A baby cat.",
+  ladder: "Steps you can carry and lean on something to climb up.",
+  lake: "A big area of water with land all around it.",
+  lantern: "A lamp with a handle that you can carry.",
+  laugh: "To make happy sounds when something is funny.",
+  leaf: "One of the flat green parts that grow on a plant or tree.",
+  learn: "To find out about something or how to do it.",
+  lonely: "Sad because you are by yourself.",
+  loud: "Making a lot of noise.",
+  lucky: "Having good things happen by chance.",
+  magic: "A make-believe power that makes impossible things happen.",
+  map: "A drawing that shows where places are.",
+  meadow: "A field of grass and wildflowers.",
+  message: "Words you send to someone.",
+  midnight: "Twelve o'clock at night, the middle of the night.",
+  mistake: "Something done the wrong way by accident.",
+  moon: "The big, round light you see in the sky at night.",
+  mountain: "A very big, tall hill.",
+  mystery: "Something strange that no one can explain yet.",
+  narrow: "Not wide.",
+  neighbor: "Someone who lives near you.",
+  nervous: "A little worried or scared about something that might happen.",
+  nest: "A home that birds build from twigs and grass.",
+  noise: "A sound, often a loud one.",
+  ocean: "A huge area of salty water.",
+  owl: "A bird with big eyes that is awake at night.",
+  paint: "A colored liquid you brush on to make pictures or color things.",
+  path: "A narrow way to walk along.",
+  patient: "Able to wait calmly.",
+  peaceful: "Quiet and calm.",
+  pebble: "A small, smooth stone.",
+  picnic: "A meal you eat outside.",
+  pirate: "A person who sails the seas looking for treasure to take.",
+  planet: "A huge round world in space, like Earth or Mars.",
+  polite: "Using good manners, like saying please and thank you.",
+  pond: "A small area of water, smaller than a lake.",
+  promise: "To say you will really do something.",
+  proud: "Happy about something good you or someone else did.",
+  puddle: "A small pool of water on the ground, often after rain.",
+  puppy: "A baby dog.",
+  puzzle: "A game or problem you have to figure out.",
+  quiet: "Making little or no noise.",
+  rabbit: "A small animal with long ears and soft fur that hops.",
+  race: "A contest to see who is fastest.",
+  rainbow: "A curve of colors in the sky after it rains.",
+  remember: "To keep something in your mind, or to think of it again.",
+  rescue: "To save someone from danger.",
+  river: "A long stream of water that flows to a lake or ocean.",
+  roar: "A loud, deep sound, like a lion makes.",
+  rocket: "A vehicle that flies very fast up into space.",
+  rough: "Bumpy, not smooth.",
+  sad: "Feeling unhappy.",
+  safe: "Not in danger.",
+  sail: "To travel on water in a boat.",
+  scared: "Feeling afraid.",
+  search: "To look carefully for something.",
+  secret: "Something that only a few people know.",
+  share: "To let others use or have some of what you have.",
+  shell: "A hard outer covering, like the one a snail or turtle has.",
+  shiny: "Bright and sparkling.",
+  shout: "To say something very loudly.",
+  shy: "Feeling a little nervous around other people.",
+  silly: "Funny and not serious.",
+  sleepy: "Ready to go to sleep.",
+  slippery: "Smooth or wet and easy to slide on.",
+  smile: "To turn up the corners of your mouth when you are happy.",
+  snack: "A little bit of food between meals.",
+  sparkle: "To shine with little flashes of light.",
+  special: "Different from others in a good way.",
+  splash: "To make water fly up in drops.",
+  squirrel: "A small animal with a bushy tail that climbs trees and eats nuts.",
+  stars: "Tiny lights you see in the night sky.",
+  storm: "Bad weather with strong wind, rain and sometimes thunder.",
+  strange: "Unusual or different from what you expect.",
+  strong: "Able to lift heavy things or hard to break.",
+  surprise: "Something you did not expect.",
+  swim: "To move through water using your arms and legs.",
+  tall: "Higher than most.",
+  teacher: "A person who helps others learn.",
+  thunder: "The loud rumbling sound you hear in a storm.",
+  tiny: "Very, very small.",
+  together: "With each other.",
+  travel: "To go from one place to another, often far away.",
+  treasure: "Gold, jewels or other special things that are worth a lot.",
+  tree: "A tall plant with a trunk, branches and leaves.",
+  tremble: "To shake a little, often from being cold or scared.",
+  trouble: "A problem or something difficult.",
+  turtle: "An animal with a hard shell on its back that moves slowly.",
+  village: "A small town.",
+  visit: "To go and see a person or place.",
+  wander: "To walk around without going anywhere special.",
+  warm: "A little bit hot, in a nice way.",
+  whisper: "To talk very softly.",
+  wiggle: "To move back and forth with small, quick moves.",
+  wild: "Living or growing in nature, not with people.",
+  wings: "The parts of a bird, bug or plane that help it fly.",
+  wish: "To hope for something.",
+  wonder: "To think about something and want to know more.",
+  worry: "To feel upset because you think something bad might happen.",
+};
+
+export interface DictionaryEntry {
+  /** The dictionary form of the word ("run" for "running") */
+  headword: string;
+  definition: string;
+}
+
+// Dictionary forms a word could come from: "hopped" -> hop, "tries" -> try
+const baseForms = (word: string): string[] => {
+  const forms = [word];
+  const endings: Array<[RegExp, string[]]> = [
+    [/ies$/, ["y"]],
+    [/ied$/, ["y"]],
+    [/es$/, ["", "e"]],
+    [/s$/, [""]],
+    [/ed$/, ["", "e"]],
+    [/ing$/, ["", "e"]],
+    [/ier$/, ["y"]],
+    [/iest$/, ["y"]],
+    [/er$/, ["", "e"]],
+    [/est$/, ["", "e"]],
+    [/ly$/, [""]],
+  ];
+  for (const [ending, replacements] of endings) {
+    if (!ending.test(word)) continue;
+    const stem = word.replace(ending, "");
+    for (const replacement of replacements) {
+      forms.push(stem + replacement);
+    }
+    // Doubled final consonant (hopped, running)
+    if (/([^aeiou])\1$/.test(stem)) {
+      forms.push(stem.slice(0, -1));
+    }
+  }
+  return forms;
+};
+
+export const lookupChildDictionary = (word: string): DictionaryEntry | null => {
+  const normalized = word.toLowerCase().replace(/[’']s$/, "");
+  const headword = baseForms(normalized).find((form) => Object.prototype.hasOwnProperty.call(DEFINITIONS, form));
+  return headword ? { headword, definition: DEFINITIONS[headword] } : null;
+};
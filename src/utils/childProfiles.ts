@@ -0,0 +1,22 @@
+import { SharedProfileField } from "@/types/childProfile";
+
+export const SHARED_FIELD_LABELS: Record<SharedProfileField, string> = {
+  name: "Name",
+  pronouns: "Pronouns",
+  age: "Age",
+  interests: "Interests",
+  favorite_animal: "Favorite animal",
+};
+
+// Matches the age bands shown in InterestLevelSelector
+export const interestLevelForAge = (age: number): string => {
+  if (age >= 13) return "young-adult";
+  if (age >= 9) return "middle-grade";
+  return "elementary";
+};
+
+export const parseInterests = (value: string): string[] =>
+  value
+    .split(",")
+    .map((interest) => interest.trim())
+    .filter(Boolean);
@@ -0,0 +1,38 @@
+// Languages stories can be written in, by the value sent to generate-story
+export const STORY_LANGUAGES = [
+  { value: "english", label: "English" },
+  { value: "spanish", label: "Spanish (Español)" },
+  { value: "french", label: "French (Français)" },
+  { value: "german", label: "German (Deutsch)" },
+  { value: "italian", label: "Italian (Italiano)" },
+  { value: "portuguese", label: "Portuguese (Português)" },
+  { value: "dutch", label: "Dutch (Nederlands)" },
+  { value: "russian", label: "Russian (Русский)" },
+  { value: "chinese", label: "Chinese (中文)" },
+  { value: "japanese", label: "Japanese (日本語)" },
+  { value: "korean", label: "Korean (한국어)" },
+  { value: "arabic", label: "Arabic (العربية)" },
+  { value: "hindi", label: "Hindi (हिंदी)" },
+  { value: "polish", label: "Polish (Polski)" },
+  { value: "swedish", label: "Swedish (Svenska)" },
+];
+
+export const getLanguageLabel = (language: string): string =>
+  STORY_LANGUAGES.find((option) => option.value === language)?.label ?? language;
+
+// Kept in step with the language profiles in supabase/functions/generate-story.
+// Chinese, Japanese and Korean stories are leveled by characters, not words.
+const CHARACTER_COUNTED_LANGUAGES = new Set(["chinese", "japanese", "korean"]);
+
+// Rhyme isn't how Japanese and Korean children's verse works
+const LANGUAGES_WITHOUT_RHYMING_VERSE = new Set(["japanese", "korean"]);
+
+export type LengthUnit = "words" | "characters";
+
+export const getLengthUnit = (language?: string): LengthUnit =>
+  CHARACTER_COUNTED_LANGUAGES.has(language ?? "") ? "characters" : "words";
+
+export const hasRhymingVerse = (language: string): boolean =>
+  STORY_LANGUAGES.some((option) => option.value === language) && !LANGUAGES_WITHOUT_RHYMING_VERSE.has(language);
+
+export const isRightToLeft = (language?: string): boolean => language === "arabic";
@@ -0,0 +1,74 @@
+import { PracticeGame, PracticeResult, SightWord } from "@/types/sightWords";
+import { tokenizeParagraph } from "@/utils/storyText";
+
+export const ROUND_SIZE = 10;
+export const MATCHING_ROUND_SIZE = 5;
+// Time a reader gets to say each flashcard word
+export const FLASHCARD_SECONDS = 5;
+
+export const PRACTICE_GAMES: Record<PracticeGame, { title: string; description: string }> = {
+  flashcards: {
+    title: "Flashcards",
+    description: `Read each word aloud within ${FLASHCARD_SECONDS} seconds.`,
+  },
+  "find-the-word": {
+    title: "Find the Word",
+    description: "Tap the word in the current story.",
+  },
+  matching: {
+    title: "Matching",
+    description: "Match each word to the same word in capitals.",
+  },
+};
+
+const MASTERY_RANK = { new: 0, practicing: 1, mastered: 2 };
+
+export const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+/**
+ * Choose the words for a round: words still being learned first, least
+ * practiced first, in random order within each group so rounds vary.
+ */
+export const pickPracticeWords = (words: SightWord[], count: number): SightWord[] =>
+  shuffle(words)
+    .sort((a, b) =>
+      MASTERY_RANK[a.mastery] - MASTERY_RANK[b.mastery]
+      || a.times_practiced - b.times_practiced
+    )
+    .slice(0, count);
+
+export const createPracticeResult = (
+  word: SightWord,
+  game: PracticeGame,
+  correct: boolean,
+  responseMs: number | null = null
+): PracticeResult => ({
+  id: crypto.randomUUID(),
+  entry_id: word.id,
+  game,
+  correct,
+  response_ms: responseMs === null ? null : Math.round(responseMs),
+  practiced_at: new Date().toISOString(),
+});
+
+/**
+ * The words that can be searched for in a story: single words from the deck
+ * that appear in it, matched whatever their case.
+ */
+export const findStoryTargets = (paragraphs: string[], words: SightWord[]): SightWord[] => {
+  const storyWords = new Set(
+    paragraphs.flatMap((paragraph) =>
+      tokenizeParagraph(paragraph)
+        .filter((token) => token.isWord)
+        .map((token) => token.text.toLowerCase())
+    )
+  );
+  return words.filter((word) => storyWords.has(word.word.toLowerCase()));
+};
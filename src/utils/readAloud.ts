@@ -0,0 +1,104 @@
+import { TextSegment } from "@/utils/sightWordHighlighting";
+
+// Speech synthesis language for each story language offered in the story form
+export const SPEECH_LANGUAGE_TAGS: Record<string, string> = {
+  english: "en-US",
+  spanish: "es-ES",
+  french: "fr-FR",
+  german: "de-DE",
+  italian: "it-IT",
+  portuguese: "pt-BR",
+  dutch: "nl-NL",
+  russian: "ru-RU",
+  chinese: "zh-CN",
+  japanese: "ja-JP",
+  korean: "ko-KR",
+  arabic: "ar-SA",
+  hindi: "hi-IN",
+  polish: "pl-PL",
+  swedish: "sv-SE",
+};
+
+export const speechLanguageTag = (language?: string): string =>
+  SPEECH_LANGUAGE_TAGS[language ?? "english"] ?? SPEECH_LANGUAGE_TAGS.english;
+
+export const isSpeechSupported = (): boolean =>
+  typeof window !== "undefined" && "speechSynthesis" in window && "SpeechSynthesisUtterance" in window;
+
+/**
+ * The installed voices that can read a language, best match first: voices
+ * for the exact region, then the browser's default, then local voices, which
+ * fire word boundary events more reliably than network ones.
+ */
+export const voicesForLanguage = (voices: SpeechSynthesisVoice[], language?: string): SpeechSynthesisVoice[] => {
+  const tag = speechLanguageTag(language).toLowerCase();
+  const primary = tag.split("-")[0];
+  const score = (voice: SpeechSynthesisVoice) =>
+    (voice.lang.toLowerCase().replace("_", "-") === tag ? 4 : 0)
+    + (voice.default ? 2 : 0)
+    + (voice.localService ? 1 : 0);
+
+  return voices
+    .filter((voice) => voice.lang.toLowerCase().replace("_", "-").split("-")[0] === primary)
+    .sort((a, b) => score(b) - score(a));
+};
+
+// Some browsers leave out charLength on boundary events, so measure the word
+export const spokenWordLength = (text: string, charIndex: number, charLength?: number): number => {
+  if (charLength) return charLength;
+  const match = text.slice(charIndex).match(/^[\p{L}\p{M}\p{N}]+(?:['’-][\p{L}\p{M}\p{N}]+)*/u);
+  return match ? match[0].length : 0;
+};
+
+export interface SpokenSegment extends TextSegment {
+  spoken: boolean;
+}
+
+/**
+ * Mark the word being spoken, given as a character range of the paragraph,
+ * in segments from splitForHighlight. Segments that overlap the range are
+ * split so only the word itself is marked.
+ */
+export const markSpokenRange = (
+  segments: TextSegment[],
+  range: { start: number; end: number } | null
+): SpokenSegment[] => {
+  if (!range) {
+    return segments.map((segment) => ({ ...segment, spoken: false }));
+  }
+
+  const marked: SpokenSegment[] = [];
+  let offset = 0;
+  for (const segment of segments) {
+    const segmentEnd = offset + segment.text.length;
+    const start = Math.max(range.start, offset);
+    const end = Math.min(range.end, segmentEnd);
+    if (start < end) {
+      const parts = [
+        { text: segment.text.slice(0, start - offset), spoken: false },
+        { text: segment.text.slice(start - offset, end - offset), spoken: true },
+        { text: segment.text.slice(end - offset), spoken: false },
+      ];
+      parts
+        .filter((part) => part.text)
+        .forEach((part) => marked.push({ ...part, highlighted: segment.highlighted }));
+    } else {
+      marked.push({ ...segment, spoken: false });
+    }
+    offset = segmentEnd;
+  }
+  return marked;
+};
+
+// Say a word or short phrase, interrupting any narration
+export const speakText = (text: string, language?: string, rate = 0.8) => {
+  if (!isSpeechSupported()) return;
+  const utterance = new SpeechSynthesisUtterance(text);
+  const voice = voicesForLanguage(window.speechSynthesis.getVoices(), language)[0];
+  utterance.lang = voice?.lang ?? speechLanguageTag(language);
+  if (voice) utterance.voice = voice;
+  utterance.rate = rate;
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.resume();
+  window.speechSynthesis.speak(utterance);
+};
@@ -60,4 +60,17 @@ export const getReadingLevelGuidelines = (readingLevel: string): ReadingGuidelin
   };
 
   return guidelines[readingLevel] || guidelines["k"];
-};
\ No newline at end of file
+};
+
+const READING_LEVEL_LABELS: Record<string, string> = {
+  k: "Kindergarten",
+  "1": "1st Grade",
+  "2": "2nd Grade",
+  "3": "3rd Grade",
+  "4": "4th Grade",
+  "5": "5th Grade",
+  teen: "Teen",
+};
+
+export const getReadingLevelLabel = (readingLevel: string): string =>
+  READING_LEVEL_LABELS[readingLevel] || readingLevel;
@@ -0,0 +1,65 @@
+import { SightWordCoverage } from "@/types/story";
+
+export interface TextSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Collect every spelling of a sight word found in the story, lowercased,
+ * so the reader can highlight them.
+ */
+export const getHighlightForms = (coverage?: SightWordCoverage): Set<string> =>
+  new Set(
+    (coverage?.occurrences || []).flatMap((occurrence) =>
+      occurrence.forms.map((form) => form.toLowerCase())
+    )
+  );
+
+// Chinese and Japanese aren't written with spaces between words, and Korean
+// attaches particles to them, so words in these scripts match anywhere
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+const toPattern = (forms: string[]): string =>
+  forms
+    .sort((a, b) => b.length - a.length)
+    .map((form) => form.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+"))
+    .join("|");
+
+/**
+ * Split a paragraph into plain and highlighted segments. Multi-word forms
+ * ("thank you") are matched before single words, and CJK words wherever
+ * they appear.
+ */
+export const splitForHighlight = (paragraph: string, forms: Set<string>): TextSegment[] => {
+  if (forms.size === 0) {
+    return [{ text: paragraph, highlighted: false }];
+  }
+
+  const unspaced = Array.from(forms).filter((form) => UNSPACED_SCRIPT.test(form));
+  const spaced = Array.from(forms).filter((form) => !UNSPACED_SCRIPT.test(form));
+  // Word boundaries are matched explicitly (no lookbehind, for older Safari)
+  const alternatives = [
+    spaced.length > 0 ? `(^|[^\\p{L}\\p{M}\\p{N}])(${toPattern(spaced)})(?=$|[^\\p{L}\\p{M}\\p{N}])` : "",
+    unspaced.length > 0 ? `()(${toPattern(unspaced)})` : "",
+  ].filter(Boolean);
+  const pattern = new RegExp(alternatives.join("|"), "giu");
+
+  const segments: TextSegment[] = [];
+  let lastIndex = 0;
+  for (const match of paragraph.matchAll(pattern)) {
+    // Each alternative has a boundary group and a word group
+    const [boundary, word] = match[1] !== undefined ? [match[1], match[2]] : [match[3], match[4]];
+    const index = (match.index ?? 0) + boundary.length;
+    if (index > lastIndex) {
+      segments.push({ text: paragraph.slice(lastIndex, index), highlighted: false });
+    }
+    segments.push({ text: word, highlighted: true });
+    lastIndex = index + word.length;
+  }
+  if (lastIndex < paragraph.length) {
+    segments.push({ text: paragraph.slice(lastIndex), highlighted: false });
+  }
+
+  return segments;
+};
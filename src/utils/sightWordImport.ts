@@ -0,0 +1,161 @@
+import { SightWord } from "@/types/sightWords";
+
+export interface ImportedWord {
+  word: string;
+  active: boolean;
+}
+
+export interface WordImportPreview {
+  // Words that will be added
+  newWords: ImportedWord[];
+  // Already in the list, compared without regard to case as when adding one word
+  existing: string[];
+  // Appeared more than once in the input; only the first is kept
+  repeated: string[];
+  // Too long to be a sight word
+  invalid: string[];
+}
+
+const MAX_WORD_LENGTH = 40;
+const TRUE_VALUES = ["true", "yes", "y", "1", "active", "on"];
+const FALSE_VALUES = ["false", "no", "n", "0", "inactive", "off"];
+
+// A pasted list: words separated by commas, tabs or new lines
+export const parseWordList = (text: string): ImportedWord[] =>
+  text
+    .split(/[,\t\r\n]+/)
+    .map((word) => word.trim())
+    .filter(Boolean)
+    .map((word) => ({ word, active: true }));
+
+// Split CSV text into rows of fields, honouring quoted fields with embedded
+// commas, new lines and doubled quotes
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ""));
+};
+
+const parseActive = (value: string | undefined): boolean => {
+  const normalized = (value ?? "").trim().toLowerCase();
+  if (FALSE_VALUES.includes(normalized)) return false;
+  return normalized === "" || TRUE_VALUES.includes(normalized);
+};
+
+/**
+ * Read words from a spreadsheet export. A header row naming a "word" column
+ * (and optionally an "active" column) is used when present; otherwise the
+ * first column holds the word and the second, if any, whether it is active.
+ */
+export const parseWordCsv = (text: string): ImportedWord[] => {
+  // Spreadsheet apps often start the file with a byte order mark
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((value) => value.trim().toLowerCase());
+  const hasHeader = header.includes("word");
+  const wordColumn = hasHeader ? header.indexOf("word") : 0;
+  const activeColumn = hasHeader ? header.indexOf("active") : 1;
+
+  return (hasHeader ? rows.slice(1) : rows)
+    .map((fields) => ({
+      word: (fields[wordColumn] ?? "").trim(),
+      active: activeColumn === -1 ? true : parseActive(fields[activeColumn]),
+    }))
+    .filter((entry) => entry.word !== "");
+};
+
+// Compare imported words against the list and each other before anything is saved
+export const previewWordImport = (imported: ImportedWord[], listWords: SightWord[]): WordImportPreview => {
+  const inList = new Set(listWords.map((word) => word.word.toLowerCase()));
+  const seen = new Set<string>();
+  const preview: WordImportPreview = { newWords: [], existing: [], repeated: [], invalid: [] };
+
+  for (const entry of imported) {
+    const word = entry.word.replace(/\s+/g, " ");
+    const key = word.toLowerCase();
+    if (word.length > MAX_WORD_LENGTH) {
+      preview.invalid.push(word);
+    } else if (inList.has(key)) {
+      if (!preview.existing.includes(word)) preview.existing.push(word);
+    } else if (seen.has(key)) {
+      preview.repeated.push(word);
+    } else {
+      seen.add(key);
+      preview.newWords.push({ word, active: entry.active });
+    }
+  }
+
+  return preview;
+};
+
+const csvField = (value: string | number | boolean | null): string => {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const EXPORT_COLUMNS = ["word", "active", "mastery", "times_seen", "times_practiced", "times_correct", "added"];
+
+const exportRow = (word: SightWord) => ({
+  word: word.word,
+  active: word.active,
+  mastery: word.mastery,
+  times_seen: word.times_seen,
+  times_practiced: word.times_practiced,
+  times_correct: word.times_correct,
+  added: word.created_at.split("T")[0],
+});
+
+// The CSV export can be imported again: it has the "word" and "active" columns
+export const wordsToCsv = (words: SightWord[]): string =>
+  [
+    EXPORT_COLUMNS.join(","),
+    ...words.map((word) => Object.values(exportRow(word)).map(csvField).join(",")),
+  ].join("\r\n");
+
+export const wordsToJson = (listName: string, words: SightWord[]): string =>
+  JSON.stringify({ list: listName, words: words.map(exportRow) }, null, 2);
+
+export const downloadFile = (contents: string | Blob, fileName: string, type: string) => {
+  const blob = new Blob([contents], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
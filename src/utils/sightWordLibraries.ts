@@ -0,0 +1,375 @@
+import { SightWord } from "@/types/sightWords";
+
+export type SightWordLibraryId =
+  | "dolch"
+  | "fry"
+  | "spanish"
+  | "french"
+  | "german"
+  | "chinese"
+  | "japanese"
+  | "korean"
+  | "arabic"
+  | "hindi";
+
+export interface SightWordBand {
+  id: string;
+  label: string;
+  words: string[];
+}
+
+export interface SightWordLibrary {
+  id: SightWordLibraryId;
+  /** The story language the words are for */
+  language: string;
+  name: string;
+  description: string;
+  bands: SightWordBand[];
+}
+
+// Bands are kept as plain text so they are easy to check against the
+// published lists. The Dolch nouns are comma-separated for "Santa Claus".
+const words = (list: string): string[] => list.trim().split(/\s+/);
+
+const DOLCH_BANDS: SightWordBand[] = [
+  {
+    id: "dolch-pre-primer",
+    label: "Pre-primer",
+    words: words(`
+    a and away big blue can come down find for funny go help here I in is it jump little look make
+    me my not one play red run said see the three to two up we where yellow you
+    `),
+  },
+  {
+    id: "dolch-primer",
+    label: "Primer",
+    words: words(`
+    all am are at ate be black brown but came did do eat four get good have he into like must new no
+    now on our out please pretty ran ride saw say she so soon that there they this too under want
+    was well went what white who will with yes
+    `),
+  },
+  {
+    id: "dolch-first-grade",
+    label: "First grade",
+    words: words(`
+    after again an any as ask by could every fly from give going had has her him his how just know
+    let live may of old once open over put round some stop take thank them then think walk were when
+    `),
+  },
+  {
+    id: "dolch-second-grade",
+    label: "Second grade",
+    words: words(`
+    always around because been before best both buy call cold does don't fast first five found gave
+    goes green its made many off or pull read right sing sit sleep tell their these those upon us
+    use very wash which why wish work would write your
+    `),
+  },
+  {
+    id: "dolch-third-grade",
+    label: "Third grade",
+    words: words(`
+    about better bring carry clean cut done draw drink eight fall far full got grow hold hot hurt if
+    keep kind laugh light long much myself never only own pick seven shall show six small start ten
+    today together try warm
+    `),
+  },
+  {
+    id: "dolch-nouns",
+    label: "Nouns",
+    words: `
+    apple, baby, back, ball, bear, bed, bell, bird, birthday, boat, box, boy, bread, brother, cake,
+    car, cat, chair, chicken, children, Christmas, coat, corn, cow, day, dog, doll, door, duck, egg,
+    eye, farm, farmer, father, feet, fire, fish, floor, flower, game, garden, girl, goodbye, grass,
+    ground, hand, head, hill, home, horse, house, kitty, leg, letter, man, men, milk, money,
+    morning, mother, name, nest, night, paper, party, picture, pig, rabbit, rain, ring, robin, Santa
+    Claus, school, seed, sheep, shoe, sister, snow, song, squirrel, stick, street, sun, table,
+    thing, time, top, toy, tree, watch, water, way, wind, window, wood
+    `.split(",").map((word) => word.trim()),
+  },
+];
+
+// The first 1000 Fry Instant Words, in order of frequency, 100 to a band
+const FRY_BANDS: string[][] = [
+  words(`
+    the of and a to in is you that it he was for on are as with his they I at be this have from or
+    one had by words but not what all were we when your can said there use an each which she do how
+    their if will up other about out many then them these so some her would make like him into time
+    has look two more write go see number no way could people my than first water been called who
+    oil its now find long down day did get come made may part
+  `),
+  words(`
+    over new sound take only little work know place years live me back give most very after things
+    our just name good sentence man think say great where help through much before line right too
+    means old any same tell boy follow came want show also around form three small set put end does
+    another well large must big even such because turn here why asked went men read need land
+    different home us move try kind hand picture again change off play spell air away animals house
+    point page letters mother answer found study still learn should America world
+  `),
+  words(`
+    high every near add food between own below country plants last school father keep trees never
+    started city earth eyes light thought head under story saw left don't few while along might
+    close something seemed next hard open example beginning life always those both paper together
+    got group often run important until children side feet car miles night walked white sea began
+    grow took river four carry state once book hear stop without second later miss idea enough eat
+    face watch far Indians really almost let above girl sometimes mountains cut young talk soon list
+    song being leave family it's
+  `),
+  words(`
+    body music color stand sun questions fish area mark dog horse birds problem complete room knew
+    since ever piece told usually didn't friends easy heard order red door sure become top ship
+    across today during short better best however low hours black products happened whole measure
+    remember early waves reached listen wind rock space covered fast several hold himself toward
+    five step morning passed vowel true hundred against pattern numeral table north slowly money map
+    farm pulled draw voice seen cold cried plan notice south sing war ground fall king town I'll
+    unit figure certain field travel wood fire upon
+  `),
+  words(`
+    done English road half ten fly gave box finally wait correct oh quickly person became shown
+    minutes strong verb stars front feel fact inches street decided contain course surface produce
+    building ocean class note nothing rest carefully scientists inside wheels stay green known
+    island week less machine base ago stood plane system behind ran round boat game force brought
+    understand warm common bring explain dry though language shape deep thousands yes clear equation
+    yet government filled heat full hot check object am rule among noun power cannot able six size
+    dark ball material special heavy fine pair circle include built
+  `),
+  words(`
+    can't matter square syllables perhaps bill felt suddenly test direction center farmers ready
+    anything divided general energy subject Europe moon region return believe dance members picked
+    simple cells paint mind love cause rain exercise eggs train blue wish drop developed window
+    difference distance heart sit sum summer wall forest probably legs sat main winter wide written
+    length reason kept interest arms brother race present beautiful store job edge past sign record
+    finished discovered wild happy beside gone sky glass million west lay weather root instruments
+    meet third months paragraph raised represent soft whether clothes flowers shall teacher held
+    describe drive
+  `),
+  words(`
+    cross speak solve appear metal son either ice sleep village factors result jumped snow ride care
+    floor hill pushed baby buy century outside everything tall already instead phrase soil bed copy
+    free hope spring case laughed nation quite type themselves temperature bright lead everyone
+    method section lake consonant within dictionary hair age amount scale pounds although per broken
+    moment tiny possible gold milk quiet natural lot stone act build middle speed count cat someone
+    sail rolled bear wonder smiled angle fraction Africa killed melody bottom trip hole poor let's
+    fight surprise French died beat exactly remain dress iron couldn't fingers
+  `),
+  words(`
+    row least catch climbed wrote shouted continued itself else plains gas England burning design
+    joined foot law ears grass you're grew skin valley cents key president brown trouble cool cloud
+    lost sent symbols wear bad save experiment engine alone drawing east pay single touch
+    information express mouth yard equal decimal yourself control practice report straight rise
+    statement stick party seeds suppose woman coast bank period wire choose clean visit bit whose
+    received garden please strange caught fell team God captain direct ring serve child desert
+    increase history cost maybe business separate break uncle hunting flow lady students human art
+    feeling
+  `),
+  words(`
+    supply corner electric insects crops tone hit sand doctor provide thus won't cook bones tail
+    board modern compound mine wasn't fit addition belong safe soldiers guess silent trade rather
+    compare crowd poem enjoy elements indicate except expect flat seven interesting sense string
+    blow famous value wings movement pole exciting branches thick blood lie spot bell fun loud
+    consider suggested thin position entered fruit tied rich dollars send sight chief Japanese
+    stream planets rhythm eight science major observe tube necessary weight meat lifted process army
+    hat property particular swim terms current park sell shoulder industry wash block spread cattle
+    wife sharp
+  `),
+  words(`
+    company radio we'll action capital factories settled yellow isn't southern truck fair printed
+    wouldn't ahead chance born level triangle molecules France repeated column western church sister
+    oxygen plural various agreed opposite wrong chart prepared pretty solution fresh shop suffix
+    especially shoes actually nose afraid dead sugar adjective fig office huge gun similar death
+    score forward stretched experience rose allow fear workers Washington Greek women bought led
+    march northern create British difficult match win doesn't steel total deal determine evening nor
+    rope cotton apple details entire corn substances smell tools conditions cows track arrived
+    located sir seat division effect underline view
+  `),
+];
+
+// Beginning-reader words for the other story languages, a band each for
+// kindergarten, first and second grade. Chinese and Japanese are learned
+// character by character, so their later bands are characters taught in
+// school; Japanese and Korean leave out one-syllable words, which would be
+// found inside longer ones.
+const GRADE_BAND_LABELS = ["Kindergarten", "First grade", "Second grade"];
+
+const gradedBands = (id: SightWordLibraryId, bands: string[]): SightWordBand[] =>
+  bands.map((band, index) => ({
+    id: `${id}-${index + 1}`,
+    label: GRADE_BAND_LABELS[index],
+    words: words(band),
+  }));
+
+const WORLD_LIBRARIES: SightWordLibrary[] = [
+  {
+    id: "spanish",
+    language: "spanish",
+    name: "Spanish",
+    description: "High-frequency Spanish words for beginning readers",
+    bands: gradedBands("spanish", [
+      `a al con de del el en es la las lo los me mi no por que se su un una y yo tú sí va ya`,
+      `hay muy más pero como para cuando donde este esta ese esa todo todos bien hace tiene tengo
+      quiero puedo voy vamos dijo fue era estaba soy eres son están`,
+      `porque también entonces después antes siempre nunca mucho poco otro otra aquí allí ahora hoy
+      mañana ayer nada algo alguien cada mismo sobre hasta desde entre mientras`,
+    ]),
+  },
+  {
+    id: "french",
+    language: "french",
+    name: "French",
+    description: "Mots-outils: the little words French readers learn first",
+    bands: gradedBands("french", [
+      `le la les un une et est il elle je tu on de des du à au dans sur avec pour pas ne qui que mon
+      ma mes`,
+      `nous vous ils elles son sa ses ton ta tes mais ou donc car aussi très bien plus avoir être fait
+      va vont sont était c'est`,
+      `toujours jamais encore déjà maintenant après avant pendant depuis beaucoup peu trop quand
+      comment pourquoi tout tous rien chez sous entre alors puis`,
+    ]),
+  },
+  {
+    id: "german",
+    language: "german",
+    name: "German",
+    description: "Grundwortschatz: common German words for beginning readers",
+    bands: gradedBands("german", [
+      `der die das ein eine und ist ich du er sie es wir ihr in im auf mit zu nicht ja nein Mama Papa`,
+      `hat haben bin sind war kann will geht kommt sagt sehr auch noch nur aber oder dann wenn wie was
+      wo wer hier da jetzt`,
+      `immer schon wieder heute morgen gestern viel viele alle alles nichts etwas über unter vor nach
+      bei von aus durch gegen ohne`,
+    ]),
+  },
+  {
+    id: "chinese",
+    language: "chinese",
+    name: "Chinese",
+    description: "The most common characters in Chinese children's reading",
+    bands: gradedBands("chinese", [
+      `的 一 是 不 了 人 我 在 有 他 这 中 大 来 上 个 们 到 说 小 子 你 她 好 天 也 和 去 看 么`,
+      `多 里 就 会 能 可 要 下 出 生 家 山 水 日 月 木 火 土 手 口 头 草 花 鸟 马 牛 吃 走 跑 想`,
+      `时 后 年 地 对 都 没 还 把 过 着 那 为 又 心 学 开 知 道 见 问 朋 友 快 乐 高 兴 听 找 给`,
+    ]),
+  },
+  {
+    id: "japanese",
+    language: "japanese",
+    name: "Japanese",
+    description: "Everyday words in hiragana, then the kanji of first and second grade",
+    bands: gradedBands("japanese", [
+      `わたし ぼく あなた ともだち おかあさん おとうさん いぬ ねこ とり さかな やま かわ そら はな みず
+      いえ あさ よる きょう あした`,
+      `一 二 三 四 五 上 下 中 大 小 日 月 火 水 木 金 土 山 川 田 人 子 目 口 手 足 花 犬 空 雨`,
+      `春 夏 秋 冬 朝 昼 夜 家 友 親 母 父 兄 姉 弟 妹 公 園 海 池 星 雲 風 雪 走 歩 歌 話 読 書`,
+    ]),
+  },
+  {
+    id: "korean",
+    language: "korean",
+    name: "Korean",
+    description: "Common Korean words for beginning readers",
+    bands: gradedBands("korean", [
+      `우리 엄마 아빠 친구 학교 하늘 바다 나무 강아지 고양이 선생님 동생 언니 오빠 누나 사과 아침 저녁
+      오늘 내일`,
+      `사람 동물 자동차 그림 노래 이야기 공원 시장 가방 신발 모자 의자 책상 연필 공책 숙제 생일 선물
+      마음 웃음`,
+      `그리고 그래서 하지만 그런데 언제나 가끔 항상 정말 아주 조금 많이 함께 혼자 천천히 빨리 다시 먼저
+      나중에 모두 서로`,
+    ]),
+  },
+  {
+    id: "arabic",
+    language: "arabic",
+    name: "Arabic",
+    description: "High-frequency Arabic words for beginning readers, without their prefixes",
+    bands: gradedBands("arabic", [
+      `في من إلى على عن مع هذا هذه هو هي أنا أنت نحن هم كان قال بيت ولد بنت أم أب`,
+      `ذهب جاء رأى أكل شرب لعب نام كتب قرأ يوم ليل شمس قمر ماء شجرة كلب قطة صديق مدرسة كبير صغير`,
+      `لكن ثم عندما لأن كل بعض أيضا جدا الآن هنا هناك دائما كثير قليل جميل سعيد حزين جديد قديم`,
+    ]),
+  },
+  {
+    id: "hindi",
+    language: "hindi",
+    name: "Hindi",
+    description: "High-frequency Hindi words for beginning readers",
+    bands: gradedBands("hindi", [
+      `मैं तुम वह यह हम है हैं था थी और में से को का की के पर नहीं हाँ माँ`,
+      `घर पानी खाना दोस्त स्कूल पेड़ फूल आम बिल्ली कुत्ता चिड़िया सूरज चाँद दिन रात बड़ा छोटा अच्छा नया खेल`,
+      `क्योंकि लेकिन फिर जब तब बहुत थोड़ा सब कुछ कोई यहाँ वहाँ अब आज कल हमेशा साथ अपना सुंदर खुश`,
+    ]),
+  },
+];
+
+export const SIGHT_WORD_LIBRARIES: SightWordLibrary[] = [
+  {
+    id: "dolch",
+    language: "english",
+    name: "Dolch",
+    description: "220 service words from pre-primer to third grade, plus 95 common nouns",
+    bands: DOLCH_BANDS,
+  },
+  {
+    id: "fry",
+    language: "english",
+    name: "Fry",
+    description: "The 1000 most common words in English reading, 100 at a time",
+    bands: FRY_BANDS.map((band, index) => ({
+      id: `fry-${index + 1}`,
+      label: `Words ${index * 100 + 1}-${(index + 1) * 100}`,
+      words: band,
+    })),
+  },
+  ...WORLD_LIBRARIES,
+];
+
+// Languages with libraries, in the order they are offered
+export const LIBRARY_LANGUAGES = Array.from(new Set(SIGHT_WORD_LIBRARIES.map((library) => library.language)));
+
+export const getLibrariesForLanguage = (language: string): SightWordLibrary[] =>
+  SIGHT_WORD_LIBRARIES.filter((library) => library.language === language);
+
+// The band a reader at each level would usually be working on. The Dolch
+// nouns are not graded, so they are never suggested.
+const STARTING_BAND: Partial<Record<SightWordLibraryId, Record<string, number>>> = {
+  dolch: { k: 0, "1": 1, "2": 2, "3": 3, "4": 4, "5": 4, teen: 4 },
+  fry: { k: 0, "1": 1, "2": 3, "3": 5, "4": 7, "5": 8, teen: 9 },
+};
+
+// The other languages' libraries have a band for each grade up to second
+const GRADE_STARTING_BAND: Record<string, number> = { k: 0, "1": 1, "2": 2, "3": 2, "4": 2, "5": 2, teen: 2 };
+
+const GRADED_BANDS: Partial<Record<SightWordLibraryId, number>> = {
+  dolch: 5,
+  fry: 10,
+};
+
+export const isBandComplete = (band: SightWordBand, listWords: SightWord[]): boolean => {
+  const known = new Set(listWords.map((word) => word.word.toLowerCase()));
+  return band.words.every((word) => known.has(word.toLowerCase()));
+};
+
+/**
+ * Suggest the band to import next: the first one at or above the reader's
+ * level that is not already fully in their list.
+ */
+export const suggestNextBand = (
+  library: SightWordLibrary,
+  readingLevel: string | null,
+  listWords: SightWord[]
+): SightWordBand | null => {
+  const start = (STARTING_BAND[library.id] ?? GRADE_STARTING_BAND)[readingLevel ?? ""] ?? 0;
+  return library.bands
+    .slice(start, GRADED_BANDS[library.id] ?? library.bands.length)
+    .find((band) => !isBandComplete(band, listWords)) ?? null;
+};
+
+// The library bands a word belongs to, e.g. "Dolch Pre-primer" or "Fry Words 1-100"
+export const findLibraryBands = (word: string): string[] => {
+  const normalized = word.toLowerCase();
+  return SIGHT_WORD_LIBRARIES.flatMap((library) =>
+    library.bands
+      .filter((band) => band.words.some((entry) => entry.toLowerCase() === normalized))
+      .map((band) => `${library.name} ${band.label}`)
+  );
+};
@@ -0,0 +1,19 @@
+import { MasteryState, SightWord } from "@/types/sightWords";
+import { MessageKey } from "@/i18n/en";
+
+export const MASTERY_LABELS: Record<MasteryState, MessageKey> = {
+  new: "mastery.new",
+  practicing: "mastery.practicing",
+  mastered: "mastery.mastered",
+};
+
+const MASTERY_ORDER: MasteryState[] = ["new", "practicing", "mastered"];
+
+// Tapping a word's mastery badge steps through the states and wraps around
+export const nextMastery = (mastery: MasteryState): MasteryState =>
+  MASTERY_ORDER[(MASTERY_ORDER.indexOf(mastery) + 1) % MASTERY_ORDER.length];
+
+// Active words first, then the ones still being learned
+export const compareSightWords = (a: SightWord, b: SightWord): number =>
+  Number(b.active) - Number(a.active)
+  || MASTERY_ORDER.indexOf(a.mastery) - MASTERY_ORDER.indexOf(b.mastery);
@@ -0,0 +1,159 @@
+import JSZip from "jszip";
+import { speechLanguageTag } from "@/utils/readAloud";
+import { splitForHighlight } from "@/utils/sightWordHighlighting";
+import { AI_CONTENT_NOTICE, ExportStory, readingLevelName, themeName } from "@/utils/storyExport";
+import { Locale, translate } from "@/i18n/translate";
+import { isRightToLeft } from "@/utils/languages";
+
+export interface StoryEpubBook {
+  title: string;
+  /** Shown under the title, e.g. the series setting or "12 stories" */
+  description?: string;
+  language?: string;
+  stories: ExportStory[];
+  /** Sight word spellings (lowercased) to set in bold */
+  boldForms?: Set<string>;
+  /** The app's language, for the book's own headings */
+  locale?: Locale;
+}
+
+const STYLESHEET = `body { font-family: sans-serif; line-height: 1.7; margin: 0 5%; }
+h1, h2 { text-align: center; color: #6d28d9; }
+p { margin: 0 0 1em; }
+.subtitle { text-align: center; text-transform: uppercase; letter-spacing: 0.05em; color: #7c3aed; }
+.details { text-align: center; color: #6b7280; }
+.notice { margin-top: 3em; font-size: 0.8em; color: #6b7280; }
+.story-k p, .story-1 p { font-size: 1.6em; }
+.story-2 p, .story-3 p { font-size: 1.3em; }
+`;
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const xhtmlPage = (title: string, language: string, rtl: boolean, body: string): string =>
+  `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}"${rtl ? ' dir="rtl"' : ""}>
+<head>
+<meta charset="utf-8" />
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+const storyParagraphs = (content: string, boldForms: Set<string>): string =>
+  content
+    .split("\n")
+    .filter((paragraph) => paragraph.trim())
+    .map(
+      (paragraph) =>
+        `<p>${splitForHighlight(paragraph, boldForms)
+          .map((segment) => (segment.highlighted ? `<strong>${escapeXml(segment.text)}</strong>` : escapeXml(segment.text)))
+          .join("")}</p>`
+    )
+    .join("\n");
+
+/**
+ * Pack one or more stories into an EPUB 3 book: a title page with the AI
+ * content notice, one chapter per story, and a table of contents.
+ */
+export const createStoryEpub = async (book: StoryEpubBook): Promise<Blob> => {
+  const language = speechLanguageTag(book.language);
+  const rtl = isRightToLeft(book.language);
+  const boldForms = book.boldForms ?? new Set<string>();
+  const locale = book.locale ?? "en";
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+  const chapters = book.stories.map((story, index) => ({ story, href: `story-${index + 1}.xhtml`, id: `story-${index + 1}` }));
+
+  const zip = new JSZip();
+  // The mimetype must come first and be stored uncompressed
+  zip.file("mimetype", "application/epub+zip", { compression: "STORE" });
+  zip.file(
+    "META-INF/container.xml",
+    `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>`
+  );
+
+  zip.file("OEBPS/style.css", STYLESHEET);
+  zip.file(
+    "OEBPS/title.xhtml",
+    xhtmlPage(
+      book.title,
+      language,
+      rtl,
+      `<h1>${escapeXml(book.title)}</h1>
+${book.description ? `<p class="details">${escapeXml(book.description)}</p>` : ""}
+<p class="notice">${escapeXml(AI_CONTENT_NOTICE)}</p>`
+    )
+  );
+
+  for (const { story, href } of chapters) {
+    const details = [
+      story.readingLevel && readingLevelName(story.readingLevel, locale),
+      story.theme && themeName(story.theme, locale),
+    ].filter(Boolean).join(" · ");
+    zip.file(
+      `OEBPS/${href}`,
+      xhtmlPage(
+        story.title,
+        speechLanguageTag(story.language ?? book.language),
+        isRightToLeft(story.language ?? book.language),
+        `<section class="story-${escapeXml(story.readingLevel ?? "")}" epub:type="chapter">
+${story.subtitle ? `<p class="subtitle">${escapeXml(story.subtitle)}</p>` : ""}
+<h2>${escapeXml(story.title)}</h2>
+${details ? `<p class="details">${escapeXml(details)}</p>` : ""}
+${storyParagraphs(story.content, boldForms)}
+</section>`
+      )
+    );
+  }
+
+  zip.file(
+    "OEBPS/nav.xhtml",
+    xhtmlPage(
+      translate(locale, "export.contents"),
+      language,
+      rtl,
+      `<nav epub:type="toc" id="toc">
+<h2>${escapeXml(translate(locale, "export.contents"))}</h2>
+<ol>
+${chapters.map(({ story, href }) => `<li><a href="${href}">${escapeXml(story.subtitle ? `${story.subtitle}: ${story.title}` : story.title)}</a></li>`).join("\n")}
+</ol>
+</nav>`
+    )
+  );
+
+  zip.file(
+    "OEBPS/content.opf",
+    `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id"${rtl ? ' dir="rtl"' : ""}>
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${crypto.randomUUID()}</dc:identifier>
+    <dc:title>${escapeXml(book.title)}</dc:title>
+    <dc:language>${language}</dc:language>
+    <dc:creator>VibeTales</dc:creator>
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+    <item id="style" href="style.css" media-type="text/css" />
+    <item id="title" href="title.xhtml" media-type="application/xhtml+xml" />
+${chapters.map(({ href, id }) => `    <item id="${id}" href="${href}" media-type="application/xhtml+xml" />`).join("\n")}
+  </manifest>
+  <spine${rtl ? ' page-progression-direction="rtl"' : ""}>
+    <itemref idref="title" />
+    <itemref idref="nav" />
+${chapters.map(({ id }) => `    <itemref idref="${id}" />`).join("\n")}
+  </spine>
+</package>`
+  );
+
+  return zip.generateAsync({ type: "blob", mimeType: "application/epub+zip", compression: "DEFLATE" });
+};
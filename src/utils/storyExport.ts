@@ -0,0 +1,66 @@
+import { ComprehensionQuestion } from "@/types/story";
+import { en, MessageKey } from "@/i18n/en";
+import { Locale, translate } from "@/i18n/translate";
+import { getReadingLevelLabel } from "@/utils/readingLevelGuidelines";
+
+/** A story as it is printed or packed into an e-book */
+export interface ExportStory {
+  title: string;
+  content: string;
+  readingLevel?: string;
+  theme?: string;
+  language?: string;
+  /** e.g. "Chapter 2", shown above the title */
+  subtitle?: string;
+  questions?: ComprehensionQuestion[] | null;
+}
+
+// The same notice the app shows above generated stories
+export const AI_CONTENT_NOTICE =
+  "AI-Generated Content Notice: Stories are created using artificial intelligence and may contain inaccuracies, " +
+  "inappropriate content, or biased information. Please review all content before sharing with children.";
+
+// The story's reading level and theme as the story form names them in `locale`
+export const readingLevelName = (readingLevel: string, locale: Locale): string => {
+  const key = `readingLevel.${readingLevel}`;
+  return key in en ? translate(locale, key as MessageKey) : getReadingLevelLabel(readingLevel);
+};
+
+export const themeName = (theme: string, locale: Locale): string => {
+  const key = `theme.${theme}`;
+  return key in en ? translate(locale, key as MessageKey) : theme;
+};
+
+// "The Brave Little Fox!" -> "the-brave-little-fox.pdf"
+export const exportFileName = (title: string, extension: string): string => {
+  const slug = title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "story"}.${extension}`;
+};
+
+/** Whether the Web Share API can send files here (mostly mobile browsers) */
+export const canShareFiles = (): boolean => {
+  if (typeof navigator === "undefined" || !navigator.share || !navigator.canShare) return false;
+  const probe = new File(["probe"], "story.pdf", { type: "application/pdf" });
+  return navigator.canShare({ files: [probe] });
+};
+
+/**
+ * Open the device's share sheet with the file. Resolves to false when the
+ * person closes the sheet without sharing.
+ */
+export const shareFile = async (blob: Blob, fileName: string, title: string): Promise<boolean> => {
+  const file = new File([blob], fileName, { type: blob.type });
+  try {
+    await navigator.share({ files: [file], title });
+    return true;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") return false;
+    throw error;
+  }
+};
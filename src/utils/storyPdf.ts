@@ -0,0 +1,224 @@
+import { jsPDF } from "jspdf";
+import { splitForHighlight } from "@/utils/sightWordHighlighting";
+import { AI_CONTENT_NOTICE, ExportStory, readingLevelName, themeName } from "@/utils/storyExport";
+import { Locale, translate } from "@/i18n/translate";
+import { isRightToLeft } from "@/utils/languages";
+
+// US Letter, in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const FOOTER_HEIGHT = 56;
+const TEXT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const TEXT_BOTTOM = PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT;
+
+// Pages are drawn on a canvas (about 200 dpi) and placed in the PDF as images,
+// so stories in every language print with the browser's own fonts
+const PIXELS_PER_POINT = 2.75;
+const FONT_FAMILY = '"Helvetica Neue", Arial, "Noto Sans", sans-serif';
+const TEXT_COLOR = "#1f2937";
+const MUTED_COLOR = "#6b7280";
+const ACCENT_COLOR = "#7c3aed";
+
+interface PrintLayout {
+  fontSize: number;
+  lineHeight: number;
+  paragraphGap: number;
+}
+
+// Large print for the youngest readers, getting closer to a chapter book page
+const PRINT_LAYOUTS: Record<string, PrintLayout> = {
+  k: { fontSize: 30, lineHeight: 1.8, paragraphGap: 24 },
+  "1": { fontSize: 26, lineHeight: 1.75, paragraphGap: 20 },
+  "2": { fontSize: 22, lineHeight: 1.7, paragraphGap: 18 },
+  "3": { fontSize: 19, lineHeight: 1.65, paragraphGap: 16 },
+  "4": { fontSize: 17, lineHeight: 1.6, paragraphGap: 14 },
+  "5": { fontSize: 15, lineHeight: 1.6, paragraphGap: 12 },
+  teen: { fontSize: 13, lineHeight: 1.55, paragraphGap: 10 },
+};
+
+export interface StoryPdfOptions {
+  /** Sight word spellings (lowercased) to print in bold */
+  boldForms?: Set<string>;
+  /** The app's language, for the title page labels */
+  locale?: Locale;
+}
+
+interface TextPiece {
+  text: string;
+  bold: boolean;
+}
+
+interface Line {
+  pieces: (TextPiece & { width: number })[];
+  width: number;
+}
+
+// Whitespace, single CJK characters (which can break anywhere), or runs of anything else
+const PIECE_PATTERN =
+  /\s+|[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[^\s\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+/gu;
+
+const fontFor = (size: number, bold: boolean) => `${bold ? "bold " : ""}${size}px ${FONT_FAMILY}`;
+
+// Break text into lines no wider than `maxWidth`, keeping bold runs intact
+const wrapPieces = (
+  ctx: CanvasRenderingContext2D,
+  segments: TextPiece[],
+  fontSize: number,
+  maxWidth: number
+): Line[] => {
+  const lines: Line[] = [];
+  let line: Line = { pieces: [], width: 0 };
+
+  for (const segment of segments) {
+    for (const text of segment.text.match(PIECE_PATTERN) ?? []) {
+      const isSpace = /^\s+$/.test(text);
+      if (isSpace && line.pieces.length === 0) continue;
+
+      ctx.font = fontFor(fontSize, segment.bold);
+      const width = ctx.measureText(isSpace ? " " : text).width;
+      if (!isSpace && line.pieces.length > 0 && line.width + width > maxWidth) {
+        // Don't end a line on the space before the word that moved down
+        const last = line.pieces[line.pieces.length - 1];
+        if (/^\s+$/.test(last.text)) {
+          line.pieces.pop();
+          line.width -= last.width;
+        }
+        lines.push(line);
+        line = { pieces: [], width: 0 };
+      }
+      line.pieces.push({ text: isSpace ? " " : text, bold: segment.bold, width });
+      line.width += width;
+    }
+  }
+
+  if (line.pieces.length > 0) lines.push(line);
+  return lines;
+};
+
+/**
+ * Print a story as a large-print PDF: a title page, then the story in a type
+ * size picked for the reading level, with the AI content notice at the foot
+ * of every page.
+ */
+export const createStoryPdf = async (story: ExportStory, options: StoryPdfOptions = {}): Promise<Blob> => {
+  // Wait for web fonts so the canvas doesn't measure with a fallback
+  await document.fonts?.ready;
+
+  const layout = PRINT_LAYOUTS[story.readingLevel ?? ""] ?? PRINT_LAYOUTS["3"];
+  const locale = options.locale ?? "en";
+  const rtl = isRightToLeft(story.language);
+  const pdf = new jsPDF({ unit: "pt", format: "letter" });
+  pdf.setProperties({ title: story.title, subject: "Story" });
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(PAGE_WIDTH * PIXELS_PER_POINT);
+  canvas.height = Math.round(PAGE_HEIGHT * PIXELS_PER_POINT);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available");
+  ctx.scale(PIXELS_PER_POINT, PIXELS_PER_POINT);
+  ctx.textBaseline = "alphabetic";
+  ctx.direction = rtl ? "rtl" : "ltr";
+
+  let pageNumber = 0;
+  let y = MARGIN;
+
+  const startPage = () => {
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+    y = MARGIN;
+  };
+
+  const drawLine = (line: Line, fontSize: number, align: "start" | "center", color: string) => {
+    const start = align === "center" ? (PAGE_WIDTH - line.width) / 2 : 0;
+    let offset = start;
+    ctx.fillStyle = color;
+    ctx.textAlign = "left";
+    for (const piece of line.pieces) {
+      ctx.font = fontFor(fontSize, piece.bold);
+      // Right-to-left lines are laid out from the right margin
+      const x = rtl
+        ? (align === "center" ? PAGE_WIDTH - offset : PAGE_WIDTH - MARGIN - offset) - piece.width
+        : (align === "center" ? offset : MARGIN + offset);
+      ctx.fillText(piece.text, x, y);
+      offset += piece.width;
+    }
+  };
+
+  const finishPage = () => {
+    ctx.direction = "ltr";
+    ctx.fillStyle = MUTED_COLOR;
+    ctx.fillRect(MARGIN, PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT + 12, TEXT_WIDTH, 0.5);
+    const noticeLines = wrapPieces(ctx, [{ text: AI_CONTENT_NOTICE, bold: false }], 8, TEXT_WIDTH - 40);
+    let footerY = PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT + 28;
+    for (const line of noticeLines) {
+      ctx.font = fontFor(8, false);
+      ctx.textAlign = "left";
+      ctx.fillText(line.pieces.map((piece) => piece.text).join(""), MARGIN, footerY);
+      footerY += 11;
+    }
+    if (pageNumber > 0) {
+      ctx.font = fontFor(10, false);
+      ctx.textAlign = "right";
+      ctx.fillText(String(pageNumber), PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT + 28);
+    }
+    ctx.direction = rtl ? "rtl" : "ltr";
+
+    if (pageNumber > 0) pdf.addPage();
+    pdf.addImage(canvas.toDataURL("image/jpeg", 0.9), "JPEG", 0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+    pageNumber += 1;
+  };
+
+  // Title page
+  startPage();
+  const titleSize = 40;
+  const titleLines = wrapPieces(ctx, [{ text: story.title, bold: true }], titleSize, TEXT_WIDTH);
+  const details = [
+    story.readingLevel && translate(locale, "export.readingLevel", { level: readingLevelName(story.readingLevel, locale) }),
+    story.theme && translate(locale, "export.theme", { theme: themeName(story.theme, locale) }),
+  ].filter(Boolean) as string[];
+  const blockHeight = titleLines.length * titleSize * 1.25 + (story.subtitle ? 40 : 0) + 40 + details.length * 22;
+  y = MARGIN + titleSize + Math.max(0, (TEXT_BOTTOM - MARGIN - blockHeight) / 2);
+
+  if (story.subtitle) {
+    drawLine(wrapPieces(ctx, [{ text: story.subtitle, bold: true }], 16, TEXT_WIDTH)[0], 16, "center", ACCENT_COLOR);
+    y += 40;
+  }
+  for (const line of titleLines) {
+    drawLine(line, titleSize, "center", TEXT_COLOR);
+    y += titleSize * 1.25;
+  }
+  ctx.fillStyle = ACCENT_COLOR;
+  ctx.fillRect((PAGE_WIDTH - 96) / 2, y - titleSize * 0.6, 96, 4);
+  y += 24;
+  for (const detail of details) {
+    drawLine(wrapPieces(ctx, [{ text: detail, bold: false }], 14, TEXT_WIDTH)[0], 14, "center", MUTED_COLOR);
+    y += 22;
+  }
+  finishPage();
+
+  // Story pages
+  const lineHeight = layout.fontSize * layout.lineHeight;
+  const paragraphs = story.content.split("\n").filter((paragraph) => paragraph.trim());
+  startPage();
+  y = MARGIN + layout.fontSize;
+  for (const paragraph of paragraphs) {
+    const segments = splitForHighlight(paragraph, options.boldForms ?? new Set<string>()).map((segment) => ({
+      text: segment.text,
+      bold: segment.highlighted,
+    }));
+    for (const line of wrapPieces(ctx, segments, layout.fontSize, TEXT_WIDTH)) {
+      if (y > TEXT_BOTTOM) {
+        finishPage();
+        startPage();
+        y = MARGIN + layout.fontSize;
+      }
+      drawLine(line, layout.fontSize, "start", TEXT_COLOR);
+      y += lineHeight;
+    }
+    y += layout.paragraphGap;
+  }
+  finishPage();
+
+  return pdf.output("blob");
+};
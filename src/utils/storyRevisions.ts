@@ -0,0 +1,21 @@
+import { RevisionAction } from "@/types/story";
+
+export const REVISION_LABELS: Record<RevisionAction, string> = {
+  regenerate: "New story",
+  shorter: "Shorter",
+  simpler: "Simpler",
+  "more-dialogue": "More dialogue",
+  "new-ending": "New ending",
+};
+
+const SHORTER_LENGTH: Record<string, string> = {
+  long: "medium",
+  medium: "short",
+};
+
+// Mirrors generate-story: "shorter" steps the story down one length
+export const revisedLength = (action: RevisionAction, length: string): string =>
+  action === "shorter" ? SHORTER_LENGTH[length] ?? length : length;
+
+export const canReviseStory = (action: RevisionAction, length?: string): boolean =>
+  action !== "shorter" || !length || length in SHORTER_LENGTH;
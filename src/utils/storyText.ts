@@ -0,0 +1,25 @@
+import { LengthUnit } from "@/utils/languages";
+
+export interface StoryToken {
+  text: string;
+  isWord: boolean;
+}
+
+// Split text into words and the spaces and punctuation between them. With
+// "characters", each letter or digit is its own token, the way score-reading
+// scores Chinese, Japanese and Korean readings.
+export const tokenizeParagraph = (paragraph: string, unit: LengthUnit = "words"): StoryToken[] =>
+  paragraph
+    .split(unit === "characters" ? /([\p{L}\p{N}]\p{M}*)/u : /([\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}\p{N}]+)*)/u)
+    .filter(Boolean)
+    .map((text) => ({ text, isWord: /^[\p{L}\p{N}]/u.test(text) }));
+
+// The sentence of a paragraph that contains the character at `offset`
+export const sentenceAt = (paragraph: string, offset: number): string => {
+  const before = paragraph.slice(0, offset);
+  const start = Math.max(before.lastIndexOf(". "), before.lastIndexOf("! "), before.lastIndexOf("? "));
+  const end = paragraph.slice(offset).search(/[.!?…]/u);
+  return paragraph
+    .slice(start === -1 ? 0 : start + 2, end === -1 ? paragraph.length : offset + end + 1)
+    .trim();
+};
@@ -0,0 +1,102 @@
+// Splitting English words into syllables to help early readers sound them out.
+// This follows the classroom rules (rab-bit, ti-ger, ta-ble, play-ing) rather
+// than a dictionary, so a few words split differently than a dictionary would.
+
+const VOWEL_TEAMS = new Set([
+  "ai", "ay", "au", "aw", "ea", "ee", "ei", "ey", "eu", "ew",
+  "ie", "oa", "oe", "oi", "oo", "ou", "ow", "oy", "ue", "ui",
+]);
+// Consonant pairs that make one sound and are never split
+const DIGRAPHS = new Set(["ch", "sh", "th", "wh", "ph", "gh", "ck", "ng"]);
+// Digraphs that close the syllable before them (chick-en, sing-er)
+const CLOSING_DIGRAPHS = new Set(["ck", "ng"]);
+
+// Which letters are sounded vowels, accounting for y, w, qu and silent endings
+const vowelPattern = (word: string): boolean[] => {
+  const isVowel: boolean[] = [];
+  for (let i = 0; i < word.length; i++) {
+    const char = word[i];
+    const previous = word[i - 1];
+    if ("aeio".includes(char)) {
+      isVowel.push(true);
+    } else if (char === "u") {
+      isVowel.push(previous !== "q");
+    } else if (char === "y") {
+      // A consonant at the start of a word or syllable ("yes", "be-yond"),
+      // but part of the vowel before an ending (play-ing, toy-er)
+      const next = word[i + 1];
+      isVowel.push(i > 0 && (!next || !"aeiou".includes(next) || /^(ing|er|ed|est)$/.test(word.slice(i + 1))));
+    } else if (char === "w") {
+      isVowel.push(!!previous && "aeo".includes(previous));
+    } else {
+      isVowel.push(false);
+    }
+  }
+
+  const last = word.length - 1;
+  const consonantBefore = (index: number) => index >= 0 && !isVowel[index];
+  if (word.endsWith("e") && consonantBefore(last - 1) && !word.endsWith("le") && isVowel.slice(0, last - 1).some(Boolean)) {
+    // Silent e (make, hope)
+    isVowel[last] = false;
+  } else if (word.endsWith("ed") && consonantBefore(last - 2) && !"td".includes(word[last - 2])) {
+    // Past tense without its own syllable (jumped, played)
+    isVowel[last - 1] = false;
+  } else if (word.endsWith("es") && consonantBefore(last - 2) && !/(s|x|z|ch|sh|ge|ce)es$/.test(word)) {
+    // Plurals without their own syllable (makes, games)
+    isVowel[last - 1] = false;
+  }
+  return isVowel;
+};
+
+// The [start, end) ranges of each vowel sound
+const findNuclei = (word: string, isVowel: boolean[]): Array<[number, number]> => {
+  const nuclei: Array<[number, number]> = [];
+  for (let i = 0; i < word.length; i++) {
+    if (!isVowel[i]) continue;
+    const current = nuclei[nuclei.length - 1];
+    if (current && current[1] === i && VOWEL_TEAMS.has(word.slice(i - 1, i + 1))) {
+      current[1] = i + 1;
+    } else {
+      nuclei.push([i, i + 1]);
+    }
+  }
+  return nuclei;
+};
+
+// Where the syllable boundary falls between two vowel sounds
+const boundaryBetween = (word: string, end: number, nextStart: number): number => {
+  const cluster = word.slice(end, nextStart);
+  if (cluster.length === 0) return nextStart;
+  // Consonant + le ends the word as its own syllable (ta-ble, lit-tle)
+  if (nextStart === word.length - 1 && word.endsWith("le") && cluster.endsWith("l") && cluster.length >= 2) {
+    return nextStart - 2;
+  }
+  if (cluster.length === 1) return cluster === "x" ? end + 1 : end;
+  if (DIGRAPHS.has(cluster)) return CLOSING_DIGRAPHS.has(cluster) ? nextStart : end;
+  if (DIGRAPHS.has(cluster.slice(-2)) && !CLOSING_DIGRAPHS.has(cluster.slice(-2))) return nextStart - 2;
+  if (DIGRAPHS.has(cluster.slice(0, 2))) return end + 2;
+  return end + 1;
+};
+
+/**
+ * Split a word into syllables ("rabbit" -> ["rab", "bit"]), keeping the
+ * word's own capitalization. Words that aren't plain English letters are
+ * returned whole.
+ */
+export const splitSyllables = (word: string): string[] => {
+  const lower = word.toLowerCase();
+  if (!/^[a-z]+$/.test(lower) || lower.length <= 3) return [word];
+
+  const nuclei = findNuclei(lower, vowelPattern(lower));
+  if (nuclei.length <= 1) return [word];
+
+  const syllables: string[] = [];
+  let start = 0;
+  for (let i = 0; i < nuclei.length - 1; i++) {
+    const cut = boundaryBetween(lower, nuclei[i][1], nuclei[i + 1][0]);
+    syllables.push(word.slice(start, cut));
+    start = cut;
+  }
+  syllables.push(word.slice(start));
+  return syllables.filter(Boolean);
+};
@@ -0,0 +1,449 @@
+// Pluggable chat-completion providers shared by the edge functions.
+//
+// Configuration comes from the function's environment:
+//   STORY_LLM_PROVIDER      "openrouter" (default), "openai-compatible" or "mock"
+//   STORY_LLM_MODEL         model id; STORY_LLM_MODEL_VARIANTS (comma separated)
+//                           splits users deterministically between models for A/B runs
+//   STORY_LLM_BASE_URL      base URL for "openai-compatible" (llama.cpp, Ollama, vLLM...)
+//   STORY_LLM_API_KEY       key for "openai-compatible" servers that need one
+//   OPENROUTER_API_KEY      key for "openrouter"
+//   STORY_LLM_TEMPERATURE   sampling temperature (default 0.8)
+//   STORY_LLM_TOKEN_LIMITS  max tokens per story length, e.g. "short=600,medium=1000,long=1500"
+//   STORY_LLM_JSON_SCHEMA   "false" for servers that only support {"type":"json_object"}
+//   STORY_LLM_MOCK_RESPONSE raw story response for "mock" to return instead of its own
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// What a completion is for. Providers that call a model ignore it; the mock
+// provider answers each task with its own canned response.
+export type CompletionTask =
+  | 'story'
+  | 'moderation'
+  | 'story-bible'
+  | 'comprehension-questions'
+  | 'illustration-plan'
+  | 'translation'
+  | 'definition';
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+  task: CompletionTask;
+  // OpenAI-style response_format ({ type: "json_schema", json_schema: {...} })
+  responseFormat?: { type: string; [key: string]: unknown };
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  text: string;
+  model: string;
+  usage?: TokenUsage;
+}
+
+export interface StreamChunk {
+  text?: string;
+  usage?: TokenUsage;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  stream(request: CompletionRequest): AsyncGenerator<StreamChunk>;
+}
+
+export type ProviderName = 'openrouter' | 'openai-compatible' | 'mock';
+
+export interface ProviderConfig {
+  provider: ProviderName;
+  model: string;
+  temperature: number;
+  tokenLimits: Record<string, number>;
+  baseUrl?: string;
+  apiKey?: string;
+  jsonSchema: boolean;
+}
+
+const DEFAULT_TOKEN_LIMITS: Record<string, number> = {
+  short: 600,
+  medium: 1000,
+  long: 1500
+};
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  'openrouter': 'openai/gpt-4o-mini',
+  'openai-compatible': 'gpt-4o-mini',
+  'mock': 'mock-story-v1'
+};
+
+function parseTokenLimits(value: string | undefined): Record<string, number> {
+  const limits = { ...DEFAULT_TOKEN_LIMITS };
+  if (!value) return limits;
+
+  for (const entry of value.split(',')) {
+    const [length, tokens] = entry.split('=').map((part) => part.trim());
+    const parsed = parseInt(tokens);
+    if (length && Number.isFinite(parsed) && parsed > 0) {
+      limits[length] = parsed;
+    }
+  }
+  return limits;
+}
+
+// Stable bucket for a user so they always see the same model variant
+function hashToIndex(key: string, size: number): number {
+  let hash = 0;
+  for (const char of key) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return Math.abs(hash) % size;
+}
+
+/**
+ * Read the provider configuration from the environment.
+ * @param assignmentKey Used to pick a model from STORY_LLM_MODEL_VARIANTS (usually the user id)
+ */
+export function loadProviderConfig(assignmentKey?: string): ProviderConfig {
+  const provider = (Deno.env.get('STORY_LLM_PROVIDER') || 'openrouter') as ProviderName;
+  if (!(provider in DEFAULT_MODELS)) {
+    throw new Error(`Unknown STORY_LLM_PROVIDER: ${provider}`);
+  }
+
+  const variants = (Deno.env.get('STORY_LLM_MODEL_VARIANTS') || '')
+    .split(',')
+    .map((model) => model.trim())
+    .filter(Boolean);
+  const model = variants.length > 0
+    ? variants[hashToIndex(assignmentKey || '', variants.length)]
+    : Deno.env.get('STORY_LLM_MODEL') || DEFAULT_MODELS[provider];
+
+  const temperature = parseFloat(Deno.env.get('STORY_LLM_TEMPERATURE') || '');
+
+  return {
+    provider,
+    model,
+    temperature: Number.isFinite(temperature) ? temperature : 0.8,
+    tokenLimits: parseTokenLimits(Deno.env.get('STORY_LLM_TOKEN_LIMITS')),
+    baseUrl: Deno.env.get('STORY_LLM_BASE_URL') || undefined,
+    apiKey: provider === 'openrouter'
+      ? Deno.env.get('OPENROUTER_API_KEY')
+      : Deno.env.get('STORY_LLM_API_KEY'),
+    jsonSchema: Deno.env.get('STORY_LLM_JSON_SCHEMA') !== 'false'
+  };
+}
+
+function toTokenUsage(usage: Record<string, number> | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+    totalTokens: usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0)
+  };
+}
+
+interface OpenAICompatibleOptions {
+  name: string;
+  baseUrl: string;
+  model: string;
+  temperature: number;
+  apiKey?: string;
+  jsonSchema: boolean;
+  extraHeaders?: Record<string, string>;
+}
+
+// Any server that speaks the OpenAI /chat/completions protocol: OpenAI itself,
+// OpenRouter, llama.cpp's server, Ollama, vLLM, LM Studio...
+class OpenAICompatibleProvider implements LlmProvider {
+  readonly name: string;
+  readonly model: string;
+
+  constructor(private readonly options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.model = options.model;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.post(request, false);
+    const data = await response.json();
+    console.log(`${this.name} response received:`, !!data.choices);
+
+    if (!data.choices || data.choices.length === 0) {
+      throw new Error(`No response generated from ${this.name}`);
+    }
+
+    const text = data.choices[0].message?.content;
+    if (!text) {
+      throw new Error(`Empty response from ${this.name}`);
+    }
+
+    return { text, model: data.model || this.model, usage: toTokenUsage(data.usage) };
+  }
+
+  // Read a server-sent event stream and yield each content delta.
+  // Comment lines (": OPENROUTER PROCESSING") are keep-alives and are skipped.
+  async *stream(request: CompletionRequest): AsyncGenerator<StreamChunk> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new Error(`Empty response stream from ${this.name}`);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+
+      buffer += value;
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+
+        if (!line.startsWith('data:')) continue;
+
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') return;
+
+        let chunk;
+        try {
+          chunk = JSON.parse(payload);
+        } catch {
+          console.warn('Skipping malformed stream chunk:', payload);
+          continue;
+        }
+
+        if (chunk.error) {
+          throw new Error(`${this.name} stream error: ${chunk.error.message || JSON.stringify(chunk.error)}`);
+        }
+
+        const text = chunk.choices?.[0]?.delta?.content;
+        const usage = toTokenUsage(chunk.usage);
+        if (text || usage) yield { text: text || undefined, usage };
+      }
+    }
+  }
+
+  private async post(request: CompletionRequest, stream: boolean): Promise<Response> {
+    const { options } = this;
+    let responseFormat = request.responseFormat;
+    if (responseFormat?.type === 'json_schema' && !options.jsonSchema) {
+      responseFormat = { type: 'json_object' };
+    }
+
+    // Optimized parameters for creative story generation
+    const requestBody = {
+      model: options.model,
+      messages: request.messages,
+      temperature: options.temperature,
+      max_tokens: request.maxTokens,
+      top_p: 0.9,
+      frequency_penalty: 0.3,
+      presence_penalty: 0.1,
+      ...(responseFormat ? { response_format: responseFormat } : {}),
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {})
+    };
+
+    console.log(`=== CALLING ${options.name.toUpperCase()} (model: ${options.model}, max_tokens: ${request.maxTokens}, stream: ${stream}) ===`);
+    const response = await fetch(`${options.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {}),
+        'Content-Type': 'application/json',
+        ...options.extraHeaders
+      },
+      body: JSON.stringify(requestBody),
+      signal: request.signal
+    });
+
+    console.log(`${options.name} response status:`, response.status);
+
+    // Log rate-limit headers
+    const rateLimitHeaders = {
+      limit: response.headers.get('x-ratelimit-limit-requests'),
+      remaining: response.headers.get('x-ratelimit-remaining-requests'),
+      reset: response.headers.get('x-ratelimit-reset-requests'),
+      retryAfter: response.headers.get('retry-after')
+    };
+    console.log(`${options.name} rate-limit headers:`, rateLimitHeaders);
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error');
+      console.error(`${options.name} API error:`, errorText);
+
+      // Enhanced error message with rate-limit info for 429 errors
+      if (response.status === 429) {
+        const rateLimitInfo = `Rate limit info: ${JSON.stringify(rateLimitHeaders)}`;
+        throw new Error(`${options.name} API rate limit exceeded (${response.status}): ${errorText}. ${rateLimitInfo}`);
+      }
+
+      throw new Error(`${options.name} API error (${response.status}): ${errorText}`);
+    }
+
+    return response;
+  }
+}
+
+// The mock's story: a short, gentle story that reads at about grade 1
+const MOCK_STORY = {
+  title: 'Pip and the Lantern Path',
+  paragraphs: [
+    'Pip was a small fox who lived by a quiet pond. Every night she looked at the stars.',
+    'One evening a lantern glowed on the path. Pip went to see where it led.',
+    'The path led to her friend Moss the turtle. Moss had made the lantern for her.',
+    'Pip and Moss sat by the pond and watched the stars together. It was the best night of all.'
+  ],
+  characters: [
+    { name: 'Pip', description: 'A curious little fox who loves the stars.' },
+    { name: 'Moss', description: 'A kind turtle and Pip\'s best friend.' }
+  ],
+  summary: 'A curious fox follows a glowing lantern and finds her friend waiting.'
+};
+
+const MOCK_RESPONSES: Record<Exclude<CompletionTask, 'story' | 'translation'>, unknown> = {
+  'moderation': { safe: true, categories: [] },
+  'story-bible': {
+    setting: 'A quiet pond at the edge of a forest.',
+    characters: MOCK_STORY.characters,
+    runningSummary: MOCK_STORY.summary
+  },
+  'comprehension-questions': {
+    questions: [
+      { kind: 'literal', question: 'What kind of animal is Pip?', choices: ['A fox', 'A turtle', 'An owl'], answerIndex: 0 },
+      { kind: 'inferential', question: 'Why did Moss make the lantern?', choices: ['To scare Pip', 'To show Pip the way to him', 'To find the pond'], answerIndex: 1 },
+      { kind: 'vocabulary', question: 'What does "glowed" mean in the story?', choices: ['Made a loud noise', 'Rolled away', 'Gave off a soft light'], answerIndex: 2 }
+    ]
+  },
+  'illustration-plan': {
+    characters: [
+      { name: 'Pip', appearance: 'A small orange fox with a white-tipped tail and a blue scarf.' },
+      { name: 'Moss', appearance: 'A round green turtle with a mossy shell and big kind eyes.' }
+    ],
+    scenes: [
+      'Pip the fox sits by a quiet pond at night, looking up at the stars.',
+      'Pip follows a glowing lantern along a forest path.',
+      'Pip finds Moss the turtle holding the lantern at the end of the path.',
+      'Pip and Moss sit side by side by the pond, watching the stars.'
+    ]
+  },
+  'definition': { definition: 'A word from the story, said in simpler words.', example: 'Pip used the word in a sentence.' }
+};
+
+/**
+ * Deterministic offline provider for tests and local development, so the
+ * whole generate-story flow can run without network access or API keys. Each
+ * request's `task` picks the response: a fixed story that uses any sight
+ * words listed in the system prompt, a "safe" moderation verdict, a fixed
+ * quiz, illustration plan, story bible or definition, and for a translation a
+ * "[translated]" copy of the sentences it was sent.
+ * `responses` replaces the response for a task, for tests that need a
+ * particular one (an unsafe story, a quiz that fails moderation...).
+ */
+export class MockProvider implements LlmProvider {
+  readonly name = 'Mock';
+
+  constructor(
+    readonly model: string = DEFAULT_MODELS.mock,
+    private readonly responses: Partial<Record<CompletionTask, string>> = {}
+  ) {}
+
+  complete(request: CompletionRequest): Promise<CompletionResult> {
+    const text = this.respond(request);
+    return Promise.resolve({ text, model: this.model, usage: this.usage(request, text) });
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<StreamChunk> {
+    const text = this.respond(request);
+    for (let index = 0; index < text.length; index += 16) {
+      if (request.signal?.aborted) {
+        throw new DOMException('The operation was aborted.', 'AbortError');
+      }
+      yield { text: text.slice(index, index + 16) };
+    }
+    yield { usage: this.usage(request, text) };
+  }
+
+  private respond(request: CompletionRequest): string {
+    const fixed = this.responses[request.task];
+    if (fixed !== undefined) return fixed;
+
+    switch (request.task) {
+      case 'story':
+        return JSON.stringify(this.story(request));
+      case 'translation': {
+        const story = JSON.parse(request.messages[request.messages.length - 1].content);
+        return JSON.stringify({
+          title: `[translated] ${story.title}`,
+          paragraphs: story.paragraphs.map((sentences: string[]) => sentences.map((sentence) => `[translated] ${sentence}`))
+        });
+      }
+      default:
+        return JSON.stringify(MOCK_RESPONSES[request.task]);
+    }
+  }
+
+  // The fixed story, with a sentence using the sight words the prompt asked for
+  private story(request: CompletionRequest): typeof MOCK_STORY {
+    const prompt = request.messages.map((message) => message.content).join('\n');
+    const sightWords = prompt.match(/sight words at least once: ([^\n]+?)\.\s/)?.[1]
+      .split(',')
+      .map((word) => word.trim())
+      .filter(Boolean) ?? [];
+    if (sightWords.length === 0) return MOCK_STORY;
+
+    const paragraphs = [...MOCK_STORY.paragraphs];
+    paragraphs[1] += ` Pip said the words ${sightWords.join(', ')} out loud.`;
+    return { ...MOCK_STORY, paragraphs };
+  }
+
+  private usage(request: CompletionRequest, text: string): TokenUsage {
+    // Rough four-characters-per-token estimate, stable for a given input
+    const promptTokens = Math.ceil(request.messages.reduce((sum, message) => sum + message.content.length, 0) / 4);
+    const completionTokens = Math.ceil(text.length / 4);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+}
+
+export function createProvider(config: ProviderConfig): LlmProvider {
+  switch (config.provider) {
+    case 'openrouter':
+      if (!config.apiKey) {
+        throw new Error('OPENROUTER_API_KEY environment variable not set');
+      }
+      return new OpenAICompatibleProvider({
+        name: 'OpenRouter',
+        baseUrl: config.baseUrl || 'https://openrouter.ai/api/v1',
+        model: config.model,
+        temperature: config.temperature,
+        apiKey: config.apiKey,
+        jsonSchema: config.jsonSchema,
+        extraHeaders: {
+          'HTTP-Referer': 'https://hyiyuhjabjnksjbqfwmn.supabase.co',
+          'X-Title': 'Story Generator'
+        }
+      });
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        name: 'OpenAI-compatible',
+        baseUrl: config.baseUrl || 'http://localhost:11434/v1',
+        model: config.model,
+        temperature: config.temperature,
+        apiKey: config.apiKey,
+        jsonSchema: config.jsonSchema
+      });
+    case 'mock': {
+      const storyResponse = Deno.env.get('STORY_LLM_MOCK_RESPONSE');
+      return new MockProvider(config.model, storyResponse ? { story: storyResponse } : {});
+    }
+  }
+}
@@ -0,0 +1,32 @@
+// Whether a user has an active Unlimited subscription, asked of the
+// check-subscription function. Any failure counts as not subscribed.
+export async function checkSubscription(userId: string): Promise<boolean> {
+  const stripeKey = Deno.env.get('STRIPE_SECRET_KEY');
+  if (!stripeKey) {
+    console.log('No Stripe key found, assuming non-premium');
+    return false;
+  }
+
+  try {
+    const response = await fetch('https://hyiyuhjabjnksjbqfwmn.supabase.co/functions/v1/check-subscription', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+      },
+      body: JSON.stringify({ userId })
+    });
+
+    if (!response.ok) {
+      console.log('Subscription check failed, assuming non-premium');
+      return false;
+    }
+
+    const data = await response.json();
+    console.log('Subscription check response:', data);
+    return data.subscribed || false;
+  } catch (error) {
+    console.error('Error checking subscription:', error);
+    return false;
+  }
+}
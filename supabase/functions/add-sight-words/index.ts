@@ -0,0 +1,143 @@
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { checkSubscription } from "../_shared/subscription.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Free accounts may keep this many sight words across all of their lists
+const FREE_WORD_LIMIT = 3;
+// A whole Fry band is 100 words; this leaves room without allowing abuse
+const MAX_WORDS_PER_REQUEST = 200;
+const MAX_WORD_LENGTH = 40;
+
+// A word to add, optionally with whether it starts out active (the default)
+type WordInput = string | { word: string; active?: boolean };
+
+interface AddSightWordsRequest {
+  listId: string;
+  words: WordInput[];
+}
+
+interface NewWord {
+  word: string;
+  active: boolean;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// Trim, drop blanks and overlong entries, and keep the first spelling of each word
+function normalizeWords(words: WordInput[]): NewWord[] {
+  const seen = new Set<string>();
+  const result: NewWord[] = [];
+  for (const entry of words) {
+    const text = typeof entry === 'string' ? entry : entry?.word;
+    if (typeof text !== 'string') continue;
+    const word = text.trim().replace(/\s+/g, ' ');
+    if (!word || word.length > MAX_WORD_LENGTH || seen.has(word.toLowerCase())) continue;
+    seen.add(word.toLowerCase());
+    result.push({ word, active: typeof entry === 'string' || entry.active !== false });
+  }
+  return result;
+}
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'No authorization header' }, 401);
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+      auth: { persistSession: false }
+    });
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authorization' }, 401);
+    }
+
+    const { listId, words }: AddSightWordsRequest = await req.json();
+    if (!listId || !Array.isArray(words)) {
+      return jsonResponse({ error: 'listId and words are required' }, 400);
+    }
+    if (words.length > MAX_WORDS_PER_REQUEST) {
+      return jsonResponse({ error: `At most ${MAX_WORDS_PER_REQUEST} words can be added at once` }, 400);
+    }
+
+    const { data: list, error: listError } = await supabase
+      .from('sight_word_lists')
+      .select('id')
+      .eq('id', listId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (listError) throw listError;
+    if (!list) {
+      return jsonResponse({ error: 'Word list not found' }, 404);
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('sight_word_entries')
+      .select('word')
+      .eq('list_id', listId);
+
+    if (existingError) throw existingError;
+
+    const existingWords = new Set((existing ?? []).map((entry: { word: string }) => entry.word.toLowerCase()));
+    const requested = normalizeWords(words);
+    const newWords = requested.filter(({ word }) => !existingWords.has(word.toLowerCase()));
+    const duplicates = requested
+      .filter(({ word }) => existingWords.has(word.toLowerCase()))
+      .map(({ word }) => word);
+
+    // The free limit counts every list, so extra lists cannot be used to get
+    // around it. add_sight_word_entries applies it while holding a lock on the
+    // user, so requests sent at the same time cannot go over it together.
+    let added: unknown[] = [];
+    let limitReached = false;
+    if (newWords.length > 0) {
+      const isUnlimited = await checkSubscription(user.id);
+      const { data, error: insertError } = await supabase.rpc('add_sight_word_entries', {
+        p_user_id: user.id,
+        p_list_id: listId,
+        p_words: newWords.map(({ word }) => word),
+        p_active: newWords.map(({ active }) => active),
+        p_limit: isUnlimited ? null : FREE_WORD_LIMIT
+      });
+
+      if (insertError) throw insertError;
+      added = data ?? [];
+      limitReached = !isUnlimited && added.length < newWords.length;
+      console.log('Word limit check:', { isUnlimited, requested: newWords.length, added: added.length });
+
+      // Nothing could be added: answer with the error the app turns into its upgrade prompt
+      if (limitReached && added.length === 0) {
+        return jsonResponse({
+          error: `Free accounts can keep up to ${FREE_WORD_LIMIT} sight words`,
+          code: 'WORD_LIMIT_REACHED',
+          limit: FREE_WORD_LIMIT,
+          premiumRequired: true
+        }, 403);
+      }
+    }
+
+    console.log('Sight words added:', { added: added.length, duplicates: duplicates.length, limitReached });
+    return jsonResponse({ added, duplicates, limitReached });
+  } catch (error) {
+    console.error('Error adding sight words:', error);
+    return jsonResponse({ error: 'Failed to add sight words' }, 500);
+  }
+});
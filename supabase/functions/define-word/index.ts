@@ -0,0 +1,161 @@
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createProvider, loadProviderConfig } from "../_shared/llm.ts";
+import { moderateText } from "../generate-story/moderation.ts";
+import { getLanguageProfile, isSupportedLanguage } from "../generate-story/languageProfiles.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_WORD_LENGTH = 40;
+// The sentence the word was tapped in, to pick the right meaning
+const MAX_SENTENCE_LENGTH = 300;
+// Definitions each account can have written per day (CST); the app's offline
+// dictionary covers common English words without using any
+const DAILY_DEFINITION_LIMIT = 100;
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface DefineWordRequest {
+  word: string;
+  sentence?: string;
+  language?: string;
+  readingLevel?: string;
+}
+
+const DEFINITION_PROMPT = `You help young children understand words in the stories they read.
+Reply with JSON only: {"definition": "...", "example": "..."}
+- "definition": one short sentence a child can understand, using simpler words than the word itself. Give the meaning the word has in the sentence it came from.
+- "example": a different short, friendly sentence that uses the word.
+Keep both suitable for children. If the word is a name, say who or what it names.`;
+
+// Get current date in CST timezone, the day the daily limits run on
+function getCSTDate(): string {
+  const now = new Date();
+  const cstOffset = -6; // CST is UTC-6
+  const cstTime = new Date(now.getTime() + (cstOffset * 60 * 60 * 1000));
+  return cstTime.toISOString().split('T')[0];
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// Ask the model for the word's meaning, answering with the response to send
+async function writeDefinition(
+  userId: string,
+  cleanWord: string,
+  context: string,
+  language: string,
+  level: string | null
+): Promise<Response> {
+  const provider = createProvider(loadProviderConfig(userId));
+  const result = await provider.complete({
+    messages: [
+      { role: 'system', content: DEFINITION_PROMPT },
+      {
+        role: 'user',
+        content: [
+          `Word: ${cleanWord}`,
+          context && `Sentence: ${context}`,
+          `Answer in ${language}.`,
+          level && `The reader is at reading level ${level}.`
+        ].filter(Boolean).join('\n')
+      }
+    ],
+    maxTokens: 200,
+    task: 'definition',
+    responseFormat: { type: 'json_object' }
+  });
+
+  const start = result.text.indexOf('{');
+  const end = result.text.lastIndexOf('}');
+  const parsed = start !== -1 && end > start ? JSON.parse(result.text.slice(start, end + 1)) : null;
+  if (typeof parsed?.definition !== 'string' || !parsed.definition.trim()) {
+    console.error('Definition response is missing fields:', result.text.slice(0, 200));
+    return jsonResponse({ error: 'Could not define the word' }, 502);
+  }
+
+  const definition = parsed.definition.trim();
+  const example = typeof parsed.example === 'string' ? parsed.example.trim() : '';
+  const moderation = await moderateText(`${definition}\n${example}`, provider);
+  if (!moderation.safe) {
+    console.warn('Definition failed moderation:', cleanWord, moderation.flags);
+    return jsonResponse({ error: 'No definition available for this word' }, 422);
+  }
+
+  return jsonResponse({ word: cleanWord, definition, example: example || null });
+}
+
+// Give back a definition reserved from today's allowance
+async function releaseDefinition(supabase: SupabaseClient, userId: string) {
+  const { error } = await supabase.rpc('release_word_definition', { p_user_id: userId });
+  if (error) console.error('Error releasing word definition:', error);
+}
+
+// Definitions for words the app's offline dictionary doesn't have
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'No authorization header' }, 401);
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+      auth: { persistSession: false }
+    });
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authorization' }, 401);
+    }
+
+    const { word, sentence, language = 'english', readingLevel }: DefineWordRequest = await req.json();
+    const cleanWord = typeof word === 'string' ? word.trim() : '';
+    if (!cleanWord || cleanWord.length > MAX_WORD_LENGTH || !/^[\p{L}\p{M}'’-]+$/u.test(cleanWord)) {
+      return jsonResponse({ error: 'A single word is required' }, 400);
+    }
+    // The language name goes into the prompt, so only the app's languages are accepted
+    if (typeof language !== 'string' || !isSupportedLanguage(language)) {
+      return jsonResponse({ error: 'Unsupported language' }, 400);
+    }
+    const context = typeof sentence === 'string' ? sentence.slice(0, MAX_SENTENCE_LENGTH) : '';
+    const level = typeof readingLevel === 'string' && Object.hasOwn(getLanguageProfile(language).levels, readingLevel)
+      ? readingLevel
+      : null;
+
+    const { data: reserved, error: limitError } = await supabase.rpc('reserve_word_definition', {
+      p_user_id: user.id,
+      p_limit: DAILY_DEFINITION_LIMIT,
+      p_today: getCSTDate()
+    });
+    if (limitError) throw limitError;
+    if (reserved !== true) {
+      return jsonResponse({ error: 'Daily definition limit reached. Try again tomorrow.', limitReached: true }, 429);
+    }
+
+    // A definition that isn't shown doesn't count against the allowance
+    let response: Response;
+    try {
+      response = await writeDefinition(user.id, cleanWord, context, language, level);
+    } catch (error) {
+      await releaseDefinition(supabase, user.id);
+      throw error;
+    }
+    if (!response.ok) await releaseDefinition(supabase, user.id);
+    return response;
+  } catch (error) {
+    console.error('Error defining word:', error);
+    return jsonResponse({ error: 'Failed to define the word' }, 500);
+  }
+});
@@ -126,7 +126,19 @@ Deno.serve(async (req) => {
       console.log('Deleted favorite stories');
     }
 
-    // 3. Delete sight words
+    // 3. Delete story series
+    const { error: seriesError } = await supabaseAdmin
+      .from('story_series')
+      .delete()
+      .eq('user_id', userId);
+    
+    if (seriesError) {
+      console.error('Error deleting story series:', seriesError);
+    } else {
+      console.log('Deleted story series');
+    }
+
+    // 4. Delete sight words
     const { error: sightWordsError } = await supabaseAdmin
       .from('sight_words')
       .delete()
@@ -138,7 +150,89 @@ Deno.serve(async (req) => {
       console.log('Deleted sight words');
     }
 
-    // 4. Delete stories
+    // 5. Delete sight word lists (their words and practice results go with them)
+    const { error: wordListsError } = await supabaseAdmin
+      .from('sight_word_lists')
+      .delete()
+      .eq('user_id', userId);
+    
+    if (wordListsError) {
+      console.error('Error deleting sight word lists:', wordListsError);
+    } else {
+      console.log('Deleted sight word lists');
+    }
+
+    // 6. Delete reading sessions and any recordings kept with them
+    const { data: recordings } = await supabaseAdmin
+      .from('reading_sessions')
+      .select('audio_path')
+      .eq('user_id', userId)
+      .not('audio_path', 'is', null);
+
+    const recordingPaths = (recordings || []).map((recording) => recording.audio_path);
+    if (recordingPaths.length > 0) {
+      const { error: recordingsError } = await supabaseAdmin.storage
+        .from('reading-recordings')
+        .remove(recordingPaths);
+
+      if (recordingsError) {
+        console.error('Error deleting reading recordings:', recordingsError);
+      } else {
+        console.log('Deleted reading recordings');
+      }
+    }
+
+    const { error: readingSessionsError } = await supabaseAdmin
+      .from('reading_sessions')
+      .delete()
+      .eq('user_id', userId);
+    
+    if (readingSessionsError) {
+      console.error('Error deleting reading sessions:', readingSessionsError);
+    } else {
+      console.log('Deleted reading sessions');
+    }
+
+    // 7. Delete comprehension quiz results
+    const { error: quizResultsError } = await supabaseAdmin
+      .from('quiz_results')
+      .delete()
+      .eq('user_id', userId);
+    
+    if (quizResultsError) {
+      console.error('Error deleting quiz results:', quizResultsError);
+    } else {
+      console.log('Deleted quiz results');
+    }
+
+    // 8. Delete story illustrations (stored in a folder named after the user)
+    const illustrationPaths: string[] = [];
+    for (let offset = 0; ; offset += 1000) {
+      const { data: files, error: listError } = await supabaseAdmin.storage
+        .from('story-illustrations')
+        .list(userId, { limit: 1000, offset });
+
+      if (listError) {
+        console.error('Error listing story illustrations:', listError);
+        break;
+      }
+      illustrationPaths.push(...(files || []).map((file) => `${userId}/${file.name}`));
+      if (!files || files.length < 1000) break;
+    }
+
+    if (illustrationPaths.length > 0) {
+      const { error: illustrationsError } = await supabaseAdmin.storage
+        .from('story-illustrations')
+        .remove(illustrationPaths);
+
+      if (illustrationsError) {
+        console.error('Error deleting story illustrations:', illustrationsError);
+      } else {
+        console.log('Deleted story illustrations');
+      }
+    }
+
+    // 9. Delete stories
     const { error: storiesError } = await supabaseAdmin
       .from('stories')
       .delete()
@@ -150,7 +244,31 @@ Deno.serve(async (req) => {
       console.log('Deleted stories');
     }
 
-    // 5. Delete user limits
+    // 10. Delete story history
+    const { error: historyError } = await supabaseAdmin
+      .from('generated_stories')
+      .delete()
+      .eq('user_id', userId);
+    
+    if (historyError) {
+      console.error('Error deleting story history:', historyError);
+    } else {
+      console.log('Deleted story history');
+    }
+
+    // 11. Delete child profiles
+    const { error: childProfilesError } = await supabaseAdmin
+      .from('child_profiles')
+      .delete()
+      .eq('user_id', userId);
+    
+    if (childProfilesError) {
+      console.error('Error deleting child profiles:', childProfilesError);
+    } else {
+      console.log('Deleted child profiles');
+    }
+
+    // 12. Delete user limits
     const { error: limitsError } = await supabaseAdmin
       .from('user_limits')
       .delete()
@@ -162,7 +280,7 @@ Deno.serve(async (req) => {
       console.log('Deleted user limits');
     }
 
-    // 6. Delete profile
+    // 13. Delete profile
     const { error: profileError } = await supabaseAdmin
       .from('profiles')
       .delete()
@@ -174,7 +292,7 @@ Deno.serve(async (req) => {
       console.log('Deleted profile');
     }
 
-    // 7. Delete the auth user (this will cascade to any remaining data)
+    // 14. Delete the auth user (this will cascade to any remaining data)
     const { error: deleteUserError } = await supabaseAdmin.auth.admin.deleteUser(userId);
     
     if (deleteUserError) {
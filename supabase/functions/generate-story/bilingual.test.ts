@@ -0,0 +1,52 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { MockProvider } from "../_shared/llm.ts";
+import { splitSentences } from "../../../src/utils/bookPages.ts";
+import { splitIntoSentences, translateStory } from "./bilingual.ts";
+
+const story = {
+  title: 'Pip and the Lantern Path',
+  paragraphs: ['Pip was a small fox. She lived by a quiet pond.', 'One evening a lantern glowed on the path.'],
+  characters: [{ name: 'Pip', description: 'A curious little fox.' }],
+  summary: 'A fox follows a lantern.'
+};
+
+Deno.test('pairs every sentence with its translation', async () => {
+  const bilingual = await translateStory(new MockProvider(), story, 'english', 'spanish', '1');
+  assertEquals(bilingual?.paragraphs[0], [
+    { primary: 'Pip was a small fox.', secondary: '[translated] Pip was a small fox.' },
+    { primary: 'She lived by a quiet pond.', secondary: '[translated] She lived by a quiet pond.' }
+  ]);
+});
+
+Deno.test('leaves out a translation the classifier flags', async () => {
+  Deno.env.set('MODERATION_CLASSIFIER', 'llm');
+  try {
+    const provider = new MockProvider(undefined, { moderation: '{"safe": false, "categories": ["profanity"]}' });
+    assertEquals(await translateStory(provider, story, 'english', 'spanish', '1'), null);
+  } finally {
+    Deno.env.delete('MODERATION_CLASSIFIER');
+  }
+});
+
+Deno.test('leaves out a translation the blocklist flags', async () => {
+  const provider = new MockProvider(undefined, {
+    translation: JSON.stringify({ title: 'Pip', paragraphs: [['Pip had a gun.', 'She lived by a pond.'], ['A lantern glowed.']] })
+  });
+  assertEquals(await translateStory(provider, story, 'english', 'spanish', '1'), null);
+});
+
+Deno.test('splits sentences the same way as the book pages', () => {
+  const cases: [string, string[]][] = [
+    ['Pip was a small fox. She lived by a quiet pond.', ['Pip was a small fox.', 'She lived by a quiet pond.']],
+    ['"Hi!" said Moss. "Hello," said Pip.', ['"Hi!" said Moss.', '"Hello," said Pip.']],
+    ['Where is the moon? It hid… Then it came back!', ['Where is the moon?', 'It hid…', 'Then it came back!']],
+    ['"Look!" Pip ran to the pond.', ['"Look!"', 'Pip ran to the pond.']],
+    ['كان الثعلب صغيرا. هل رأيت القمر؟ نعم', ['كان الثعلب صغيرا.', 'هل رأيت القمر؟', 'نعم']],
+    ['小狐狸很小。它住在池塘边！', ['小狐狸很小。', '它住在池塘边！']],
+    ['A fox with no full stop', ['A fox with no full stop']]
+  ];
+  for (const [paragraph, sentences] of cases) {
+    assertEquals(splitIntoSentences(paragraph), sentences);
+    assertEquals(splitSentences(paragraph).map((sentence) => sentence.trim()), sentences);
+  }
+});
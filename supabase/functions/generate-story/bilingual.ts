@@ -0,0 +1,102 @@
+import { z } from "https://esm.sh/zod@3.23.8";
+import { LlmProvider } from "../_shared/llm.ts";
+import { StructuredStory } from "./structuredStory.ts";
+import { moderateText } from "./moderation.ts";
+
+// A sentence of the story and its translation
+export interface SentencePair {
+  primary: string;
+  secondary: string;
+}
+
+// The story's text as aligned sentence pairs, one list per paragraph
+export interface BilingualText {
+  secondaryLanguage: string;
+  // The title in the secondary language
+  title: string;
+  paragraphs: SentencePair[][];
+}
+
+// A sentence ends at closing punctuation (and quotes) followed by a word that
+// isn't lowercase, so "Hi!" said Moss stays together, or after a CJK full stop.
+// Kept in step with SENTENCE_BREAK in src/utils/bookPages.ts, which pages the
+// book the translation is read alongside.
+const SENTENCE_BREAK = /(?<=[.!?…।؟]["'”’»)]*)\s+(?=[^\p{Ll}])|(?<=[。！？])(?=.)/u;
+
+export function splitIntoSentences(paragraph: string): string[] {
+  const sentences = paragraph.split(SENTENCE_BREAK).map((sentence) => sentence.trim()).filter(Boolean);
+  return sentences.length > 0 ? sentences : [paragraph];
+}
+
+function buildTranslationPrompt(language: string, secondaryLanguage: string, readingLevel: string): string {
+  return `You write the translation for a children's story that families read side by side in two languages.
+The story is in ${language}. Translate the title and every sentence into ${secondaryLanguage}.
+Translate each sentence on its own so the two languages line up sentence by sentence: never merge, split, reorder or skip sentences.
+Keep names as they are. Use words as simple as the original, for a reader at grade level ${readingLevel.toUpperCase()}.
+The input lists the sentences of each paragraph. Respond with a single JSON object and nothing else, with one translation for every sentence in the same shape:
+{"title": "...", "paragraphs": [["translation of sentence 1", "translation of sentence 2"], ["..."]]}`;
+}
+
+const translationSchema = z.object({
+  title: z.string().trim().min(1),
+  paragraphs: z.array(z.array(z.string().trim().min(1)))
+});
+
+/**
+ * Pair every sentence of a finished story with its translation, for reading
+ * in two languages. The story's own language stays the one it was written,
+ * leveled and checked for sight words in. The translation is an extra: if it
+ * doesn't line up with the story or fails moderation, the story is returned
+ * in one language rather than failing.
+ */
+export async function translateStory(
+  provider: LlmProvider,
+  story: StructuredStory,
+  language: string,
+  secondaryLanguage: string,
+  readingLevel: string
+): Promise<BilingualText | null> {
+  const sentences = story.paragraphs.map(splitIntoSentences);
+
+  try {
+    const result = await provider.complete({
+      messages: [
+        { role: 'system', content: buildTranslationPrompt(language, secondaryLanguage, readingLevel) },
+        { role: 'user', content: JSON.stringify({ title: story.title, paragraphs: sentences }) }
+      ],
+      maxTokens: 3000,
+      task: 'translation',
+      responseFormat: { type: 'json_object' }
+    });
+
+    const start = result.text.indexOf('{');
+    const end = result.text.lastIndexOf('}');
+    if (start === -1 || end < start) {
+      throw new Error('Translation response was not JSON');
+    }
+
+    const translation = translationSchema.parse(JSON.parse(result.text.slice(start, end + 1)));
+    const aligned = translation.paragraphs.length === sentences.length &&
+      translation.paragraphs.every((paragraph, index) => paragraph.length === sentences[index].length);
+    if (!aligned) {
+      throw new Error('Translation does not line up with the story sentences');
+    }
+
+    const moderation = await moderateText([translation.title, ...translation.paragraphs.flat()].join('\n'), provider);
+    if (!moderation.safe) {
+      console.warn('Translation failed moderation - leaving it out:', moderation.flags);
+      return null;
+    }
+
+    return {
+      secondaryLanguage,
+      title: translation.title,
+      paragraphs: sentences.map((paragraph, i) =>
+        paragraph.map((sentence, j) => ({ primary: sentence, secondary: translation.paragraphs[i][j] }))
+      )
+    };
+  } catch (error) {
+    console.error('Translation failed, returning the story in one language:', error);
+    return null;
+  }
+}
@@ -0,0 +1,31 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { MockProvider } from "../_shared/llm.ts";
+import { generateComprehensionQuestions } from "./comprehension.ts";
+
+const story = {
+  title: 'Pip and the Lantern Path',
+  paragraphs: ['Pip was a small fox who lived by a quiet pond.', 'One evening a lantern glowed on the path.'],
+  characters: [{ name: 'Pip', description: 'A curious little fox.' }],
+  summary: 'A fox follows a lantern.'
+};
+
+Deno.test('keeps questions that pass moderation', async () => {
+  Deno.env.set('MODERATION_CLASSIFIER', 'llm');
+  try {
+    const questions = await generateComprehensionQuestions(new MockProvider(), story, '1', 'english');
+    assertEquals(questions.length, 3);
+  } finally {
+    Deno.env.delete('MODERATION_CLASSIFIER');
+  }
+});
+
+Deno.test('leaves out questions the classifier flags', async () => {
+  Deno.env.set('MODERATION_CLASSIFIER', 'llm');
+  try {
+    const provider = new MockProvider(undefined, { moderation: '{"safe": false, "categories": ["violence"]}' });
+    const questions = await generateComprehensionQuestions(provider, story, '1', 'english');
+    assertEquals(questions, []);
+  } finally {
+    Deno.env.delete('MODERATION_CLASSIFIER');
+  }
+});
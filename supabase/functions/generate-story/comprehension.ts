@@ -0,0 +1,116 @@
+import { z } from "https://esm.sh/zod@3.23.8";
+import { LlmProvider } from "../_shared/llm.ts";
+import { StructuredStory } from "./structuredStory.ts";
+import { moderateText } from "./moderation.ts";
+
+export type QuestionKind = 'literal' | 'inferential' | 'vocabulary';
+
+// A multiple-choice question about the story; `answerIndex` is the answer key
+export interface ComprehensionQuestion {
+  kind: QuestionKind;
+  question: string;
+  choices: string[];
+  answerIndex: number;
+}
+
+// Fewer questions and choices for the youngest readers
+function quizShape(readingLevel: string): { questions: number; choices: number } {
+  if (readingLevel === 'k' || readingLevel === '1') return { questions: 3, choices: 3 };
+  if (readingLevel === '2' || readingLevel === '3') return { questions: 4, choices: 4 };
+  return { questions: 5, choices: 4 };
+}
+
+const MIN_QUESTIONS = 3;
+
+function buildQuestionsPrompt(readingLevel: string, language: string): string {
+  const shape = quizShape(readingLevel);
+  return `You write comprehension questions for children's stories, like a teacher checking understanding after reading time.
+Write exactly ${shape.questions} multiple-choice questions about the story for a reader at grade level ${readingLevel.toUpperCase()}:
+- at least one "literal" question, answered by something the story says directly
+- at least one "inferential" question, answered by thinking about why something happened or how a character felt
+- at least one "vocabulary" question, asking what a word from the story means there
+Each question has ${shape.choices} short choices, exactly one of them correct. Wrong choices should be believable but clearly wrong to a reader who understood the story.
+Use words and sentences as simple as the story's own.${language !== 'english' ? ` Write the questions and choices in ${language}.` : ''}
+Respond with a single JSON object and nothing else:
+{"questions": [{"kind": "literal" | "inferential" | "vocabulary", "question": "...", "choices": ["...", ...], "answerIndex": index of the correct choice}]}`;
+}
+
+const questionSchema = z
+  .object({
+    kind: z.enum(['literal', 'inferential', 'vocabulary']),
+    question: z.string().trim().min(1),
+    choices: z.array(z.string().trim().min(1)).min(2).max(5),
+    answerIndex: z.number().int().min(0)
+  })
+  .refine((question) => question.answerIndex < question.choices.length, 'answerIndex is out of range')
+  .refine(
+    (question) => new Set(question.choices.map((choice) => choice.toLowerCase())).size === question.choices.length,
+    'choices repeat'
+  );
+
+// Models tend to put the right answer first; move it somewhere random
+function shuffleChoices(question: ComprehensionQuestion): ComprehensionQuestion {
+  const answer = question.choices[question.answerIndex];
+  const choices = [...question.choices];
+  for (let i = choices.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [choices[i], choices[j]] = [choices[j], choices[i]];
+  }
+  return { ...question, choices, answerIndex: choices.indexOf(answer) };
+}
+
+/**
+ * Write multiple-choice comprehension questions for a finished story. The quiz
+ * is an extra: if the model's questions can't be used or fail moderation,
+ * the story is returned without one rather than failing.
+ */
+export async function generateComprehensionQuestions(
+  provider: LlmProvider,
+  story: StructuredStory,
+  readingLevel: string,
+  language: string
+): Promise<ComprehensionQuestion[]> {
+  try {
+    const result = await provider.complete({
+      messages: [
+        { role: 'system', content: buildQuestionsPrompt(readingLevel, language) },
+        { role: 'user', content: JSON.stringify({ title: story.title, paragraphs: story.paragraphs }) }
+      ],
+      maxTokens: 800,
+      task: 'comprehension-questions',
+      responseFormat: { type: 'json_object' }
+    });
+
+    const start = result.text.indexOf('{');
+    const end = result.text.lastIndexOf('}');
+    if (start === -1 || end < start) {
+      throw new Error('Questions response was not JSON');
+    }
+
+    const parsed = JSON.parse(result.text.slice(start, end + 1));
+    const questions: ComprehensionQuestion[] = [];
+    for (const candidate of Array.isArray(parsed.questions) ? parsed.questions : []) {
+      const question = questionSchema.safeParse(candidate);
+      if (question.success) questions.push(shuffleChoices(question.data as ComprehensionQuestion));
+    }
+    questions.splice(quizShape(readingLevel).questions);
+
+    if (questions.length < MIN_QUESTIONS) {
+      throw new Error(`Only ${questions.length} usable questions`);
+    }
+
+    const moderation = await moderateText(
+      questions.map((question) => [question.question, ...question.choices].join('\n')).join('\n'),
+      provider
+    );
+    if (!moderation.safe) {
+      console.warn('Comprehension questions failed moderation - leaving them out:', moderation.flags);
+      return [];
+    }
+
+    return questions;
+  } catch (error) {
+    console.error('Comprehension questions failed, returning the story without them:', error);
+    return [];
+  }
+}
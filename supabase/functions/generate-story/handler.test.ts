@@ -0,0 +1,149 @@
+// Runs the generate-story endpoint end to end against the mock LLM provider
+// and an in-memory Supabase client: deno test --allow-env supabase/functions
+import { assert, assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { handleStoryRequest } from "./handler.ts";
+
+interface RecordedCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// Just enough of the Supabase client for generate-story: every query succeeds,
+// inserts into generated_stories return an id, and writes are recorded.
+function fakeSupabase() {
+  const rpcs: RecordedCall[] = [];
+  const inserts: RecordedCall[] = [];
+
+  const query = (table: string) => {
+    let data: unknown = null;
+    const builder = {
+      insert(row: Record<string, unknown>) {
+        inserts.push({ name: table, args: row });
+        if (table === 'generated_stories') data = { id: 'story-1' };
+        return builder;
+      },
+      update: () => builder,
+      select: () => builder,
+      eq: () => builder,
+      single: () => builder,
+      maybeSingle: () => builder,
+      then(resolve: (result: { data: unknown; error: null }) => unknown) {
+        return Promise.resolve({ data, error: null }).then(resolve);
+      }
+    };
+    return builder;
+  };
+
+  const client = {
+    auth: {
+      getUser: () => Promise.resolve({ data: { user: { id: 'user-1' } }, error: null })
+    },
+    from: query,
+    rpc(name: string, args: Record<string, unknown>) {
+      rpcs.push({ name, args });
+      const data = name === 'get_or_create_user_limits'
+        ? { daily_stories_used: 0, last_reset_date: '2000-01-01' }
+        : null;
+      return Promise.resolve({ data, error: null });
+    }
+  };
+
+  return { client: client as unknown as Parameters<typeof handleStoryRequest>[1], rpcs, inserts };
+}
+
+function storyRequest(params: Record<string, unknown> = {}): Request {
+  return new Request('http://localhost/generate-story', {
+    method: 'POST',
+    headers: { 'Authorization': 'Bearer test-token', 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      readingLevel: '1',
+      interestLevel: 'elementary',
+      theme: 'nature',
+      language: 'english',
+      length: 'short',
+      hasThemeLesson: false,
+      isRhymingVerse: false,
+      useSightWords: true,
+      keywords: ['look', 'see'],
+      ...params
+    })
+  });
+}
+
+Deno.env.set('STORY_LLM_PROVIDER', 'mock');
+Deno.env.set('MODERATION_CLASSIFIER', 'none');
+
+Deno.test('returns, saves and counts a generated story', async () => {
+  const supabase = fakeSupabase();
+  const response = await handleStoryRequest(storyRequest(), supabase.client);
+  const story = await response.json();
+
+  assertEquals(response.status, 200);
+  assertEquals(story.title, 'Pip and the Lantern Path');
+  assertEquals(story.id, 'story-1');
+  assert(story.content.includes('Pip said the words look, see out loud.'));
+  assertEquals(story.sightWords.missing, []);
+  assert(supabase.rpcs.some((call) => call.name === 'increment_daily_stories'));
+
+  const saved = supabase.inserts.find((call) => call.name === 'generated_stories');
+  assertEquals(saved?.args.title, story.title);
+  assertEquals(saved?.args.provider, 'Mock');
+  const moderation = supabase.inserts.find((call) => call.name === 'story_moderation_events');
+  assertEquals(moderation?.args.decision, 'approved');
+});
+
+Deno.test('streams the story as start, title, delta and done events', async () => {
+  const supabase = fakeSupabase();
+  const response = await handleStoryRequest(storyRequest({ stream: true }), supabase.client);
+  const events = (await response.text()).trim().split('\n').map((line) => JSON.parse(line));
+
+  assertEquals(response.headers.get('Content-Type'), 'application/x-ndjson');
+  assertEquals(events[0].type, 'start');
+  assertEquals(events.find((event) => event.type === 'title')?.title, 'Pip and the Lantern Path');
+  const text = events.filter((event) => event.type === 'delta').map((event) => event.text).join('');
+  assert(text.startsWith('Pip was a small fox'));
+
+  const done = events[events.length - 1];
+  assertEquals(done.type, 'done');
+  assertEquals(done.story.id, 'story-1');
+  assert(supabase.rpcs.some((call) => call.name === 'increment_daily_stories'));
+});
+
+Deno.test('blocks a story that fails moderation without counting it', async () => {
+  Deno.env.set('STORY_LLM_MOCK_RESPONSE', JSON.stringify({
+    title: 'The Bad Day',
+    paragraphs: ['A man had a gun. He went to the park.'],
+    characters: [],
+    summary: 'A story that should not be shown.'
+  }));
+  try {
+    const supabase = fakeSupabase();
+    const response = await handleStoryRequest(storyRequest({ useSightWords: false, keywords: [] }), supabase.client);
+    const body = await response.json();
+
+    assertEquals(response.status, 422);
+    assertEquals(body.blocked, true);
+    assert(!supabase.rpcs.some((call) => call.name === 'increment_daily_stories'));
+    assert(!supabase.inserts.some((call) => call.name === 'generated_stories'));
+    const decisions = supabase.inserts
+      .filter((call) => call.name === 'story_moderation_events')
+      .map((call) => call.args.decision);
+    assertEquals(decisions, ['regenerated', 'blocked']);
+  } finally {
+    Deno.env.delete('STORY_LLM_MOCK_RESPONSE');
+  }
+});
+
+Deno.test('adds the quiz and translation that were asked for', async () => {
+  const supabase = fakeSupabase();
+  const response = await handleStoryRequest(
+    storyRequest({ includeQuestions: true, secondaryLanguage: 'spanish' }),
+    supabase.client
+  );
+  const story = await response.json();
+
+  assertEquals(response.status, 200);
+  assertEquals(story.questions.length, 3);
+  assertEquals(story.bilingual.secondaryLanguage, 'spanish');
+  assertEquals(story.bilingual.title, '[translated] Pip and the Lantern Path');
+});
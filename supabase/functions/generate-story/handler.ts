@@ -0,0 +1,1509 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import {
+  STORY_RESPONSE_FORMAT,
+  StoryFormatError,
+  StoryStreamParser,
+  StructuredStory,
+  parseStoryOutput
+} from "./structuredStory.ts";
+import {
+  BandVerdict,
+  ReadabilityAdjustment,
+  ReadabilityMetrics,
+  ReadabilityReport,
+  ReadingBand,
+  analyzeReadability,
+  checkReadingBand,
+  describeBandMiss,
+  storyLength,
+  trimToLength
+} from "./readability.ts";
+import { getLanguageProfile } from "./languageProfiles.ts";
+import {
+  SIGHT_WORD_COVERAGE_THRESHOLD,
+  SightWordCoverage,
+  describeMissingSightWords,
+  measureSightWordCoverage
+} from "./sightWords.ts";
+import { checkSubscription } from "../_shared/subscription.ts";
+import {
+  ChatMessage,
+  CompletionRequest,
+  LlmProvider,
+  ProviderConfig,
+  TokenUsage,
+  createProvider,
+  loadProviderConfig
+} from "../_shared/llm.ts";
+import {
+  ModerationDecision,
+  ModerationResult,
+  StoryBlockedError,
+  describeModerationFlags,
+  moderateStory,
+  screenText
+} from "./moderation.ts";
+import {
+  REVISION_ACTIONS,
+  RevisionAction,
+  RevisionRequest,
+  StoryEdit,
+  buildEditInstruction,
+  canRevise,
+  revisedLength
+} from "./revisions.ts";
+import {
+  SeriesChapter,
+  SeriesRequest,
+  StoryBible,
+  buildSeriesPrompt,
+  updateStoryBible
+} from "./series.ts";
+import {
+  ChildProfileRow,
+  Personalization,
+  buildPersonalizationPrompt,
+  toPersonalization
+} from "./personalization.ts";
+import { SightWordEntryRow, pickStoryWords } from "./wordLists.ts";
+import { ComprehensionQuestion, generateComprehensionQuestions } from "./comprehension.ts";
+import { StoryIllustrations, drawIllustrations, planIllustrations } from "./illustrations.ts";
+import { GeneratedImage, createImageProvider, loadImageConfig } from "./imageGeneration.ts";
+import { BilingualText, translateStory } from "./bilingual.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface StoryRequest {
+  readingLevel: "k" | "1" | "2" | "3" | "4" | "5" | "teen";
+  interestLevel: "elementary" | "middle-grade" | "young-adult";
+  theme: "fantasy" | "mystery" | "fairytale" | "science" | "nature" | string;
+  language: string;
+  themeLesson?: string;
+  hasThemeLesson: boolean;
+  length: "short" | "medium" | "long";
+  // Write the story as rhyming verse, in the language's own style
+  isRhymingVerse: boolean;
+  // Sent by older clients for the English-only Dr. Seuss style; read as `isRhymingVerse`
+  isDrSeussStyle?: boolean;
+  useSightWords: boolean;
+  keywords: string[];
+  stream?: boolean;
+  revision?: RevisionRequest;
+  // Filled in by this function from `revision`; never read from the client
+  edit?: StoryEdit;
+  series?: SeriesRequest;
+  // Filled in by this function from `series`; never read from the client
+  chapter?: SeriesChapter;
+  childProfileId?: string;
+  // When set, the story's sight words are picked from this list rather than `keywords`
+  sightWordListId?: string;
+  // Filled in by this function from the child profile; never read from the client
+  personalization?: Personalization;
+  // Follow the story with a multiple-choice comprehension quiz
+  includeQuestions?: boolean;
+  // Illustrate the story as a picture book (Unlimited only, with a daily image quota)
+  includeIllustrations?: boolean;
+  // Pair every sentence with its translation in this language. The story is
+  // still written, leveled and checked for sight words in `language`.
+  secondaryLanguage?: string;
+}
+
+interface StoryDraft extends StructuredStory {
+  // Paragraphs joined with "\n", kept for clients that render plain text
+  content: string;
+}
+
+interface StoryResponse extends StoryDraft {
+  readability: ReadabilityReport;
+  // Only present when the story was asked to use sight words
+  sightWords?: SightWordCoverage;
+  // Only present when questions were asked for and could be written
+  questions?: ComprehensionQuestion[];
+  // Only present when pictures were asked for and at least one could be drawn
+  illustrations?: StoryIllustrations;
+  // Why pictures that were asked for were left out
+  illustrationsUnavailable?: 'premium' | 'quota' | 'error';
+  // Only present when a translation was asked for and lined up with the story
+  bilingual?: BilingualText;
+  // generated_stories row for this story; absent if it could not be saved
+  id?: string;
+  version?: StoryVersion;
+  // Set when the story is a chapter of a series
+  series?: {
+    id: string;
+    title: string;
+    chapterNumber: number;
+  };
+}
+
+interface StoryVersion {
+  // id of the first version; equal to the story's own id for an original story
+  rootStoryId: string;
+  number: number;
+  action: RevisionAction | null;
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+function buildSystemPrompt(params: StoryRequest): string {
+  const profile = getLanguageProfile(params.language);
+  const level = profile.levels[params.readingLevel];
+  const sightWordsText = params.useSightWords && params.keywords.length > 0 
+    ? `You must naturally incorporate every one of these sight words at least once: ${params.keywords.join(', ')}. ` 
+    : '';
+  
+  const rhymingVerse = params.isRhymingVerse && profile.rhymingVerse ? profile.rhymingVerse : '';
+
+  // Get target length for the story length, in words or (for CJK) characters
+  const lengthTarget = getWordCountTarget(params.length, level.length);
+  const lengthNote = profile.unit === 'characters' ? ' (count characters, not punctuation)' : '';
+  const scriptRules = profile.scriptRules(params.readingLevel);
+
+  // Sections that only apply to personalized stories and series chapters
+  const personalizationSection = params.personalization
+    ? `${buildPersonalizationPrompt(params.personalization)}\n`
+    : '';
+  const seriesSection = params.chapter ? `${buildSeriesPrompt(params.chapter)}\n` : '';
+
+  // Language instruction
+  const languageInstruction = params.language !== 'english' 
+    ? `Write the story in ${params.language}. ` 
+    : '';
+
+  return `You are a children's story writer. Create an engaging, age-appropriate story with the following requirements:
+
+READING LEVEL: ${params.readingLevel.toUpperCase()} Grade
+- Target length: ${lengthTarget} ${profile.unit}${lengthNote} (this is important - aim for this exact range)
+- Sentence length: ${level.sentenceLength} ${profile.unit} per sentence
+- Use vocabulary appropriate for ${params.readingLevel} grade level
+${scriptRules ? `- ${scriptRules}\n` : ''}
+STORY REQUIREMENTS:
+- ${languageInstruction}Genre: ${params.theme}
+${params.hasThemeLesson && params.themeLesson ? `- Theme/Lesson focus: ${params.themeLesson}` : ''}
+- Interest level: ${params.interestLevel}
+- Length: ${params.length}
+- ${rhymingVerse}${sightWordsText}
+
+CONTENT GUIDELINES:
+- Ensure content is completely safe and appropriate for children
+- Include positive messages and educational value
+- Create engaging characters and scenarios
+- Use descriptive but simple language
+- Include a clear beginning, middle, and end
+- Add dialogue to make the story interactive
+- Stop writing when you reach the target length
+- Do NOT include word count, metadata, or any additional text at the end
+
+${personalizationSection}${seriesSection}OUTPUT FORMAT:
+Respond with a single JSON object and nothing else:
+- "title": a short, specific title drawn from this story's characters or events. Do NOT use a generic label like "A ${params.theme} Tale"
+- "paragraphs": the story text, one paragraph per array entry, with no empty entries
+- "characters": every named character, each with "name" and a one-sentence "description"
+- "summary": one sentence describing what happens in the story
+${languageInstruction ? `Write the title, paragraphs, character descriptions and summary in ${params.language}.` : ''}`;
+}
+
+function getWordCountTarget(length: string, baseWords: string): string {
+  const lengthMultipliers = {
+    "short": 0.7,
+    "medium": 1.0,
+    "long": 1.3
+  };
+  
+  const multiplier = lengthMultipliers[length as keyof typeof lengthMultipliers] || 1.0;
+  const [min, max] = baseWords.split('-').map(n => parseInt(n));
+  const targetMin = Math.round(min * multiplier);
+  const targetMax = Math.round(max * multiplier);
+  
+  return `${targetMin}-${targetMax}`;
+}
+
+// Length and sentence length band for the requested level, length and language
+function getReadingBand(params: StoryRequest): ReadingBand {
+  const profile = getLanguageProfile(params.language);
+  const level = profile.levels[params.readingLevel];
+  const [minLength, maxLength] = getWordCountTarget(params.length, level.length).split('-').map(n => parseInt(n));
+  const [minSentence, maxSentence] = level.sentenceLength.split('-').map(n => parseInt(n));
+  return { unit: profile.unit, length: [minLength, maxLength], sentenceLength: [minSentence, maxSentence] };
+}
+
+function getTokenLimit(length: string, tokenLimits: Record<string, number>): number {
+  return (tokenLimits[length] || tokenLimits.medium || 1000) + STRUCTURED_OUTPUT_TOKEN_OVERHEAD;
+}
+
+// Extra room for the JSON wrapper, title, character list and summary
+const STRUCTURED_OUTPUT_TOKEN_OVERHEAD = 250;
+
+// Malformed output is repaired when possible; otherwise the story is regenerated
+// up to this many times in total before the request fails
+const MAX_FORMAT_ATTEMPTS = 2;
+
+// Regenerations allowed when a story misses its reading band (and cannot be
+// trimmed) or leaves out too many sight words
+const MAX_QUALITY_REGENERATIONS = 1;
+
+// Stories that fail moderation are regenerated this many times before being blocked
+const MAX_SAFETY_REGENERATIONS = 1;
+
+// Get current date in CST timezone
+function getCSTDate(): string {
+  const now = new Date();
+  const cstOffset = -6; // CST is UTC-6
+  const cstTime = new Date(now.getTime() + (cstOffset * 60 * 60 * 1000));
+  return cstTime.toISOString().split('T')[0];
+}
+
+// Check and update user limits
+async function checkUserLimits(supabase: any, userId: string, storyParams: StoryRequest): Promise<{ canGenerate: boolean; error?: string }> {
+  const currentDate = getCSTDate();
+  
+  // Get or create user limits
+  const { data: userLimits, error: limitsError } = await supabase
+    .rpc('get_or_create_user_limits', { p_user_id: userId });
+
+  if (limitsError) {
+    console.error('Error getting user limits:', limitsError);
+    throw new Error('Failed to check user limits');
+  }
+
+  const limits = userLimits;
+
+
+  // Check if user has premium subscription
+  const hasPremium = await checkSubscription(userId);
+  
+  if (hasPremium) {
+    console.log('User has premium subscription - unlimited regular stories');
+    return { canGenerate: true };
+  }
+
+  // Reset daily counter if it's a new day
+  if (limits.last_reset_date !== currentDate) {
+    await supabase
+      .from('user_limits')
+      .update({ 
+        daily_stories_used: 0, 
+        last_reset_date: currentDate 
+      })
+      .eq('user_id', userId);
+    
+    limits.daily_stories_used = 0;
+  }
+
+  // Check daily limit for free users (1 story per day)
+  if (limits.daily_stories_used >= 1) {
+    return { 
+      canGenerate: false, 
+      error: 'Daily story limit reached. Upgrade to premium for unlimited stories or wait until tomorrow.'
+    };
+  }
+
+  return { canGenerate: true };
+}
+
+// Increment user limit counter after successful story generation
+async function incrementUserLimit(supabase: any, userId: string): Promise<void> {
+  const { error } = await supabase.rpc('increment_daily_stories', { 
+    user_id_param: userId 
+  });
+    
+  if (error) {
+    console.error('Error incrementing user limit:', error);
+    throw error;
+  }
+  
+  console.log('User limit incremented successfully');
+}
+
+// Fallback title for responses that come back without a usable title
+function buildFallbackTitle(params: StoryRequest): string {
+  const titlePrefix = params.isRhymingVerse ? "A Whimsical" : "A";
+  const themeCapitalized = params.theme.charAt(0).toUpperCase() + params.theme.slice(1);
+  return `${titlePrefix} ${themeCapitalized} Tale`;
+}
+
+function logStoryParameters(params: StoryRequest): void {
+  console.log('Parameters:', {
+    readingLevel: params.readingLevel,
+    interestLevel: params.interestLevel,
+    theme: params.theme,
+    length: params.length,
+    isRhymingVerse: params.isRhymingVerse,
+    useSightWords: params.useSightWords,
+    keywordCount: params.keywords.length,
+    includeQuestions: !!params.includeQuestions,
+    includeIllustrations: !!params.includeIllustrations,
+    secondaryLanguage: params.secondaryLanguage ?? null,
+    stream: !!params.stream
+  });
+}
+
+// The configured provider for this request, with the settings it was built from
+interface StoryLlm {
+  provider: LlmProvider;
+  config: ProviderConfig;
+  // Tokens used by every call made for this request, retries included
+  usage: TokenUsage;
+}
+
+function recordUsage(llm: StoryLlm, usage?: TokenUsage): void {
+  if (!usage) return;
+  console.log('Token usage:', usage);
+  llm.usage.promptTokens += usage.promptTokens;
+  llm.usage.completionTokens += usage.completionTokens;
+  llm.usage.totalTokens += usage.totalTokens;
+}
+
+function buildCompletionRequest(
+  llm: StoryLlm,
+  params: StoryRequest,
+  revisionNote?: string,
+  signal?: AbortSignal
+): CompletionRequest {
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content: buildSystemPrompt(params)
+    },
+    {
+      role: "user", 
+      content: `Create a ${params.length} ${params.theme} story for ${params.readingLevel} grade level${params.hasThemeLesson && params.themeLesson ? ` that focuses on the theme/lesson: ${params.themeLesson}` : ''}.${params.edit ? ` ${buildEditInstruction(params.edit)}` : ''}${revisionNote ? ` ${revisionNote}` : ''}`
+    }
+  ];
+
+  return {
+    messages,
+    maxTokens: getTokenLimit(params.length, llm.config.tokenLimits),
+    task: 'story',
+    responseFormat: STORY_RESPONSE_FORMAT,
+    signal
+  };
+}
+
+function toStoryDraft(story: StructuredStory): StoryDraft {
+  return { ...story, content: story.paragraphs.join('\n') };
+}
+
+async function requestStoryOnce(llm: StoryLlm, params: StoryRequest, revisionNote?: string): Promise<StoryDraft> {
+  const result = await llm.provider.complete(buildCompletionRequest(llm, params, revisionNote));
+  recordUsage(llm, result.usage);
+
+  console.log('=== PARSING STORY RESPONSE ===');
+  const story = parseStoryOutput(result.text, buildFallbackTitle(params));
+  console.log('Parsed structured story:', {
+    title: story.title,
+    paragraphCount: story.paragraphs.length,
+    characterCount: story.characters.length
+  });
+
+  return toStoryDraft(story);
+}
+
+// Request a story, regenerating when the output is malformed beyond repair
+async function requestStory(llm: StoryLlm, params: StoryRequest, revisionNote?: string): Promise<StoryDraft> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await requestStoryOnce(llm, params, revisionNote);
+    } catch (error) {
+      if (!(error instanceof StoryFormatError) || attempt >= MAX_FORMAT_ATTEMPTS) {
+        throw error;
+      }
+      console.warn(`Story output unusable on attempt ${attempt}, regenerating:`, error.message);
+    }
+  }
+}
+
+// How far a story is from its band, as a fraction of the band edges; 0 means inside
+function bandDistance(metrics: ReadabilityMetrics, band: ReadingBand): number {
+  const outside = (value: number, [min, max]: [number, number]) =>
+    value < min ? (min - value) / min : value > max ? (value - max) / max : 0;
+  return outside(storyLength(metrics), band.length) + outside(metrics.averageSentenceLength, band.sentenceLength);
+}
+
+interface DraftReview {
+  story: StoryDraft;
+  metrics: ReadabilityMetrics;
+  verdict: BandVerdict;
+  sightWords?: SightWordCoverage;
+  adjustment: ReadabilityAdjustment;
+}
+
+function reviewDraft(params: StoryRequest, story: StoryDraft, band: ReadingBand, adjustment: ReadabilityAdjustment): DraftReview {
+  const metrics = analyzeReadability(story.paragraphs, params.language, band.unit);
+  const sightWords = params.useSightWords && params.keywords.length > 0
+    ? measureSightWordCoverage(story.paragraphs, params.keywords, params.language)
+    : undefined;
+
+  return { story, metrics, verdict: checkReadingBand(metrics, band), sightWords, adjustment };
+}
+
+// How far a draft is from passing every check; 0 means it passes
+function reviewScore(review: DraftReview, band: ReadingBand): number {
+  const readabilityMiss = bandDistance(review.metrics, band);
+  const coverageMiss = review.sightWords
+    ? Math.max(0, SIGHT_WORD_COVERAGE_THRESHOLD - review.sightWords.coverage)
+    : 0;
+  return readabilityMiss + coverageMiss;
+}
+
+// Stories that only run long are shortened rather than regenerated
+function trimIfLong(params: StoryRequest, review: DraftReview, band: ReadingBand): DraftReview {
+  if (review.verdict !== 'too-long') {
+    return review;
+  }
+
+  const trimmed = trimToLength(review.story.paragraphs, band.length[1], band.unit);
+  if (!trimmed) {
+    return review;
+  }
+
+  const trimmedReview = reviewDraft(params, toStoryDraft({ ...review.story, paragraphs: trimmed }), band, 'trimmed');
+  if (reviewScore(trimmedReview, band) >= reviewScore(review, band)) {
+    return review;
+  }
+
+  console.log(`Story trimmed from ${storyLength(review.metrics)} to ${storyLength(trimmedReview.metrics)} ${band.unit}`);
+  return trimmedReview;
+}
+
+function describeReviewMisses(review: DraftReview, band: ReadingBand): string {
+  const notes: string[] = [];
+  if (review.verdict !== 'ok') {
+    notes.push(describeBandMiss(review.verdict, review.metrics, band));
+  }
+  if (review.sightWords && review.sightWords.coverage < SIGHT_WORD_COVERAGE_THRESHOLD) {
+    notes.push(describeMissingSightWords(review.sightWords));
+  }
+  return notes.join(' ');
+}
+
+/**
+ * Check a story against the length and sentence length band for its reading
+ * level and language, and against the requested sight words. Stories that only run
+ * long are trimmed; stories that still miss are regenerated with feedback on
+ * what was wrong. The closest attempt is returned with its metrics either way.
+ */
+async function reviewStory(
+  llm: StoryLlm,
+  params: StoryRequest,
+  draft: StoryDraft,
+  onRegenerate?: () => void
+): Promise<StoryResponse> {
+  const band = getReadingBand(params);
+
+  let latest = trimIfLong(params, reviewDraft(params, draft, band, 'none'), band);
+  let best = latest;
+  console.log('Story review:', { ...latest.metrics, verdict: latest.verdict, sightWordCoverage: latest.sightWords?.coverage });
+
+  for (let attempt = 1; attempt <= MAX_QUALITY_REGENERATIONS && reviewScore(best, band) > 0; attempt++) {
+    const revisionNote = describeReviewMisses(latest, band);
+    console.log(`Story missed its checks - regenerating (attempt ${attempt}):`, revisionNote);
+    onRegenerate?.();
+
+    const candidate = await requestStory(llm, params, revisionNote);
+    latest = trimIfLong(params, reviewDraft(params, candidate, band, 'regenerated'), band);
+    if (latest.adjustment === 'trimmed') latest.adjustment = 'regenerated';
+
+    if (reviewScore(latest, band) < reviewScore(best, band)) {
+      best = latest;
+    }
+  }
+
+  return {
+    ...best.story,
+    readability: {
+      ...best.metrics,
+      targetWordRange: band.length,
+      targetSentenceLength: band.sentenceLength,
+      withinBand: best.verdict === 'ok',
+      adjustment: best.adjustment
+    },
+    sightWords: best.sightWords
+  };
+}
+
+// Record a moderation decision in the audit log. A failed write is logged but
+// does not hold up the story.
+async function logModerationDecision(
+  supabase: SupabaseClient,
+  userId: string,
+  params: StoryRequest,
+  story: StoryResponse,
+  result: ModerationResult,
+  decision: ModerationDecision,
+  attempt: number
+): Promise<void> {
+  const { error } = await supabase.from('story_moderation_events').insert({
+    user_id: userId,
+    request_params: storedRequestParams(params),
+    attempt,
+    decision,
+    flags: result.flags,
+    classifier: result.classifier,
+    classifier_error: result.classifierError ?? null,
+    story_title: story.title,
+    story_content: story.content
+  });
+
+  if (error) {
+    console.error('Error logging moderation decision:', error);
+  }
+}
+
+/**
+ * Screen a reviewed story for content safety before it is returned. A story
+ * that fails is regenerated (and reviewed again) with guidance on what to
+ * avoid; if it still fails, StoryBlockedError is thrown. Every decision is
+ * written to story_moderation_events.
+ */
+async function moderateReviewedStory(
+  supabase: SupabaseClient,
+  userId: string,
+  llm: StoryLlm,
+  params: StoryRequest,
+  story: StoryResponse,
+  onRegenerate?: () => void
+): Promise<StoryResponse> {
+  for (let attempt = 1; ; attempt++) {
+    const result = await moderateStory(story, llm.provider);
+    const decision: ModerationDecision = result.safe
+      ? 'approved'
+      : attempt > MAX_SAFETY_REGENERATIONS ? 'blocked' : 'regenerated';
+
+    console.log('Moderation decision:', { attempt, decision, flags: result.flags, classifier: result.classifier });
+    await logModerationDecision(supabase, userId, params, story, result, decision, attempt);
+
+    if (decision === 'approved') return story;
+    if (decision === 'blocked') throw new StoryBlockedError(result.flags);
+
+    onRegenerate?.();
+    const draft = await requestStory(llm, params, describeModerationFlags(result.flags));
+    story = await reviewStory(llm, params, draft, onRegenerate);
+  }
+}
+
+// The request as stored with a story: what the client asked for, without the
+// previous version, series or child profile details that were loaded for it
+function storedRequestParams(
+  params: StoryRequest
+): Omit<StoryRequest, 'stream' | 'edit' | 'series' | 'chapter' | 'personalization'> {
+  const {
+    stream: _stream,
+    edit: _edit,
+    series: _series,
+    chapter: _chapter,
+    personalization: _personalization,
+    ...requestParams
+  } = params;
+  return requestParams;
+}
+
+// The plain language names accepted for `secondaryLanguage`, which goes into the prompts
+const LANGUAGE_NAME = /^[a-z][a-z -]{1,29}$/i;
+
+// Read the parameters stored with a story or series back into a request. Only
+// the fields a client may set are taken, so nothing stored can fill in the
+// ones this function sets itself.
+function fromStoredParams(stored: Record<string, unknown>): StoryRequest {
+  const secondaryLanguage = typeof stored.secondaryLanguage === 'string' && LANGUAGE_NAME.test(stored.secondaryLanguage)
+    ? stored.secondaryLanguage
+    : undefined;
+
+  return {
+    readingLevel: stored.readingLevel as StoryRequest['readingLevel'],
+    interestLevel: stored.interestLevel as StoryRequest['interestLevel'],
+    theme: String(stored.theme ?? ''),
+    language: String(stored.language ?? ''),
+    themeLesson: typeof stored.themeLesson === 'string' ? stored.themeLesson : undefined,
+    hasThemeLesson: !!stored.hasThemeLesson,
+    length: stored.length as StoryRequest['length'],
+    isRhymingVerse: !!(stored.isRhymingVerse ?? stored.isDrSeussStyle),
+    useSightWords: !!stored.useSightWords,
+    keywords: Array.isArray(stored.keywords) ? stored.keywords.filter((word) => typeof word === 'string') : [],
+    childProfileId: typeof stored.childProfileId === 'string' ? stored.childProfileId : undefined,
+    sightWordListId: typeof stored.sightWordListId === 'string' ? stored.sightWordListId : undefined,
+    includeQuestions: !!stored.includeQuestions,
+    includeIllustrations: !!stored.includeIllustrations,
+    secondaryLanguage
+  };
+}
+
+// Add a finished story to the user's history and set its id and version. A
+// failed write is logged but does not hold up the story.
+async function saveGeneratedStory(
+  supabase: SupabaseClient,
+  userId: string,
+  llm: StoryLlm,
+  params: StoryRequest,
+  story: StoryResponse
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('generated_stories')
+    .insert({
+      user_id: userId,
+      title: story.title,
+      content: story.content,
+      paragraphs: story.paragraphs,
+      characters: story.characters,
+      summary: story.summary,
+      reading_level: params.readingLevel,
+      interest_level: params.interestLevel,
+      theme: params.theme,
+      language: params.language,
+      length: params.length,
+      request_params: storedRequestParams(params),
+      provider: llm.provider.name,
+      model: llm.provider.model,
+      prompt_tokens: llm.usage.promptTokens,
+      completion_tokens: llm.usage.completionTokens,
+      total_tokens: llm.usage.totalTokens,
+      readability: story.readability,
+      sight_words: story.sightWords ?? null,
+      questions: story.questions ?? null,
+      illustrations: story.illustrations ?? null,
+      bilingual: story.bilingual ?? null,
+      root_story_id: params.edit?.rootStoryId ?? null,
+      version: params.edit?.version ?? 1,
+      revision_action: params.edit?.action ?? null
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error saving story to history:', error);
+    return;
+  }
+
+  story.id = data.id;
+  story.version = {
+    rootStoryId: params.edit?.rootStoryId ?? data.id,
+    number: params.edit?.version ?? 1,
+    action: params.edit?.action ?? null
+  };
+}
+
+// Count the list words that made it into the story towards their mastery
+async function recordSightWordsSeen(
+  supabase: SupabaseClient,
+  userId: string,
+  params: StoryRequest,
+  story: StoryResponse
+): Promise<void> {
+  if (!params.sightWordListId || !story.sightWords) return;
+
+  const seenWords = story.sightWords.occurrences
+    .filter((occurrence) => occurrence.count > 0)
+    .map((occurrence) => occurrence.word);
+  if (seenWords.length === 0) return;
+
+  const { error } = await supabase.rpc('record_sight_words_seen', {
+    p_user_id: userId,
+    p_list_id: params.sightWordListId,
+    p_words: seenWords
+  });
+
+  // The story is already saved; missing a count is not worth failing over
+  if (error) {
+    console.error('Error recording sight words seen:', error);
+  }
+}
+
+// Add a chapter to the user's saved stories under its series
+async function saveChapter(
+  supabase: SupabaseClient,
+  userId: string,
+  seriesId: string,
+  chapterNumber: number,
+  story: {
+    title: string;
+    content: string;
+    sightWords?: SightWordCoverage | null;
+    questions?: ComprehensionQuestion[] | null;
+    illustrations?: StoryIllustrations | null;
+    bilingual?: BilingualText | null;
+  },
+  params: StoryRequest
+): Promise<void> {
+  const { error } = await supabase
+    .from('favorite_stories')
+    .upsert({
+      user_id: userId,
+      title: story.title,
+      content: story.content,
+      reading_level: params.readingLevel,
+      theme: params.theme,
+      language: params.language,
+      series_id: seriesId,
+      chapter_number: chapterNumber,
+      sight_words: story.sightWords ?? null,
+      questions: story.questions ?? null,
+      illustrations: story.illustrations ?? null,
+      bilingual: story.bilingual ?? null
+    }, { onConflict: 'user_id,title,content' });
+
+  if (error) {
+    console.error('Error saving series chapter:', error);
+    throw new Error('Failed to save the chapter to its series');
+  }
+}
+
+/**
+ * Store a finished chapter with its series and fold it into the story bible,
+ * so the next chapter starts from an up-to-date summary. Failures are logged:
+ * the chapter has already been written and counted, so it is still returned.
+ */
+async function saveSeriesChapter(
+  supabase: SupabaseClient,
+  userId: string,
+  llm: StoryLlm,
+  params: StoryRequest,
+  story: StoryResponse
+): Promise<void> {
+  const chapter = params.chapter!;
+
+  try {
+    await saveChapter(supabase, userId, chapter.seriesId, chapter.chapterNumber, story, params);
+
+    const bible = await updateStoryBible(llm.provider, chapter.bible, story, chapter.chapterNumber);
+    const { error } = await supabase
+      .from('story_series')
+      .update({
+        setting: bible.setting,
+        characters: bible.characters,
+        running_summary: bible.runningSummary,
+        chapter_count: chapter.chapterNumber
+      })
+      .eq('id', chapter.seriesId);
+
+    if (error) {
+      console.error('Error updating story bible:', error);
+    }
+
+    story.series = { id: chapter.seriesId, title: chapter.seriesTitle, chapterNumber: chapter.chapterNumber };
+  } catch (error) {
+    console.error('Error saving chapter to series:', error);
+  }
+}
+
+// Write the quiz for a story that asked for one. Runs after moderation so
+// the questions are about the story the reader will actually see.
+async function addComprehensionQuestions(llm: StoryLlm, params: StoryRequest, story: StoryResponse): Promise<void> {
+  if (!params.includeQuestions) return;
+
+  const questions = await generateComprehensionQuestions(llm.provider, story, params.readingLevel, params.language);
+  if (questions.length > 0) {
+    story.questions = questions;
+  }
+}
+
+// Translate a story that asked to be bilingual, after moderation like the quiz
+async function addTranslation(llm: StoryLlm, params: StoryRequest, story: StoryResponse): Promise<void> {
+  if (!params.secondaryLanguage || params.secondaryLanguage === params.language) return;
+
+  const bilingual = await translateStory(llm.provider, story, params.language, params.secondaryLanguage, params.readingLevel);
+  if (bilingual) {
+    story.bilingual = bilingual;
+  }
+}
+
+// Pictures an Unlimited subscriber can have drawn per day (CST), across all stories
+const DAILY_IMAGE_LIMIT = 24;
+
+const ILLUSTRATIONS_BUCKET = 'story-illustrations';
+
+// Take `count` pictures from today's image quota; false when there aren't
+// enough left, and null when the quota couldn't be checked
+async function reserveImages(supabase: SupabaseClient, userId: string, count: number): Promise<boolean | null> {
+  const { data, error } = await supabase.rpc('reserve_story_images', {
+    p_user_id: userId,
+    p_count: count,
+    p_limit: DAILY_IMAGE_LIMIT,
+    p_today: getCSTDate()
+  });
+
+  if (error) {
+    console.error('Error reserving images:', error);
+    return null;
+  }
+  return data === true;
+}
+
+// Give back pictures that were reserved but never drawn
+async function releaseImages(supabase: SupabaseClient, userId: string, count: number): Promise<void> {
+  const { error } = await supabase.rpc('release_story_images', { p_user_id: userId, p_count: count });
+  if (error) {
+    console.error('Error releasing unused images:', error);
+  }
+}
+
+// Undo the pictures of a story that won't be delivered: the client canceled
+// after they were drawn. They are given back and their files deleted.
+async function discardIllustrations(
+  supabase: SupabaseClient,
+  userId: string,
+  illustrations: StoryIllustrations | undefined
+): Promise<void> {
+  const paths = (illustrations?.pages ?? []).flatMap((page) => (page.imagePath ? [page.imagePath] : []));
+  if (paths.length === 0) return;
+
+  await releaseImages(supabase, userId, paths.length);
+  const { error } = await supabase.storage.from(ILLUSTRATIONS_BUCKET).remove(paths);
+  if (error) {
+    console.error('Error deleting pictures of a canceled story:', error);
+  }
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+/**
+ * Illustrate a story that asked for pictures: plan a page layout with an image
+ * prompt per page, draw the pages with the configured image backend and store
+ * them under the user's folder in story-illustrations. Pictures are an
+ * Unlimited feature with their own daily quota; a story that can't have them
+ * is returned with `illustrationsUnavailable` saying why.
+ */
+async function addIllustrations(
+  supabase: SupabaseClient,
+  userId: string,
+  llm: StoryLlm,
+  params: StoryRequest,
+  story: StoryResponse,
+  signal?: AbortSignal
+): Promise<void> {
+  if (!params.includeIllustrations) return;
+
+  if (!(await checkSubscription(userId))) {
+    story.illustrationsUnavailable = 'premium';
+    return;
+  }
+
+  const plan = await planIllustrations(llm.provider, story, params.readingLevel);
+  const reserved = await reserveImages(supabase, userId, plan.pages.length);
+  if (reserved === null) {
+    // Pictures are optional; the story that was written is still returned
+    story.illustrationsUnavailable = 'error';
+    return;
+  }
+  if (!reserved) {
+    console.log('Daily image limit reached - story returned without pictures');
+    story.illustrationsUnavailable = 'quota';
+    return;
+  }
+
+  const imageProvider = createImageProvider(loadImageConfig());
+  console.log(`Drawing ${plan.pages.length} pages with ${imageProvider.name} (${imageProvider.model})`);
+
+  const bookId = crypto.randomUUID();
+  const store = async (pageNumber: number, image: GeneratedImage): Promise<string> => {
+    const path = `${userId}/${bookId}-page-${pageNumber}.${IMAGE_EXTENSIONS[image.contentType] ?? 'png'}`;
+    const { error } = await supabase.storage
+      .from(ILLUSTRATIONS_BUCKET)
+      .upload(path, image.data, { contentType: image.contentType });
+    if (error) throw error;
+    return path;
+  };
+
+  const pages = await drawIllustrations(imageProvider, plan.pages, store, signal);
+  const missing = pages.filter((page) => !page.imagePath).length;
+  if (missing > 0) {
+    await releaseImages(supabase, userId, missing);
+  }
+  if (missing < pages.length) {
+    story.illustrations = { style: plan.style, pages };
+  }
+}
+
+async function generateStory(
+  supabase: SupabaseClient,
+  userId: string,
+  llm: StoryLlm,
+  params: StoryRequest
+): Promise<StoryResponse> {
+  console.log(`=== GENERATING STORY WITH ${llm.provider.name.toUpperCase()} (${llm.provider.model}) ===`);
+  logStoryParameters(params);
+
+  const draft = await requestStory(llm, params);
+  const reviewed = await reviewStory(llm, params, draft);
+  const story = await moderateReviewedStory(supabase, userId, llm, params, reviewed);
+  await addTranslation(llm, params, story);
+  await addComprehensionQuestions(llm, params, story);
+  await addIllustrations(supabase, userId, llm, params, story);
+  return story;
+}
+
+// Relay the story to the client as newline-delimited JSON events:
+//   {"type":"start"}              once, before any text
+//   {"type":"title","title":...}  as soon as the model has written the title
+//   {"type":"delta","text":...}   for every chunk of paragraph text
+//   {"type":"status","message":...} while the story is being regenerated or
+//                                 its translation, quiz questions and pictures
+//                                 are made
+//   {"type":"done","story":{...}} after the counter has been incremented
+//   {"type":"error","error":...}  if generation fails part-way; "blocked": true
+//                                 when the story failed moderation
+// The daily counter only moves once the model has finished the story, so a
+// client that cancels (or drops its connection) is never charged.
+// Text is relayed a sentence at a time, each screened against the moderation
+// blocklist first. Once a sentence is flagged nothing more is relayed, and the
+// story the client sees comes from "done" after full moderation.
+function streamStoryResponse(supabase: SupabaseClient, userId: string, llm: StoryLlm, params: StoryRequest): Response {
+  const encoder = new TextEncoder();
+  const upstreamAbort = new AbortController();
+
+  console.log(`=== STREAMING STORY WITH ${llm.provider.name.toUpperCase()} (${llm.provider.model}) ===`);
+  logStoryParameters(params);
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      try {
+        send({ type: 'start' });
+
+        const parser = new StoryStreamParser();
+        let pendingText = '';
+        let withheld = false;
+
+        const withhold = (text: string) => {
+          const flags = screenText(text);
+          if (flags.length === 0) return false;
+          console.warn('Streamed text flagged by moderation blocklist - withholding:', flags);
+          withheld = true;
+          send({ type: 'status', message: 'Checking your story...' });
+          return true;
+        };
+
+        const chunks = llm.provider.stream(buildCompletionRequest(llm, params, undefined, upstreamAbort.signal));
+        for await (const chunk of chunks) {
+          recordUsage(llm, chunk.usage);
+          if (!chunk.text) continue;
+
+          const update = parser.feed(chunk.text);
+          if (withheld) continue;
+
+          if (update.title && !withhold(update.title)) {
+            send({ type: 'title', title: update.title });
+          }
+
+          pendingText += update.text;
+          const sentenceEnd = Math.max(...['.', '!', '?', '\n'].map((mark) => pendingText.lastIndexOf(mark)));
+          if (!withheld && sentenceEnd !== -1) {
+            const ready = pendingText.slice(0, sentenceEnd + 1);
+            pendingText = pendingText.slice(sentenceEnd + 1);
+            if (!withhold(ready)) send({ type: 'delta', text: ready });
+          }
+        }
+
+        if (!withheld && pendingText && !withhold(pendingText)) {
+          send({ type: 'delta', text: pendingText });
+        }
+
+        if (upstreamAbort.signal.aborted) return;
+        if (!parser.rawText.trim()) {
+          throw new Error(`Empty response from ${llm.provider.name}`);
+        }
+
+        let draft: StoryDraft;
+        try {
+          draft = toStoryDraft(parseStoryOutput(parser.rawText, buildFallbackTitle(params)));
+        } catch (error) {
+          if (!(error instanceof StoryFormatError)) throw error;
+          // The streamed text is unusable; the full story sent with "done" replaces it
+          console.warn('Streamed story output unusable, regenerating:', error.message);
+          send({ type: 'status', message: 'Polishing your story...' });
+          draft = await requestStory(llm, params);
+        }
+
+        // A trimmed or regenerated story also replaces the streamed text via "done"
+        const onRegenerate = () => {
+          send({ type: 'status', message: 'Fine-tuning the story for your reader...' });
+        };
+        const reviewed = await reviewStory(llm, params, draft, onRegenerate);
+        const story = await moderateReviewedStory(supabase, userId, llm, params, reviewed, onRegenerate);
+        if (params.secondaryLanguage && params.secondaryLanguage !== params.language && !upstreamAbort.signal.aborted) {
+          send({ type: 'status', message: 'Translating your story...' });
+          await addTranslation(llm, params, story);
+        }
+        if (params.includeQuestions && !upstreamAbort.signal.aborted) {
+          send({ type: 'status', message: 'Writing quiz questions...' });
+          await addComprehensionQuestions(llm, params, story);
+        }
+        if (params.includeIllustrations && !upstreamAbort.signal.aborted) {
+          send({ type: 'status', message: 'Drawing the pictures...' });
+          await addIllustrations(supabase, userId, llm, params, story, upstreamAbort.signal);
+        }
+
+        if (upstreamAbort.signal.aborted) {
+          await discardIllustrations(supabase, userId, story.illustrations);
+          return;
+        }
+
+        console.log('Story stream finished - incrementing user counter');
+        await incrementUserLimit(supabase, userId);
+        await saveGeneratedStory(supabase, userId, llm, params, story);
+        await recordSightWordsSeen(supabase, userId, params, story);
+        if (params.chapter) {
+          send({ type: 'status', message: 'Adding the chapter to your series...' });
+          await saveSeriesChapter(supabase, userId, llm, params, story);
+        }
+
+        send({ type: 'done', story });
+        console.log('=== STORY STREAMED SUCCESSFULLY ===');
+      } catch (error) {
+        if (upstreamAbort.signal.aborted) {
+          console.log('Story stream canceled by client - counter NOT incremented');
+          return;
+        }
+        console.error('=== STORY STREAM ERROR ===');
+        console.error('Error details:', error);
+        send({
+          type: 'error',
+          error: error.message || 'Failed to generate story. Please try again.',
+          ...(error instanceof StoryBlockedError ? { blocked: true } : {})
+        });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Stream was already closed by a client cancel
+        }
+      }
+    },
+    cancel() {
+      upstreamAbort.abort();
+    }
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache'
+    }
+  });
+}
+
+/**
+ * Turn a revision request into the parameters for the next version. The
+ * previous version's stored parameters are used rather than the client's, so
+ * every version of a story is written for the same reader and sight words.
+ */
+async function resolveRevision(
+  supabase: SupabaseClient,
+  userId: string,
+  params: StoryRequest
+): Promise<{ params: StoryRequest } | { error: string; status: number }> {
+  const { storyId, action } = params.revision!;
+
+  if (!REVISION_ACTIONS.includes(action)) {
+    return { error: `Unknown revision action: ${action}`, status: 400 };
+  }
+
+  const { data: previous, error } = await supabase
+    .from('generated_stories')
+    .select('id, title, paragraphs, characters, summary, request_params, root_story_id')
+    .eq('id', storyId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading story to revise:', error);
+    throw new Error('Failed to load the story to revise');
+  }
+  if (!previous) {
+    return { error: 'Story not found', status: 404 };
+  }
+
+  const baseParams = fromStoredParams(previous.request_params);
+  if (!canRevise(action, baseParams.length)) {
+    return { error: 'This story is already as short as it can be', status: 400 };
+  }
+
+  const rootStoryId = previous.root_story_id ?? previous.id;
+  const { data: latest, error: versionError } = await supabase
+    .from('generated_stories')
+    .select('version')
+    .or(`id.eq.${rootStoryId},root_story_id.eq.${rootStoryId}`)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (versionError) {
+    console.error('Error loading story versions:', versionError);
+    throw new Error('Failed to load the story to revise');
+  }
+
+  console.log('Revising story:', { storyId, rootStoryId, action });
+
+  return {
+    params: {
+      ...baseParams,
+      length: revisedLength(action, baseParams.length) as StoryRequest['length'],
+      stream: params.stream,
+      revision: params.revision,
+      edit: {
+        action,
+        previous: {
+          title: previous.title,
+          paragraphs: previous.paragraphs,
+          characters: previous.characters,
+          summary: previous.summary ?? ''
+        },
+        rootStoryId,
+        version: (latest?.version ?? 1) + 1
+      }
+    }
+  };
+}
+
+// Start a series with one of the user's generated stories as chapter 1
+async function startSeries(
+  supabase: SupabaseClient,
+  userId: string,
+  llm: StoryLlm,
+  storyId: string
+): Promise<{ id: string; title: string; bible: StoryBible; requestParams: StoryRequest } | null> {
+  const { data: firstStory, error } = await supabase
+    .from('generated_stories')
+    .select('title, content, paragraphs, characters, summary, request_params, sight_words, questions, illustrations, bilingual')
+    .eq('id', storyId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading first chapter:', error);
+    throw new Error('Failed to start the series');
+  }
+  if (!firstStory) {
+    return null;
+  }
+
+  const requestParams = fromStoredParams(firstStory.request_params);
+  const bible = await updateStoryBible(llm.provider, null, {
+    title: firstStory.title,
+    paragraphs: firstStory.paragraphs,
+    characters: firstStory.characters,
+    summary: firstStory.summary ?? ''
+  }, 1);
+
+  const { data: series, error: seriesError } = await supabase
+    .from('story_series')
+    .insert({
+      user_id: userId,
+      title: firstStory.title,
+      setting: bible.setting,
+      characters: bible.characters,
+      running_summary: bible.runningSummary,
+      request_params: requestParams,
+      chapter_count: 1
+    })
+    .select('id')
+    .single();
+
+  if (seriesError) {
+    console.error('Error creating series:', seriesError);
+    throw new Error('Failed to start the series');
+  }
+
+  await saveChapter(supabase, userId, series.id, 1, { ...firstStory, sightWords: firstStory.sight_words }, requestParams);
+  console.log('Series started:', { seriesId: series.id, fromStoryId: storyId });
+
+  return { id: series.id, title: firstStory.title, bible, requestParams };
+}
+
+/**
+ * Turn a series request into the parameters for its next chapter. As with
+ * revisions, the series' stored parameters are used so every chapter is
+ * written for the same reader.
+ */
+async function resolveSeries(
+  supabase: SupabaseClient,
+  userId: string,
+  llm: StoryLlm,
+  params: StoryRequest
+): Promise<{ params: StoryRequest } | { error: string; status: number }> {
+  const { seriesId, fromStoryId } = params.series!;
+
+  if (!(await checkSubscription(userId))) {
+    return { error: 'Story series are an Unlimited feature. Upgrade to keep the adventure going!', status: 403 };
+  }
+
+  let chapter: SeriesChapter;
+  let baseParams: StoryRequest;
+
+  if (seriesId) {
+    const { data: series, error } = await supabase
+      .from('story_series')
+      .select('id, title, setting, characters, running_summary, request_params, chapter_count')
+      .eq('id', seriesId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading series:', error);
+      throw new Error('Failed to load the series');
+    }
+    if (!series) {
+      return { error: 'Series not found', status: 404 };
+    }
+
+    baseParams = fromStoredParams(series.request_params);
+    chapter = {
+      seriesId: series.id,
+      seriesTitle: series.title,
+      chapterNumber: series.chapter_count + 1,
+      bible: { setting: series.setting, characters: series.characters, runningSummary: series.running_summary }
+    };
+  } else if (fromStoryId) {
+    const series = await startSeries(supabase, userId, llm, fromStoryId);
+    if (!series) {
+      return { error: 'Story not found', status: 404 };
+    }
+
+    baseParams = series.requestParams;
+    chapter = { seriesId: series.id, seriesTitle: series.title, chapterNumber: 2, bible: series.bible };
+  } else {
+    return { error: 'A series request needs seriesId or fromStoryId', status: 400 };
+  }
+
+  console.log('Writing series chapter:', { seriesId: chapter.seriesId, chapterNumber: chapter.chapterNumber });
+
+  return {
+    params: {
+      ...baseParams,
+      stream: params.stream,
+      series: params.series,
+      chapter
+    }
+  };
+}
+
+// The active words of one of the user's sight word lists, learning words first
+async function loadStoryWords(
+  supabase: SupabaseClient,
+  userId: string,
+  listId: string
+): Promise<string[]> {
+  const { data: entries, error } = await supabase
+    .from('sight_word_entries')
+    .select('word, mastery, times_seen')
+    .eq('list_id', listId)
+    .eq('user_id', userId)
+    .eq('active', true);
+
+  if (error) {
+    console.error('Error loading sight word list:', error);
+    throw new Error('Failed to load the sight word list');
+  }
+
+  const words = pickStoryWords((entries ?? []) as SightWordEntryRow[]);
+  console.log('Sight words picked from list:', words);
+  return words;
+}
+
+// Load the details a parent has opted in to sharing for one of their children.
+// A missing profile (for example one deleted since an earlier version of the
+// story) just means the story is not personalized.
+async function loadPersonalization(
+  supabase: SupabaseClient,
+  userId: string,
+  childProfileId: string
+): Promise<Personalization | null> {
+  const { data: profile, error } = await supabase
+    .from('child_profiles')
+    .select('name, pronouns, age, interests, favorite_animal, shared_fields')
+    .eq('id', childProfileId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading child profile:', error);
+    throw new Error('Failed to load the child profile');
+  }
+  if (!profile) {
+    console.log('Child profile not found - story will not be personalized');
+    return null;
+  }
+
+  const row = profile as ChildProfileRow;
+  console.log('Personalizing story with shared fields:', row.shared_fields);
+  return toPersonalization(row);
+}
+
+// The generate-story endpoint; index.ts serves it with a service-role client
+export async function handleStoryRequest(req: Request, supabase: SupabaseClient): Promise<Response> {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { 
+      status: 204, 
+      headers: corsHeaders 
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    console.log('=== STORY GENERATION REQUEST ===');
+    
+    // Get authorization header
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Authorization required' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Extract user ID from JWT token
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid authorization' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    let storyParams: StoryRequest = await req.json();
+    // Only set from stored stories and series, below
+    delete storyParams.edit;
+    delete storyParams.chapter;
+    delete storyParams.personalization;
+    storyParams.isRhymingVerse = !!(storyParams.isRhymingVerse ?? storyParams.isDrSeussStyle);
+    delete storyParams.isDrSeussStyle;
+    
+    // Validate required parameters
+    const requiredFields = ['readingLevel', 'interestLevel', 'theme', 'language', 'length'];
+    for (const field of requiredFields) {
+      if (!storyParams[field]) {
+        return new Response(JSON.stringify({ error: `Missing required field: ${field}` }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    // The language name goes into the prompts, so only plain names are accepted
+    if (storyParams.secondaryLanguage !== undefined && !LANGUAGE_NAME.test(String(storyParams.secondaryLanguage))) {
+      return new Response(JSON.stringify({ error: 'Invalid secondaryLanguage' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (storyParams.revision) {
+      const resolved = await resolveRevision(supabase, user.id, storyParams);
+      if ('error' in resolved) {
+        return new Response(JSON.stringify({ error: resolved.error }), {
+          status: resolved.status,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+      storyParams = resolved.params;
+    }
+
+    // Check user limits before generating story
+    const limitCheck = await checkUserLimits(supabase, user.id, storyParams);
+    if (!limitCheck.canGenerate) {
+      console.log('User limit exceeded - returning 429');
+      return new Response(JSON.stringify({ 
+        error: limitCheck.error,
+        limitReached: true
+      }), {
+        status: 429,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    console.log('User can generate - proceeding with story generation');
+
+    const providerConfig = loadProviderConfig(user.id);
+    const llm: StoryLlm = {
+      provider: createProvider(providerConfig),
+      config: providerConfig,
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+    };
+
+    if (storyParams.series) {
+      const resolved = await resolveSeries(supabase, user.id, llm, storyParams);
+      if ('error' in resolved) {
+        return new Response(JSON.stringify({ error: resolved.error, premiumRequired: resolved.status === 403 }), {
+          status: resolved.status,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+      storyParams = resolved.params;
+    }
+
+    // Revisions keep the words of the version they revise
+    if (storyParams.useSightWords && storyParams.sightWordListId && !storyParams.edit) {
+      storyParams.keywords = await loadStoryWords(supabase, user.id, storyParams.sightWordListId);
+    }
+
+    if (storyParams.childProfileId) {
+      storyParams.personalization = await loadPersonalization(supabase, user.id, storyParams.childProfileId) ?? undefined;
+    }
+
+    if (storyParams.stream) {
+      return streamStoryResponse(supabase, user.id, llm, storyParams);
+    }
+
+    const story = await generateStory(supabase, user.id, llm, storyParams);
+    
+    console.log('Story generated successfully - incrementing user counter');
+    await incrementUserLimit(supabase, user.id);
+    await saveGeneratedStory(supabase, user.id, llm, storyParams, story);
+    await recordSightWordsSeen(supabase, user.id, storyParams, story);
+    if (storyParams.chapter) {
+      await saveSeriesChapter(supabase, user.id, llm, storyParams, story);
+    }
+    
+    console.log('=== STORY GENERATED SUCCESSFULLY ===');
+    
+    return new Response(JSON.stringify(story), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    if (error instanceof StoryBlockedError) {
+      console.log('Story blocked by moderation - counter NOT incremented');
+      return new Response(JSON.stringify({
+        error: error.message,
+        blocked: true
+      }), {
+        status: 422,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    console.error('=== STORY GENERATION ERROR ===');
+    console.error('Error details:', error);
+    
+    // Counter is NOT incremented if generation fails
+    return new Response(JSON.stringify({ 
+      error: error.message || 'Failed to generate story. Please try again.'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+}
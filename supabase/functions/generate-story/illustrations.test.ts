@@ -0,0 +1,23 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { drawIllustrations } from "./illustrations.ts";
+import { GeneratedImage, ImageProvider, ImageRequest } from "./imageGeneration.ts";
+
+Deno.test('does not send flagged image prompts to the image backend', async () => {
+  const prompts: string[] = [];
+  const provider: ImageProvider = {
+    name: 'Test',
+    model: 'test',
+    generate: ({ prompt }: ImageRequest): Promise<GeneratedImage> => {
+      prompts.push(prompt);
+      return Promise.resolve({ data: new Uint8Array(), contentType: 'image/png' });
+    }
+  };
+
+  const pages = await drawIllustrations(provider, [
+    { start: 0, end: 1, prompt: 'Scene: a fox sits by a pond.' },
+    { start: 1, end: 2, prompt: 'Scene: a fox holds a gun.' }
+  ], (pageNumber) => Promise.resolve(`user/page-${pageNumber}.png`));
+
+  assertEquals(prompts, ['Scene: a fox sits by a pond.']);
+  assertEquals(pages.map((page) => page.imagePath), ['user/page-1.png', null]);
+});
@@ -0,0 +1,172 @@
+import { z } from "https://esm.sh/zod@3.23.8";
+import { LlmProvider } from "../_shared/llm.ts";
+import { StructuredStory } from "./structuredStory.ts";
+import { screenText } from "./moderation.ts";
+import { GeneratedImage, ImageProvider } from "./imageGeneration.ts";
+
+// One page of a picture book: paragraphs [start, end) and the picture for them
+export interface IllustratedPage {
+  start: number;
+  end: number;
+  prompt: string;
+  // story-illustrations storage path; null when the picture couldn't be drawn
+  imagePath: string | null;
+}
+
+export interface StoryIllustrations {
+  style: string;
+  pages: IllustratedPage[];
+}
+
+export type PlannedPage = Omit<IllustratedPage, 'imagePath'>;
+
+// The same style goes into every prompt so the pages look like one book
+export const ILLUSTRATION_STYLE =
+  "Soft watercolor children's picture book illustration, warm gentle colors, simple rounded shapes, " +
+  'friendly expressions, plain uncluttered background, no words, letters or text in the picture';
+
+// Picture books stay short: longer stories get more paragraphs per page
+const MAX_PAGES = 8;
+
+// Images requested from the backend at once
+const IMAGE_CONCURRENCY = 3;
+
+// Younger readers get a picture for every paragraph
+function paragraphsPerPage(readingLevel: string): number {
+  if (readingLevel === 'k' || readingLevel === '1') return 1;
+  if (readingLevel === '2' || readingLevel === '3') return 2;
+  return 3;
+}
+
+export function paginateStory(paragraphCount: number, readingLevel: string): { start: number; end: number }[] {
+  const perPage = Math.max(paragraphsPerPage(readingLevel), Math.ceil(paragraphCount / MAX_PAGES));
+  const pages: { start: number; end: number }[] = [];
+  for (let start = 0; start < paragraphCount; start += perPage) {
+    pages.push({ start, end: Math.min(start + perPage, paragraphCount) });
+  }
+  return pages;
+}
+
+function buildPlanPrompt(pageCount: number): string {
+  return `You are an art director writing an illustration plan for a children's picture book.
+The story has been split into ${pageCount} pages. For every named character, describe how they look in one short sentence (species or age, size, colors, clothing) so an illustrator can draw them the same way on every page.
+Then describe the picture for each page in one or two sentences: who is in it, what they are doing and where. Only show what the page's text describes, and keep everything gentle and safe for young children.
+Write the descriptions in English, whatever language the story is in.
+Respond with a single JSON object and nothing else:
+{"characters": [{"name": "...", "appearance": "..."}], "scenes": ["one scene per page, in page order"]}`;
+}
+
+const planSchema = z.object({
+  characters: z.array(z.object({ name: z.string().trim().min(1), appearance: z.string().trim().min(1) })).default([]),
+  scenes: z.array(z.string().trim()).default([])
+});
+
+// Without a usable scene, the page's own text describes the picture
+function fallbackScene(text: string): string {
+  return text.split(/(?<=[.!?])\s/)[0].slice(0, 300);
+}
+
+function buildImagePrompt(scene: string, cast: { name: string; appearance: string }[]): string {
+  const characterNotes = cast
+    .map((character) => `${character.name}: ${character.appearance.replace(/[.\s]+$/, '')}`)
+    .join('; ');
+  return `${ILLUSTRATION_STYLE}. ${characterNotes ? `Characters (draw them exactly like this): ${characterNotes}. ` : ''}Scene: ${scene}`;
+}
+
+/**
+ * Split a story into picture book pages and write an image prompt for each.
+ * Every prompt repeats the shared style and the look of the characters on the
+ * page so they stay consistent from page to page. If the model's plan can't be
+ * used, or a scene fails the moderation blocklist, the page's text is used
+ * as the scene instead.
+ */
+export async function planIllustrations(
+  provider: LlmProvider,
+  story: StructuredStory,
+  readingLevel: string
+): Promise<{ style: string; pages: PlannedPage[] }> {
+  const pages = paginateStory(story.paragraphs.length, readingLevel);
+  const pageTexts = pages.map((page) => story.paragraphs.slice(page.start, page.end).join(' '));
+
+  let characters = story.characters.map((character) => ({ name: character.name, appearance: character.description }));
+  let scenes: string[] = [];
+  try {
+    const result = await provider.complete({
+      messages: [
+        { role: 'system', content: buildPlanPrompt(pages.length) },
+        {
+          role: 'user',
+          content: JSON.stringify({
+            title: story.title,
+            characters: story.characters,
+            pages: pageTexts.map((text, index) => ({ page: index + 1, text }))
+          })
+        }
+      ],
+      maxTokens: 1000,
+      task: 'illustration-plan',
+      responseFormat: { type: 'json_object' }
+    });
+
+    const start = result.text.indexOf('{');
+    const end = result.text.lastIndexOf('}');
+    if (start === -1 || end < start) {
+      throw new Error('Illustration plan was not JSON');
+    }
+
+    const plan = planSchema.parse(JSON.parse(result.text.slice(start, end + 1)));
+    if (plan.characters.length > 0 && screenText(plan.characters.map((character) => character.appearance).join('\n')).length === 0) {
+      characters = plan.characters;
+    }
+    scenes = plan.scenes;
+  } catch (error) {
+    console.error('Illustration plan failed, describing pages from their text:', error);
+  }
+
+  return {
+    style: ILLUSTRATION_STYLE,
+    pages: pages.map((page, index) => {
+      const planned = scenes[index];
+      const scene = planned && screenText(planned).length === 0 ? planned : fallbackScene(pageTexts[index]);
+      const sceneText = `${scene} ${pageTexts[index]}`.toLowerCase();
+      const cast = characters.filter((character) => sceneText.includes(character.name.toLowerCase()));
+      return { ...page, prompt: buildImagePrompt(scene, cast) };
+    })
+  };
+}
+
+/**
+ * Draw every planned page with the image backend and hand each picture to
+ * `store`, which returns where it was saved. Each prompt is screened against
+ * the moderation blocklist before it is sent. A page whose prompt is flagged
+ * or whose picture fails is kept without one rather than failing the book.
+ */
+export async function drawIllustrations(
+  provider: ImageProvider,
+  pages: PlannedPage[],
+  store: (pageNumber: number, image: GeneratedImage) => Promise<string>,
+  signal?: AbortSignal
+): Promise<IllustratedPage[]> {
+  const illustrated: IllustratedPage[] = pages.map((page) => ({ ...page, imagePath: null }));
+  let next = 0;
+
+  const drawNext = async () => {
+    while (next < pages.length && !signal?.aborted) {
+      const index = next++;
+      const flags = screenText(pages[index].prompt);
+      if (flags.length > 0) {
+        console.warn(`Image prompt for page ${index + 1} flagged by moderation blocklist - not drawing it:`, flags);
+        continue;
+      }
+      try {
+        const image = await provider.generate({ prompt: pages[index].prompt, signal });
+        illustrated[index].imagePath = await store(index + 1, image);
+      } catch (error) {
+        console.error(`Illustration for page ${index + 1} failed:`, error);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(IMAGE_CONCURRENCY, pages.length) }, drawNext));
+  return illustrated;
+}
@@ -0,0 +1,158 @@
+// Pluggable image generation for story illustrations.
+//
+// Configuration comes from the function's environment:
+//   IMAGE_PROVIDER  "openai-compatible" (default) or "placeholder"
+//   IMAGE_MODEL     model id (default "gpt-image-1")
+//   IMAGE_BASE_URL  base URL of an OpenAI /images/generations server
+//                   (default https://api.openai.com/v1; LocalAI, ComfyUI bridges...)
+//   IMAGE_API_KEY   key for servers that need one
+//   IMAGE_SIZE      image size to ask for (default "1024x1024")
+// "placeholder" draws a simple picture locally, for offline and local development.
+
+export interface ImageRequest {
+  prompt: string;
+  signal?: AbortSignal;
+}
+
+export interface GeneratedImage {
+  data: Uint8Array;
+  contentType: string;
+}
+
+export interface ImageProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(request: ImageRequest): Promise<GeneratedImage>;
+}
+
+export type ImageProviderName = 'openai-compatible' | 'placeholder';
+
+export interface ImageConfig {
+  provider: ImageProviderName;
+  model: string;
+  size: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+const DEFAULT_MODELS: Record<ImageProviderName, string> = {
+  'openai-compatible': 'gpt-image-1',
+  'placeholder': 'placeholder-v1'
+};
+
+export function loadImageConfig(): ImageConfig {
+  const provider = (Deno.env.get('IMAGE_PROVIDER') || 'openai-compatible') as ImageProviderName;
+  if (!(provider in DEFAULT_MODELS)) {
+    throw new Error(`Unknown IMAGE_PROVIDER: ${provider}`);
+  }
+
+  return {
+    provider,
+    model: Deno.env.get('IMAGE_MODEL') || DEFAULT_MODELS[provider],
+    size: Deno.env.get('IMAGE_SIZE') || '1024x1024',
+    baseUrl: Deno.env.get('IMAGE_BASE_URL') || undefined,
+    apiKey: Deno.env.get('IMAGE_API_KEY') || undefined
+  };
+}
+
+function decodeBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Any server that speaks the OpenAI /images/generations protocol
+class OpenAICompatibleImageProvider implements ImageProvider {
+  readonly name = 'OpenAI-compatible images';
+
+  constructor(
+    private readonly baseUrl: string,
+    readonly model: string,
+    private readonly size: string,
+    private readonly apiKey?: string
+  ) {}
+
+  async generate({ prompt, signal }: ImageRequest): Promise<GeneratedImage> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/images/generations`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({ model: this.model, prompt, n: 1, size: this.size }),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error');
+      throw new Error(`${this.name} error (${response.status}): ${errorText}`);
+    }
+
+    // Servers answer with either base64 image data or a link to the image
+    const image = (await response.json()).data?.[0];
+    if (typeof image?.b64_json === 'string') {
+      return { data: decodeBase64(image.b64_json), contentType: 'image/png' };
+    }
+    if (typeof image?.url === 'string') {
+      const download = await fetch(image.url, { signal });
+      if (!download.ok) {
+        throw new Error(`${this.name} image download failed (${download.status})`);
+      }
+      return {
+        data: new Uint8Array(await download.arrayBuffer()),
+        contentType: download.headers.get('content-type') || 'image/png'
+      };
+    }
+    throw new Error(`${this.name} returned no image`);
+  }
+}
+
+// Stable number for a prompt, so the same page always gets the same picture
+function hashPrompt(prompt: string): number {
+  let hash = 0;
+  for (const char of prompt) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+/**
+ * Offline renderer for tests and local development. It draws a simple
+ * landscape as SVG, with colours picked from the prompt, so picture books can
+ * be laid out without an image service or API key.
+ */
+export class PlaceholderImageProvider implements ImageProvider {
+  readonly name = 'Placeholder images';
+  readonly model = DEFAULT_MODELS.placeholder;
+
+  generate({ prompt }: ImageRequest): Promise<GeneratedImage> {
+    const hash = hashPrompt(prompt);
+    const sky = hash % 360;
+    const ground = (sky + 120) % 360;
+    const sunX = 160 + (hash % 700);
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024" viewBox="0 0 1024 1024">
+  <rect width="1024" height="1024" fill="hsl(${sky}, 70%, 85%)"/>
+  <circle cx="${sunX}" cy="260" r="110" fill="hsl(45, 95%, 70%)"/>
+  <path d="M0 700 Q 256 560 512 690 T 1024 650 V 1024 H 0 Z" fill="hsl(${ground}, 45%, 60%)"/>
+  <path d="M0 820 Q 300 740 620 830 T 1024 800 V 1024 H 0 Z" fill="hsl(${ground}, 50%, 45%)"/>
+</svg>`;
+    return Promise.resolve({ data: new TextEncoder().encode(svg), contentType: 'image/svg+xml' });
+  }
+}
+
+export function createImageProvider(config: ImageConfig): ImageProvider {
+  switch (config.provider) {
+    case 'openai-compatible':
+      return new OpenAICompatibleImageProvider(
+        config.baseUrl || 'https://api.openai.com/v1',
+        config.model,
+        config.size,
+        config.apiKey
+      );
+    case 'placeholder':
+      return new PlaceholderImageProvider();
+  }
+}
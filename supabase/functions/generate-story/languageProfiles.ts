@@ -0,0 +1,136 @@
+import { LengthUnit } from "./readability.ts";
+
+export interface LevelTarget {
+  // Story length in the profile's unit, e.g. "50-100"
+  length: string;
+  // Sentence length in the profile's unit, e.g. "3-5"
+  sentenceLength: string;
+}
+
+export interface LanguageProfile {
+  // Chinese, Japanese and Korean stories are measured in characters
+  unit: LengthUnit;
+  levels: Record<string, LevelTarget>;
+  // Script rules for the prompt at a reading level, or '' when there are none
+  scriptRules: (readingLevel: string) => string;
+  // How to write the rhyming verse style, or null where rhyme isn't a
+  // natural form for children's verse in the language
+  rhymingVerse: string | null;
+}
+
+// Reading level guidelines, calibrated for English
+const ENGLISH_LEVELS: Record<string, LevelTarget> = {
+  "k": { length: "50-100", sentenceLength: "3-5" },
+  "1": { length: "100-200", sentenceLength: "5-7" },
+  "2": { length: "200-300", sentenceLength: "7-10" },
+  "3": { length: "300-400", sentenceLength: "8-12" },
+  "4": { length: "400-500", sentenceLength: "10-14" },
+  "5": { length: "500-600", sentenceLength: "12-15" },
+  "teen": { length: "800-1000", sentenceLength: "15-20" }
+};
+
+/**
+ * The English levels scaled to another language, for a story of about the
+ * same content. `scale` is that language's words (or characters) for each
+ * English word: Arabic attaches articles and pronouns to its words, so it
+ * needs fewer; a Chinese word is one or two characters.
+ */
+function scaleLevels(scale: number): Record<string, LevelTarget> {
+  const scaleRange = (range: string, roundTo: number) => range
+    .split('-')
+    .map((n) => Math.max(1, Math.round((parseInt(n) * scale) / roundTo)) * roundTo)
+    .join('-');
+
+  return Object.fromEntries(
+    Object.entries(ENGLISH_LEVELS).map(([level, target]) => [
+      level,
+      { length: scaleRange(target.length, 10), sentenceLength: scaleRange(target.sentenceLength, 1) }
+    ])
+  );
+}
+
+const EARLY_LEVELS = ['k', '1', '2'];
+
+const noScriptRules = () => '';
+
+// Rhyme in the manner of each language's own nursery rhymes rather than a
+// translated Dr. Seuss
+const nurseryRhyme = (language: string) =>
+  `Write in rhyming verse like a traditional ${language} nursery rhyme, with end rhymes, a steady beat, and playful repetition. `;
+
+const DEFAULT_PROFILE: LanguageProfile = {
+  unit: 'words',
+  levels: ENGLISH_LEVELS,
+  scriptRules: noScriptRules,
+  rhymingVerse: null
+};
+
+const LANGUAGE_PROFILES: Record<string, LanguageProfile> = {
+  english: {
+    ...DEFAULT_PROFILE,
+    rhymingVerse: "Write in Dr. Seuss style with rhyming, repetitive patterns, and playful language. "
+  },
+  spanish: { ...DEFAULT_PROFILE, rhymingVerse: nurseryRhyme('Spanish') },
+  french: { ...DEFAULT_PROFILE, rhymingVerse: nurseryRhyme('French') },
+  german: { ...DEFAULT_PROFILE, rhymingVerse: nurseryRhyme('German') },
+  italian: { ...DEFAULT_PROFILE, rhymingVerse: nurseryRhyme('Italian') },
+  portuguese: { ...DEFAULT_PROFILE, rhymingVerse: nurseryRhyme('Portuguese') },
+  dutch: { ...DEFAULT_PROFILE, rhymingVerse: nurseryRhyme('Dutch') },
+  russian: { ...DEFAULT_PROFILE, rhymingVerse: nurseryRhyme('Russian') },
+  polish: { ...DEFAULT_PROFILE, rhymingVerse: nurseryRhyme('Polish') },
+  swedish: { ...DEFAULT_PROFILE, rhymingVerse: nurseryRhyme('Swedish') },
+  chinese: {
+    unit: 'characters',
+    levels: scaleLevels(1.6),
+    scriptRules: (readingLevel) => EARLY_LEVELS.includes(readingLevel)
+      ? 'Write in simplified Chinese characters with full-width punctuation (，。！？). Use only the most common characters a young reader learns first. '
+      : 'Write in simplified Chinese characters with full-width punctuation (，。！？). ',
+    rhymingVerse: "Write in rhyming verse like a Chinese children's song (儿歌), in short lines of even length that rhyme at the end, with playful repetition. "
+  },
+  japanese: {
+    unit: 'characters',
+    levels: scaleLevels(2.5),
+    scriptRules: (readingLevel) => {
+      if (readingLevel === 'k' || readingLevel === '1') {
+        return 'Write almost entirely in hiragana with no kanji, leaving a space between phrases as Japanese picture books do. ';
+      }
+      if (readingLevel === '2' || readingLevel === '3') {
+        return `Write mainly in hiragana, using only kanji taught in Japanese schools up to grade ${readingLevel}. `;
+      }
+      return 'Use only kanji a Japanese reader of this grade has learned, and hiragana for everything else. ';
+    },
+    rhymingVerse: null
+  },
+  korean: {
+    unit: 'characters',
+    levels: scaleLevels(1.8),
+    scriptRules: () => 'Write in Hangul only, with no Hanja, and standard spacing between words. ',
+    rhymingVerse: null
+  },
+  arabic: {
+    unit: 'words',
+    levels: scaleLevels(0.8),
+    scriptRules: (readingLevel) => EARLY_LEVELS.includes(readingLevel)
+      ? 'Write in Modern Standard Arabic with full diacritics (tashkeel) on every word so early readers can sound the words out. '
+      : 'Write in Modern Standard Arabic, adding diacritics only where a word would otherwise be ambiguous. ',
+    rhymingVerse: 'Write in rhyming verse like an Arabic children\'s song (أنشودة), with short lines that share an end rhyme and playful repetition. '
+  },
+  hindi: {
+    unit: 'words',
+    levels: scaleLevels(1.1),
+    scriptRules: (readingLevel) => EARLY_LEVELS.includes(readingLevel)
+      ? 'Write in Devanagari with everyday Hindi words rather than formal Sanskrit vocabulary. Prefer short words with simple vowel signs and few conjunct consonants, and end sentences with a danda (।). '
+      : 'Write in Devanagari with everyday Hindi words rather than formal Sanskrit vocabulary, and end sentences with a danda (।). ',
+    rhymingVerse: 'Write in rhyming verse like a Hindi children\'s poem (बाल कविता), with end rhymes, a steady beat, and playful repetition. '
+  }
+};
+
+// Whether stories can be written in `language`, by the value the app sends
+export function isSupportedLanguage(language: string): boolean {
+  return Object.hasOwn(LANGUAGE_PROFILES, language);
+}
+
+// Languages without a profile of their own are leveled like English
+export function getLanguageProfile(language: string): LanguageProfile {
+  return LANGUAGE_PROFILES[language] ?? DEFAULT_PROFILE;
+}
@@ -0,0 +1,268 @@
+import { LlmProvider } from "../_shared/llm.ts";
+import { StructuredStory } from "./structuredStory.ts";
+
+// Content-safety screening for generated stories. Two layers:
+//   1. A local blocklist of words and patterns that never belong in a story
+//      for children. It always runs and is cheap enough to screen streamed text.
+//   2. An optional classifier, chosen with MODERATION_CLASSIFIER:
+//        "openai"  OpenAI's moderation endpoint (needs OPENAI_API_KEY)
+//        "llm"     asks the story provider to judge the story
+//        "none"    blocklist only (default)
+//
+// Other settings:
+//   MODERATION_BLOCKLIST    extra comma separated terms, matched as whole words
+//   MODERATION_FAIL_CLOSED  "true" to reject stories when the classifier errors
+
+export type ModerationCategory =
+  | 'violence'
+  | 'sexual'
+  | 'self-harm'
+  | 'profanity'
+  | 'hate'
+  | 'substances'
+  | 'other';
+
+export interface ModerationFlag {
+  source: 'blocklist' | 'classifier';
+  category: ModerationCategory;
+  // The text that matched, for blocklist flags
+  match?: string;
+  // Classifier confidence, 0-1, when the classifier reports one
+  score?: number;
+}
+
+export interface ModerationResult {
+  safe: boolean;
+  flags: ModerationFlag[];
+  classifier: string | null;
+  classifierError?: string;
+}
+
+export type ModerationDecision = 'approved' | 'regenerated' | 'blocked';
+
+// Thrown when a story still fails moderation after regeneration
+export class StoryBlockedError extends Error {
+  constructor(public readonly flags: ModerationFlag[]) {
+    super("We couldn't create a story that passed our safety checks. Please try different story settings.");
+    this.name = 'StoryBlockedError';
+  }
+}
+
+interface BlocklistRule {
+  category: ModerationCategory;
+  pattern: RegExp;
+}
+
+// English only; stories in other languages rely on the classifier and on
+// MODERATION_BLOCKLIST. Slurs are deliberately kept out of source control and
+// belong in MODERATION_BLOCKLIST.
+const BUILT_IN_RULES: BlocklistRule[] = [
+  { category: 'violence', pattern: /\b(?:murder(?:s|ed|er|ing)?|stab(?:s|bed|bing)?|behead(?:s|ed|ing)?|decapitat\w*|gor(?:e|y)|bloodbath|massacre\w*|tortur\w+)\b/i },
+  { category: 'violence', pattern: /\b(?:kill(?:s|ed|ing)?|shoot(?:s|ing)?|shot)\s+(?:him|her|them|you|me|everyone|people)\b/i },
+  { category: 'violence', pattern: /\b(?:gun|rifle|pistol|bomb|grenade)s?\b/i },
+  { category: 'sexual', pattern: /\b(?:sex(?:y|ual|ually)?|naked|nude|porn\w*|erotic\w*|seduc\w+)\b/i },
+  { category: 'self-harm', pattern: /\b(?:suicid\w+|self[- ]harm\w*|(?:kill|hurt|cut)(?:s|ing)?\s+(?:him|her|them|my|your)sel(?:f|ves))\b/i },
+  { category: 'profanity', pattern: /\b(?:fuck\w*|shit\w*|bitch\w*|bastard\w*|asshole\w*|damn(?:ed|it)?|crap)\b/i },
+  { category: 'substances', pattern: /\b(?:cocaine|heroin|meth|marijuana|drunk|beer|wine|vodka|whiske?y|cigarettes?|vap(?:e|es|ing)|smok(?:es|ed|ing)\s+(?:a\s+)?(?:cigarette|joint|pipe))\b/i }
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function loadBlocklist(): BlocklistRule[] {
+  const extraTerms = (Deno.env.get('MODERATION_BLOCKLIST') ?? '')
+    .split(',')
+    .map((term) => term.trim())
+    .filter(Boolean);
+
+  if (extraTerms.length === 0) {
+    return BUILT_IN_RULES;
+  }
+
+  // \b does not understand non-Latin letters, so configured terms use Unicode-aware boundaries
+  const extraPattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${extraTerms.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`,
+    'iu'
+  );
+  return [...BUILT_IN_RULES, { category: 'other', pattern: extraPattern }];
+}
+
+const BLOCKLIST = loadBlocklist();
+
+/**
+ * Screen text against the local blocklist. Synchronous so it can run on
+ * every sentence of a streamed story before the sentence is relayed.
+ */
+export function screenText(text: string): ModerationFlag[] {
+  const flags: ModerationFlag[] = [];
+  for (const rule of BLOCKLIST) {
+    const match = text.match(rule.pattern);
+    if (match) {
+      flags.push({ source: 'blocklist', category: rule.category, match: match[0] });
+    }
+  }
+  return flags;
+}
+
+function storyText(story: StructuredStory): string {
+  return [
+    story.title,
+    ...story.paragraphs,
+    ...story.characters.map((character) => `${character.name}: ${character.description}`),
+    story.summary
+  ].join('\n');
+}
+
+// OpenAI moderation categories that matter for children's stories
+const OPENAI_CATEGORY_MAP: Record<string, ModerationCategory> = {
+  'violence': 'violence',
+  'violence/graphic': 'violence',
+  'sexual': 'sexual',
+  'sexual/minors': 'sexual',
+  'self-harm': 'self-harm',
+  'self-harm/intent': 'self-harm',
+  'self-harm/instructions': 'self-harm',
+  'hate': 'hate',
+  'hate/threatening': 'hate',
+  'harassment': 'hate',
+  'harassment/threatening': 'hate',
+  'illicit': 'substances',
+  'illicit/violent': 'violence'
+};
+
+async function classifyWithOpenAI(text: string): Promise<ModerationFlag[]> {
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY is not configured');
+  }
+
+  const response = await fetch('https://api.openai.com/v1/moderations', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ model: 'omni-moderation-latest', input: text })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Moderation endpoint error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const result = data.results?.[0];
+  if (!result) {
+    throw new Error('Moderation endpoint returned no result');
+  }
+
+  const flags: ModerationFlag[] = [];
+  for (const [name, flagged] of Object.entries(result.categories ?? {})) {
+    const category = OPENAI_CATEGORY_MAP[name];
+    if (flagged && category) {
+      flags.push({ source: 'classifier', category, score: result.category_scores?.[name] });
+    }
+  }
+  return flags;
+}
+
+const CLASSIFIER_PROMPT = `You review stories written for children aged 4-14 before they are shown to them.
+Flag the story if it contains any of: graphic or frightening violence, sexual content, self-harm,
+profanity, hateful or demeaning content, alcohol, drugs or smoking, or anything else a parent
+would consider inappropriate for a child. Mild peril that is resolved safely is acceptable.
+Respond with a single JSON object and nothing else:
+{"safe": true|false, "categories": [zero or more of "violence", "sexual", "self-harm", "profanity", "hate", "substances", "other"]}`;
+
+async function classifyWithLlm(text: string, provider: LlmProvider): Promise<ModerationFlag[]> {
+  const result = await provider.complete({
+    messages: [
+      { role: 'system', content: CLASSIFIER_PROMPT },
+      { role: 'user', content: text }
+    ],
+    maxTokens: 100,
+    task: 'moderation',
+    responseFormat: { type: 'json_object' }
+  });
+
+  const start = result.text.indexOf('{');
+  const end = result.text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('Classifier response was not JSON');
+  }
+
+  const verdict = JSON.parse(result.text.slice(start, end + 1));
+  if (typeof verdict.safe !== 'boolean') {
+    throw new Error('Classifier response is missing "safe"');
+  }
+  if (verdict.safe) {
+    return [];
+  }
+
+  const known: ModerationCategory[] = ['violence', 'sexual', 'self-harm', 'profanity', 'hate', 'substances', 'other'];
+  const categories: ModerationCategory[] = Array.isArray(verdict.categories)
+    ? verdict.categories.filter((category: unknown) => known.includes(category as ModerationCategory))
+    : [];
+  return (categories.length > 0 ? categories : ['other' as const]).map((category) => ({ source: 'classifier', category }));
+}
+
+function classify(classifier: string, text: string, provider: LlmProvider): Promise<ModerationFlag[]> {
+  switch (classifier) {
+    case 'openai':
+      return classifyWithOpenAI(text);
+    case 'llm':
+      return classifyWithLlm(text, provider);
+    default:
+      throw new Error(`Unknown MODERATION_CLASSIFIER: ${classifier}`);
+  }
+}
+
+/**
+ * Screen generated text (a story, or the quiz and translation made from one)
+ * with the blocklist and, when configured, the classifier. The classifier is
+ * skipped when the blocklist already failed the text, since the outcome
+ * cannot change.
+ */
+export async function moderateText(text: string, provider: LlmProvider): Promise<ModerationResult> {
+  const flags = screenText(text);
+  const classifier = (Deno.env.get('MODERATION_CLASSIFIER') ?? 'none').toLowerCase();
+
+  if (flags.length > 0 || classifier === 'none') {
+    return { safe: flags.length === 0, flags, classifier: null };
+  }
+
+  try {
+    const classifierFlags = await classify(classifier, text, provider);
+    return { safe: classifierFlags.length === 0, flags: classifierFlags, classifier };
+  } catch (error) {
+    const failClosed = Deno.env.get('MODERATION_FAIL_CLOSED') === 'true';
+    console.error(`Moderation classifier failed (${failClosed ? 'rejecting' : 'allowing'} text):`, error);
+    return {
+      safe: !failClosed,
+      flags: failClosed ? [{ source: 'classifier', category: 'other' }] : [],
+      classifier,
+      classifierError: (error as Error).message
+    };
+  }
+}
+
+// Screen a finished story: its title, paragraphs, characters and summary
+export function moderateStory(story: StructuredStory, provider: LlmProvider): Promise<ModerationResult> {
+  return moderateText(storyText(story), provider);
+}
+
+const CATEGORY_GUIDANCE: Record<ModerationCategory, string> = {
+  'violence': 'no weapons, fighting that hurts anyone, or frightening violence',
+  'sexual': 'no romantic or physical content beyond a hug',
+  'self-harm': 'no one hurting themselves',
+  'profanity': 'no swearing or rude words',
+  'hate': 'no insults or mean remarks about any group of people',
+  'substances': 'no alcohol, drugs or smoking',
+  'other': 'nothing a parent would find inappropriate for a young child'
+};
+
+// Instruction appended to the prompt when a story is regenerated after failing moderation
+export function describeModerationFlags(flags: ModerationFlag[]): string {
+  const categories = Array.from(new Set(flags.map((flag) => flag.category)));
+  const guidance = categories.map((category) => CATEGORY_GUIDANCE[category]).join('; ');
+  return `Your previous draft was not suitable for children. Write a completely new, gentle story: ${guidance}.`;
+}
@@ -0,0 +1,82 @@
+// Child profile details that may be written into a story. Only fields the
+// parent listed in `shared_fields` are used; everything else stays in the
+// database and never reaches the model.
+
+export type SharedProfileField = 'name' | 'pronouns' | 'age' | 'interests' | 'favorite_animal';
+
+export interface ChildProfileRow {
+  name: string;
+  pronouns: string | null;
+  age: number | null;
+  interests: string[];
+  favorite_animal: string | null;
+  shared_fields: SharedProfileField[];
+}
+
+export interface Personalization {
+  name?: string;
+  pronouns?: string;
+  age?: number;
+  interests?: string[];
+  favoriteAnimal?: string;
+}
+
+const MAX_INTERESTS = 5;
+
+// Profile text is typed by parents and ends up in the prompt, so keep it to
+// short, plain phrases with no line breaks or markup
+function cleanText(value: string | null | undefined, maxLength: number): string | undefined {
+  const cleaned = (value ?? '')
+    .replace(/[^\p{L}\p{N}\s'&,./-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength)
+    .trim();
+  return cleaned || undefined;
+}
+
+export function toPersonalization(profile: ChildProfileRow): Personalization | null {
+  const shared = new Set(profile.shared_fields);
+  const personalization: Personalization = {};
+
+  if (shared.has('name')) personalization.name = cleanText(profile.name, 40);
+  if (shared.has('pronouns')) personalization.pronouns = cleanText(profile.pronouns, 20);
+  if (shared.has('age') && profile.age) personalization.age = profile.age;
+  if (shared.has('interests')) {
+    const interests = profile.interests
+      .map((interest) => cleanText(interest, 40))
+      .filter((interest): interest is string => !!interest)
+      .slice(0, MAX_INTERESTS);
+    if (interests.length > 0) personalization.interests = interests;
+  }
+  if (shared.has('favorite_animal')) personalization.favoriteAnimal = cleanText(profile.favorite_animal, 40);
+
+  const hasDetails = Object.values(personalization).some((value) => value !== undefined);
+  return hasDetails ? personalization : null;
+}
+
+// Prompt section that makes the reader the hero of the story
+export function buildPersonalizationPrompt(personalization: Personalization): string {
+  const details: string[] = [];
+
+  if (personalization.name) {
+    details.push(`- The main character is named ${personalization.name}${personalization.pronouns ? ` (pronouns: ${personalization.pronouns})` : ''}`);
+  } else if (personalization.pronouns) {
+    details.push(`- The main character uses the pronouns ${personalization.pronouns}`);
+  }
+  if (personalization.age) {
+    details.push(`- The main character is ${personalization.age} years old`);
+  }
+  if (personalization.interests) {
+    details.push(`- Weave in things the reader loves: ${personalization.interests.join(', ')}`);
+  }
+  if (personalization.favoriteAnimal) {
+    details.push(`- Include the reader's favorite animal: ${personalization.favoriteAnimal}`);
+  }
+
+  return `PERSONALIZATION:
+This story is written for a specific child, who should feel like the hero.
+${details.join('\n')}
+- Use only these details. Do not invent a surname, school, address, family members' names or any other personal information about the reader
+`;
+}
@@ -0,0 +1,201 @@
+// Chinese, Japanese and Korean are leveled by characters rather than words
+export type LengthUnit = 'words' | 'characters';
+
+export interface ReadingBand {
+  unit: LengthUnit;
+  // Story length and sentence length, both in `unit`
+  length: [number, number];
+  sentenceLength: [number, number];
+}
+
+export interface ReadabilityMetrics {
+  unit: LengthUnit;
+  wordCount: number;
+  // Letters and digits, without spaces or punctuation
+  characterCount: number;
+  sentenceCount: number;
+  // In `unit`
+  averageSentenceLength: number;
+  averageSyllablesPerWord: number;
+  // Grade formulas are calibrated for English only and are null for other languages
+  fleschKincaidGrade: number | null;
+  fleschReadingEase: number | null;
+  // New Dale-Chall formula with words of three or more syllables standing in
+  // for words missing from the Dale-Chall familiar word list
+  daleChallScore: number | null;
+}
+
+export type ReadabilityAdjustment = 'none' | 'trimmed' | 'regenerated';
+
+export interface ReadabilityReport extends ReadabilityMetrics {
+  // In `unit`
+  targetWordRange: [number, number];
+  targetSentenceLength: [number, number];
+  withinBand: boolean;
+  adjustment: ReadabilityAdjustment;
+}
+
+export type BandVerdict = 'ok' | 'too-long' | 'too-short' | 'sentences-too-long' | 'sentences-too-short';
+
+// Stories are accepted slightly outside the nominal band; the prompt ranges are
+// targets, and a story a few words over is better than a regenerated one
+const WORD_COUNT_TOLERANCE = 0.1;
+const SENTENCE_LENGTH_TOLERANCE = 2;
+
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+(?:['’-][\p{L}\p{M}\p{N}]+)*/gu;
+
+const CHARACTER_PATTERN = /[\p{L}\p{N}]/gu;
+
+export function countWords(text: string): number {
+  return text.match(WORD_PATTERN)?.length ?? 0;
+}
+
+export function countCharacters(text: string): number {
+  return text.match(CHARACTER_PATTERN)?.length ?? 0;
+}
+
+export function measureLength(text: string, unit: LengthUnit): number {
+  return unit === 'characters' ? countCharacters(text) : countWords(text);
+}
+
+// The story's length in the unit its band is measured in
+export function storyLength(metrics: ReadabilityMetrics): number {
+  return metrics.unit === 'characters' ? metrics.characterCount : metrics.wordCount;
+}
+
+// Sentences end at . ! ? … and the Hindi danda and Arabic question mark
+// before a space, or at CJK full-width punctuation, which has no space after it
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?…।؟]["”’)]*)\s+|(?<=[。！？][」』”’）]*)(?![」』”’）])/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => countWords(sentence) > 0);
+}
+
+export function countSyllables(word: string): number {
+  let normalized = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!normalized) return 0;
+  if (normalized.length <= 3) return 1;
+
+  normalized = normalized
+    .replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, (ending) => ending.charAt(0))
+    .replace(/^y/, '');
+
+  const vowelGroups = normalized.match(/[aeiouy]{1,2}/g);
+  return Math.max(1, vowelGroups?.length ?? 1);
+}
+
+const round = (value: number, digits = 1) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+export function analyzeReadability(paragraphs: string[], language: string, unit: LengthUnit = 'words'): ReadabilityMetrics {
+  const text = paragraphs.join('\n');
+  const words = text.match(WORD_PATTERN) ?? [];
+  const wordCount = words.length;
+  const characterCount = countCharacters(text);
+  const sentenceCount = Math.max(1, paragraphs.flatMap(splitSentences).length);
+
+  if (wordCount === 0) {
+    return {
+      unit,
+      wordCount: 0,
+      characterCount: 0,
+      sentenceCount: 0,
+      averageSentenceLength: 0,
+      averageSyllablesPerWord: 0,
+      fleschKincaidGrade: null,
+      fleschReadingEase: null,
+      daleChallScore: null
+    };
+  }
+
+  const syllableCounts = words.map(countSyllables);
+  const syllables = syllableCounts.reduce((sum, count) => sum + count, 0);
+  const wordsPerSentence = wordCount / sentenceCount;
+  const syllablesPerWord = syllables / wordCount;
+
+  const metrics: ReadabilityMetrics = {
+    unit,
+    wordCount,
+    characterCount,
+    sentenceCount,
+    averageSentenceLength: round(unit === 'characters' ? characterCount / sentenceCount : wordsPerSentence),
+    averageSyllablesPerWord: round(syllablesPerWord, 2),
+    fleschKincaidGrade: null,
+    fleschReadingEase: null,
+    daleChallScore: null
+  };
+
+  if (language === 'english') {
+    const difficultShare = syllableCounts.filter((count) => count >= 3).length / wordCount;
+    const daleChallRaw = 0.1579 * difficultShare * 100 + 0.0496 * wordsPerSentence;
+
+    metrics.fleschKincaidGrade = round(Math.max(0, 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59));
+    metrics.fleschReadingEase = round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord);
+    metrics.daleChallScore = round(difficultShare > 0.05 ? daleChallRaw + 3.6365 : daleChallRaw);
+  }
+
+  return metrics;
+}
+
+export function checkReadingBand(metrics: ReadabilityMetrics, band: ReadingBand): BandVerdict {
+  const [minLength, maxLength] = band.length;
+  const [minSentence, maxSentence] = band.sentenceLength;
+  const length = storyLength(metrics);
+
+  if (length > maxLength * (1 + WORD_COUNT_TOLERANCE)) return 'too-long';
+  if (length < minLength * (1 - WORD_COUNT_TOLERANCE)) return 'too-short';
+  if (metrics.averageSentenceLength > maxSentence + SENTENCE_LENGTH_TOLERANCE) return 'sentences-too-long';
+  if (metrics.averageSentenceLength < minSentence - SENTENCE_LENGTH_TOLERANCE) return 'sentences-too-short';
+  return 'ok';
+}
+
+// Instruction appended to the prompt when a draft has to be regenerated
+export function describeBandMiss(verdict: BandVerdict, metrics: ReadabilityMetrics, band: ReadingBand): string {
+  switch (verdict) {
+    case 'too-long':
+    case 'too-short':
+      return `Your previous draft was ${storyLength(metrics)} ${band.unit}. The story MUST be between ${band.length[0]} and ${band.length[1]} ${band.unit}.`;
+    case 'sentences-too-long':
+    case 'sentences-too-short':
+      return `Your previous draft averaged ${metrics.averageSentenceLength} ${band.unit} per sentence. Sentences MUST average ${band.sentenceLength[0]}-${band.sentenceLength[1]} ${band.unit}.`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Shorten a story to at most `maxLength` words (or characters) by removing
+ * sentences from the ends of its middle paragraphs, longest paragraph first.
+ * The opening and closing paragraphs are left alone so the story keeps its
+ * beginning and ending. Returns null when the story cannot be trimmed that
+ * far without losing them.
+ */
+export function trimToLength(paragraphs: string[], maxLength: number, unit: LengthUnit = 'words'): string[] | null {
+  if (paragraphs.length < 3) return null;
+
+  const sentences = paragraphs.map(splitSentences);
+  const measure = (text: string) => measureLength(text, unit);
+  // CJK sentences are joined without spaces, as they were written
+  const separator = unit === 'characters' ? '' : ' ';
+  let total = measure(paragraphs.join(' '));
+
+  while (total > maxLength) {
+    let longest = -1;
+    for (let i = 1; i < sentences.length - 1; i++) {
+      if (sentences[i].length <= 1) continue;
+      if (longest === -1 || measure(sentences[i].join(' ')) > measure(sentences[longest].join(' '))) {
+        longest = i;
+      }
+    }
+
+    if (longest === -1) return null;
+
+    const removed = sentences[longest].pop()!;
+    total -= measure(removed);
+  }
+
+  return sentences.map((paragraphSentences) => paragraphSentences.join(separator));
+}
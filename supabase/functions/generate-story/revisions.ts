@@ -0,0 +1,59 @@
+import { StructuredStory } from "./structuredStory.ts";
+
+export type RevisionAction = 'regenerate' | 'shorter' | 'simpler' | 'more-dialogue' | 'new-ending';
+
+export const REVISION_ACTIONS: RevisionAction[] = ['regenerate', 'shorter', 'simpler', 'more-dialogue', 'new-ending'];
+
+// What the client sends to ask for a new version of one of its stories
+export interface RevisionRequest {
+  storyId: string;
+  action: RevisionAction;
+}
+
+// A revision after the previous version has been loaded from generated_stories
+export interface StoryEdit {
+  action: RevisionAction;
+  previous: StructuredStory;
+  // generated_stories id of the first version; every version shares it
+  rootStoryId: string;
+  version: number;
+}
+
+const SHORTER_LENGTH: Record<string, string> = {
+  long: 'medium',
+  medium: 'short'
+};
+
+// Story length for the next version; "shorter" steps down one length
+export function revisedLength(action: RevisionAction, length: string): string {
+  return action === 'shorter' ? SHORTER_LENGTH[length] ?? length : length;
+}
+
+export function canRevise(action: RevisionAction, length: string): boolean {
+  return action !== 'shorter' || length in SHORTER_LENGTH;
+}
+
+const EDIT_INSTRUCTIONS: Record<Exclude<RevisionAction, 'regenerate'>, string> = {
+  'shorter': 'Rewrite it as a shorter story. Keep the same characters, main events and ending, and cut the less important details.',
+  'simpler': 'Rewrite it to be easier to read. Use simpler, more familiar words and keep sentences at the short end of the allowed range. Keep the same characters and plot.',
+  'more-dialogue': 'Rewrite it so that much more of the story is told through dialogue between the characters. Keep the same characters and plot.',
+  'new-ending': 'Keep the beginning and middle of the story the same, but write a different ending that still resolves the story in a satisfying way.'
+};
+
+/**
+ * Text appended to the user message for a revision. Edits include the
+ * previous version so the model can rework it; a regeneration only names it,
+ * so the new story does not repeat it.
+ */
+export function buildEditInstruction(edit: StoryEdit): string {
+  if (edit.action === 'regenerate') {
+    return `Write a completely new story. Do not reuse the title, characters or plot of "${edit.previous.title}".`;
+  }
+
+  const previousStory = JSON.stringify({
+    title: edit.previous.title,
+    paragraphs: edit.previous.paragraphs
+  });
+
+  return `This is a revision of an earlier story:\n${previousStory}\n${EDIT_INSTRUCTIONS[edit.action]} Keep the title unless it no longer fits, and follow all of the requirements above.`;
+}
@@ -0,0 +1,136 @@
+import { LlmProvider } from "../_shared/llm.ts";
+import { StoryCharacter, StructuredStory } from "./structuredStory.ts";
+
+// Continuity notes carried from chapter to chapter of a series
+export interface StoryBible {
+  setting: string;
+  characters: StoryCharacter[];
+  // Compressed summary of every chapter so far, newest in the most detail
+  runningSummary: string;
+}
+
+// What the client sends to write the next chapter. `fromStoryId` starts a new
+// series with one of the user's generated stories as chapter 1.
+export interface SeriesRequest {
+  seriesId?: string;
+  fromStoryId?: string;
+}
+
+// The chapter being written, resolved from the stored series
+export interface SeriesChapter {
+  seriesId: string;
+  seriesTitle: string;
+  chapterNumber: number;
+  bible: StoryBible;
+}
+
+// Keeps the prompt small however long the series runs
+const MAX_SUMMARY_WORDS = 200;
+
+function limitWords(text: string, maxWords: number, keep: 'start' | 'end'): string {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (words.length <= maxWords) return words.join(' ');
+  return keep === 'end'
+    ? `... ${words.slice(-maxWords).join(' ')}`
+    : `${words.slice(0, maxWords).join(' ')}...`;
+}
+
+// Prompt section that keeps a new chapter consistent with the earlier ones
+export function buildSeriesPrompt(chapter: SeriesChapter): string {
+  const characters = chapter.bible.characters
+    .map((character) => `- ${character.name}: ${character.description}`)
+    .join('\n');
+
+  return `SERIES CONTINUITY:
+This is chapter ${chapter.chapterNumber} of the series "${chapter.seriesTitle}".
+${chapter.bible.setting ? `Setting: ${chapter.bible.setting}\n` : ''}Characters (keep their names, personalities and appearance the same):
+${characters || '- (none yet)'}
+Story so far: ${chapter.bible.runningSummary}
+- Continue from where the last chapter ended and bring back the main characters
+- Give this chapter its own beginning, middle and end
+- The "title" is the title of this chapter, not of the series
+`;
+}
+
+const BIBLE_PROMPT = `You keep the story bible for a children's story series so that later chapters stay consistent.
+You are given the current bible (or null for a new series) and the newest chapter.
+Respond with a single JSON object and nothing else:
+{"setting": one or two sentences describing where the series takes place,
+ "characters": every recurring character as {"name", "description"} with one sentence covering appearance and personality,
+ "runningSummary": what has happened in the whole series so far, at most ${MAX_SUMMARY_WORDS} words, with the newest chapter in the most detail}`;
+
+function mergeCharacters(existing: StoryCharacter[], added: StoryCharacter[]): StoryCharacter[] {
+  const byName = new Map(existing.map((character) => [character.name.toLowerCase(), character]));
+  for (const character of added) {
+    if (!byName.has(character.name.toLowerCase())) {
+      byName.set(character.name.toLowerCase(), character);
+    }
+  }
+  return Array.from(byName.values());
+}
+
+// Used when the model cannot update the bible: keep what is known and append the chapter summary
+function appendChapter(bible: StoryBible | null, chapter: StructuredStory, chapterNumber: number): StoryBible {
+  const chapterSummary = `Chapter ${chapterNumber}: ${chapter.summary || chapter.title}`;
+  return {
+    setting: bible?.setting ?? '',
+    characters: mergeCharacters(bible?.characters ?? [], chapter.characters),
+    runningSummary: limitWords([bible?.runningSummary, chapterSummary].filter(Boolean).join(' '), MAX_SUMMARY_WORDS, 'end')
+  };
+}
+
+function isCharacter(value: unknown): value is StoryCharacter {
+  const candidate = value as StoryCharacter;
+  return typeof candidate?.name === 'string' && candidate.name.trim() !== '' && typeof candidate.description === 'string';
+}
+
+/**
+ * Fold a finished chapter into the series bible. The model rewrites the
+ * running summary so it stays short; if that call fails the chapter summary is
+ * appended instead, so a chapter is never lost from the bible.
+ */
+export async function updateStoryBible(
+  provider: LlmProvider,
+  bible: StoryBible | null,
+  chapter: StructuredStory,
+  chapterNumber: number
+): Promise<StoryBible> {
+  try {
+    const result = await provider.complete({
+      messages: [
+        { role: 'system', content: BIBLE_PROMPT },
+        {
+          role: 'user',
+          content: JSON.stringify({
+            bible,
+            chapterNumber,
+            chapter: { title: chapter.title, paragraphs: chapter.paragraphs, characters: chapter.characters }
+          })
+        }
+      ],
+      maxTokens: 600,
+      task: 'story-bible',
+      responseFormat: { type: 'json_object' }
+    });
+
+    const start = result.text.indexOf('{');
+    const end = result.text.lastIndexOf('}');
+    if (start === -1 || end < start) {
+      throw new Error('Story bible response was not JSON');
+    }
+
+    const updated = JSON.parse(result.text.slice(start, end + 1));
+    if (typeof updated.runningSummary !== 'string' || !updated.runningSummary.trim() || !Array.isArray(updated.characters)) {
+      throw new Error('Story bible response is missing fields');
+    }
+
+    return {
+      setting: typeof updated.setting === 'string' ? updated.setting.trim() : bible?.setting ?? '',
+      characters: mergeCharacters(updated.characters.filter(isCharacter), chapter.characters),
+      runningSummary: limitWords(updated.runningSummary, MAX_SUMMARY_WORDS, 'start')
+    };
+  } catch (error) {
+    console.error('Story bible update failed, appending chapter summary instead:', error);
+    return appendChapter(bible, chapter, chapterNumber);
+  }
+}
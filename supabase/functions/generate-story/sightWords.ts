@@ -0,0 +1,160 @@
+export interface SightWordOccurrence {
+  word: string;
+  count: number;
+  // The spellings found in the story ("running", "Runs"), for highlighting
+  forms: string[];
+}
+
+export interface SightWordCoverage {
+  // Share of sight words that appear at least once, 0-1
+  coverage: number;
+  occurrences: SightWordOccurrence[];
+  missing: string[];
+}
+
+// A story passes when at least this share of the active sight words appear in it
+export const SIGHT_WORD_COVERAGE_THRESHOLD = 0.8;
+
+const TOKEN_PATTERN = /[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}]+)*/gu;
+
+// Chinese and Japanese aren't written with spaces between words, and Korean
+// attaches particles to them, so words in these scripts are found anywhere
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const VOWELS = 'aeiou';
+
+const SHORT_WORD_INFLECTIONS: Record<string, string[]> = {
+  go: ['goes', 'going'],
+  do: ['does', 'doing'],
+  be: ['being']
+};
+
+// Regular English inflections of a word: plurals, past tense, -ing, and the
+// comparative/superlative, with the usual spelling changes (run -> running,
+// make -> making, happy -> happier). Irregular forms are not covered.
+export function englishInflections(word: string): Set<string> {
+  const base = word.toLowerCase();
+  const forms = new Set([base]);
+  const last = base.charAt(base.length - 1);
+  const beforeLast = base.charAt(base.length - 2);
+  const addAll = (...suffixed: string[]) => suffixed.forEach((form) => forms.add(form));
+
+  // One- and two-letter words are nearly all function words whose "inflections"
+  // would be other words entirely (us -> using, to -> toes)
+  if (base.length <= 2) {
+    addAll(...(SHORT_WORD_INFLECTIONS[base] ?? []));
+    return forms;
+  }
+
+  if (/(s|x|z|ch|sh|o)$/.test(base)) {
+    addAll(`${base}es`);
+  } else if (last === 'y' && !VOWELS.includes(beforeLast)) {
+    addAll(`${base.slice(0, -1)}ies`, `${base.slice(0, -1)}ied`, `${base.slice(0, -1)}ier`, `${base.slice(0, -1)}iest`);
+  } else {
+    addAll(`${base}s`);
+  }
+
+  if (last === 'e') {
+    // Keep short words whole: dropping the e turns "the" into "thing"
+    if (base.length === 3) {
+      addAll(`${base}ing`);
+    } else if (beforeLast === 'e') {
+      addAll(`${base}d`, `${base}ing`);
+    } else {
+      addAll(`${base}d`, `${base}r`, `${base}st`, `${base.slice(0, -1)}ing`);
+    }
+  } else {
+    addAll(`${base}ed`, `${base}ing`, `${base}er`, `${base}est`);
+  }
+
+  // Short consonant-vowel-consonant words double their final consonant
+  const isShortCvc = base.length <= 4
+    && !VOWELS.includes(last)
+    && !'wxy'.includes(last)
+    && VOWELS.includes(beforeLast)
+    && !VOWELS.includes(base.charAt(base.length - 3));
+  if (isShortCvc) {
+    addAll(`${base}${last}ed`, `${base}${last}ing`, `${base}${last}er`, `${base}${last}est`);
+  }
+
+  addAll(`${base}'s`, `${base}’s`);
+  return forms;
+}
+
+// Arabic short-vowel marks, which stories for early readers write in full
+const ARABIC_DIACRITICS = /[\u064B-\u065F\u0670]/g;
+
+// An Arabic word without its vowel marks and without the conjunction,
+// preposition and article written onto its front: وَالْبَيْتِ -> والبيت, البيت, بيت
+function arabicForms(token: string): Set<string> {
+  const bare = token.replace(ARABIC_DIACRITICS, '');
+  return new Set([
+    bare,
+    bare.replace(/^[وف]/, ''),
+    bare.replace(/^[وف]?[بكل]/, ''),
+    bare.replace(/^[وف]?[بكل]?ال/, ''),
+    // ل before the article drops its alif: للبيت
+    bare.replace(/^[وف]?لل/, '')
+  ].filter((form) => form.length >= 2));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Count how often each sight word appears in the story. English words also
+ * match their regular inflections and Arabic words their attached prefixes;
+ * multi-word entries ("thank you") are matched as phrases, and CJK words
+ * wherever they appear in the text.
+ */
+export function measureSightWordCoverage(paragraphs: string[], keywords: string[], language: string): SightWordCoverage {
+  const text = paragraphs.join('\n');
+  const tokens = text.match(TOKEN_PATTERN) ?? [];
+
+  const occurrences = keywords.map((keyword): SightWordOccurrence => {
+    const word = keyword.trim();
+    const forms = new Set<string>();
+    let count = 0;
+
+    if (UNSPACED_SCRIPT.test(word)) {
+      for (const match of text.matchAll(new RegExp(escapeRegExp(word), 'gu'))) {
+        count++;
+        forms.add(match[0]);
+      }
+    } else if (/\s/.test(word)) {
+      const phrase = new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])${word.split(/\s+/).map(escapeRegExp).join('\\s+')}(?![\\p{L}\\p{M}\\p{N}])`, 'giu');
+      for (const match of text.matchAll(phrase)) {
+        count++;
+        forms.add(match[0]);
+      }
+    } else if (language === 'arabic') {
+      const bare = word.replace(ARABIC_DIACRITICS, '');
+      for (const token of tokens) {
+        if (arabicForms(token).has(bare)) {
+          count++;
+          forms.add(token);
+        }
+      }
+    } else {
+      const accepted = language === 'english' ? englishInflections(word) : new Set([word.toLowerCase()]);
+      for (const token of tokens) {
+        if (accepted.has(token.toLowerCase())) {
+          count++;
+          forms.add(token);
+        }
+      }
+    }
+
+    return { word, count, forms: Array.from(forms) };
+  });
+
+  const missing = occurrences.filter((occurrence) => occurrence.count === 0).map((occurrence) => occurrence.word);
+  const coverage = keywords.length === 0 ? 1 : (keywords.length - missing.length) / keywords.length;
+
+  return { coverage: Math.round(coverage * 100) / 100, occurrences, missing };
+}
+
+// Instruction appended to the prompt when a draft left out too many sight words
+export function describeMissingSightWords(coverage: SightWordCoverage): string {
+  return `Your previous draft did not use these sight words: ${coverage.missing.join(', ')}. Every sight word MUST appear in the story at least once.`;
+}
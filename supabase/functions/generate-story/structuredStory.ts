@@ -0,0 +1,336 @@
+import { z } from "https://esm.sh/zod@3.23.8";
+
+export interface StoryCharacter {
+  name: string;
+  description: string;
+}
+
+export interface StructuredStory {
+  title: string;
+  paragraphs: string[];
+  characters: StoryCharacter[];
+  summary: string;
+}
+
+// Thrown when the model output cannot be parsed or repaired into a StructuredStory
+export class StoryFormatError extends Error {
+  constructor(message: string, public readonly raw: string) {
+    super(message);
+    this.name = 'StoryFormatError';
+  }
+}
+
+// JSON schema sent to the LLM provider as response_format. Property order matters:
+// the title comes first and the paragraphs next so a streamed response can be
+// shown to the reader while characters and summary are still being written.
+export const STORY_RESPONSE_FORMAT = {
+  type: "json_schema",
+  json_schema: {
+    name: "story",
+    strict: true,
+    schema: {
+      type: "object",
+      additionalProperties: false,
+      required: ["title", "paragraphs", "characters", "summary"],
+      properties: {
+        title: {
+          type: "string",
+          description: "A short, specific title for this story"
+        },
+        paragraphs: {
+          type: "array",
+          description: "The story text, one paragraph per entry",
+          items: { type: "string" }
+        },
+        characters: {
+          type: "array",
+          description: "Every named character in the story",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            required: ["name", "description"],
+            properties: {
+              name: { type: "string" },
+              description: { type: "string", description: "One sentence about the character" }
+            }
+          }
+        },
+        summary: {
+          type: "string",
+          description: "A one-sentence summary of the story"
+        }
+      }
+    }
+  }
+};
+
+const storyOutputSchema = z.object({
+  title: z.string().trim().min(1),
+  paragraphs: z
+    .array(z.string())
+    .transform((paragraphs) => paragraphs.map((paragraph) => paragraph.trim()).filter(Boolean))
+    .pipe(z.array(z.string()).min(1)),
+  characters: z
+    .array(z.object({
+      name: z.string().trim().min(1),
+      description: z.string().trim().default('')
+    }))
+    .default([]),
+  summary: z.string().trim().default('')
+});
+
+// Close any strings, arrays and objects left open by a response that was cut
+// off (usually by max_tokens), so the part that was written can still be parsed.
+function closeTruncatedJson(text: string): string {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{') closers.push('}');
+    else if (char === '[') closers.push(']');
+    else if (char === '}' || char === ']') closers.pop();
+  }
+
+  let repaired = text;
+  if (escaped) repaired = repaired.slice(0, -1);
+  if (inString) repaired += '"';
+  repaired = repaired.replace(/,\s*$/, '');
+  return repaired + closers.reverse().join('');
+}
+
+function parseLenientJson(raw: string): unknown {
+  let text = raw.trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/```\s*$/, '')
+    .trim();
+
+  const start = text.indexOf('{');
+  if (start === -1) {
+    throw new Error('No JSON object found');
+  }
+  text = text.slice(start);
+
+  const attempts = [
+    text,
+    text.slice(0, text.lastIndexOf('}') + 1),
+    closeTruncatedJson(text)
+  ];
+
+  for (const attempt of attempts) {
+    if (!attempt) continue;
+    for (const candidate of [attempt, attempt.replace(/,\s*([}\]])/g, '$1')]) {
+      try {
+        return JSON.parse(candidate);
+      } catch {
+        // Try the next repair
+      }
+    }
+  }
+
+  throw new Error('JSON could not be repaired');
+}
+
+// Fill gaps that are common in otherwise usable output: a missing title,
+// `content` instead of `paragraphs`, or characters listed as bare names.
+function normalizeCandidate(value: unknown, fallbackTitle: string): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+
+  const candidate = { ...(value as Record<string, unknown>) };
+
+  if (typeof candidate.title !== 'string' || !candidate.title.trim()) {
+    candidate.title = fallbackTitle;
+  }
+
+  if (!Array.isArray(candidate.paragraphs) && typeof candidate.content === 'string') {
+    candidate.paragraphs = candidate.content.split(/\n+/);
+  }
+
+  if (Array.isArray(candidate.characters)) {
+    candidate.characters = candidate.characters.map((character) =>
+      typeof character === 'string' ? { name: character, description: '' } : character
+    );
+  }
+
+  return candidate;
+}
+
+/**
+ * Parse raw model output into a StructuredStory, repairing what can be repaired.
+ * @throws StoryFormatError when the output is not usable and should be regenerated
+ */
+export function parseStoryOutput(raw: string, fallbackTitle: string): StructuredStory {
+  let value: unknown;
+  try {
+    value = parseLenientJson(raw);
+  } catch (error) {
+    throw new StoryFormatError(`Malformed story JSON: ${(error as Error).message}`, raw);
+  }
+
+  const result = storyOutputSchema.safeParse(normalizeCandidate(value, fallbackTitle));
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || 'root'}: ${issue.message}`);
+    throw new StoryFormatError(`Story JSON failed validation: ${issues.join('; ')}`, raw);
+  }
+
+  return result.data as StructuredStory;
+}
+
+export interface StoryStreamUpdate {
+  title?: string;
+  text: string;
+}
+
+type Frame =
+  | { type: 'object'; key?: string; expectingKey: boolean }
+  | { type: 'array' };
+
+/**
+ * Incremental reader for a streamed StructuredStory JSON document.
+ * It tracks just enough JSON structure to pull out the title once it is
+ * complete and the paragraph text as it is decoded, so the reader sees prose
+ * rather than JSON. Paragraphs are separated by "\n" in the emitted text.
+ */
+export class StoryStreamParser {
+  private stack: Frame[] = [];
+  private inString = false;
+  private stringRole: 'key' | 'title' | 'paragraph' | 'other' = 'other';
+  private stringBuffer = '';
+  private escape: string | null = null;
+  private paragraphCount = 0;
+  private raw = '';
+
+  get rawText(): string {
+    return this.raw;
+  }
+
+  feed(chunk: string): StoryStreamUpdate {
+    this.raw += chunk;
+    const update: StoryStreamUpdate = { text: '' };
+
+    for (const char of chunk) {
+      if (this.inString) {
+        this.readStringChar(char, update);
+      } else {
+        this.readStructureChar(char, update);
+      }
+    }
+
+    return update;
+  }
+
+  private readStructureChar(char: string, update: StoryStreamUpdate): void {
+    const frame = this.stack[this.stack.length - 1];
+
+    switch (char) {
+      case '{':
+        this.stack.push({ type: 'object', expectingKey: true });
+        break;
+      case '[':
+        this.stack.push({ type: 'array' });
+        break;
+      case '}':
+      case ']':
+        this.stack.pop();
+        break;
+      case ':':
+        if (frame?.type === 'object') frame.expectingKey = false;
+        break;
+      case ',':
+        if (frame?.type === 'object') frame.expectingKey = true;
+        break;
+      case '"':
+        this.startString(frame, update);
+        break;
+    }
+  }
+
+  private startString(frame: Frame | undefined, update: StoryStreamUpdate): void {
+    this.inString = true;
+    this.stringBuffer = '';
+
+    const root = this.stack[0];
+    const rootKey = root?.type === 'object' ? root.key : undefined;
+
+    if (frame?.type === 'object' && frame.expectingKey) {
+      this.stringRole = 'key';
+    } else if (this.stack.length === 1 && rootKey === 'title') {
+      this.stringRole = 'title';
+    } else if (this.stack.length === 2 && frame?.type === 'array' && rootKey === 'paragraphs') {
+      this.stringRole = 'paragraph';
+      if (this.paragraphCount > 0) update.text += '\n';
+      this.paragraphCount++;
+    } else {
+      this.stringRole = 'other';
+    }
+  }
+
+  private readStringChar(char: string, update: StoryStreamUpdate): void {
+    if (this.escape !== null) {
+      this.readEscapeChar(char, update);
+      return;
+    }
+
+    if (char === '\\') {
+      this.escape = '';
+      return;
+    }
+
+    if (char === '"') {
+      this.endString(update);
+      return;
+    }
+
+    this.appendDecoded(char, update);
+  }
+
+  private readEscapeChar(char: string, update: StoryStreamUpdate): void {
+    if (this.escape === '') {
+      if (char === 'u') {
+        this.escape = 'u';
+        return;
+      }
+      this.escape = null;
+      const simpleEscapes: Record<string, string> = { n: '\n', t: '\t', r: '', b: '', f: '' };
+      this.appendDecoded(simpleEscapes[char] ?? char, update);
+      return;
+    }
+
+    this.escape += char;
+    if (this.escape.length === 5) {
+      const decoded = String.fromCharCode(parseInt(this.escape.slice(1), 16));
+      this.escape = null;
+      this.appendDecoded(decoded, update);
+    }
+  }
+
+  private appendDecoded(text: string, update: StoryStreamUpdate): void {
+    this.stringBuffer += text;
+    if (this.stringRole === 'paragraph') {
+      // A paragraph must stay on one line; "\n" is the paragraph separator
+      update.text += text.replace(/\n/g, ' ');
+    }
+  }
+
+  private endString(update: StoryStreamUpdate): void {
+    this.inString = false;
+    const frame = this.stack[this.stack.length - 1];
+
+    if (this.stringRole === 'key' && frame?.type === 'object') {
+      frame.key = this.stringBuffer;
+    } else if (this.stringRole === 'title') {
+      update.title = this.stringBuffer.trim();
+    }
+
+    this.stringRole = 'other';
+  }
+}
@@ -0,0 +1,33 @@
+// Choosing which words from a child's sight word list go into a story
+
+export type MasteryState = 'new' | 'practicing' | 'mastered';
+
+export interface SightWordEntryRow {
+  word: string;
+  mastery: MasteryState;
+  times_seen: number;
+}
+
+// More words than this makes a short story read like a word list
+export const MAX_STORY_SIGHT_WORDS = 10;
+
+const MASTERY_ORDER: Record<MasteryState, number> = {
+  new: 0,
+  practicing: 1,
+  mastered: 2
+};
+
+/**
+ * Pick the active words to weave into a story. Words the child is still
+ * learning come first, least seen first, so every word gets its turn; mastered
+ * words only fill the spaces that are left for review.
+ */
+export function pickStoryWords(entries: SightWordEntryRow[], limit = MAX_STORY_SIGHT_WORDS): string[] {
+  return [...entries]
+    .sort((a, b) =>
+      (MASTERY_ORDER[a.mastery] ?? 0) - (MASTERY_ORDER[b.mastery] ?? 0)
+      || a.times_seen - b.times_seen
+    )
+    .slice(0, limit)
+    .map((entry) => entry.word);
+}
@@ -0,0 +1,64 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { scoreReading, splitWords } from "./alignment.ts";
+
+const story = 'The cat sat on the mat.';
+const ONE_MINUTE = 60000;
+
+Deno.test('scores a perfect reading', () => {
+  const score = scoreReading(story, 'the cat sat on the mat', ONE_MINUTE);
+  assertEquals(score.wordsAttempted, 6);
+  assertEquals(score.wordsCorrect, 6);
+  assertEquals(score.wcpm, 6);
+  assertEquals(score.accuracy, 1);
+  assertEquals(score.miscues, []);
+});
+
+Deno.test('notes an added word without counting it as an error', () => {
+  const score = scoreReading(story, 'The big cat sat on the mat', ONE_MINUTE);
+  assertEquals(score.wordsCorrect, 6);
+  assertEquals(score.accuracy, 1);
+  assertEquals(score.miscues, [{ type: 'insertion', position: 1, spoken: 'big' }]);
+});
+
+Deno.test('counts a skipped word as an error', () => {
+  const score = scoreReading(story, 'The sat on the mat', ONE_MINUTE);
+  assertEquals(score.wordsAttempted, 6);
+  assertEquals(score.wordsCorrect, 5);
+  assertEquals(score.miscues, [{ type: 'omission', position: 1, expected: 'cat' }]);
+});
+
+Deno.test('counts a different word as an error', () => {
+  const score = scoreReading(story, 'The cap sat on the mat', ONE_MINUTE);
+  assertEquals(score.wordsCorrect, 5);
+  assertEquals(score.miscues, [{ type: 'substitution', position: 1, expected: 'cat', spoken: 'cap' }]);
+});
+
+Deno.test('stops counting at the last word the reader reached', () => {
+  const score = scoreReading(story, 'The cat sat', ONE_MINUTE);
+  assertEquals(score.wordsAttempted, 3);
+  assertEquals(score.wordsCorrect, 3);
+  assertEquals(score.miscues, []);
+});
+
+Deno.test('matches contractions with or without the apostrophe', () => {
+  const score = scoreReading("Don't stop, Pip said. It’s late.", 'dont stop pip said its late', ONE_MINUTE);
+  assertEquals(score.wordsCorrect, 6);
+  assertEquals(score.miscues, []);
+});
+
+Deno.test('splits Chinese and Japanese into characters', () => {
+  assertEquals(splitWords('小狐狸在池塘边。', 'characters'), ['小', '狐', '狸', '在', '池', '塘', '边']);
+  assertEquals(splitWords('きつねが わらった。', 'characters'), ['き', 'つ', 'ね', 'が', 'わ', 'ら', 'っ', 'た']);
+  assertEquals(splitWords('小狐狸在池塘边。'), ['小狐狸在池塘边']);
+});
+
+Deno.test('scores Chinese by character however the transcript groups it', () => {
+  const perfect = scoreReading('小狐狸在池塘边。', '小狐狸 在 池塘边', ONE_MINUTE, 'characters');
+  assertEquals(perfect.wordsCorrect, 7);
+  assertEquals(perfect.miscues, []);
+
+  const misread = scoreReading('小狐狸在池塘边。', '小狐狸在池糖边', ONE_MINUTE, 'characters');
+  assertEquals(misread.wordsAttempted, 7);
+  assertEquals(misread.wordsCorrect, 6);
+  assertEquals(misread.miscues, [{ type: 'substitution', position: 5, expected: '塘', spoken: '糖' }]);
+});
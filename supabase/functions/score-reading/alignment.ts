@@ -0,0 +1,147 @@
+// Lining up a transcript of a child reading aloud with the story text, and
+// scoring it the way an oral reading fluency check is scored by hand:
+// substitutions and omissions are errors, insertions are noted but not
+// counted, and the words after the last one the reader reached weren't
+// attempted rather than omitted. Chinese, Japanese and Korean are scored by
+// character, the unit their stories are leveled in: Chinese and Japanese have
+// no spaces between words, and speech-to-text groups characters into words
+// differently from the story, so comparing whole words would mark a clause
+// wrong for one misread character.
+
+import { LengthUnit } from "../generate-story/readability.ts";
+
+export type MiscueType = 'substitution' | 'omission' | 'insertion';
+
+export interface Miscue {
+  type: MiscueType;
+  /**
+   * Index of the story word (or character), counting across the whole story;
+   * for an insertion, the story word it came before
+   */
+  position: number;
+  /** The story word (not set for insertions) */
+  expected?: string;
+  /** What the reader said (not set for omissions) */
+  spoken?: string;
+}
+
+// For languages scored by character, the "words" here are characters
+export interface FluencyScore {
+  wordsAttempted: number;
+  wordsCorrect: number;
+  /** Words (or characters) correct per minute */
+  wcpm: number;
+  /** Share of attempted words read correctly, 0 to 1 */
+  accuracy: number;
+  miscues: Miscue[];
+}
+
+// Same word pattern the app uses to split stories for tapping and highlighting
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}\p{N}]+)*/gu;
+// Each letter or digit with any marks on it, as the app splits those languages' stories
+const CHARACTER_PATTERN = /[\p{L}\p{N}]\p{M}*/gu;
+
+export function splitWords(text: string, unit: LengthUnit = 'words'): string[] {
+  return text.match(unit === 'characters' ? CHARACTER_PATTERN : WORD_PATTERN) ?? [];
+}
+
+// "Don't" and "dont", "Then" and "then" are the same word when read aloud
+function normalize(word: string): string {
+  return word.toLowerCase().replace(/['’]/g, '');
+}
+
+type Step =
+  | { op: 'match' | 'substitution'; expected: number; spoken: number }
+  | { op: 'omission'; expected: number }
+  | { op: 'insertion'; expected: number; spoken: number };
+
+// Word-level edit distance alignment, walked back into a list of steps
+function align(expected: string[], spoken: string[]): Step[] {
+  const rows = expected.length + 1;
+  const cols = spoken.length + 1;
+  const cost = new Uint32Array(rows * cols);
+  for (let i = 0; i < rows; i++) cost[i * cols] = i;
+  for (let j = 0; j < cols; j++) cost[j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const same = expected[i - 1] === spoken[j - 1];
+      cost[i * cols + j] = Math.min(
+        cost[(i - 1) * cols + (j - 1)] + (same ? 0 : 1),
+        cost[(i - 1) * cols + j] + 1,
+        cost[i * cols + (j - 1)] + 1
+      );
+    }
+  }
+
+  const steps: Step[] = [];
+  let i = expected.length;
+  let j = spoken.length;
+  while (i > 0 || j > 0) {
+    const here = cost[i * cols + j];
+    if (i > 0 && j > 0) {
+      const same = expected[i - 1] === spoken[j - 1];
+      if (here === cost[(i - 1) * cols + (j - 1)] + (same ? 0 : 1)) {
+        steps.push({ op: same ? 'match' : 'substitution', expected: i - 1, spoken: j - 1 });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && here === cost[(i - 1) * cols + j] + 1) {
+      steps.push({ op: 'omission', expected: i - 1 });
+      i--;
+    } else {
+      steps.push({ op: 'insertion', expected: i, spoken: j - 1 });
+      j--;
+    }
+  }
+  return steps.reverse();
+}
+
+/**
+ * Score a reading of `storyText` from its transcript, in the unit the story's
+ * language is leveled in. The reader is assumed to start at the beginning of
+ * the story; reading stops counting at the last story word they read or
+ * attempted.
+ */
+export function scoreReading(storyText: string, transcript: string, durationMs: number, unit: LengthUnit = 'words'): FluencyScore {
+  const storyWords = splitWords(storyText, unit);
+  const spokenWords = splitWords(transcript, unit);
+  const steps = align(storyWords.map(normalize), spokenWords.map(normalize));
+
+  let lastReached = -1;
+  for (const step of steps) {
+    if (step.op === 'match' || step.op === 'substitution') lastReached = step.expected;
+  }
+  const wordsAttempted = lastReached + 1;
+
+  const miscues: Miscue[] = [];
+  let wordsCorrect = 0;
+  for (const step of steps) {
+    if (step.expected >= wordsAttempted) break;
+    switch (step.op) {
+      case 'match':
+        wordsCorrect++;
+        break;
+      case 'substitution':
+        miscues.push({ type: 'substitution', position: step.expected, expected: storyWords[step.expected], spoken: spokenWords[step.spoken] });
+        break;
+      case 'omission':
+        miscues.push({ type: 'omission', position: step.expected, expected: storyWords[step.expected] });
+        break;
+      case 'insertion':
+        miscues.push({ type: 'insertion', position: step.expected, spoken: spokenWords[step.spoken] });
+        break;
+    }
+  }
+
+  const minutes = durationMs / 60000;
+  return {
+    wordsAttempted,
+    wordsCorrect,
+    wcpm: minutes > 0 ? Math.round((wordsCorrect / minutes) * 10) / 10 : 0,
+    accuracy: wordsAttempted > 0 ? Math.round((wordsCorrect / wordsAttempted) * 1000) / 1000 : 0,
+    miscues
+  };
+}
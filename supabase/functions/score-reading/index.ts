@@ -0,0 +1,192 @@
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createSpeechToText, loadSpeechToTextConfig } from "./speechToText.ts";
+import { scoreReading, splitWords } from "./alignment.ts";
+import { getLanguageProfile } from "../generate-story/languageProfiles.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// About ten minutes of compressed speech
+const MAX_AUDIO_BYTES = 15 * 1024 * 1024;
+const MIN_DURATION_MS = 3000;
+const MAX_DURATION_MS = 10 * 60 * 1000;
+const MAX_STORY_LENGTH = 20000;
+const MAX_TITLE_LENGTH = 200;
+const RECORDINGS_BUCKET = 'reading-recordings';
+// Reading checks each account can have scored per day (CST)
+const DAILY_READING_LIMIT = 20;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Get current date in CST timezone, the day the daily limits run on
+function getCSTDate(): string {
+  const now = new Date();
+  const cstOffset = -6; // CST is UTC-6
+  const cstTime = new Date(now.getTime() + (cstOffset * 60 * 60 * 1000));
+  return cstTime.toISOString().split('T')[0];
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// File extension for a recording's content type ("audio/webm;codecs=opus" -> "webm")
+function audioExtension(type: string): string {
+  const subtype = type.split(';')[0].split('/')[1] || '';
+  if (subtype === 'mp4' || subtype === 'x-m4a') return 'm4a';
+  return /^[a-z0-9]+$/.test(subtype) ? subtype : 'webm';
+}
+
+const formString = (form: FormData, name: string): string => {
+  const value = form.get(name);
+  return typeof value === 'string' ? value.trim() : '';
+};
+
+// Transcribes a recording of a child reading a story aloud, scores it against
+// the story text and saves the session. The recording itself is only kept when
+// the parent asked for it; otherwise it is discarded once transcribed.
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'No authorization header' }, 401);
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+      auth: { persistSession: false }
+    });
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authorization' }, 401);
+    }
+
+    const form = await req.formData();
+    const audio = form.get('audio');
+    const storyText = formString(form, 'storyText');
+    const storyTitle = formString(form, 'storyTitle').slice(0, MAX_TITLE_LENGTH);
+    const language = formString(form, 'language') || 'english';
+    const durationMs = Math.round(Number(formString(form, 'durationMs')));
+    const storyId = formString(form, 'storyId');
+    const childProfileId = formString(form, 'childProfileId');
+    const keepAudio = formString(form, 'keepAudio') === 'true';
+
+    if (!(audio instanceof Blob) || audio.size === 0) {
+      return jsonResponse({ error: 'A recording is required' }, 400);
+    }
+    if (audio.size > MAX_AUDIO_BYTES) {
+      return jsonResponse({ error: 'The recording is too long' }, 413);
+    }
+    if (!storyText || storyText.length > MAX_STORY_LENGTH || splitWords(storyText).length === 0) {
+      return jsonResponse({ error: 'The story text is required' }, 400);
+    }
+    if (!Number.isFinite(durationMs) || durationMs < MIN_DURATION_MS || durationMs > MAX_DURATION_MS) {
+      return jsonResponse({ error: 'Recordings must be between 3 seconds and 10 minutes long' }, 400);
+    }
+
+    // Only link to the caller's own reader and story
+    let readerId: string | null = null;
+    if (childProfileId) {
+      const { data: profile } = UUID_PATTERN.test(childProfileId)
+        ? await supabase.from('child_profiles').select('id').eq('id', childProfileId).eq('user_id', user.id).maybeSingle()
+        : { data: null };
+      if (!profile) {
+        return jsonResponse({ error: 'Reader not found' }, 404);
+      }
+      readerId = profile.id;
+    }
+
+    let linkedStoryId: string | null = null;
+    if (storyId && UUID_PATTERN.test(storyId)) {
+      const { data: story } = await supabase
+        .from('generated_stories')
+        .select('id')
+        .eq('id', storyId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      linkedStoryId = story?.id ?? null;
+    }
+
+    const { data: reserved, error: limitError } = await supabase.rpc('reserve_reading_check', {
+      p_user_id: user.id,
+      p_limit: DAILY_READING_LIMIT,
+      p_today: getCSTDate()
+    });
+    if (limitError) throw limitError;
+    if (reserved !== true) {
+      return jsonResponse({ error: 'Daily reading check limit reached. Try again tomorrow.', code: 'READING_LIMIT_REACHED' }, 429);
+    }
+
+    const transcriber = createSpeechToText(loadSpeechToTextConfig());
+    console.log(`Transcribing ${audio.size} byte recording with ${transcriber.name}`);
+    let transcript: string;
+    try {
+      transcript = (await transcriber.transcribe({ audio, language, expectedText: storyText })).trim();
+    } catch (error) {
+      // Nothing was scored, so the check is given back
+      const { error: releaseError } = await supabase.rpc('release_reading_check', { p_user_id: user.id });
+      if (releaseError) console.error('Error releasing reading check:', releaseError);
+      throw error;
+    }
+    const score = scoreReading(storyText, transcript, durationMs, getLanguageProfile(language).unit);
+
+    const sessionId = crypto.randomUUID();
+    let audioPath: string | null = null;
+    if (keepAudio) {
+      const path = `${user.id}/${sessionId}.${audioExtension(audio.type)}`;
+      const { error: uploadError } = await supabase.storage
+        .from(RECORDINGS_BUCKET)
+        .upload(path, audio, { contentType: audio.type || 'audio/webm' });
+      if (uploadError) {
+        // The score is still worth saving; the recording is on the device
+        console.error('Error saving recording:', uploadError);
+      } else {
+        audioPath = path;
+      }
+    }
+
+    const { data: session, error: insertError } = await supabase
+      .from('reading_sessions')
+      .insert({
+        id: sessionId,
+        user_id: user.id,
+        child_profile_id: readerId,
+        story_id: linkedStoryId,
+        story_title: storyTitle || 'Untitled story',
+        language,
+        duration_ms: durationMs,
+        words_attempted: score.wordsAttempted,
+        words_correct: score.wordsCorrect,
+        wcpm: score.wcpm,
+        accuracy: score.accuracy,
+        miscues: score.miscues,
+        transcript,
+        audio_path: audioPath
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      if (audioPath) {
+        await supabase.storage.from(RECORDINGS_BUCKET).remove([audioPath]);
+      }
+      throw insertError;
+    }
+
+    return jsonResponse({ session });
+  } catch (error) {
+    console.error('Error scoring reading:', error);
+    return jsonResponse({ error: 'Failed to score the reading' }, 500);
+  }
+});
@@ -0,0 +1,16 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { MockTranscriber } from "./speechToText.ts";
+
+const request = {
+  audio: new Blob(['not really audio'], { type: 'audio/webm' }),
+  language: 'english',
+  expectedText: 'The cat sat on the mat.'
+};
+
+Deno.test('mock transcriber reads the story back perfectly by default', async () => {
+  assertEquals(await new MockTranscriber().transcribe(request), 'The cat sat on the mat.');
+});
+
+Deno.test('mock transcriber returns the fixed transcript when given one', async () => {
+  assertEquals(await new MockTranscriber('The cap sat').transcribe(request), 'The cap sat');
+});
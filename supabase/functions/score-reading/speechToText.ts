@@ -0,0 +1,130 @@
+// Pluggable speech-to-text for scoring read-aloud recordings.
+//
+// Configuration comes from the function's environment:
+//   STT_PROVIDER         "openai-compatible" (default) or "mock"
+//   STT_MODEL            model id (default "whisper-1")
+//   STT_BASE_URL         base URL of an OpenAI /audio/transcriptions server
+//                        (default https://api.openai.com/v1; whisper.cpp, faster-whisper...)
+//   STT_API_KEY          key for servers that need one
+//   STT_MOCK_TRANSCRIPT  fixed transcript for "mock"; by default the mock
+//                        reads the story back perfectly
+
+export interface TranscriptionRequest {
+  audio: Blob;
+  /** Story language as offered in the story form ("english", "spanish"...) */
+  language: string;
+  /**
+   * The text the reader was asked to read. Real transcribers don't see it, so
+   * it can't paper over words the reader skipped; the mock reads it back.
+   */
+  expectedText: string;
+}
+
+export interface SpeechToTextProvider {
+  readonly name: string;
+  transcribe(request: TranscriptionRequest): Promise<string>;
+}
+
+export type SpeechToTextProviderName = 'openai-compatible' | 'mock';
+
+export interface SpeechToTextConfig {
+  provider: SpeechToTextProviderName;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+const DEFAULT_MODELS: Record<SpeechToTextProviderName, string> = {
+  'openai-compatible': 'whisper-1',
+  'mock': 'mock-stt-v1'
+};
+
+// ISO 639-1 codes for the story languages, as transcription servers expect
+const LANGUAGE_CODES: Record<string, string> = {
+  english: 'en',
+  spanish: 'es',
+  french: 'fr',
+  german: 'de',
+  italian: 'it',
+  portuguese: 'pt',
+  dutch: 'nl',
+  russian: 'ru',
+  chinese: 'zh',
+  japanese: 'ja',
+  korean: 'ko',
+  arabic: 'ar',
+  hindi: 'hi',
+  polish: 'pl',
+  swedish: 'sv'
+};
+
+export function loadSpeechToTextConfig(): SpeechToTextConfig {
+  const provider = (Deno.env.get('STT_PROVIDER') || 'openai-compatible') as SpeechToTextProviderName;
+  if (!(provider in DEFAULT_MODELS)) {
+    throw new Error(`Unknown STT_PROVIDER: ${provider}`);
+  }
+
+  return {
+    provider,
+    model: Deno.env.get('STT_MODEL') || DEFAULT_MODELS[provider],
+    baseUrl: Deno.env.get('STT_BASE_URL') || undefined,
+    apiKey: Deno.env.get('STT_API_KEY') || undefined
+  };
+}
+
+// Any server that speaks the OpenAI /audio/transcriptions protocol
+class OpenAICompatibleTranscriber implements SpeechToTextProvider {
+  readonly name = 'OpenAI-compatible STT';
+
+  constructor(private readonly baseUrl: string, private readonly model: string, private readonly apiKey?: string) {}
+
+  async transcribe({ audio, language }: TranscriptionRequest): Promise<string> {
+    const form = new FormData();
+    form.append('file', audio, audio instanceof File ? audio.name : 'reading.webm');
+    form.append('model', this.model);
+    form.append('response_format', 'json');
+    form.append('temperature', '0');
+    const code = LANGUAGE_CODES[language];
+    if (code) form.append('language', code);
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/audio/transcriptions`, {
+      method: 'POST',
+      headers: this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {},
+      body: form
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error');
+      throw new Error(`${this.name} error (${response.status}): ${errorText}`);
+    }
+
+    const data = await response.json();
+    if (typeof data.text !== 'string') {
+      throw new Error(`${this.name} returned no transcript`);
+    }
+    return data.text;
+  }
+}
+
+/**
+ * Offline transcriber for tests and local development. It ignores the audio
+ * and returns STT_MOCK_TRANSCRIPT, or the expected text read perfectly.
+ */
+export class MockTranscriber implements SpeechToTextProvider {
+  readonly name = 'Mock STT';
+
+  constructor(private readonly fixedTranscript?: string) {}
+
+  transcribe({ expectedText }: TranscriptionRequest): Promise<string> {
+    return Promise.resolve(this.fixedTranscript ?? expectedText);
+  }
+}
+
+export function createSpeechToText(config: SpeechToTextConfig): SpeechToTextProvider {
+  switch (config.provider) {
+    case 'openai-compatible':
+      return new OpenAICompatibleTranscriber(config.baseUrl || 'https://api.openai.com/v1', config.model, config.apiKey);
+    case 'mock':
+      return new MockTranscriber(Deno.env.get('STT_MOCK_TRANSCRIPT') || undefined);
+  }
+}
@@ -0,0 +1,28 @@
+-- Audit log of the content-safety check run on every generated story
+CREATE TABLE public.story_moderation_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  request_params JSONB NOT NULL,
+  attempt INTEGER NOT NULL DEFAULT 1,
+  decision TEXT NOT NULL CHECK (decision IN ('approved', 'regenerated', 'blocked')),
+  flags JSONB NOT NULL DEFAULT '[]'::jsonb,
+  classifier TEXT,
+  classifier_error TEXT,
+  story_title TEXT NOT NULL,
+  story_content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security. There are no policies: rows are written by the
+-- generate-story edge function with the service role and are only readable by it.
+ALTER TABLE public.story_moderation_events ENABLE ROW LEVEL SECURITY;
+
+-- Create index for per-user audit lookups
+CREATE INDEX idx_story_moderation_events_user_created ON public.story_moderation_events(user_id, created_at DESC);
+
+-- Create index for reviewing flagged stories
+CREATE INDEX idx_story_moderation_events_flagged ON public.story_moderation_events(created_at DESC)
+WHERE decision <> 'approved';
+
+COMMENT ON TABLE public.story_moderation_events IS
+'One row per moderation check. A story that fails is regenerated once (decision = regenerated) and blocked if it fails again.';
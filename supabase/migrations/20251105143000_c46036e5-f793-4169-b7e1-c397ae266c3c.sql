@@ -0,0 +1,51 @@
+-- Create generated_stories table: every story returned by generate-story,
+-- with the request that produced it and the model that wrote it
+CREATE TABLE public.generated_stories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  paragraphs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  characters JSONB NOT NULL DEFAULT '[]'::jsonb,
+  summary TEXT,
+  reading_level TEXT NOT NULL,
+  interest_level TEXT NOT NULL,
+  theme TEXT NOT NULL,
+  language TEXT NOT NULL,
+  length TEXT NOT NULL,
+  request_params JSONB NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  total_tokens INTEGER,
+  readability JSONB,
+  sight_words JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.generated_stories ENABLE ROW LEVEL SECURITY;
+
+-- Stories are written by the generate-story edge function with the service role;
+-- users can read and remove their own history
+CREATE POLICY "Users can view their own generated stories"
+ON public.generated_stories
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own generated stories"
+ON public.generated_stories
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create indexes for the history list and its filters
+CREATE INDEX idx_generated_stories_user_created ON public.generated_stories(user_id, created_at DESC);
+CREATE INDEX idx_generated_stories_user_filters ON public.generated_stories(user_id, reading_level, theme, language);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_generated_stories_updated_at
+BEFORE UPDATE ON public.generated_stories
+FOR EACH ROW
+EXECUTE FUNCTION public.update_modified_column();
@@ -0,0 +1,13 @@
+-- Track revisions ("shorter", "change the ending"...) as versions of the same story.
+-- Every version points at the first one; the first has no root of its own.
+ALTER TABLE public.generated_stories
+ADD COLUMN root_story_id UUID REFERENCES public.generated_stories(id) ON DELETE CASCADE,
+ADD COLUMN version INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN revision_action TEXT CHECK (revision_action IN ('regenerate', 'shorter', 'simpler', 'more-dialogue', 'new-ending'));
+
+-- Create index for loading the versions of a story
+CREATE INDEX idx_generated_stories_root ON public.generated_stories(root_story_id, version)
+WHERE root_story_id IS NOT NULL;
+
+COMMENT ON COLUMN public.generated_stories.root_story_id IS
+'The first version of this story. NULL for original stories.';
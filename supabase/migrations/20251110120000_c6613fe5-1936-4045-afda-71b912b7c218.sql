@@ -0,0 +1,54 @@
+-- Create story_series table: the story bible for a multi-chapter series
+CREATE TABLE public.story_series (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  title TEXT NOT NULL,
+  setting TEXT NOT NULL DEFAULT '',
+  characters JSONB NOT NULL DEFAULT '[]'::jsonb,
+  running_summary TEXT NOT NULL DEFAULT '',
+  request_params JSONB NOT NULL,
+  chapter_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.story_series ENABLE ROW LEVEL SECURITY;
+
+-- The bible is maintained by the generate-story edge function; users can
+-- read, rename and delete their own series
+CREATE POLICY "Users can view their own story series"
+ON public.story_series
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own story series"
+ON public.story_series
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own story series"
+ON public.story_series
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_story_series_user_updated ON public.story_series(user_id, updated_at DESC);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_story_series_updated_at
+BEFORE UPDATE ON public.story_series
+FOR EACH ROW
+EXECUTE FUNCTION public.update_modified_column();
+
+-- Chapters of a series are kept with the user's saved stories
+ALTER TABLE public.favorite_stories
+ADD COLUMN series_id UUID REFERENCES public.story_series(id) ON DELETE CASCADE,
+ADD COLUMN chapter_number INTEGER;
+
+ALTER TABLE public.favorite_stories
+ADD CONSTRAINT favorite_stories_chapter_check
+CHECK ((series_id IS NULL) = (chapter_number IS NULL));
+
+CREATE UNIQUE INDEX idx_favorite_stories_series_chapter ON public.favorite_stories(series_id, chapter_number)
+WHERE series_id IS NOT NULL;
@@ -0,0 +1,50 @@
+-- Create child_profiles table: the readers a parent creates stories for
+CREATE TABLE public.child_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 40),
+  pronouns TEXT CHECK (char_length(pronouns) <= 20),
+  age INTEGER CHECK (age BETWEEN 2 AND 18),
+  interests TEXT[] NOT NULL DEFAULT '{}',
+  favorite_animal TEXT CHECK (char_length(favorite_animal) <= 40),
+  reading_level TEXT,
+  -- Details the parent has opted in to sharing with the story model.
+  -- Nothing outside this list is ever included in a prompt.
+  shared_fields TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (shared_fields <@ ARRAY['name', 'pronouns', 'age', 'interests', 'favorite_animal']::TEXT[]),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.child_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for RLS
+CREATE POLICY "Users can view their own child profiles"
+  ON public.child_profiles
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own child profiles"
+  ON public.child_profiles
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own child profiles"
+  ON public.child_profiles
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own child profiles"
+  ON public.child_profiles
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_child_profiles_user ON public.child_profiles(user_id);
+
+-- Create trigger to update the updated_at column
+CREATE TRIGGER update_child_profiles_updated_at
+  BEFORE UPDATE ON public.child_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_modified_column();
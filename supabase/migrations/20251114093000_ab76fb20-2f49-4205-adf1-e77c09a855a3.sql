@@ -0,0 +1,172 @@
+-- Move sight words from one words_objects array per user to named word lists,
+-- optionally tied to a child profile, with one row per word and its mastery state
+
+CREATE TABLE public.sight_word_lists (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL for lists shared by every reader on the account
+  child_profile_id UUID REFERENCES public.child_profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.sight_word_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  list_id UUID NOT NULL REFERENCES public.sight_word_lists(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  word TEXT NOT NULL CHECK (char_length(word) BETWEEN 1 AND 40),
+  active BOOLEAN NOT NULL DEFAULT true,
+  mastery TEXT NOT NULL DEFAULT 'new' CHECK (mastery IN ('new', 'practicing', 'mastered')),
+  times_seen INTEGER NOT NULL DEFAULT 0,
+  times_practiced INTEGER NOT NULL DEFAULT 0,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  last_practiced_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.sight_word_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sight_word_entries ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for RLS
+CREATE POLICY "Users can view their own sight word lists"
+  ON public.sight_word_lists
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own sight word lists"
+  ON public.sight_word_lists
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      child_profile_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.child_profiles
+        WHERE child_profiles.id = child_profile_id AND child_profiles.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can update their own sight word lists"
+  ON public.sight_word_lists
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      child_profile_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.child_profiles
+        WHERE child_profiles.id = child_profile_id AND child_profiles.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete their own sight word lists"
+  ON public.sight_word_lists
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own sight word entries"
+  ON public.sight_word_entries
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own sight word entries"
+  ON public.sight_word_entries
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.sight_word_lists
+      WHERE sight_word_lists.id = list_id AND sight_word_lists.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own sight word entries"
+  ON public.sight_word_entries
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own sight word entries"
+  ON public.sight_word_entries
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_sight_word_lists_user ON public.sight_word_lists(user_id);
+CREATE INDEX idx_sight_word_lists_child_profile ON public.sight_word_lists(child_profile_id);
+CREATE INDEX idx_sight_word_entries_user ON public.sight_word_entries(user_id);
+-- A word appears once per list, whatever its case
+CREATE UNIQUE INDEX idx_sight_word_entries_list_word ON public.sight_word_entries(list_id, lower(word));
+
+-- Create triggers to update the updated_at column
+CREATE TRIGGER update_sight_word_lists_updated_at
+  BEFORE UPDATE ON public.sight_word_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_modified_column();
+
+CREATE TRIGGER update_sight_word_entries_updated_at
+  BEFORE UPDATE ON public.sight_word_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_modified_column();
+
+-- Count a story's sight words as seen, moving new words on to practicing.
+-- Called by generate-story after a story is saved.
+CREATE OR REPLACE FUNCTION record_sight_words_seen(p_user_id UUID, p_list_id UUID, p_words TEXT[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE sight_word_entries
+  SET times_seen = times_seen + 1,
+      last_seen_at = now(),
+      mastery = CASE WHEN mastery = 'new' THEN 'practicing' ELSE mastery END
+  WHERE list_id = p_list_id
+    AND user_id = p_user_id
+    AND lower(word) = ANY (SELECT lower(unnest(p_words)));
+END;
+$$;
+
+-- Only the edge function (service role) may record for an arbitrary user
+REVOKE EXECUTE ON FUNCTION record_sight_words_seen(UUID, UUID, TEXT[]) FROM PUBLIC, anon, authenticated;
+
+-- Migrate existing words: each user's words_objects array becomes a list
+-- named "My Words" that is shared by every reader on the account
+CREATE OR REPLACE FUNCTION migrate_sight_words_to_lists()
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    rec RECORD;
+    new_list_id UUID;
+BEGIN
+    FOR rec IN SELECT user_id, words_objects FROM sight_words WHERE cardinality(words_objects) > 0 LOOP
+        INSERT INTO sight_word_lists (user_id, name)
+        VALUES (rec.user_id, 'My Words')
+        RETURNING id INTO new_list_id;
+
+        -- Keep the first spelling of any word that was stored twice
+        INSERT INTO sight_word_entries (list_id, user_id, word, active)
+        SELECT DISTINCT ON (lower(trim(obj->>'word')))
+               new_list_id, rec.user_id, left(trim(obj->>'word'), 40), COALESCE((obj->>'active')::BOOLEAN, true)
+        FROM unnest(rec.words_objects) WITH ORDINALITY AS entries(obj, position)
+        WHERE trim(COALESCE(obj->>'word', '')) <> ''
+        ORDER BY lower(trim(obj->>'word')), position;
+    END LOOP;
+END;
+$$;
+
+-- Run the migration
+SELECT migrate_sight_words_to_lists();
+
+-- Drop the migration function as it's no longer needed
+DROP FUNCTION migrate_sight_words_to_lists();
+
+-- The old table is no longer read or written; it is kept so this migration can be checked
+COMMENT ON TABLE public.sight_words IS 'Deprecated: replaced by sight_word_lists and sight_word_entries';
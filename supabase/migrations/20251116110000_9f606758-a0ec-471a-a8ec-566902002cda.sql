@@ -0,0 +1,16 @@
+-- Enforce the free-tier sight word limit on the server.
+-- Whether an account is Unlimited is decided by check-subscription (Stripe,
+-- always_unlim and trial codes), which the database cannot see, so new words
+-- may only be added through the add-sight-words edge function. It applies the
+-- limit and writes with the service role, which bypasses these restrictions.
+
+DROP POLICY "Users can create their own sight word entries" ON public.sight_word_entries;
+REVOKE INSERT ON public.sight_word_entries FROM anon, authenticated;
+
+-- Editing a word may change whether it is active or how well it is known,
+-- but not which list or account it belongs to
+REVOKE UPDATE ON public.sight_word_entries FROM anon, authenticated;
+GRANT UPDATE (active, mastery, times_practiced, last_practiced_at) ON public.sight_word_entries TO authenticated;
+
+-- The old single-row table could be given any number of words directly
+REVOKE INSERT, UPDATE ON public.sight_words FROM anon, authenticated;
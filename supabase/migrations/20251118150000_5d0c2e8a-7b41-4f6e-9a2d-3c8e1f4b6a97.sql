@@ -0,0 +1,98 @@
+-- Sight word practice games (flashcards, find the word, matching).
+-- Every answer is kept as a practice event and rolled up into the word's
+-- mastery statistics. Events carry an id generated on the device, so results
+-- recorded offline can be sent again after a failed sync without counting twice.
+
+ALTER TABLE public.sight_word_entries
+  ADD COLUMN times_correct INTEGER NOT NULL DEFAULT 0,
+  -- Correct answers in a row; reset by a wrong one
+  ADD COLUMN practice_streak INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE public.sight_word_practice_events (
+  id UUID NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  entry_id UUID NOT NULL REFERENCES public.sight_word_entries(id) ON DELETE CASCADE,
+  game TEXT NOT NULL CHECK (game IN ('flashcards', 'find-the-word', 'matching')),
+  correct BOOLEAN NOT NULL,
+  -- How long the reader took to answer, for timed games
+  response_ms INTEGER CHECK (response_ms >= 0),
+  practiced_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.sight_word_practice_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are only written by record_sight_word_practice
+CREATE POLICY "Users can view their own sight word practice events"
+  ON public.sight_word_practice_events
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_sight_word_practice_events_user ON public.sight_word_practice_events(user_id);
+CREATE INDEX idx_sight_word_practice_events_entry ON public.sight_word_practice_events(entry_id);
+
+-- Record a batch of practice answers for the signed-in user, oldest first.
+-- A word moves from new to practicing when it is first practiced, becomes
+-- mastered after 5 correct answers in a row and drops back to practicing when
+-- a mastered word is missed. Events already recorded and words that no longer
+-- exist are skipped. Returns the number of events recorded.
+CREATE OR REPLACE FUNCTION record_sight_word_practice(p_results JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_result RECORD;
+  v_recorded INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR v_result IN
+    SELECT *
+    FROM jsonb_to_recordset(p_results)
+      AS r(id UUID, entry_id UUID, game TEXT, correct BOOLEAN, response_ms INTEGER, practiced_at TIMESTAMP WITH TIME ZONE)
+    ORDER BY practiced_at
+  LOOP
+    INSERT INTO sight_word_practice_events (id, user_id, entry_id, game, correct, response_ms, practiced_at)
+    SELECT v_result.id, v_user_id, v_result.entry_id, v_result.game, v_result.correct, v_result.response_ms,
+           LEAST(v_result.practiced_at, now())
+    WHERE EXISTS (
+      SELECT 1 FROM sight_word_entries
+      WHERE sight_word_entries.id = v_result.entry_id AND sight_word_entries.user_id = v_user_id
+    )
+    ON CONFLICT (id) DO NOTHING;
+
+    IF FOUND THEN
+      UPDATE sight_word_entries
+      SET times_practiced = times_practiced + 1,
+          times_correct = times_correct + CASE WHEN v_result.correct THEN 1 ELSE 0 END,
+          practice_streak = CASE WHEN v_result.correct THEN practice_streak + 1 ELSE 0 END,
+          last_practiced_at = GREATEST(last_practiced_at, LEAST(v_result.practiced_at, now())),
+          mastery = CASE
+            WHEN v_result.correct AND practice_streak + 1 >= 5 THEN 'mastered'
+            WHEN NOT v_result.correct AND mastery = 'mastered' THEN 'practicing'
+            WHEN mastery = 'new' THEN 'practicing'
+            ELSE mastery
+          END
+      WHERE id = v_result.entry_id;
+
+      v_recorded := v_recorded + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_recorded;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_sight_word_practice(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_sight_word_practice(JSONB) TO authenticated;
+
+-- Practice counts now come from record_sight_word_practice; a parent can
+-- still set a word's mastery by hand
+REVOKE UPDATE ON public.sight_word_entries FROM authenticated;
+GRANT UPDATE (active, mastery) ON public.sight_word_entries TO authenticated;
@@ -0,0 +1,12 @@
+-- Remember which language a saved story is written in, so read-aloud can
+-- pick a matching voice
+
+ALTER TABLE public.favorite_stories
+  ADD COLUMN language TEXT NOT NULL DEFAULT 'english';
+
+-- Series chapters were written in the language of their series
+UPDATE public.favorite_stories
+SET language = story_series.request_params->>'language'
+FROM public.story_series
+WHERE favorite_stories.series_id = story_series.id
+  AND story_series.request_params->>'language' IS NOT NULL;
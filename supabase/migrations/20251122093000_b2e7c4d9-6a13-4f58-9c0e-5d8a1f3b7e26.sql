@@ -0,0 +1,58 @@
+-- Oral reading fluency sessions: a reader records themselves reading a story
+-- aloud and the score-reading edge function transcribes the recording, lines
+-- it up with the story text and stores the words correct per minute (WCPM)
+-- and the miscues. Sessions are written by the edge function only, so scores
+-- can't be edited from the client.
+
+CREATE TABLE public.reading_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- The reader; sessions for "anyone" have no profile
+  child_profile_id UUID REFERENCES public.child_profiles(id) ON DELETE CASCADE,
+  story_id UUID REFERENCES public.generated_stories(id) ON DELETE SET NULL,
+  story_title TEXT NOT NULL,
+  language TEXT NOT NULL DEFAULT 'english',
+  duration_ms INTEGER NOT NULL CHECK (duration_ms > 0),
+  -- Story words up to the last one the reader reached
+  words_attempted INTEGER NOT NULL CHECK (words_attempted >= 0),
+  words_correct INTEGER NOT NULL CHECK (words_correct >= 0),
+  wcpm NUMERIC(6, 1) NOT NULL,
+  accuracy NUMERIC(4, 3) NOT NULL,
+  -- [{ "type": "substitution" | "omission" | "insertion", "position", "expected", "spoken" }]
+  miscues JSONB NOT NULL DEFAULT '[]'::jsonb,
+  transcript TEXT NOT NULL,
+  -- Only set when the parent chose to keep the recording in their account;
+  -- otherwise the audio stays on the device it was recorded on
+  audio_path TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.reading_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reading sessions"
+  ON public.reading_sessions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own reading sessions"
+  ON public.reading_sessions
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_reading_sessions_user_child ON public.reading_sessions(user_id, child_profile_id, created_at DESC);
+
+-- Recordings parents opted to keep, stored under <user id>/<session id>.<ext>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('reading-recordings', 'reading-recordings', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view their own reading recordings"
+  ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'reading-recordings' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own reading recordings"
+  ON storage.objects
+  FOR DELETE
+  USING (bucket_id = 'reading-recordings' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,47 @@
+-- Comprehension quizzes: generate-story can follow a story with 3-5
+-- multiple-choice questions (literal, inferential and vocabulary) with an
+-- answer key. The questions are kept with the story in the history and with
+-- favorites, so a story can be quizzed again whenever it is re-read.
+
+-- [{ "kind": "literal" | "inferential" | "vocabulary", "question", "choices": [...], "answerIndex" }]
+ALTER TABLE public.generated_stories
+  ADD COLUMN questions JSONB;
+
+ALTER TABLE public.favorite_stories
+  ADD COLUMN questions JSONB;
+
+-- One finished quiz: which choice was picked for each question
+CREATE TABLE public.quiz_results (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- The reader who took the quiz, when one was chosen
+  child_profile_id UUID REFERENCES public.child_profiles(id) ON DELETE CASCADE,
+  story_id UUID REFERENCES public.generated_stories(id) ON DELETE SET NULL,
+  favorite_story_id UUID REFERENCES public.favorite_stories(id) ON DELETE SET NULL,
+  story_title TEXT NOT NULL,
+  score INTEGER NOT NULL CHECK (score >= 0),
+  total INTEGER NOT NULL CHECK (total > 0 AND score <= total),
+  -- [{ "kind", "question", "chosenIndex", "correct" }]
+  answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.quiz_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own quiz results"
+  ON public.quiz_results
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own quiz results"
+  ON public.quiz_results
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own quiz results"
+  ON public.quiz_results
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_quiz_results_user ON public.quiz_results(user_id, created_at DESC);
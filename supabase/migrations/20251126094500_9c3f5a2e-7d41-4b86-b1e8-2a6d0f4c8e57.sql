@@ -0,0 +1,69 @@
+-- Illustrated stories: generate-story can split a story into picture book
+-- pages, write an image prompt for each (shared style and character looks so
+-- the pages match) and draw them with a pluggable image backend. Pictures are
+-- an Unlimited feature with their own daily quota, separate from the story
+-- limit.
+
+-- { "style", "pages": [{ "start", "end", "prompt", "imagePath" }] }
+ALTER TABLE public.generated_stories
+  ADD COLUMN illustrations JSONB;
+
+ALTER TABLE public.favorite_stories
+  ADD COLUMN illustrations JSONB;
+
+ALTER TABLE public.user_limits
+  ADD COLUMN daily_images_used INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN last_image_reset_date DATE NOT NULL DEFAULT CURRENT_DATE;
+
+-- Atomically take p_count images from today's quota, starting a new day's
+-- count when p_today has moved on. Returns false (and takes nothing) when
+-- there aren't enough left.
+CREATE OR REPLACE FUNCTION public.reserve_story_images(p_user_id UUID, p_count INTEGER, p_limit INTEGER, p_today DATE)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE user_limits
+  SET daily_images_used = 0,
+      last_image_reset_date = p_today
+  WHERE user_id = p_user_id
+    AND last_image_reset_date <> p_today;
+
+  UPDATE user_limits
+  SET daily_images_used = daily_images_used + p_count
+  WHERE user_id = p_user_id
+    AND daily_images_used + p_count <= p_limit;
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Give back images that were reserved but could not be drawn
+CREATE OR REPLACE FUNCTION public.release_story_images(p_user_id UUID, p_count INTEGER)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE user_limits
+  SET daily_images_used = GREATEST(daily_images_used - p_count, 0)
+  WHERE user_id = p_user_id;
+END;
+$$;
+
+-- Only generate-story (with the service role) moves the image quota
+REVOKE EXECUTE ON FUNCTION public.reserve_story_images(UUID, INTEGER, INTEGER, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_story_images(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Pictures are written by generate-story into a folder named after the user
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('story-illustrations', 'story-illustrations', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view their own story illustrations"
+  ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'story-illustrations' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,12 @@
+-- Picture book page view: stories can be read a page at a time, and a saved
+-- favorite reopens on the page the reader last turned to.
+
+ALTER TABLE public.favorite_stories
+  ADD COLUMN last_page INTEGER NOT NULL DEFAULT 0 CHECK (last_page >= 0);
+
+-- Favorites were never edited before, so there was no update policy
+CREATE POLICY "Users can update their own favorite stories"
+  ON public.favorite_stories
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
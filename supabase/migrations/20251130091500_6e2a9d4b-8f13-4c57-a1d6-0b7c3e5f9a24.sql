@@ -0,0 +1,11 @@
+-- Bilingual stories: generate-story can pair every sentence of a story with
+-- its translation in a second language, for families reading in two
+-- languages. The story itself (and its sight word coverage) stays in the
+-- language it was written in; the pairs are kept with the story.
+
+-- { "secondaryLanguage", "title", "paragraphs": [[{ "primary", "secondary" }]] }
+ALTER TABLE public.generated_stories
+  ADD COLUMN bilingual JSONB;
+
+ALTER TABLE public.favorite_stories
+  ADD COLUMN bilingual JSONB;
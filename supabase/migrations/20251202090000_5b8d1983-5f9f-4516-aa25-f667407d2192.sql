@@ -0,0 +1,9 @@
+-- Moderation audit rows keep the story text and the request it was written
+-- for, which can include a child's name. Remove them with the account like the
+-- rest of the user's data.
+DELETE FROM public.story_moderation_events
+WHERE user_id NOT IN (SELECT id FROM auth.users);
+
+ALTER TABLE public.story_moderation_events
+  ADD CONSTRAINT story_moderation_events_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
@@ -0,0 +1,5 @@
+-- A series' request_params are the parameters every new chapter is written
+-- with, and the bible is maintained by generate-story. Users may rename their
+-- series but not change anything else about it.
+REVOKE UPDATE ON public.story_series FROM anon, authenticated;
+GRANT UPDATE (title) ON public.story_series TO authenticated;
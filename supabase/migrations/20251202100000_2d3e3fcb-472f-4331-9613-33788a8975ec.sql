@@ -0,0 +1,42 @@
+-- Add words to a sight word list within the account's word limit, for the
+-- add-sight-words edge function. Counting and inserting happen under a lock on
+-- the user, so requests made at the same time cannot each see room for the
+-- same words. p_limit is NULL for Unlimited accounts. Words already in the
+-- list are skipped; the words that were added are returned.
+CREATE OR REPLACE FUNCTION public.add_sight_word_entries(
+  p_user_id UUID,
+  p_list_id UUID,
+  p_words TEXT[],
+  p_active BOOLEAN[],
+  p_limit INTEGER
+)
+RETURNS SETOF public.sight_word_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_remaining INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('sight_word_entries:' || p_user_id::text));
+
+  IF p_limit IS NOT NULL THEN
+    SELECT GREATEST(0, p_limit - count(*)) INTO v_remaining
+    FROM sight_word_entries
+    WHERE user_id = p_user_id;
+  END IF;
+
+  -- LIMIT NULL (Unlimited accounts) adds every word
+  RETURN QUERY
+  INSERT INTO sight_word_entries (list_id, user_id, word, active)
+  SELECT p_list_id, p_user_id, new_word.word, new_word.active
+  FROM unnest(p_words, p_active) WITH ORDINALITY AS new_word(word, active, position)
+  ORDER BY new_word.position
+  LIMIT v_remaining
+  ON CONFLICT (list_id, lower(word)) DO NOTHING
+  RETURNING *;
+END;
+$$;
+
+-- Only the edge function (service role) may add words for an arbitrary user
+REVOKE EXECUTE ON FUNCTION public.add_sight_word_entries(UUID, UUID, TEXT[], BOOLEAN[], INTEGER) FROM PUBLIC, anon, authenticated;
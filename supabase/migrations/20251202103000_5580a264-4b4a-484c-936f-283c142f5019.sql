@@ -0,0 +1,68 @@
+-- record_sight_word_practice now returns the ids of the results it is done
+-- with, so the app only removes those from its queue. A result is done once
+-- it has been recorded (now or earlier) or its word no longer exists. Results
+-- for a word on another account are left out, to be sent again by the account
+-- they were practiced on.
+DROP FUNCTION record_sight_word_practice(JSONB);
+
+CREATE FUNCTION record_sight_word_practice(p_results JSONB)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_result RECORD;
+  v_done UUID[] := '{}';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR v_result IN
+    SELECT *
+    FROM jsonb_to_recordset(p_results)
+      AS r(id UUID, entry_id UUID, game TEXT, correct BOOLEAN, response_ms INTEGER, practiced_at TIMESTAMP WITH TIME ZONE)
+    ORDER BY practiced_at
+  LOOP
+    INSERT INTO sight_word_practice_events (id, user_id, entry_id, game, correct, response_ms, practiced_at)
+    SELECT v_result.id, v_user_id, v_result.entry_id, v_result.game, v_result.correct, v_result.response_ms,
+           LEAST(v_result.practiced_at, now())
+    WHERE EXISTS (
+      SELECT 1 FROM sight_word_entries
+      WHERE sight_word_entries.id = v_result.entry_id AND sight_word_entries.user_id = v_user_id
+    )
+    ON CONFLICT (id) DO NOTHING;
+
+    IF FOUND THEN
+      UPDATE sight_word_entries
+      SET times_practiced = times_practiced + 1,
+          times_correct = times_correct + CASE WHEN v_result.correct THEN 1 ELSE 0 END,
+          practice_streak = CASE WHEN v_result.correct THEN practice_streak + 1 ELSE 0 END,
+          last_practiced_at = GREATEST(last_practiced_at, LEAST(v_result.practiced_at, now())),
+          mastery = CASE
+            WHEN v_result.correct AND practice_streak + 1 >= 5 THEN 'mastered'
+            WHEN NOT v_result.correct AND mastery = 'mastered' THEN 'practicing'
+            WHEN mastery = 'new' THEN 'practicing'
+            ELSE mastery
+          END
+      WHERE id = v_result.entry_id;
+
+      v_done := v_done || v_result.id;
+    ELSIF EXISTS (
+      SELECT 1 FROM sight_word_practice_events
+      WHERE id = v_result.id AND user_id = v_user_id
+    ) OR NOT EXISTS (
+      SELECT 1 FROM sight_word_entries WHERE id = v_result.entry_id
+    ) THEN
+      v_done := v_done || v_result.id;
+    END IF;
+  END LOOP;
+
+  RETURN v_done;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_sight_word_practice(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_sight_word_practice(JSONB) TO authenticated;
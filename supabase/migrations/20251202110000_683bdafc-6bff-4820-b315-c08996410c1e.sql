@@ -0,0 +1,43 @@
+-- Word definitions that the app's offline dictionary doesn't have are written
+-- by the model in define-word, so each account gets a daily allowance of them.
+ALTER TABLE public.user_limits
+  ADD COLUMN daily_definitions_used INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN last_definition_reset_date DATE NOT NULL DEFAULT CURRENT_DATE;
+
+-- The counters in user_limits are only moved by the edge functions, through
+-- the functions below and those for stories and pictures; users could
+-- otherwise reset their own daily counts
+DROP POLICY "Users can update their own limits" ON public.user_limits;
+DROP POLICY "Users can insert their own limits" ON public.user_limits;
+REVOKE INSERT, UPDATE ON public.user_limits FROM anon, authenticated;
+
+-- Atomically take one definition from today's allowance, starting a new day's
+-- count when p_today has moved on. Returns false when none are left.
+CREATE OR REPLACE FUNCTION public.reserve_word_definition(p_user_id UUID, p_limit INTEGER, p_today DATE)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO user_limits (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  UPDATE user_limits
+  SET daily_definitions_used = 0,
+      last_definition_reset_date = p_today
+  WHERE user_id = p_user_id
+    AND last_definition_reset_date <> p_today;
+
+  UPDATE user_limits
+  SET daily_definitions_used = daily_definitions_used + 1
+  WHERE user_id = p_user_id
+    AND daily_definitions_used < p_limit;
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Only define-word (with the service role) moves the definition allowance
+REVOKE EXECUTE ON FUNCTION public.reserve_word_definition(UUID, INTEGER, DATE) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,51 @@
+-- Every reading check sends its recording to the paid speech-to-text backend,
+-- so each account gets a daily number of them, like pictures.
+ALTER TABLE public.user_limits
+  ADD COLUMN daily_readings_used INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN last_reading_reset_date DATE NOT NULL DEFAULT CURRENT_DATE;
+
+-- Atomically take one reading check from today's allowance, starting a new
+-- day's count when p_today has moved on. Returns false when none are left.
+CREATE OR REPLACE FUNCTION public.reserve_reading_check(p_user_id UUID, p_limit INTEGER, p_today DATE)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO user_limits (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  UPDATE user_limits
+  SET daily_readings_used = 0,
+      last_reading_reset_date = p_today
+  WHERE user_id = p_user_id
+    AND last_reading_reset_date <> p_today;
+
+  UPDATE user_limits
+  SET daily_readings_used = daily_readings_used + 1
+  WHERE user_id = p_user_id
+    AND daily_readings_used < p_limit;
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Give back a reading check whose recording could not be transcribed
+CREATE OR REPLACE FUNCTION public.release_reading_check(p_user_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE user_limits
+  SET daily_readings_used = GREATEST(daily_readings_used - 1, 0)
+  WHERE user_id = p_user_id;
+END;
+$$;
+
+-- Only score-reading (with the service role) moves the reading check allowance
+REVOKE EXECUTE ON FUNCTION public.reserve_reading_check(UUID, INTEGER, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_reading_check(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,4 @@
+-- The update policy on favorite_stories is only there so a reader's page can
+-- be remembered; everything else about a saved story stays as it was saved
+REVOKE UPDATE ON public.favorite_stories FROM anon, authenticated;
+GRANT UPDATE (last_page) ON public.favorite_stories TO authenticated;
@@ -0,0 +1,34 @@
+-- The signed-in user's sight word lists, oldest first. An account without any
+-- lists first gets a "My Words" list shared by every reader on the account.
+-- The check and the insert happen under a lock on the user, so the app asking
+-- from several places at once still creates only one list.
+CREATE OR REPLACE FUNCTION public.get_or_create_sight_word_lists()
+RETURNS SETOF public.sight_word_lists
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('sight_word_lists:' || v_user_id::text));
+
+  IF NOT EXISTS (SELECT 1 FROM sight_word_lists WHERE user_id = v_user_id) THEN
+    INSERT INTO sight_word_lists (user_id, name)
+    VALUES (v_user_id, 'My Words');
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM sight_word_lists
+  WHERE user_id = v_user_id
+  ORDER BY created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_or_create_sight_word_lists() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_or_create_sight_word_lists() TO authenticated;
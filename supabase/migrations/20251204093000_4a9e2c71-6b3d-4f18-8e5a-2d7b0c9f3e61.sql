@@ -0,0 +1,49 @@
+-- add_sight_word_entries applied the word limit before skipping the words
+-- already in the list, so they used up room meant for new words. Words that
+-- are already in the list, or repeated in the request, are now left out before
+-- the limit is applied.
+CREATE OR REPLACE FUNCTION public.add_sight_word_entries(
+  p_user_id UUID,
+  p_list_id UUID,
+  p_words TEXT[],
+  p_active BOOLEAN[],
+  p_limit INTEGER
+)
+RETURNS SETOF public.sight_word_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_remaining INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('sight_word_entries:' || p_user_id::text));
+
+  IF p_limit IS NOT NULL THEN
+    SELECT GREATEST(0, p_limit - count(*)) INTO v_remaining
+    FROM sight_word_entries
+    WHERE user_id = p_user_id;
+  END IF;
+
+  -- LIMIT NULL (Unlimited accounts) adds every word
+  RETURN QUERY
+  INSERT INTO sight_word_entries (list_id, user_id, word, active)
+  SELECT p_list_id, p_user_id, new_word.word, new_word.active
+  FROM (
+    SELECT DISTINCT ON (lower(requested.word)) requested.word, requested.active, requested.position
+    FROM unnest(p_words, p_active) WITH ORDINALITY AS requested(word, active, position)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM sight_word_entries existing
+      WHERE existing.list_id = p_list_id AND lower(existing.word) = lower(requested.word)
+    )
+    ORDER BY lower(requested.word), requested.position
+  ) AS new_word
+  ORDER BY new_word.position
+  LIMIT v_remaining
+  ON CONFLICT (list_id, lower(word)) DO NOTHING
+  RETURNING *;
+END;
+$$;
+
+-- Only the edge function (service role) may add words for an arbitrary user
+REVOKE EXECUTE ON FUNCTION public.add_sight_word_entries(UUID, UUID, TEXT[], BOOLEAN[], INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,18 @@
+-- Give back a definition reserved with reserve_word_definition when
+-- define-word could not write one or it failed moderation, so only the
+-- definitions shown count against the allowance
+CREATE OR REPLACE FUNCTION public.release_word_definition(p_user_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE user_limits
+  SET daily_definitions_used = GREATEST(daily_definitions_used - 1, 0)
+  WHERE user_id = p_user_id;
+END;
+$$;
+
+-- Only define-word (with the service role) moves the definition allowance
+REVOKE EXECUTE ON FUNCTION public.release_word_definition(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,32 @@
+-- Quiz results could be recorded against another account's reader or story,
+-- since only user_id was checked. The reader, story and favorite a result
+-- points to must now belong to the same account.
+DROP POLICY "Users can create their own quiz results" ON public.quiz_results;
+
+CREATE POLICY "Users can create their own quiz results"
+  ON public.quiz_results
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      child_profile_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.child_profiles
+        WHERE child_profiles.id = child_profile_id AND child_profiles.user_id = auth.uid()
+      )
+    )
+    AND (
+      story_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.generated_stories
+        WHERE generated_stories.id = story_id AND generated_stories.user_id = auth.uid()
+      )
+    )
+    AND (
+      favorite_story_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.favorite_stories
+        WHERE favorite_stories.id = favorite_story_id AND favorite_stories.user_id = auth.uid()
+      )
+    )
+  );
@@ -0,0 +1,16 @@
+-- Favorites keep the story's sight word coverage, like its quiz and pictures,
+-- so a saved story or series chapter can be printed with the same sight
+-- words (and their inflected spellings) in bold as when it was first shown.
+
+-- { "coverage", "occurrences": [{ "word", "count", "forms" }], "missing" }
+ALTER TABLE public.favorite_stories
+  ADD COLUMN sight_words JSONB;
+
+-- Favorites saved so far are copies of generated stories
+UPDATE public.favorite_stories
+SET sight_words = generated_stories.sight_words
+FROM public.generated_stories
+WHERE generated_stories.user_id = favorite_stories.user_id
+  AND generated_stories.title = favorite_stories.title
+  AND generated_stories.content = favorite_stories.content
+  AND generated_stories.sight_words IS NOT NULL;